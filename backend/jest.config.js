@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  transform: {
+    // Type errors are reported for the tests themselves; the source is checked by tsc
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { exclude: ['**/src/**'] } }],
+  },
+};
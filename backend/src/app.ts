@@ -5,8 +5,13 @@ import morgan from 'morgan';
 import cookieParser from 'cookie-parser';
 import rateLimit from 'express-rate-limit';
 
-import { env, isDevelopment, connectDatabase } from './config';
+import { env, isDevelopment, isTest, connectDatabase } from './config';
 import { errorHandler } from './middleware';
+import { scheduleJob } from './utils';
+import { recurringService } from './modules/recurring/recurring.service';
+import { journalService } from './modules/journal/journal.service';
+import { emailService } from './modules/email/email.service';
+import { dunningService } from './modules/dunning/dunning.service';
 
 // Import routes
 import authRoutes from './modules/auth/auth.routes';
@@ -16,11 +21,26 @@ import accountRoutes from './modules/accounts/account.routes';
 import journalRoutes from './modules/journal/journal.routes';
 import customerRoutes from './modules/customers/customer.routes';
 import vendorRoutes from './modules/vendors/vendor.routes';
+import productRoutes from './modules/products/product.routes';
+import inventoryRoutes from './modules/inventory/inventory.routes';
 import invoiceRoutes from './modules/invoices/invoice.routes';
 import billRoutes from './modules/bills/bill.routes';
 import customerPaymentRoutes from './modules/payments/customerPayment.routes';
 import billPaymentRoutes from './modules/payments/billPayment.routes';
+import creditMemoRoutes from './modules/credits/creditMemo.routes';
+import customerRefundRoutes from './modules/credits/customerRefund.routes';
 import bankingRoutes from './modules/banking/banking.routes';
+import bankRuleRoutes from './modules/banking/bankRule.routes';
+import transferRoutes from './modules/banking/transfer.routes';
+import depositRoutes from './modules/banking/deposit.routes';
+import taxRoutes from './modules/tax/tax.routes';
+import auditRoutes from './modules/audit/audit.routes';
+import periodRoutes from './modules/periods/period.routes';
+import recurringRoutes from './modules/recurring/recurring.routes';
+import currencyRoutes from './modules/currency/currency.routes';
+import emailRoutes from './modules/email/email.routes';
+import dunningRoutes from './modules/dunning/dunning.routes';
+import statementRoutes from './modules/statements/statement.routes';
 import reportRoutes from './modules/reports/report.routes';
 
 const app = express();
@@ -65,11 +85,26 @@ app.use('/api/accounts', accountRoutes);
 app.use('/api/journal-entries', journalRoutes);
 app.use('/api/customers', customerRoutes);
 app.use('/api/vendors', vendorRoutes);
+app.use('/api/products', productRoutes);
+app.use('/api/inventory', inventoryRoutes);
 app.use('/api/invoices', invoiceRoutes);
 app.use('/api/bills', billRoutes);
 app.use('/api/customer-payments', customerPaymentRoutes);
 app.use('/api/bill-payments', billPaymentRoutes);
+app.use('/api/credit-memos', creditMemoRoutes);
+app.use('/api/customer-refunds', customerRefundRoutes);
 app.use('/api/bank-accounts', bankingRoutes);
+app.use('/api/bank-rules', bankRuleRoutes);
+app.use('/api/bank-transfers', transferRoutes);
+app.use('/api/bank-deposits', depositRoutes);
+app.use('/api/tax', taxRoutes);
+app.use('/api/audit-logs', auditRoutes);
+app.use('/api/periods', periodRoutes);
+app.use('/api/recurring-templates', recurringRoutes);
+app.use('/api/currency', currencyRoutes);
+app.use('/api/email-deliveries', emailRoutes);
+app.use('/api/dunning', dunningRoutes);
+app.use('/api/statements', statementRoutes);
 app.use('/api/reports', reportRoutes);
 
 // 404 handler
@@ -92,6 +127,22 @@ async function startServer() {
     console.log(`   Environment: ${env.NODE_ENV}`);
     console.log(`   Health check: http://localhost:${env.PORT}/health`);
   });
+
+  // Background jobs
+  if (!isTest) {
+    scheduleJob('recurring templates', env.RECURRING_RUN_INTERVAL_MINUTES, () =>
+      recurringService.runDueTemplates()
+    );
+    scheduleJob('auto-reversing entries', env.REVERSAL_RUN_INTERVAL_MINUTES, () =>
+      journalService.runDueReversals()
+    );
+    scheduleJob('email deliveries', env.EMAIL_RETRY_INTERVAL_MINUTES, () =>
+      emailService.processQueued()
+    );
+    scheduleJob('overdue invoices and reminders', env.DUNNING_RUN_INTERVAL_MINUTES, () =>
+      dunningService.runDue()
+    );
+  }
 }
 
 startServer().catch(console.error);
@@ -1,12 +1,18 @@
 import { PrismaClient } from '@prisma/client';
 import { env, isDevelopment } from './env';
+import { auditExtension } from '../modules/audit/audit.extension';
+import { closingDateExtension } from '../modules/periods/period.extension';
 
-// Create Prisma client with logging in development
+// Create Prisma client with logging in development; changes made during
+// authenticated requests are written to the audit log, and journal entries
+// dated in a closed period are refused
 export const prisma = new PrismaClient({
   log: isDevelopment
     ? ['query', 'info', 'warn', 'error']
     : ['error'],
-});
+})
+  .$extends(auditExtension)
+  .$extends(closingDateExtension);
 
 // Graceful shutdown
 process.on('beforeExit', async () => {
@@ -36,6 +36,14 @@ const envSchema = z.object({
   SMTP_USER: z.string().optional(),
   SMTP_PASS: z.string().optional(),
   SMTP_FROM: z.string().email().optional(),
+  SMTP_SECURE: z.enum(['true', 'false']).transform((v) => v === 'true').optional(), // Defaults to true on port 465
+  SMTP_TIMEOUT_SECONDS: z.string().transform(Number).default('30'),
+
+  // Background jobs
+  RECURRING_RUN_INTERVAL_MINUTES: z.string().transform(Number).default('60'),
+  REVERSAL_RUN_INTERVAL_MINUTES: z.string().transform(Number).default('60'),
+  EMAIL_RETRY_INTERVAL_MINUTES: z.string().transform(Number).default('5'),
+  DUNNING_RUN_INTERVAL_MINUTES: z.string().transform(Number).default('1440'),
 
   // Redis
   REDIS_URL: z.string().url().optional(),
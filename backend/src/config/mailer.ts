@@ -0,0 +1,28 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { env } from './env';
+
+let transporter: Transporter | null = null;
+
+// SMTP transport built from the SMTP_* settings on first use; null when no
+// SMTP host is configured. Timeouts keep a stalled server from holding a
+// delivery in SENDING indefinitely
+export function getMailer(): Transporter | null {
+  if (!env.SMTP_HOST) return null;
+
+  if (!transporter) {
+    const port = env.SMTP_PORT ?? 587;
+    const timeout = env.SMTP_TIMEOUT_SECONDS * 1000;
+
+    transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ?? port === 465,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout,
+    });
+  }
+
+  return transporter;
+}
@@ -4,6 +4,8 @@ import { env } from '../config/env';
 import { prisma } from '../config/database';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors';
 import { UserRole } from '@prisma/client';
+import { auditService } from '../modules/audit/audit.service';
+import { runWithAuditContext } from '../modules/audit/audit.extension';
 
 export interface JwtPayload {
   userId: string;
@@ -55,7 +57,9 @@ export async function authenticate(
     }
 
     req.user = user;
-    next();
+
+    // Changes made while handling the request are attributed to this user
+    runWithAuditContext(auditService.contextFromRequest(req), next);
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
       next(new UnauthorizedError('Invalid token'));
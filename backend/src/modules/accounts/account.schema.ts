@@ -41,6 +41,7 @@ export const defaultChartOfAccounts = {
     { code: '1200', name: 'Savings Account', type: AccountType.ASSET, subType: AccountSubType.BANK },
     { code: '1300', name: 'Accounts Receivable', type: AccountType.ASSET, subType: AccountSubType.ACCOUNTS_RECEIVABLE, isSystemAccount: true },
     { code: '1400', name: 'Undeposited Funds', type: AccountType.ASSET, subType: AccountSubType.OTHER_ASSET, isSystemAccount: true },
+    { code: '1450', name: 'Inventory Asset', type: AccountType.ASSET, subType: AccountSubType.INVENTORY },
     { code: '1500', name: 'Prepaid Expenses', type: AccountType.ASSET, subType: AccountSubType.OTHER_ASSET },
     { code: '1600', name: 'Office Equipment', type: AccountType.ASSET, subType: AccountSubType.FIXED_ASSET },
     { code: '1650', name: 'Accumulated Depreciation - Equipment', type: AccountType.ASSET, subType: AccountSubType.FIXED_ASSET },
@@ -67,10 +68,12 @@ export const defaultChartOfAccounts = {
     { code: '4900', name: 'Other Income', type: AccountType.REVENUE, subType: AccountSubType.OTHER_INCOME },
     { code: '4910', name: 'Interest Income', type: AccountType.REVENUE, subType: AccountSubType.OTHER_INCOME },
     { code: '4920', name: 'Discounts Taken', type: AccountType.REVENUE, subType: AccountSubType.OTHER_INCOME },
+    { code: '4930', name: 'Foreign Exchange Gain/Loss', type: AccountType.REVENUE, subType: AccountSubType.OTHER_INCOME, isSystemAccount: true },
 
     // Expenses
     { code: '5000', name: 'Cost of Services', type: AccountType.EXPENSE, subType: AccountSubType.COST_OF_GOODS_SOLD },
     { code: '5100', name: 'Subcontractor Expense', type: AccountType.EXPENSE, subType: AccountSubType.COST_OF_GOODS_SOLD },
+    { code: '5200', name: 'Cost of Goods Sold', type: AccountType.EXPENSE, subType: AccountSubType.COST_OF_GOODS_SOLD },
     { code: '6000', name: 'Advertising & Marketing', type: AccountType.EXPENSE, subType: AccountSubType.EXPENSE },
     { code: '6100', name: 'Bank Charges', type: AccountType.EXPENSE, subType: AccountSubType.EXPENSE },
     { code: '6200', name: 'Depreciation Expense', type: AccountType.EXPENSE, subType: AccountSubType.EXPENSE },
@@ -0,0 +1,13 @@
+import { Response } from 'express';
+import { auditService } from './audit.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendPaginated } from '../../utils/response';
+
+export class AuditController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await auditService.getLogs(req.companyId!, req.query as any);
+    return sendPaginated(res, result.logs, result.pagination);
+  }
+}
+
+export const auditController = new AuditController();
@@ -0,0 +1,205 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditAction, Prisma } from '@prisma/client';
+import type { AuditContext } from './audit.service';
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a request handler with the user and client details that audit entries are stamped with
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return auditStorage.run(context, fn);
+}
+
+/**
+ * The context of the request being handled, if any
+ */
+export function getAuditContext(): AuditContext | undefined {
+  return auditStorage.getStore();
+}
+
+// Audited models and the relations captured alongside them in snapshots
+const AUDITED_MODELS: Partial<Record<Prisma.ModelName, object | undefined>> = {
+  Company: undefined,
+  Account: undefined,
+  JournalEntry: { lines: true },
+  Customer: undefined,
+  Vendor: undefined,
+  Product: undefined,
+  TaxRate: { components: true },
+  Invoice: { lines: true },
+  Bill: { lines: true },
+  CustomerPayment: { allocations: true },
+  CreditMemo: { lines: true, allocations: true },
+  CustomerRefund: undefined,
+  BillPayment: { allocations: true },
+  BankAccount: undefined,
+  BankTransaction: { matches: true },
+  BankTransfer: undefined,
+  BankDeposit: { otherLines: true },
+  TaxPayment: undefined,
+};
+
+// Secrets that must never be copied into the audit log
+const REDACTED_FIELDS = ['closingDatePasswordHash'];
+
+type Row = Record<string, any>;
+
+/**
+ * Records every create, update, delete and void of an audited model made while an
+ * audit context is active. createMany is not captured, since it does not return rows.
+ */
+export const auditExtension = Prisma.defineExtension((client) => {
+  const delegate = (model: Prisma.ModelName) =>
+    (client as any)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+  const snapshot = (model: Prisma.ModelName, where: object): Promise<Row | null> =>
+    delegate(model).findUnique({ where, include: AUDITED_MODELS[model] });
+
+  const snapshots = (model: Prisma.ModelName, where: object): Promise<Row[]> =>
+    delegate(model).findMany({ where, include: AUDITED_MODELS[model] });
+
+  const companyOf = async (model: Prisma.ModelName, row: Row): Promise<string | undefined> => {
+    if (model === 'Company') return row.id;
+    if (row.companyId) return row.companyId;
+
+    // Bank transactions belong to the company through their bank account
+    if (row.bankAccountId) {
+      const account = await client.bankAccount.findUnique({
+        where: { id: row.bankAccountId },
+        select: { companyId: true },
+      });
+      return account?.companyId;
+    }
+
+    return undefined;
+  };
+
+  const actionFor = (before: Row | null, after: Row | null): AuditAction => {
+    if (!before) return AuditAction.CREATE;
+    if (!after) return AuditAction.DELETE;
+
+    const voided =
+      (after.status === 'VOID' && before.status !== 'VOID') ||
+      (before.isPosted === true && after.isPosted === false);
+
+    return voided ? AuditAction.VOID : AuditAction.UPDATE;
+  };
+
+  const record = async (
+    context: AuditContext,
+    model: Prisma.ModelName,
+    changes: { before: Row | null; after: Row | null }[]
+  ) => {
+    const entries: Prisma.AuditLogCreateManyInput[] = [];
+
+    for (const { before, after } of changes) {
+      const row = after ?? before;
+      if (!row) continue;
+
+      const previousData = before ? toJson(before) : undefined;
+      const newData = after ? toJson(after) : undefined;
+
+      // Updates that change nothing are not worth a history entry
+      if (before && after && JSON.stringify(previousData) === JSON.stringify(newData)) continue;
+
+      const companyId = await companyOf(model, row);
+      if (!companyId) continue;
+
+      entries.push({
+        companyId,
+        userId: context.userId,
+        entityType: model,
+        entityId: row.id,
+        action: actionFor(before, after),
+        previousData,
+        newData,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      });
+    }
+
+    if (entries.length > 0) {
+      await client.auditLog.createMany({ data: entries });
+    }
+  };
+
+  return client.$extends({
+    name: 'audit',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const context = auditStorage.getStore();
+          const auditedModel = model as Prisma.ModelName;
+
+          if (!context || !(auditedModel in AUDITED_MODELS)) {
+            return query(args);
+          }
+
+          const { where } = args as { where?: object };
+
+          switch (operation) {
+            case 'create': {
+              const result: any = await query(args);
+              if (result?.id) {
+                const after = await snapshot(auditedModel, { id: result.id });
+                await record(context, auditedModel, [{ before: null, after }]);
+              }
+              return result;
+            }
+
+            case 'update':
+            case 'upsert':
+            case 'delete': {
+              const before = await snapshot(auditedModel, where!);
+              const result: any = await query(args);
+              const id = before?.id ?? result?.id;
+              const after =
+                operation === 'delete' || !id ? null : await snapshot(auditedModel, { id });
+              await record(context, auditedModel, [{ before, after }]);
+              return result;
+            }
+
+            case 'updateMany':
+            case 'deleteMany': {
+              const before = await snapshots(auditedModel, where ?? {});
+              const result = await query(args);
+              const after =
+                operation === 'deleteMany'
+                  ? []
+                  : await snapshots(auditedModel, { id: { in: before.map((r) => r.id) } });
+              const afterById = new Map(after.map((r) => [r.id, r]));
+              await record(
+                context,
+                auditedModel,
+                before.map((r) => ({ before: r, after: afterById.get(r.id) ?? null }))
+              );
+              return result;
+            }
+
+            default:
+              return query(args);
+          }
+        },
+      },
+    },
+  });
+});
+
+/**
+ * Decimals and dates serialize to strings, which keeps snapshots exact
+ */
+function toJson(row: Row): Prisma.InputJsonValue {
+  return redactSnapshot(JSON.parse(JSON.stringify(row)));
+}
+
+/**
+ * Drop secret fields from a snapshot, including ones stored before they were redacted
+ */
+export function redactSnapshot<T>(data: T): T {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return data;
+
+  const redacted: Row = { ...data };
+  for (const field of REDACTED_FIELDS) delete redacted[field];
+  return redacted as T;
+}
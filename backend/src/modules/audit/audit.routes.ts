@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { auditController } from './audit.controller';
+import { validate } from '../../middleware/validate';
+import { authenticate, requireCompany, requireAdmin } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { auditLogQuerySchema } from './audit.schema';
+
+const router = Router();
+
+// Snapshots hold whole records, so history is limited to owners and admins
+router.use(authenticate, requireCompany, requireAdmin);
+
+router.get(
+  '/',
+  validate({ query: auditLogQuerySchema }),
+  asyncHandler(auditController.list.bind(auditController))
+);
+
+export default router;
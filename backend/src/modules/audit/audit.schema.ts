@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { AuditAction } from '@prisma/client';
+
+export const auditLogQuerySchema = z.object({
+  entityType: z.string().optional(), // Model name, e.g. Invoice
+  entityId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  action: z.nativeEnum(AuditAction).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
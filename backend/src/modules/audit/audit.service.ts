@@ -0,0 +1,102 @@
+import { prisma } from '../../config/database';
+import { AuditAction, Prisma } from '@prisma/client';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { getPagination } from '../../middleware/validate';
+import { AuditLogQuery } from './audit.schema';
+import { redactSnapshot } from './audit.extension';
+
+/**
+ * Who made a change and where the request came from
+ */
+export interface AuditContext {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  closingDatePassword?: string; // Lets owners and admins change entries in closed periods
+}
+
+export interface AuditEntry {
+  entityType: string;
+  entityId: string;
+  action: AuditAction;
+  previousData?: Prisma.InputJsonValue;
+  newData?: Prisma.InputJsonValue;
+}
+
+export class AuditService {
+  /**
+   * Build audit context from an authenticated request
+   */
+  contextFromRequest(req: AuthenticatedRequest): AuditContext {
+    return {
+      userId: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      closingDatePassword: req.get('x-closing-date-password'),
+    };
+  }
+
+  /**
+   * Get audit log entries with pagination, newest first
+   */
+  async getLogs(companyId: string, query: AuditLogQuery) {
+    const where: Prisma.AuditLogWhereInput = { companyId };
+
+    if (query.entityType) where.entityType = query.entityType;
+    if (query.entityId) where.entityId = query.entityId;
+    if (query.userId) where.userId = query.userId;
+    if (query.action) where.action = query.action;
+
+    if (query.startDate || query.endDate) {
+      where.createdAt = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      logs: logs.map((log) => ({
+        ...log,
+        previousData: redactSnapshot(log.previousData),
+        newData: redactSnapshot(log.newData),
+      })),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Record a change to an entity
+   */
+  async log(companyId: string, context: AuditContext, entry: AuditEntry) {
+    return prisma.auditLog.create({
+      data: {
+        companyId,
+        userId: context.userId,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        previousData: entry.previousData,
+        newData: entry.newData,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+}
+
+export const auditService = new AuditService();
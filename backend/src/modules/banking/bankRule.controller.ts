@@ -0,0 +1,39 @@
+import { Response } from 'express';
+import { bankRuleService } from './bankRule.service';
+import { bankingService } from './banking.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent } from '../../utils/response';
+
+export class BankRuleController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const rules = await bankRuleService.getRules(req.companyId!);
+    return sendSuccess(res, rules);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const rule = await bankRuleService.getRule(req.companyId!, req.params.id);
+    return sendSuccess(res, rule);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const rule = await bankRuleService.createRule(req.companyId!, req.body);
+    return sendCreated(res, rule, 'Bank rule created');
+  }
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const rule = await bankRuleService.updateRule(req.companyId!, req.params.id, req.body);
+    return sendSuccess(res, rule, 'Bank rule updated');
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response) {
+    await bankRuleService.deleteRule(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+
+  async apply(req: AuthenticatedRequest, res: Response) {
+    const result = await bankingService.applyRules(req.companyId!, req.user!.id, req.body);
+    return sendSuccess(res, result, `Rules matched ${result.matched} transactions`);
+  }
+}
+
+export const bankRuleController = new BankRuleController();
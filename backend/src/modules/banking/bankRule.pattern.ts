@@ -0,0 +1,294 @@
+export const MAX_PATTERN_LENGTH = 100;
+
+// Descriptions are cut to this length before a pattern runs, bounding the work per match
+export const MAX_MATCH_LENGTH = 500;
+
+/**
+ * Characters an atom can match: a flag per ASCII code, plus whether it matches other
+ * whitespace and other non-whitespace characters
+ */
+interface CharSet {
+  ascii: boolean[];
+  spaces: boolean;
+  others: boolean;
+}
+
+interface Atom {
+  set: CharSet;
+  min: number;
+  max: number;
+  // (group, alternative) for every group the atom sits in, outermost first
+  path: [number, number][];
+  group?: number;
+  // Nothing follows it, so reaching it means the pattern has matched
+  last?: boolean;
+}
+
+interface Frame {
+  id: number;
+  branch: number;
+  set: CharSet;
+  // Whether the group contains repetition or alternation
+  varies: boolean;
+}
+
+const WORD = /[A-Za-z0-9_]/;
+const SPACE = /\s/;
+
+const emptySet = (): CharSet => ({ ascii: new Array(128).fill(false), spaces: false, others: false });
+
+const setOf = (test: (char: string) => boolean, spaces: boolean, others: boolean): CharSet => ({
+  ascii: Array.from({ length: 128 }, (_, code) => test(String.fromCharCode(code))),
+  spaces,
+  others,
+});
+
+const ANY = (): CharSet => setOf(() => true, true, true);
+
+function addRange(set: CharSet, from: number, to: number) {
+  for (let code = from; code <= Math.min(to, 127); code++) {
+    // Patterns run case-insensitively
+    const char = String.fromCharCode(code);
+    set.ascii[code] = true;
+    set.ascii[char.toLowerCase().charCodeAt(0)] = true;
+    set.ascii[char.toUpperCase().charCodeAt(0)] = true;
+  }
+  if (to > 127) {
+    set.spaces = true;
+    set.others = true;
+  }
+}
+
+function union(target: CharSet, source: CharSet) {
+  source.ascii.forEach((match, code) => {
+    if (match) target.ascii[code] = true;
+  });
+  target.spaces = target.spaces || source.spaces;
+  target.others = target.others || source.others;
+}
+
+function overlaps(a: CharSet, b: CharSet): boolean {
+  return (
+    (a.spaces && b.spaces) ||
+    (a.others && b.others) ||
+    a.ascii.some((match, code) => match && b.ascii[code])
+  );
+}
+
+const CONTROLS: Record<string, number> = { n: 10, r: 13, t: 9, v: 11, f: 12, '0': 0 };
+
+function literal(code: number): CharSet {
+  const set = emptySet();
+  addRange(set, code, code);
+  return set;
+}
+
+/**
+ * Read the escape after the backslash at pattern[i]: the characters it matches (null
+ * for anchors), the character code when it stands for a single one, and its length
+ */
+function readEscape(
+  pattern: string,
+  i: number,
+  inClass: boolean
+): { set: CharSet | null; code?: number; length: number } {
+  const char = pattern[i];
+
+  switch (char) {
+    case 'd':
+      return { set: setOf((c) => /\d/.test(c), false, false), length: 1 };
+    case 'D':
+      return { set: setOf((c) => !/\d/.test(c), true, true), length: 1 };
+    case 'w':
+      return { set: setOf((c) => WORD.test(c), false, false), length: 1 };
+    case 'W':
+      return { set: setOf((c) => !WORD.test(c), true, true), length: 1 };
+    case 's':
+      return { set: setOf((c) => SPACE.test(c), true, false), length: 1 };
+    case 'S':
+      return { set: setOf((c) => !SPACE.test(c), false, true), length: 1 };
+    case 'b':
+    case 'B':
+      if (!inClass) return { set: null, length: 1 };
+  }
+
+  const hex = pattern.slice(i).match(/^(?:x([0-9A-Fa-f]{2})|u([0-9A-Fa-f]{4}))/);
+  const code = hex
+    ? parseInt(hex[1] ?? hex[2], 16)
+    : char === 'b'
+      ? 8
+      : (CONTROLS[char] ?? char.charCodeAt(0));
+
+  return { set: literal(code), code, length: hex ? hex[0].length : 1 };
+}
+
+/**
+ * Read the character class opening at pattern[i]: the characters it matches and the
+ * index of its closing bracket
+ */
+function readClass(pattern: string, i: number): { set: CharSet; end: number } {
+  const set = emptySet();
+  let j = i + 1;
+  const negated = pattern[j] === '^';
+  if (negated) j++;
+
+  const readMember = (): { set: CharSet; code?: number } => {
+    if (pattern[j] !== '\\') {
+      const code = pattern.charCodeAt(j++);
+      return { set: literal(code), code };
+    }
+    const escape = readEscape(pattern, j + 1, true);
+    j += 1 + escape.length;
+    return { set: escape.set!, code: escape.code };
+  };
+
+  while (j < pattern.length && pattern[j] !== ']') {
+    const from = readMember();
+
+    if (from.code !== undefined && pattern[j] === '-' && j + 1 < pattern.length && pattern[j + 1] !== ']') {
+      j++;
+      const to = readMember();
+      if (to.code !== undefined) {
+        addRange(set, from.code, to.code);
+        continue;
+      }
+      union(set, literal(45));
+      union(set, to.set);
+    }
+
+    union(set, from.set);
+  }
+
+  if (negated) {
+    return { set: { ascii: set.ascii.map((match) => !match), spaces: true, others: true }, end: j };
+  }
+  return { set, end: j };
+}
+
+/**
+ * Whether a description pattern is safe to run against every imported transaction.
+ * Rejected are backreferences, a repeated group that itself repeats or alternates,
+ * such as (a+)+ or (a|ab)*, and two variable-length pieces that can match the same
+ * characters without something neither can match in between, such as .*.*x or
+ * \w+\w+x. What is left matches in time linear in the description per start position.
+ */
+export function isSafeRegex(pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH) return false;
+  if (/\\[1-9]|\\k</.test(pattern)) return false;
+
+  const atoms: Atom[] = [];
+  const frames: Frame[] = [{ id: 0, branch: 0, set: emptySet(), varies: false }];
+  let nextGroup = 1;
+
+  const addAtom = (atom: Omit<Atom, 'min' | 'max' | 'path'>, end: number): number => {
+    const quantifier = pattern.slice(end + 1).match(/^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/);
+    let min = 1;
+    let max = 1;
+    if (quantifier?.[1]) {
+      min = quantifier[1] === '+' ? 1 : 0;
+      max = quantifier[1] === '?' ? 1 : Infinity;
+    } else if (quantifier) {
+      min = Number(quantifier[2]);
+      max = quantifier[3] === undefined ? min : quantifier[4] === '' ? Infinity : Number(quantifier[4]);
+    }
+
+    const enclosing = frames[frames.length - 1];
+    union(enclosing.set, atom.set);
+    if (max > min) enclosing.varies = true;
+
+    const next = end + (quantifier?.[0].length ?? 0) + 1;
+    atoms.push({
+      ...atom,
+      min,
+      max,
+      path: frames.map((frame) => [frame.id, frame.branch]),
+      last: frames.length === 1 && (next === pattern.length || pattern[next] === '|'),
+    });
+    return next - 1;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const escape = readEscape(pattern, i + 1, false);
+      i += escape.length;
+      if (escape.set) i = addAtom({ set: escape.set }, i);
+    } else if (char === '[') {
+      const { set, end } = readClass(pattern, i);
+      i = addAtom({ set }, end);
+    } else if (char === '.') {
+      i = addAtom({ set: ANY() }, i);
+    } else if (char === '(') {
+      frames.push({ id: nextGroup++, branch: 0, set: emptySet(), varies: false });
+      // Skip group syntax such as (?: (?= (?<name>
+      const syntax = pattern.slice(i + 1).match(/^\?(<[=!]|<[^>]*>|[:=!])/);
+      if (syntax) i += syntax[0].length;
+    } else if (char === ')') {
+      const frame = frames.pop()!;
+      const quantifier = pattern.slice(i + 1).match(/^(?:[*+]|\{\d+(,\d*)?\})/);
+      if (frame.varies && quantifier) return false;
+      frames[frames.length - 1].varies = frames[frames.length - 1].varies || frame.varies;
+      i = addAtom({ set: frame.set, group: frame.id }, i);
+    } else if (char === '|') {
+      const frame = frames[frames.length - 1];
+      frame.branch++;
+      frame.varies = true;
+    } else if (char !== '^' && char !== '$') {
+      i = addAtom({ set: literal(char.charCodeAt(0)) }, i);
+    }
+  }
+
+  for (let i = 0; i < atoms.length; i++) {
+    for (let j = i + 1; j < atoms.length; j++) {
+      if (conflicts(atoms, i, j)) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether two variable-length atoms can trade characters between them, giving the
+ * engine many ways to split the same text when a later part of the pattern fails
+ */
+function conflicts(atoms: Atom[], i: number, j: number): boolean {
+  const first = atoms[i];
+  const second = atoms[j];
+
+  if (first.max === first.min || second.max === second.min || second.last) return false;
+
+  // A group and the atoms inside it
+  if (second.group !== undefined && first.path.some(([group]) => group === second.group)) return false;
+
+  // Alternatives of the same group never both run
+  const otherBranch = first.path.some(([group, branch]) =>
+    second.path.some(([otherGroup, otherBranch]) => otherGroup === group && otherBranch !== branch)
+  );
+  if (otherBranch) return false;
+
+  if (!overlaps(first.set, second.set)) return false;
+
+  // A required character the first atom cannot match fixes where it stops
+  const isPrefix = (prefix: Atom['path'], path: Atom['path']) =>
+    prefix.every(([group, branch], k) => path[k]?.[0] === group && path[k]?.[1] === branch);
+
+  return !atoms
+    .slice(i + 1, j)
+    .some(
+      (between) =>
+        between.group === undefined &&
+        between.min > 0 &&
+        isPrefix(between.path, first.path) &&
+        isPrefix(between.path, second.path) &&
+        !overlaps(between.set, first.set)
+    );
+}
+
+/**
+ * Test a description against a rule pattern. Unsafe patterns never match.
+ */
+export function matchesPattern(pattern: string, description: string): boolean {
+  if (!isSafeRegex(pattern)) return false;
+  return new RegExp(pattern, 'i').test(description.slice(0, MAX_MATCH_LENGTH));
+}
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { bankRuleController } from './bankRule.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  createBankRuleSchema,
+  updateBankRuleSchema,
+  applyBankRulesSchema,
+} from './bankRule.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  asyncHandler(bankRuleController.list.bind(bankRuleController))
+);
+
+router.post(
+  '/apply',
+  requireWriteAccess,
+  validate({ body: applyBankRulesSchema }),
+  asyncHandler(bankRuleController.apply.bind(bankRuleController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(bankRuleController.get.bind(bankRuleController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createBankRuleSchema }),
+  asyncHandler(bankRuleController.create.bind(bankRuleController))
+);
+
+router.put(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: updateBankRuleSchema }),
+  asyncHandler(bankRuleController.update.bind(bankRuleController))
+);
+
+router.delete(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(bankRuleController.delete.bind(bankRuleController))
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { BankTransactionType } from '@prisma/client';
+
+export const createBankRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  priority: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  // Conditions
+  bankAccountId: z.string().uuid().nullable().optional(),
+  descriptionContains: z.string().min(1).max(255).nullable().optional(),
+  descriptionRegex: z.string().min(1).max(255).nullable().optional(),
+  amountMin: z.number().min(0).nullable().optional(),
+  amountMax: z.number().min(0).nullable().optional(),
+  transactionType: z.nativeEnum(BankTransactionType).nullable().optional(),
+  // Actions
+  categoryAccountId: z.string().uuid(),
+  memo: z.string().max(500).nullable().optional(),
+  customerId: z.string().uuid().nullable().optional(),
+  vendorId: z.string().uuid().nullable().optional(),
+  autoPost: z.boolean().default(false),
+});
+
+export const updateBankRuleSchema = createBankRuleSchema.partial();
+
+export const applyBankRulesSchema = z.object({
+  bankAccountId: z.string().uuid().optional(),
+  transactionIds: z.array(z.string().uuid()).optional(),
+});
+
+export type CreateBankRuleInput = z.infer<typeof createBankRuleSchema>;
+export type UpdateBankRuleInput = z.infer<typeof updateBankRuleSchema>;
+export type ApplyBankRulesInput = z.infer<typeof applyBankRulesSchema>;
@@ -0,0 +1,269 @@
+import { prisma } from '../../config/database';
+import { BankRule, BankTransactionType, Prisma } from '@prisma/client';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
+import { CreateBankRuleInput, UpdateBankRuleInput } from './bankRule.schema';
+import { decimalToNumber } from '../../utils/helpers';
+import { isSafeRegex, matchesPattern, MAX_PATTERN_LENGTH } from './bankRule.pattern';
+
+/**
+ * Fields of a bank transaction that rule conditions are evaluated against
+ */
+export interface RuleCandidate {
+  bankAccountId: string;
+  description: string;
+  amount: number;
+  type: BankTransactionType;
+}
+
+type RuleConditions = Pick<
+  CreateBankRuleInput,
+  'bankAccountId' | 'descriptionContains' | 'descriptionRegex' | 'amountMin' | 'amountMax' | 'transactionType'
+>;
+
+export class BankRuleService {
+  /**
+   * Get all bank rules for a company in evaluation order
+   */
+  async getRules(companyId: string) {
+    const rules = await prisma.bankRule.findMany({
+      where: { companyId },
+      include: {
+        bankAccount: { select: { id: true, bankName: true, accountNumber: true } },
+        categoryAccount: { select: { id: true, code: true, name: true } },
+        customer: { select: { id: true, name: true } },
+        vendor: { select: { id: true, name: true } },
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.map((r) => this.formatRule(r));
+  }
+
+  /**
+   * Get single bank rule
+   */
+  async getRule(companyId: string, ruleId: string) {
+    const rule = await prisma.bankRule.findFirst({
+      where: { id: ruleId, companyId },
+      include: {
+        bankAccount: { select: { id: true, bankName: true, accountNumber: true } },
+        categoryAccount: { select: { id: true, code: true, name: true } },
+        customer: { select: { id: true, name: true } },
+        vendor: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Bank rule not found');
+    }
+
+    return this.formatRule(rule);
+  }
+
+  /**
+   * Create bank rule
+   */
+  async createRule(companyId: string, input: CreateBankRuleInput) {
+    await this.validateRule(companyId, input);
+
+    const existing = await prisma.bankRule.findUnique({
+      where: { companyId_name: { companyId, name: input.name } },
+    });
+
+    if (existing) {
+      throw new ConflictError('A bank rule with this name already exists');
+    }
+
+    const rule = await prisma.bankRule.create({
+      data: { ...input, companyId },
+    });
+
+    return this.formatRule(rule);
+  }
+
+  /**
+   * Update bank rule
+   */
+  async updateRule(companyId: string, ruleId: string, input: UpdateBankRuleInput) {
+    const rule = await prisma.bankRule.findFirst({
+      where: { id: ruleId, companyId },
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Bank rule not found');
+    }
+
+    await this.validateRule(companyId, {
+      ...this.formatRule(rule),
+      ...input,
+    });
+
+    if (input.name && input.name !== rule.name) {
+      const existing = await prisma.bankRule.findUnique({
+        where: { companyId_name: { companyId, name: input.name } },
+      });
+
+      if (existing) {
+        throw new ConflictError('A bank rule with this name already exists');
+      }
+    }
+
+    const updated = await prisma.bankRule.update({
+      where: { id: ruleId },
+      data: input,
+    });
+
+    return this.formatRule(updated);
+  }
+
+  /**
+   * Delete bank rule. Transactions it categorized keep their category.
+   */
+  async deleteRule(companyId: string, ruleId: string) {
+    const rule = await prisma.bankRule.findFirst({
+      where: { id: ruleId, companyId },
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Bank rule not found');
+    }
+
+    await prisma.bankRule.delete({
+      where: { id: ruleId },
+    });
+  }
+
+  /**
+   * Load active rules in evaluation order
+   */
+  async getActiveRules(companyId: string) {
+    return prisma.bankRule.findMany({
+      where: { companyId, isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Return the first rule whose conditions all match the transaction
+   */
+  findMatchingRule(rules: BankRule[], txn: RuleCandidate): BankRule | null {
+    return rules.find((rule) => this.matches(rule, txn)) ?? null;
+  }
+
+  private matches(rule: BankRule, txn: RuleCandidate): boolean {
+    if (rule.bankAccountId && rule.bankAccountId !== txn.bankAccountId) return false;
+    if (rule.transactionType && rule.transactionType !== txn.type) return false;
+
+    const amount = Math.abs(txn.amount);
+    if (rule.amountMin !== null && amount < decimalToNumber(rule.amountMin)) return false;
+    if (rule.amountMax !== null && amount > decimalToNumber(rule.amountMax)) return false;
+
+    if (
+      rule.descriptionContains &&
+      !txn.description.toLowerCase().includes(rule.descriptionContains.toLowerCase())
+    ) {
+      return false;
+    }
+
+    // Rules saved before patterns were checked never match if theirs is unsafe
+    if (rule.descriptionRegex && !matchesPattern(rule.descriptionRegex, txn.description)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate rule conditions and that referenced records belong to the company
+   */
+  private async validateRule(
+    companyId: string,
+    rule: RuleConditions & Pick<CreateBankRuleInput, 'categoryAccountId' | 'customerId' | 'vendorId'>
+  ) {
+    const hasCondition =
+      rule.bankAccountId ||
+      rule.descriptionContains ||
+      rule.descriptionRegex ||
+      rule.amountMin != null ||
+      rule.amountMax != null ||
+      rule.transactionType;
+
+    if (!hasCondition) {
+      throw new BadRequestError('Bank rule must have at least one condition');
+    }
+
+    if (rule.amountMin != null && rule.amountMax != null && rule.amountMin > rule.amountMax) {
+      throw new BadRequestError('Minimum amount cannot exceed maximum amount');
+    }
+
+    if (rule.descriptionRegex) {
+      try {
+        new RegExp(rule.descriptionRegex, 'i');
+      } catch {
+        throw new BadRequestError('Description pattern is not a valid regular expression');
+      }
+
+      if (!isSafeRegex(rule.descriptionRegex)) {
+        throw new BadRequestError(
+          `Description pattern must be at most ${MAX_PATTERN_LENGTH} characters, without ` +
+            'backreferences, repeated groups that repeat or alternate, or two repeats such as ' +
+            '.*.* that can match the same text'
+        );
+      }
+    }
+
+    if (rule.customerId && rule.vendorId) {
+      throw new BadRequestError('Bank rule can assign a customer or a vendor, not both');
+    }
+
+    const categoryAccount = await prisma.account.findFirst({
+      where: { id: rule.categoryAccountId, companyId },
+    });
+
+    if (!categoryAccount) {
+      throw new NotFoundError('Category account not found');
+    }
+
+    if (rule.bankAccountId) {
+      const bankAccount = await prisma.bankAccount.findFirst({
+        where: { id: rule.bankAccountId, companyId },
+      });
+
+      if (!bankAccount) {
+        throw new NotFoundError('Bank account not found');
+      }
+    }
+
+    if (rule.customerId) {
+      const customer = await prisma.customer.findFirst({
+        where: { id: rule.customerId, companyId },
+      });
+
+      if (!customer) {
+        throw new NotFoundError('Customer not found');
+      }
+    }
+
+    if (rule.vendorId) {
+      const vendor = await prisma.vendor.findFirst({
+        where: { id: rule.vendorId, companyId },
+      });
+
+      if (!vendor) {
+        throw new NotFoundError('Vendor not found');
+      }
+    }
+  }
+
+  private formatRule<T extends { amountMin: Prisma.Decimal | null; amountMax: Prisma.Decimal | null }>(
+    rule: T
+  ) {
+    return {
+      ...rule,
+      amountMin: rule.amountMin !== null ? decimalToNumber(rule.amountMin) : null,
+      amountMax: rule.amountMax !== null ? decimalToNumber(rule.amountMax) : null,
+    };
+  }
+}
+
+export const bankRuleService = new BankRuleService();
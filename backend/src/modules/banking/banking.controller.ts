@@ -1,7 +1,7 @@
 import { Response } from 'express';
 import { bankingService } from './banking.service';
 import { AuthenticatedRequest } from '../../middleware/auth';
-import { sendSuccess, sendCreated, sendPaginated } from '../../utils/response';
+import { sendSuccess, sendCreated, sendPaginated, sendNoContent } from '../../utils/response';
 
 export class BankingController {
   async listAccounts(req: AuthenticatedRequest, res: Response) {
@@ -40,13 +40,46 @@ export class BankingController {
   async importTransactions(req: AuthenticatedRequest, res: Response) {
     const result = await bankingService.importTransactions(
       req.companyId!,
+      req.user!.id,
       req.params.id,
-      req.body.data,
-      req.body.format
+      req.body
     );
     return sendSuccess(res, result, `Imported ${result.imported} transactions`);
   }
 
+  async previewImport(req: AuthenticatedRequest, res: Response) {
+    const result = await bankingService.previewImport(req.companyId!, req.params.id, req.body);
+    return sendSuccess(res, result);
+  }
+
+  async getImportProfiles(req: AuthenticatedRequest, res: Response) {
+    const profiles = await bankingService.getImportProfiles(req.companyId!, req.params.id);
+    return sendSuccess(res, profiles);
+  }
+
+  async createImportProfile(req: AuthenticatedRequest, res: Response) {
+    const profile = await bankingService.createImportProfile(
+      req.companyId!,
+      req.params.id,
+      req.body
+    );
+    return sendCreated(res, profile, 'Import profile created');
+  }
+
+  async updateImportProfile(req: AuthenticatedRequest, res: Response) {
+    const profile = await bankingService.updateImportProfile(
+      req.companyId!,
+      req.params.profileId,
+      req.body
+    );
+    return sendSuccess(res, profile, 'Import profile updated');
+  }
+
+  async deleteImportProfile(req: AuthenticatedRequest, res: Response) {
+    await bankingService.deleteImportProfile(req.companyId!, req.params.profileId);
+    return sendNoContent(res);
+  }
+
   async categorizeTransaction(req: AuthenticatedRequest, res: Response) {
     const transaction = await bankingService.categorizeTransaction(
       req.companyId!,
@@ -66,23 +99,28 @@ export class BankingController {
     return sendSuccess(res, transaction, 'Transaction matched');
   }
 
-  async startReconciliation(req: AuthenticatedRequest, res: Response) {
-    const reconciliation = await bankingService.startReconciliation(
+  async uncategorizeTransaction(req: AuthenticatedRequest, res: Response) {
+    const transaction = await bankingService.uncategorizeTransaction(
       req.companyId!,
-      req.params.id,
-      req.body
+      req.params.transactionId
     );
-    return sendCreated(res, reconciliation, 'Reconciliation started');
+    return sendSuccess(res, transaction, 'Transaction uncategorized');
   }
 
-  async completeReconciliation(req: AuthenticatedRequest, res: Response) {
-    const reconciliation = await bankingService.completeReconciliation(
+  async unmatchTransaction(req: AuthenticatedRequest, res: Response) {
+    const transaction = await bankingService.unmatchTransaction(
       req.companyId!,
-      req.user!.id,
-      req.params.reconciliationId,
-      req.body.transactionIds
+      req.params.transactionId
+    );
+    return sendSuccess(res, transaction, 'Transaction unmatched');
+  }
+
+  async getMatchSuggestions(req: AuthenticatedRequest, res: Response) {
+    const suggestions = await bankingService.getMatchSuggestions(
+      req.companyId!,
+      req.params.transactionId
     );
-    return sendSuccess(res, reconciliation, 'Reconciliation completed');
+    return sendSuccess(res, suggestions);
   }
 }
 
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { bankingController } from './banking.controller';
+import { reconciliationController } from './reconciliation.controller';
 import { validate, idParamSchema } from '../../middleware/validate';
 import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
@@ -7,10 +8,13 @@ import {
   createBankAccountSchema,
   updateBankAccountSchema,
   importTransactionsSchema,
+  importProfileSchema,
+  updateImportProfileSchema,
   categorizeTransactionSchema,
   matchTransactionSchema,
   startReconciliationSchema,
   completeReconciliationSchema,
+  reconciliationItemsSchema,
   bankTransactionQuerySchema,
 } from './banking.schema';
 import { z } from 'zod';
@@ -59,6 +63,44 @@ router.post(
   asyncHandler(bankingController.importTransactions.bind(bankingController))
 );
 
+router.post(
+  '/:id/import/preview',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: importTransactionsSchema }),
+  asyncHandler(bankingController.previewImport.bind(bankingController))
+);
+
+// CSV import profiles
+router.get(
+  '/:id/import-profiles',
+  validate({ params: idParamSchema }),
+  asyncHandler(bankingController.getImportProfiles.bind(bankingController))
+);
+
+router.post(
+  '/:id/import-profiles',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: importProfileSchema }),
+  asyncHandler(bankingController.createImportProfile.bind(bankingController))
+);
+
+router.put(
+  '/import-profiles/:profileId',
+  requireWriteAccess,
+  validate({
+    params: z.object({ profileId: z.string().uuid() }),
+    body: updateImportProfileSchema,
+  }),
+  asyncHandler(bankingController.updateImportProfile.bind(bankingController))
+);
+
+router.delete(
+  '/import-profiles/:profileId',
+  requireWriteAccess,
+  validate({ params: z.object({ profileId: z.string().uuid() }) }),
+  asyncHandler(bankingController.deleteImportProfile.bind(bankingController))
+);
+
 router.post(
   '/transactions/:transactionId/categorize',
   requireWriteAccess,
@@ -69,6 +111,12 @@ router.post(
   asyncHandler(bankingController.categorizeTransaction.bind(bankingController))
 );
 
+router.get(
+  '/transactions/:transactionId/suggestions',
+  validate({ params: z.object({ transactionId: z.string().uuid() }) }),
+  asyncHandler(bankingController.getMatchSuggestions.bind(bankingController))
+);
+
 router.post(
   '/transactions/:transactionId/match',
   requireWriteAccess,
@@ -79,22 +127,74 @@ router.post(
   asyncHandler(bankingController.matchTransaction.bind(bankingController))
 );
 
+router.post(
+  '/transactions/:transactionId/uncategorize',
+  requireWriteAccess,
+  validate({ params: z.object({ transactionId: z.string().uuid() }) }),
+  asyncHandler(bankingController.uncategorizeTransaction.bind(bankingController))
+);
+
+router.post(
+  '/transactions/:transactionId/unmatch',
+  requireWriteAccess,
+  validate({ params: z.object({ transactionId: z.string().uuid() }) }),
+  asyncHandler(bankingController.unmatchTransaction.bind(bankingController))
+);
+
 // Reconciliation
+const reconciliationParamSchema = z.object({ reconciliationId: z.string().uuid() });
+
+router.get(
+  '/:id/reconciliations',
+  validate({ params: idParamSchema }),
+  asyncHandler(reconciliationController.list.bind(reconciliationController))
+);
+
 router.post(
   '/:id/reconcile',
   requireWriteAccess,
   validate({ params: idParamSchema, body: startReconciliationSchema }),
-  asyncHandler(bankingController.startReconciliation.bind(bankingController))
+  asyncHandler(reconciliationController.start.bind(reconciliationController))
+);
+
+router.post(
+  '/:id/reconciliations/undo',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(reconciliationController.undoLast.bind(reconciliationController))
+);
+
+router.get(
+  '/reconciliations/:reconciliationId',
+  validate({ params: reconciliationParamSchema }),
+  asyncHandler(reconciliationController.get.bind(reconciliationController))
+);
+
+router.get(
+  '/reconciliations/:reconciliationId/report',
+  validate({ params: reconciliationParamSchema }),
+  asyncHandler(reconciliationController.report.bind(reconciliationController))
+);
+
+router.put(
+  '/reconciliations/:reconciliationId/items',
+  requireWriteAccess,
+  validate({ params: reconciliationParamSchema, body: reconciliationItemsSchema }),
+  asyncHandler(reconciliationController.saveItems.bind(reconciliationController))
 );
 
 router.post(
   '/reconciliations/:reconciliationId/complete',
   requireWriteAccess,
-  validate({
-    params: z.object({ reconciliationId: z.string().uuid() }),
-    body: completeReconciliationSchema,
-  }),
-  asyncHandler(bankingController.completeReconciliation.bind(bankingController))
+  validate({ params: reconciliationParamSchema, body: completeReconciliationSchema }),
+  asyncHandler(reconciliationController.complete.bind(reconciliationController))
+);
+
+router.delete(
+  '/reconciliations/:reconciliationId',
+  requireWriteAccess,
+  validate({ params: reconciliationParamSchema }),
+  asyncHandler(reconciliationController.cancel.bind(reconciliationController))
 );
 
 export default router;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { BankAccountType, BankTransactionStatus } from '@prisma/client';
+import { BankAccountType, BankTransactionStatus, CsvSignConvention } from '@prisma/client';
+import { currencyCodeSchema } from '../currency/currency.schema';
 
 export const createBankAccountSchema = z.object({
   accountId: z.string().uuid(), // Link to chart of accounts
@@ -7,6 +8,7 @@ export const createBankAccountSchema = z.object({
   accountNumber: z.string().min(4).max(20),
   routingNumber: z.string().max(20).optional(),
   accountType: z.nativeEnum(BankAccountType).default(BankAccountType.CHECKING),
+  currency: currencyCodeSchema.optional(), // Defaults to the company's base currency
 });
 
 export const updateBankAccountSchema = z.object({
@@ -18,15 +20,51 @@ export const updateBankAccountSchema = z.object({
 export const importTransactionsSchema = z.object({
   format: z.enum(['csv', 'ofx', 'qfx']).default('csv'),
   data: z.string(), // Base64 encoded file or raw CSV
+  profileId: z.string().uuid().optional(), // CSV import profile, defaults to the account's default
+});
+
+export const importProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  delimiter: z.string().length(1).default(','),
+  skipRows: z.number().int().min(0).max(50).default(0),
+  hasHeaderRow: z.boolean().default(true),
+  dateColumn: z.string().min(1).max(100),
+  dateFormat: z.string().max(20).optional().nullable(),
+  descriptionColumn: z.string().min(1).max(100),
+  amountColumn: z.string().max(100).optional().nullable(),
+  debitColumn: z.string().max(100).optional().nullable(),
+  creditColumn: z.string().max(100).optional().nullable(),
+  checkNumberColumn: z.string().max(100).optional().nullable(),
+  referenceColumn: z.string().max(100).optional().nullable(),
+  signConvention: z.nativeEnum(CsvSignConvention).default(CsvSignConvention.CREDIT_POSITIVE),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+  isDefault: z.boolean().default(false),
+});
+
+export const updateImportProfileSchema = importProfileSchema.partial();
+
+export const categorizeSplitSchema = z.object({
+  accountId: z.string().uuid(),
+  // Positive amounts follow the transaction; negative ones offset it (e.g. a fee netted from a deposit)
+  amount: z.number().refine((v) => v !== 0, 'Amount cannot be zero'),
+  memo: z.string().max(500).nullable().optional(),
+  customerId: z.string().uuid().nullable().optional(),
+  vendorId: z.string().uuid().nullable().optional(),
 });
 
 export const categorizeTransactionSchema = z.object({
-  categoryAccountId: z.string().uuid(),
-  memo: z.string().max(500).optional(),
+  categoryAccountId: z.string().uuid().optional(),
+  memo: z.string().max(500).nullable().optional(),
+  customerId: z.string().uuid().nullable().optional(),
+  vendorId: z.string().uuid().nullable().optional(),
+  // Split across several accounts instead of a single categoryAccountId
+  splits: z.array(categorizeSplitSchema).min(1).optional(),
 });
 
 export const matchTransactionSchema = z.object({
-  journalEntryId: z.string().uuid(),
+  journalEntryId: z.string().uuid().optional(),
+  // One-to-many match, e.g. a single deposit covering several payments
+  journalEntryIds: z.array(z.string().uuid()).min(1).optional(),
 });
 
 export const startReconciliationSchema = z.object({
@@ -35,7 +73,12 @@ export const startReconciliationSchema = z.object({
 });
 
 export const completeReconciliationSchema = z.object({
-  transactionIds: z.array(z.string().uuid()),
+  // Journal line IDs on the bank's GL account; omit to use the saved selection
+  lineIds: z.array(z.string().uuid()).optional(),
+});
+
+export const reconciliationItemsSchema = z.object({
+  lineIds: z.array(z.string().uuid()),
 });
 
 export const bankTransactionQuerySchema = z.object({
@@ -49,8 +92,12 @@ export const bankTransactionQuerySchema = z.object({
 export type CreateBankAccountInput = z.infer<typeof createBankAccountSchema>;
 export type UpdateBankAccountInput = z.infer<typeof updateBankAccountSchema>;
 export type ImportTransactionsInput = z.infer<typeof importTransactionsSchema>;
+export type ImportProfileInput = z.infer<typeof importProfileSchema>;
+export type UpdateImportProfileInput = z.infer<typeof updateImportProfileSchema>;
+export type CategorizeSplitInput = z.infer<typeof categorizeSplitSchema>;
 export type CategorizeTransactionInput = z.infer<typeof categorizeTransactionSchema>;
 export type MatchTransactionInput = z.infer<typeof matchTransactionSchema>;
 export type StartReconciliationInput = z.infer<typeof startReconciliationSchema>;
 export type CompleteReconciliationInput = z.infer<typeof completeReconciliationSchema>;
+export type ReconciliationItemsInput = z.infer<typeof reconciliationItemsSchema>;
 export type BankTransactionQuery = z.infer<typeof bankTransactionQuerySchema>;
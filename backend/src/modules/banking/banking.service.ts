@@ -1,32 +1,54 @@
 import { prisma } from '../../config/database';
 import {
+  BankRule,
+  BankTransaction,
   BankTransactionStatus,
   BankTransactionType,
-  ReconciliationStatus,
   JournalSource,
   Prisma,
 } from '@prisma/client';
-import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
+import { AppError, NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
 import {
   CreateBankAccountInput,
   UpdateBankAccountInput,
   BankTransactionQuery,
   CategorizeTransactionInput,
+  CategorizeSplitInput,
   MatchTransactionInput,
-  StartReconciliationInput,
+  ImportTransactionsInput,
+  ImportProfileInput,
+  UpdateImportProfileInput,
 } from './banking.schema';
-import { decimalToNumber, maskAccountNumber } from '../../utils/helpers';
+import { decimalToNumber, maskAccountNumber, round, areEqual, addDays } from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
 import { journalService } from '../journal/journal.service';
-
-interface ParsedTransaction {
-  transactionDate: Date;
-  postDate?: Date;
+import { currencyService } from '../currency/currency.service';
+import {
+  ParsedStatement,
+  ParsedTransaction,
+  ParseError,
+  CsvColumnMapping,
+  DEFAULT_CSV_MAPPING,
+  decodeStatementData,
+  parseOFX,
+  parseCSV,
+} from './statement.parser';
+import { bankRuleService } from './bankRule.service';
+import { transferService } from './transfer.service';
+import { ApplyBankRulesInput } from './bankRule.schema';
+import {
+  MatchCandidate,
+  MATCH_WINDOW_DAYS,
+  scoreCandidate,
+  findGroupMatches,
+} from './match.scorer';
+
+export interface RuleMatchResult {
+  transactionId: string;
   description: string;
-  amount: number;
-  type: BankTransactionType;
-  fitId?: string;
-  checkNumber?: string;
+  ruleId: string;
+  ruleName: string;
+  autoPosted: boolean;
 }
 
 export class BankingService {
@@ -105,6 +127,7 @@ export class BankingService {
         accountNumber: input.accountNumber,
         routingNumber: input.routingNumber,
         accountType: input.accountType,
+        currency: input.currency ?? (await currencyService.getBaseCurrency(companyId)),
       },
       include: {
         account: {
@@ -183,6 +206,12 @@ export class BankingService {
           matchedJournalEntry: {
             select: { id: true, entryNumber: true, memo: true },
           },
+          appliedRule: { select: { id: true, name: true } },
+          matches: {
+            include: {
+              journalEntry: { select: { id: true, entryNumber: true, memo: true } },
+            },
+          },
         },
         orderBy: { transactionDate: 'desc' },
         skip,
@@ -195,19 +224,20 @@ export class BankingService {
       transactions: transactions.map((t) => ({
         ...t,
         amount: decimalToNumber(t.amount),
+        matches: t.matches.map((m) => ({ ...m, amount: decimalToNumber(m.amount) })),
       })),
       pagination: { page: query.page, limit: query.limit, total },
     };
   }
 
   /**
-   * Import transactions from CSV
+   * Import transactions from CSV or OFX/QFX
    */
   async importTransactions(
     companyId: string,
+    userId: string,
     bankAccountId: string,
-    data: string,
-    format: 'csv' | 'ofx' | 'qfx' = 'csv'
+    input: ImportTransactionsInput
   ) {
     const bankAccount = await prisma.bankAccount.findFirst({
       where: { id: bankAccountId, companyId },
@@ -217,27 +247,30 @@ export class BankingService {
       throw new NotFoundError('Bank account not found');
     }
 
-    let transactions: ParsedTransaction[] = [];
+    const { transactions, errors, statement } = await this.parseStatementFile(bankAccount, input);
 
-    if (format === 'csv') {
-      transactions = this.parseCSV(data);
-    } else {
-      // OFX/QFX parsing would require ofx-js library
-      throw new BadRequestError('OFX/QFX import not yet implemented');
-    }
+    const rules = await bankRuleService.getActiveRules(companyId);
+    const ruleMatches: RuleMatchResult[] = [];
+    const pendingTransactions: BankTransaction[] = [];
 
     let imported = 0;
     let skipped = 0;
+    const seenFitIds = new Set<string>();
 
     for (const txn of transactions) {
-      // Check for duplicate by fitId
+      // Check for duplicate by fitId, both within the file and against prior imports
       if (txn.fitId) {
-        const existing = await prisma.bankTransaction.findUnique({
+        if (seenFitIds.has(txn.fitId)) {
+          skipped++;
+          continue;
+        }
+        seenFitIds.add(txn.fitId);
+
+        // CSV rows imported before synthetic IDs were hashed carry the legacy ID
+        const existing = await prisma.bankTransaction.findFirst({
           where: {
-            bankAccountId_fitId: {
-              bankAccountId,
-              fitId: txn.fitId,
-            },
+            bankAccountId,
+            fitId: { in: [txn.fitId, txn.legacyFitId].filter((id): id is string => !!id) },
           },
         });
 
@@ -247,7 +280,7 @@ export class BankingService {
         }
       }
 
-      await prisma.bankTransaction.create({
+      const created = await prisma.bankTransaction.create({
         data: {
           bankAccountId,
           transactionDate: txn.transactionDate,
@@ -262,9 +295,188 @@ export class BankingService {
       });
 
       imported++;
+
+      const match = await this.applyRulesToTransaction(companyId, userId, created, rules);
+      if (match) ruleMatches.push(match);
+      if (!match?.autoPosted) pendingTransactions.push(created);
+    }
+
+    // Lines on another account with the opposite amount are likely transfers
+    const transferCandidates = await transferService.detectTransferPairs(
+      companyId,
+      pendingTransactions
+    );
+
+    return {
+      imported,
+      skipped,
+      total: transactions.length,
+      errors,
+      ruleMatches,
+      transferCandidates,
+      // Statement balance from the bank, used to seed a reconciliation
+      statement: statement
+        ? {
+            currency: statement.currency,
+            startDate: statement.startDate,
+            endDate: statement.endDate,
+            ledgerBalance: statement.ledgerBalance,
+            ledgerBalanceDate: statement.ledgerBalanceDate,
+            availableBalance: statement.availableBalance,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Parse an import file without saving, flagging rows that were already imported
+   */
+  async previewImport(companyId: string, bankAccountId: string, input: ImportTransactionsInput) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    const { transactions, errors, statement } = await this.parseStatementFile(bankAccount, input);
+
+    const fitIds = transactions
+      .flatMap((t) => [t.fitId, t.legacyFitId])
+      .filter((id): id is string => !!id);
+    const existing = await prisma.bankTransaction.findMany({
+      where: { bankAccountId, fitId: { in: fitIds } },
+      select: { fitId: true },
+    });
+    const existingFitIds = new Set(existing.map((t) => t.fitId));
+
+    return {
+      rows: transactions.map(({ legacyFitId, ...txn }) => ({
+        ...txn,
+        isDuplicate:
+          (!!txn.fitId && existingFitIds.has(txn.fitId)) ||
+          (!!legacyFitId && existingFitIds.has(legacyFitId)),
+      })),
+      errors,
+      total: transactions.length,
+      statement: statement
+        ? {
+            currency: statement.currency,
+            startDate: statement.startDate,
+            endDate: statement.endDate,
+            ledgerBalance: statement.ledgerBalance,
+            ledgerBalanceDate: statement.ledgerBalanceDate,
+            availableBalance: statement.availableBalance,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Get saved CSV import profiles for a bank account
+   */
+  async getImportProfiles(companyId: string, bankAccountId: string) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
     }
 
-    return { imported, skipped, total: transactions.length };
+    return prisma.bankImportProfile.findMany({
+      where: { bankAccountId },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Create CSV import profile
+   */
+  async createImportProfile(companyId: string, bankAccountId: string, input: ImportProfileInput) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    this.validateProfileColumns(input);
+
+    const existing = await prisma.bankImportProfile.findUnique({
+      where: { bankAccountId_name: { bankAccountId, name: input.name } },
+    });
+
+    if (existing) {
+      throw new ConflictError('An import profile with this name already exists');
+    }
+
+    if (input.isDefault) {
+      await prisma.bankImportProfile.updateMany({
+        where: { bankAccountId, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+
+    return prisma.bankImportProfile.create({
+      data: { ...input, bankAccountId },
+    });
+  }
+
+  /**
+   * Update CSV import profile
+   */
+  async updateImportProfile(companyId: string, profileId: string, input: UpdateImportProfileInput) {
+    const profile = await prisma.bankImportProfile.findFirst({
+      where: { id: profileId, bankAccount: { companyId } },
+    });
+
+    if (!profile) {
+      throw new NotFoundError('Import profile not found');
+    }
+
+    this.validateProfileColumns({ ...profile, ...input });
+
+    if (input.name && input.name !== profile.name) {
+      const existing = await prisma.bankImportProfile.findUnique({
+        where: { bankAccountId_name: { bankAccountId: profile.bankAccountId, name: input.name } },
+      });
+
+      if (existing) {
+        throw new ConflictError('An import profile with this name already exists');
+      }
+    }
+
+    if (input.isDefault) {
+      await prisma.bankImportProfile.updateMany({
+        where: { bankAccountId: profile.bankAccountId, isDefault: true, id: { not: profileId } },
+        data: { isDefault: false },
+      });
+    }
+
+    return prisma.bankImportProfile.update({
+      where: { id: profileId },
+      data: input,
+    });
+  }
+
+  /**
+   * Delete CSV import profile
+   */
+  async deleteImportProfile(companyId: string, profileId: string) {
+    const profile = await prisma.bankImportProfile.findFirst({
+      where: { id: profileId, bankAccount: { companyId } },
+    });
+
+    if (!profile) {
+      throw new NotFoundError('Import profile not found');
+    }
+
+    await prisma.bankImportProfile.delete({
+      where: { id: profileId },
+    });
   }
 
   /**
@@ -274,7 +486,8 @@ export class BankingService {
     companyId: string,
     userId: string,
     transactionId: string,
-    input: CategorizeTransactionInput
+    input: CategorizeTransactionInput,
+    appliedRuleId?: string
   ) {
     const transaction = await prisma.bankTransaction.findFirst({
       where: { id: transactionId },
@@ -293,47 +506,98 @@ export class BankingService {
       throw new BadRequestError('Cannot modify reconciled transaction');
     }
 
-    // Verify category account
-    const categoryAccount = await prisma.account.findFirst({
-      where: { id: input.categoryAccountId, companyId },
-    });
+    const amount = Math.abs(decimalToNumber(transaction.amount));
+    const isDebit = transaction.type === BankTransactionType.DEBIT;
+    const memo = input.memo || transaction.description;
 
-    if (!categoryAccount) {
-      throw new NotFoundError('Category account not found');
+    if (input.splits && input.categoryAccountId) {
+      throw new BadRequestError('Provide either a category account or splits, not both');
     }
 
-    const amount = Math.abs(decimalToNumber(transaction.amount));
-    const isDebit = transaction.type === BankTransactionType.DEBIT;
+    const splits: CategorizeSplitInput[] = input.splits ?? [];
+
+    if (!input.splits) {
+      if (!input.categoryAccountId) {
+        throw new BadRequestError('Category account is required');
+      }
+      splits.push({
+        accountId: input.categoryAccountId,
+        amount,
+        memo: input.memo,
+        customerId: input.customerId,
+        vendorId: input.vendorId,
+      });
+    }
+
+    const splitTotal = round(splits.reduce((sum, split) => sum + split.amount, 0));
+    if (!areEqual(splitTotal, amount)) {
+      throw new BadRequestError(
+        `Splits total ${splitTotal.toFixed(2)} but the transaction is ${amount.toFixed(2)}`
+      );
+    }
+
+    await this.verifySplitReferences(companyId, splits);
+
+    // Foreign-currency accounts post at the rate on the transaction date
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const { currency } = transaction.bankAccount;
+    const exchangeRate = await currencyService.getRate(
+      companyId,
+      currency,
+      transaction.transactionDate
+    );
+
+    // Create journal entry: the bank side for the full amount, one line per split
+    const lines = [
+      {
+        accountId: transaction.bankAccount.accountId,
+        debit: isDebit ? 0 : amount,
+        credit: isDebit ? amount : 0,
+        memo: transaction.description,
+      },
+      ...splits.map((split) => {
+        const lineAmount = Math.abs(split.amount);
+        // A negative split flows the opposite way to the transaction
+        const isDebitLine = isDebit === split.amount > 0;
+        return {
+          accountId: split.accountId,
+          debit: isDebitLine ? lineAmount : 0,
+          credit: isDebitLine ? 0 : lineAmount,
+          memo: split.memo || memo,
+          customerId: split.customerId,
+          vendorId: split.vendorId,
+        };
+      }),
+    ];
 
-    // Create journal entry
     const journalEntry = await journalService.createFromTransaction(companyId, userId, {
       date: transaction.transactionDate,
-      memo: input.memo || transaction.description,
+      memo,
       source: JournalSource.BANK_IMPORT,
       sourceId: transaction.id,
-      lines: [
-        {
-          accountId: transaction.bankAccount.accountId,
-          debit: isDebit ? 0 : amount,
-          credit: isDebit ? amount : 0,
-          memo: transaction.description,
-        },
-        {
-          accountId: input.categoryAccountId,
-          debit: isDebit ? amount : 0,
-          credit: isDebit ? 0 : amount,
-          memo: input.memo || transaction.description,
-        },
-      ],
+      lines: currencyService.toBaseLines(lines, currency, exchangeRate, baseCurrency),
     });
 
+    const splitAccountIds = new Set(splits.map((split) => split.accountId));
+    const categoryAccountId = splitAccountIds.size === 1 ? splits[0].accountId : null;
+
+    // Keep the rule link only when accepting the category the rule suggested
+    const ruleId =
+      appliedRuleId ??
+      (categoryAccountId && transaction.categoryAccountId === categoryAccountId
+        ? transaction.appliedRuleId
+        : null);
+
     // Update transaction
     const updated = await prisma.bankTransaction.update({
       where: { id: transactionId },
       data: {
-        categoryAccountId: input.categoryAccountId,
+        categoryAccountId,
         matchedJournalEntryId: journalEntry.id,
         memo: input.memo,
+        customerId: splits.length === 1 ? splits[0].customerId ?? null : null,
+        vendorId: splits.length === 1 ? splits[0].vendorId ?? null : null,
+        appliedRuleId: ruleId,
         status: BankTransactionStatus.CATEGORIZED,
       },
     });
@@ -344,6 +608,41 @@ export class BankingService {
     };
   }
 
+  /**
+   * Run active bank rules against pending transactions
+   */
+  async applyRules(companyId: string, userId: string, input: ApplyBankRulesInput) {
+    const where: Prisma.BankTransactionWhereInput = {
+      bankAccount: { companyId },
+      status: BankTransactionStatus.PENDING,
+    };
+
+    if (input.bankAccountId) where.bankAccountId = input.bankAccountId;
+    if (input.transactionIds) where.id = { in: input.transactionIds };
+
+    const [transactions, rules] = await Promise.all([
+      prisma.bankTransaction.findMany({
+        where,
+        orderBy: { transactionDate: 'asc' },
+      }),
+      bankRuleService.getActiveRules(companyId),
+    ]);
+
+    const results: RuleMatchResult[] = [];
+
+    for (const txn of transactions) {
+      const result = await this.applyRulesToTransaction(companyId, userId, txn, rules);
+      if (result) results.push(result);
+    }
+
+    return {
+      processed: transactions.length,
+      matched: results.length,
+      autoPosted: results.filter((r) => r.autoPosted).length,
+      results,
+    };
+  }
+
   /**
    * Match transaction to existing journal entry
    */
@@ -361,197 +660,447 @@ export class BankingService {
       throw new NotFoundError('Transaction not found');
     }
 
-    const journalEntry = await prisma.journalEntry.findFirst({
-      where: { id: input.journalEntryId, companyId },
+    if (transaction.status === BankTransactionStatus.RECONCILED) {
+      throw new BadRequestError('Cannot modify reconciled transaction');
+    }
+
+    const journalEntryIds = [
+      ...new Set(input.journalEntryIds ?? (input.journalEntryId ? [input.journalEntryId] : [])),
+    ];
+
+    if (journalEntryIds.length === 0) {
+      throw new BadRequestError('At least one journal entry is required');
+    }
+
+    const journalEntries = await prisma.journalEntry.findMany({
+      where: { id: { in: journalEntryIds }, companyId, isPosted: true },
+      include: {
+        lines: { where: { accountId: transaction.bankAccount.accountId } },
+        bankTransactionMatches: {
+          where: { bankTransactionId: { not: transactionId } },
+          select: { id: true },
+        },
+      },
     });
 
-    if (!journalEntry) {
+    if (journalEntries.length !== journalEntryIds.length) {
       throw new NotFoundError('Journal entry not found');
     }
 
+    if (journalEntries.some((e) => e.bankTransactionMatches.length > 0)) {
+      throw new ConflictError('Journal entry is already matched to another bank transaction');
+    }
+
+    // Amount each entry moved through this bank account
+    const matchAmounts = journalEntries.map((entry) => ({
+      journalEntryId: entry.id,
+      amount: Math.abs(
+        entry.lines.reduce(
+          (sum, line) => sum + decimalToNumber(line.debit) - decimalToNumber(line.credit),
+          0
+        )
+      ),
+    }));
+
+    if (journalEntryIds.length > 1) {
+      const total = round(matchAmounts.reduce((sum, m) => sum + m.amount, 0));
+      const amount = decimalToNumber(transaction.amount);
+
+      if (!areEqual(total, amount)) {
+        throw new BadRequestError(
+          `Matched entries total ${total.toFixed(2)} but the transaction is ${amount.toFixed(2)}`
+        );
+      }
+    }
+
+    await prisma.bankTransactionMatch.deleteMany({
+      where: { bankTransactionId: transactionId },
+    });
+
+    await prisma.bankTransactionMatch.createMany({
+      data: matchAmounts.map((m) => ({ ...m, bankTransactionId: transactionId })),
+    });
+
     const updated = await prisma.bankTransaction.update({
       where: { id: transactionId },
       data: {
-        matchedJournalEntryId: input.journalEntryId,
+        // Single matches keep the direct link used by existing views
+        matchedJournalEntryId: journalEntryIds.length === 1 ? journalEntryIds[0] : null,
         status: BankTransactionStatus.MATCHED,
       },
+      include: {
+        matches: {
+          include: {
+            journalEntry: { select: { id: true, entryNumber: true, memo: true } },
+          },
+        },
+      },
     });
 
     return {
       ...updated,
       amount: decimalToNumber(updated.amount),
+      matches: updated.matches.map((m) => ({ ...m, amount: decimalToNumber(m.amount) })),
     };
   }
 
   /**
-   * Start bank reconciliation
+   * Undo a categorization: void the BANK_IMPORT journal entry and return the transaction to PENDING
    */
-  async startReconciliation(
-    companyId: string,
-    bankAccountId: string,
-    input: StartReconciliationInput
-  ) {
-    const bankAccount = await prisma.bankAccount.findFirst({
-      where: { id: bankAccountId, companyId },
+  async uncategorizeTransaction(companyId: string, transactionId: string) {
+    const transaction = await prisma.bankTransaction.findFirst({
+      where: { id: transactionId, bankAccount: { companyId } },
     });
 
-    if (!bankAccount) {
-      throw new NotFoundError('Bank account not found');
+    if (!transaction) {
+      throw new NotFoundError('Transaction not found');
+    }
+
+    if (transaction.status === BankTransactionStatus.RECONCILED) {
+      throw new BadRequestError('Cannot modify reconciled transaction');
+    }
+
+    if (transaction.status !== BankTransactionStatus.CATEGORIZED) {
+      throw new BadRequestError('Transaction is not categorized');
     }
 
-    // Check for existing in-progress reconciliation
-    const existing = await prisma.bankReconciliation.findFirst({
+    await journalService.assertSourceNotCleared(companyId, JournalSource.BANK_IMPORT, transaction.id);
+
+    // Void journal entry
+    await prisma.journalEntry.updateMany({
       where: {
-        bankAccountId,
-        status: ReconciliationStatus.IN_PROGRESS,
+        companyId,
+        source: JournalSource.BANK_IMPORT,
+        sourceId: transaction.id,
+        isPosted: true,
       },
+      data: { isPosted: false },
     });
 
-    if (existing) {
-      throw new BadRequestError('A reconciliation is already in progress');
-    }
-
-    const reconciliation = await prisma.bankReconciliation.create({
+    const updated = await prisma.bankTransaction.update({
+      where: { id: transactionId },
       data: {
-        bankAccountId,
-        statementDate: new Date(input.statementDate),
-        statementBalance: input.statementBalance,
-        status: ReconciliationStatus.IN_PROGRESS,
+        categoryAccountId: null,
+        matchedJournalEntryId: null,
+        memo: null,
+        customerId: null,
+        vendorId: null,
+        appliedRuleId: null,
+        status: BankTransactionStatus.PENDING,
       },
     });
 
     return {
-      ...reconciliation,
-      statementBalance: decimalToNumber(reconciliation.statementBalance),
-      reconciledBalance: 0,
+      ...updated,
+      amount: decimalToNumber(updated.amount),
     };
   }
 
   /**
-   * Complete reconciliation
+   * Undo a match: unlink the journal entries and return the transaction to PENDING
    */
-  async completeReconciliation(
-    companyId: string,
-    userId: string,
-    reconciliationId: string,
-    transactionIds: string[]
-  ) {
-    const reconciliation = await prisma.bankReconciliation.findUnique({
-      where: { id: reconciliationId },
-      include: { bankAccount: true },
+  async unmatchTransaction(companyId: string, transactionId: string) {
+    const transaction = await prisma.bankTransaction.findFirst({
+      where: { id: transactionId, bankAccount: { companyId } },
     });
 
-    if (!reconciliation || reconciliation.bankAccount.companyId !== companyId) {
-      throw new NotFoundError('Reconciliation not found');
+    if (!transaction) {
+      throw new NotFoundError('Transaction not found');
     }
 
-    if (reconciliation.status === ReconciliationStatus.COMPLETED) {
-      throw new BadRequestError('Reconciliation already completed');
+    if (transaction.status === BankTransactionStatus.RECONCILED) {
+      throw new BadRequestError('Cannot modify reconciled transaction');
     }
 
-    // Calculate reconciled balance
-    const transactions = await prisma.bankTransaction.findMany({
-      where: {
-        id: { in: transactionIds },
-        bankAccountId: reconciliation.bankAccountId,
+    if (transaction.status !== BankTransactionStatus.MATCHED) {
+      throw new BadRequestError('Transaction is not matched');
+    }
+
+    const updated = await prisma.bankTransaction.update({
+      where: { id: transactionId },
+      data: {
+        matchedJournalEntryId: null,
+        status: BankTransactionStatus.PENDING,
       },
     });
 
-    let reconciledBalance = 0;
-    for (const txn of transactions) {
-      const amount = decimalToNumber(txn.amount);
-      reconciledBalance += txn.type === BankTransactionType.CREDIT ? amount : -amount;
+    // Matches are removed after the update so its audit entry still lists them;
+    // matched entries belong to their payments, so they stay posted
+    await prisma.bankTransactionMatch.deleteMany({
+      where: { bankTransactionId: transactionId },
+    });
+
+    return {
+      ...updated,
+      amount: decimalToNumber(updated.amount),
+    };
+  }
+
+  /**
+   * Suggest payments and journal entries a bank transaction could be matched to
+   */
+  async getMatchSuggestions(companyId: string, transactionId: string) {
+    const transaction = await prisma.bankTransaction.findFirst({
+      where: { id: transactionId },
+      include: { bankAccount: true },
+    });
+
+    if (!transaction || transaction.bankAccount.companyId !== companyId) {
+      throw new NotFoundError('Transaction not found');
     }
 
-    // Add opening balance
-    const lastReconciliation = await prisma.bankReconciliation.findFirst({
+    const bankGlAccountId = transaction.bankAccount.accountId;
+    const isDeposit = transaction.type === BankTransactionType.CREDIT;
+
+    // Posted entries that touch this bank account and are not matched yet
+    const entries = await prisma.journalEntry.findMany({
       where: {
-        bankAccountId: reconciliation.bankAccountId,
-        status: ReconciliationStatus.COMPLETED,
+        companyId,
+        isPosted: true,
+        date: {
+          gte: addDays(transaction.transactionDate, -MATCH_WINDOW_DAYS),
+          lte: addDays(transaction.transactionDate, MATCH_WINDOW_DAYS),
+        },
+        lines: { some: { accountId: bankGlAccountId } },
+        matchedBankTransactions: { none: {} },
+        bankTransactionMatches: { none: {} },
+      },
+      include: {
+        lines: { where: { accountId: bankGlAccountId } },
       },
-      orderBy: { statementDate: 'desc' },
     });
 
-    const openingBalance = lastReconciliation
-      ? decimalToNumber(lastReconciliation.reconciledBalance)
-      : 0;
+    const sourceIds = (source: JournalSource) =>
+      entries.filter((e) => e.source === source && e.sourceId).map((e) => e.sourceId!);
 
-    reconciledBalance += openingBalance;
+    const [customerPayments, billPayments] = await Promise.all([
+      prisma.customerPayment.findMany({
+        where: { companyId, id: { in: sourceIds(JournalSource.CUSTOMER_PAYMENT) } },
+        include: { customer: { select: { name: true } } },
+      }),
+      prisma.billPayment.findMany({
+        where: { companyId, id: { in: sourceIds(JournalSource.BILL_PAYMENT) } },
+        include: { vendor: { select: { name: true } } },
+      }),
+    ]);
 
-    const statementBalance = decimalToNumber(reconciliation.statementBalance);
+    const customerPaymentMap = new Map(customerPayments.map((p) => [p.id, p]));
+    const billPaymentMap = new Map(billPayments.map((p) => [p.id, p]));
+
+    const candidates: MatchCandidate[] = [];
+
+    for (const entry of entries) {
+      const net = entry.lines.reduce(
+        (sum, line) => sum + decimalToNumber(line.debit) - decimalToNumber(line.credit),
+        0
+      );
+
+      // Deposits match debits to the bank account, withdrawals match credits
+      if (isDeposit ? net <= 0 : net >= 0) continue;
+
+      const candidate: MatchCandidate = {
+        journalEntryId: entry.id,
+        entryNumber: entry.entryNumber,
+        type: 'JOURNAL_ENTRY',
+        sourceId: entry.sourceId,
+        date: entry.date,
+        amount: round(Math.abs(net)),
+        payee: null,
+        reference: entry.reference,
+        checkNumber: null,
+        memo: entry.memo,
+      };
+
+      const customerPayment = entry.sourceId ? customerPaymentMap.get(entry.sourceId) : undefined;
+      const billPayment = entry.sourceId ? billPaymentMap.get(entry.sourceId) : undefined;
+
+      if (entry.source === JournalSource.CUSTOMER_PAYMENT && customerPayment) {
+        candidate.type = 'CUSTOMER_PAYMENT';
+        candidate.payee = customerPayment.customer.name;
+        candidate.reference = customerPayment.reference || customerPayment.paymentNumber;
+      } else if (entry.source === JournalSource.BILL_PAYMENT && billPayment) {
+        candidate.type = 'BILL_PAYMENT';
+        candidate.payee = billPayment.vendor.name;
+        candidate.reference = billPayment.reference || billPayment.paymentNumber;
+        candidate.checkNumber = billPayment.checkNumber;
+      } else if (entry.source === JournalSource.DEPOSIT) {
+        candidate.type = 'DEPOSIT';
+      } else if (entry.source === JournalSource.TRANSFER) {
+        candidate.type = 'TRANSFER';
+      }
+
+      candidates.push(candidate);
+    }
 
-    // Check if balanced
-    if (Math.abs(reconciledBalance - statementBalance) >= 0.01) {
+    const target = {
+      transactionDate: transaction.transactionDate,
+      description: transaction.description,
+      amount: decimalToNumber(transaction.amount),
+      checkNumber: transaction.checkNumber,
+    };
+
+    const scored = candidates
+      .map((c) => scoreCandidate(target, c))
+      .sort((a, b) => b.score - a.score);
+
+    return {
+      transactionId: transaction.id,
+      amount: target.amount,
+      suggestions: scored.slice(0, 10),
+      groupSuggestions: findGroupMatches(target, scored),
+    };
+  }
+
+  /**
+   * Pick the statement for this bank account from a multi-account OFX file
+   */
+  private selectStatement(statements: ParsedStatement[], accountNumber: string): ParsedStatement {
+    if (statements.length === 1) {
+      return statements[0];
+    }
+
+    const lastDigits = accountNumber.slice(-4);
+    const match = statements.find((stmt) => stmt.accountId?.endsWith(lastDigits));
+
+    if (!match) {
       throw new BadRequestError(
-        `Difference of ${(reconciledBalance - statementBalance).toFixed(2)} - reconciliation not balanced`
+        'OFX file contains multiple accounts and none match this bank account'
       );
     }
 
-    // Mark transactions as reconciled
-    await prisma.bankTransaction.updateMany({
-      where: { id: { in: transactionIds } },
-      data: { status: BankTransactionStatus.RECONCILED },
-    });
+    return match;
+  }
 
-    // Complete reconciliation
-    const updated = await prisma.bankReconciliation.update({
-      where: { id: reconciliationId },
-      data: {
-        reconciledBalance,
-        status: ReconciliationStatus.COMPLETED,
-        completedAt: new Date(),
-        completedById: userId,
-      },
-    });
+  /**
+   * Verify split accounts, customers and vendors belong to the company
+   */
+  private async verifySplitReferences(companyId: string, splits: CategorizeSplitInput[]) {
+    const accountIds = [...new Set(splits.map((s) => s.accountId))];
+    const customerIds = [...new Set(splits.map((s) => s.customerId).filter((id): id is string => !!id))];
+    const vendorIds = [...new Set(splits.map((s) => s.vendorId).filter((id): id is string => !!id))];
+
+    const [accounts, customers, vendors] = await Promise.all([
+      prisma.account.count({ where: { id: { in: accountIds }, companyId } }),
+      prisma.customer.count({ where: { id: { in: customerIds }, companyId } }),
+      prisma.vendor.count({ where: { id: { in: vendorIds }, companyId } }),
+    ]);
 
-    // Update bank account balance
-    await prisma.bankAccount.update({
-      where: { id: reconciliation.bankAccountId },
-      data: {
-        currentBalance: statementBalance,
-        lastReconciled: new Date(),
-      },
+    if (accounts !== accountIds.length) {
+      throw new NotFoundError('Category account not found');
+    }
+
+    if (customers !== customerIds.length) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    if (vendors !== vendorIds.length) {
+      throw new NotFoundError('Vendor not found');
+    }
+  }
+
+  /**
+   * Apply the first matching rule to a pending transaction, either posting it
+   * or leaving the rule's category as a suggestion for review
+   */
+  private async applyRulesToTransaction(
+    companyId: string,
+    userId: string,
+    txn: BankTransaction,
+    rules: BankRule[]
+  ): Promise<RuleMatchResult | null> {
+    const rule = bankRuleService.findMatchingRule(rules, {
+      bankAccountId: txn.bankAccountId,
+      description: txn.description,
+      amount: decimalToNumber(txn.amount),
+      type: txn.type,
     });
 
-    return {
-      ...updated,
-      statementBalance: decimalToNumber(updated.statementBalance),
-      reconciledBalance: decimalToNumber(updated.reconciledBalance),
+    if (!rule) return null;
+
+    const action = {
+      categoryAccountId: rule.categoryAccountId,
+      memo: rule.memo,
+      customerId: rule.customerId,
+      vendorId: rule.vendorId,
+    };
+
+    const result = {
+      transactionId: txn.id,
+      description: txn.description,
+      ruleId: rule.id,
+      ruleName: rule.name,
     };
+
+    if (rule.autoPost) {
+      try {
+        await this.categorizeTransaction(companyId, userId, txn.id, action, rule.id);
+        return { ...result, autoPosted: true };
+      } catch (error) {
+        // Fall back to a suggestion so the import itself still succeeds
+        if (!(error instanceof AppError)) throw error;
+      }
+    }
+
+    await prisma.bankTransaction.update({
+      where: { id: txn.id },
+      data: { ...action, appliedRuleId: rule.id },
+    });
+
+    return { ...result, autoPosted: false };
   }
 
   /**
-   * Parse CSV data
+   * Parse an uploaded statement file using OFX or the account's CSV mapping
    */
-  private parseCSV(data: string): ParsedTransaction[] {
-    const lines = data.trim().split('\n');
-    if (lines.length < 2) return [];
+  private async parseStatementFile(
+    bankAccount: { id: string; accountNumber: string },
+    input: ImportTransactionsInput
+  ): Promise<{
+    transactions: ParsedTransaction[];
+    errors: ParseError[];
+    statement?: ParsedStatement;
+  }> {
+    const content = decodeStatementData(input.data);
+
+    if (input.format !== 'csv') {
+      const statement = this.selectStatement(await parseOFX(content), bankAccount.accountNumber);
+      return { transactions: statement.transactions, errors: [], statement };
+    }
 
-    const transactions: ParsedTransaction[] = [];
+    let mapping: CsvColumnMapping = DEFAULT_CSV_MAPPING;
 
-    // Skip header
-    for (let i = 1; i < lines.length; i++) {
-      const parts = lines[i].split(',').map((p) => p.trim().replace(/^"|"$/g, ''));
+    const profile = await prisma.bankImportProfile.findFirst({
+      where: input.profileId
+        ? { id: input.profileId, bankAccountId: bankAccount.id }
+        : { bankAccountId: bankAccount.id, isDefault: true },
+    });
 
-      if (parts.length < 3) continue;
+    if (input.profileId && !profile) {
+      throw new NotFoundError('Import profile not found');
+    }
 
-      // Assume format: Date, Description, Amount
-      const dateStr = parts[0];
-      const description = parts[1];
-      const amount = parseFloat(parts[2]);
+    if (profile) {
+      mapping = profile;
+    }
 
-      if (isNaN(amount)) continue;
+    return parseCSV(content, mapping);
+  }
 
-      transactions.push({
-        transactionDate: new Date(dateStr),
-        description,
-        amount: Math.abs(amount),
-        type: amount >= 0 ? BankTransactionType.CREDIT : BankTransactionType.DEBIT,
-        fitId: `${dateStr}-${description}-${amount}`.replace(/\s/g, ''),
-      });
+  /**
+   * An import profile needs either a signed amount column or debit/credit columns
+   */
+  private validateProfileColumns(profile: {
+    amountColumn?: string | null;
+    debitColumn?: string | null;
+    creditColumn?: string | null;
+  }) {
+    if (!profile.amountColumn && !profile.debitColumn && !profile.creditColumn) {
+      throw new BadRequestError('Profile must map an amount column or debit/credit columns');
     }
 
-    return transactions;
+    if (profile.amountColumn && (profile.debitColumn || profile.creditColumn)) {
+      throw new BadRequestError('Use either an amount column or debit/credit columns, not both');
+    }
   }
 }
 
@@ -0,0 +1,33 @@
+import { Response } from 'express';
+import { depositService } from './deposit.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
+
+export class DepositController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await depositService.getDeposits(req.companyId!, req.query as any);
+    return sendPaginated(res, result.deposits, result.pagination);
+  }
+
+  async undepositedPayments(req: AuthenticatedRequest, res: Response) {
+    const payments = await depositService.getUndepositedPayments(req.companyId!);
+    return sendSuccess(res, payments);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const deposit = await depositService.getDeposit(req.companyId!, req.params.id);
+    return sendSuccess(res, deposit);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const deposit = await depositService.createDeposit(req.companyId!, req.user!.id, req.body);
+    return sendCreated(res, deposit, 'Deposit recorded successfully');
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response) {
+    await depositService.deleteDeposit(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+}
+
+export const depositController = new DepositController();
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { depositController } from './deposit.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { createDepositSchema, depositQuerySchema } from './deposit.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: depositQuerySchema }),
+  asyncHandler(depositController.list.bind(depositController))
+);
+
+router.get(
+  '/undeposited-payments',
+  asyncHandler(depositController.undepositedPayments.bind(depositController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(depositController.get.bind(depositController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createDepositSchema }),
+  asyncHandler(depositController.create.bind(depositController))
+);
+
+router.delete(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(depositController.delete.bind(depositController))
+);
+
+export default router;
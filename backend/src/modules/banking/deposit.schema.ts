@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const depositLineSchema = z.object({
+  accountId: z.string().uuid(),
+  // Negative for cash back or fees taken out of the deposit
+  amount: z.number().refine((v) => v !== 0, 'Amount cannot be zero'),
+  memo: z.string().max(500).optional(),
+  customerId: z.string().uuid().optional(),
+});
+
+export const createDepositSchema = z.object({
+  bankAccountId: z.string().uuid(),
+  date: z.string().datetime(),
+  paymentIds: z.array(z.string().uuid()).default([]),
+  otherLines: z.array(depositLineSchema).default([]),
+  memo: z.string().max(500).optional(),
+  reference: z.string().max(100).optional(),
+  // Imported statement line to match; detected automatically when omitted
+  bankTransactionId: z.string().uuid().optional(),
+});
+
+export const depositQuerySchema = z.object({
+  bankAccountId: z.string().uuid().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type DepositLineInput = z.infer<typeof depositLineSchema>;
+export type CreateDepositInput = z.infer<typeof createDepositSchema>;
+export type DepositQuery = z.infer<typeof depositQuerySchema>;
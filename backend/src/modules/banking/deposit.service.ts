@@ -0,0 +1,363 @@
+import { prisma } from '../../config/database';
+import {
+  AccountSubType,
+  BankTransactionStatus,
+  BankTransactionType,
+  JournalSource,
+  Prisma,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { CreateDepositInput, DepositQuery } from './deposit.schema';
+import { decimalToNumber, round, addDays } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { journalService } from '../journal/journal.service';
+import { currencyService } from '../currency/currency.service';
+import { accountService } from '../accounts/account.service';
+import { periodService } from '../periods/period.service';
+
+// How far the bank's posting date can drift from the deposit date
+const DEPOSIT_MATCH_WINDOW_DAYS = 5;
+
+export class DepositService {
+  /**
+   * Customer payments received into Undeposited Funds and not yet deposited
+   */
+  async getUndepositedPayments(companyId: string) {
+    const payments = await prisma.customerPayment.findMany({
+      where: { companyId, bankAccountId: null, depositId: null },
+      include: { customer: { select: { id: true, name: true } } },
+      orderBy: { date: 'asc' },
+    });
+
+    return payments.map((p) => ({ ...p, amount: decimalToNumber(p.amount) }));
+  }
+
+  /**
+   * Get deposits with pagination
+   */
+  async getDeposits(companyId: string, query: DepositQuery) {
+    const where: Prisma.BankDepositWhereInput = { companyId };
+
+    if (query.bankAccountId) where.bankAccountId = query.bankAccountId;
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [deposits, total] = await Promise.all([
+      prisma.bankDeposit.findMany({
+        where,
+        include: {
+          bankAccount: { select: { id: true, bankName: true } },
+          _count: { select: { payments: true } },
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.bankDeposit.count({ where }),
+    ]);
+
+    return {
+      deposits: deposits.map((d) => ({ ...d, total: decimalToNumber(d.total) })),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Get single deposit with its payments and other lines
+   */
+  async getDeposit(companyId: string, depositId: string) {
+    const deposit = await prisma.bankDeposit.findFirst({
+      where: { id: depositId, companyId },
+      include: {
+        bankAccount: { select: { id: true, bankName: true } },
+        journalEntry: { select: { id: true, entryNumber: true } },
+        payments: {
+          include: { customer: { select: { id: true, name: true } } },
+          orderBy: { date: 'asc' },
+        },
+        otherLines: {
+          include: {
+            account: { select: { id: true, code: true, name: true } },
+            customer: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    if (!deposit) {
+      throw new NotFoundError('Deposit not found');
+    }
+
+    return {
+      ...deposit,
+      total: decimalToNumber(deposit.total),
+      payments: deposit.payments.map((p) => ({ ...p, amount: decimalToNumber(p.amount) })),
+      otherLines: deposit.otherLines.map((l) => ({ ...l, amount: decimalToNumber(l.amount) })),
+    };
+  }
+
+  /**
+   * Deposit payments from Undeposited Funds plus any other lines into a bank account
+   */
+  async createDeposit(companyId: string, userId: string, input: CreateDepositInput) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: input.bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    // Undeposited Funds only ever holds base-currency payments
+    if (bankAccount.currency !== (await currencyService.getBaseCurrency(companyId))) {
+      throw new BadRequestError('Deposits can only be made into base-currency bank accounts');
+    }
+
+    if (input.paymentIds.length === 0 && input.otherLines.length === 0) {
+      throw new BadRequestError('Deposit must include at least one payment or line');
+    }
+
+    const paymentIds = [...new Set(input.paymentIds)];
+    const payments = await prisma.customerPayment.findMany({
+      where: { id: { in: paymentIds }, companyId },
+      include: { customer: { select: { name: true } } },
+    });
+
+    if (payments.length !== paymentIds.length) {
+      throw new NotFoundError('Payment not found');
+    }
+
+    if (payments.some((p) => p.bankAccountId || p.depositId)) {
+      throw new BadRequestError('Only payments held in Undeposited Funds can be deposited');
+    }
+
+    await this.validateOtherLines(companyId, input);
+
+    const paymentsTotal = payments.reduce((sum, p) => sum + decimalToNumber(p.amount), 0);
+    const otherTotal = input.otherLines.reduce((sum, l) => sum + l.amount, 0);
+    const total = round(paymentsTotal + otherTotal);
+
+    if (total <= 0) {
+      throw new BadRequestError('Deposit total must be greater than zero');
+    }
+
+    const date = new Date(input.date);
+    const bankTransaction = await this.findStatementLine(
+      bankAccount.id,
+      total,
+      date,
+      input.bankTransactionId
+    );
+
+    const undepositedAccount = await accountService.getSystemAccount(
+      companyId,
+      AccountSubType.OTHER_ASSET
+    );
+
+    await periodService.assertOpen(companyId, date);
+
+    const deposit = await prisma.bankDeposit.create({
+      data: {
+        companyId,
+        bankAccountId: bankAccount.id,
+        date,
+        total,
+        memo: input.memo,
+        reference: input.reference,
+        otherLines: {
+          create: input.otherLines.map((line) => ({
+            accountId: line.accountId,
+            amount: line.amount,
+            memo: line.memo,
+            customerId: line.customerId,
+          })),
+        },
+      },
+    });
+
+    const memo = input.memo || `Deposit to ${bankAccount.bankName}`;
+
+    const journalEntry = await journalService.createFromTransaction(companyId, userId, {
+      date,
+      memo,
+      reference: input.reference,
+      source: JournalSource.DEPOSIT,
+      sourceId: deposit.id,
+      lines: [
+        {
+          accountId: bankAccount.accountId,
+          debit: total,
+          credit: 0,
+          memo,
+        },
+        ...payments.map((p) => ({
+          accountId: undepositedAccount.id,
+          debit: 0,
+          credit: decimalToNumber(p.amount),
+          memo: `Payment ${p.paymentNumber} from ${p.customer.name}`,
+          customerId: p.customerId,
+        })),
+        ...input.otherLines.map((line) => ({
+          accountId: line.accountId,
+          debit: line.amount < 0 ? Math.abs(line.amount) : 0,
+          credit: line.amount > 0 ? line.amount : 0,
+          memo: line.memo || memo,
+          customerId: line.customerId,
+        })),
+      ],
+    });
+
+    await prisma.bankDeposit.update({
+      where: { id: deposit.id },
+      data: { journalEntryId: journalEntry.id },
+    });
+
+    await prisma.customerPayment.updateMany({
+      where: { id: { in: paymentIds } },
+      data: { depositId: deposit.id, depositedAt: date },
+    });
+
+    if (bankTransaction) {
+      await prisma.bankTransactionMatch.create({
+        data: {
+          bankTransactionId: bankTransaction.id,
+          journalEntryId: journalEntry.id,
+          amount: total,
+        },
+      });
+
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: {
+          matchedJournalEntryId: journalEntry.id,
+          status: BankTransactionStatus.MATCHED,
+        },
+      });
+    }
+
+    return {
+      ...(await this.getDeposit(companyId, deposit.id)),
+      matchedTransactionId: bankTransaction?.id ?? null,
+    };
+  }
+
+  /**
+   * Delete deposit, returning its payments to Undeposited Funds
+   */
+  async deleteDeposit(companyId: string, depositId: string) {
+    const deposit = await prisma.bankDeposit.findFirst({
+      where: { id: depositId, companyId },
+    });
+
+    if (!deposit) {
+      throw new NotFoundError('Deposit not found');
+    }
+
+    if (deposit.journalEntryId) {
+      await journalService.assertSourceNotCleared(companyId, JournalSource.DEPOSIT, deposit.id);
+      await periodService.assertOpen(companyId, deposit.date);
+
+      await prisma.bankTransaction.updateMany({
+        where: { matches: { some: { journalEntryId: deposit.journalEntryId } } },
+        data: { matchedJournalEntryId: null, status: BankTransactionStatus.PENDING },
+      });
+
+      await prisma.bankTransactionMatch.deleteMany({
+        where: { journalEntryId: deposit.journalEntryId },
+      });
+
+      // Void journal entry
+      await prisma.journalEntry.update({
+        where: { id: deposit.journalEntryId },
+        data: { isPosted: false },
+      });
+    }
+
+    await prisma.customerPayment.updateMany({
+      where: { depositId },
+      data: { depositId: null, depositedAt: null },
+    });
+
+    await prisma.bankDeposit.delete({
+      where: { id: depositId },
+    });
+  }
+
+  private async validateOtherLines(companyId: string, input: CreateDepositInput) {
+    const accountIds = [...new Set(input.otherLines.map((l) => l.accountId))];
+    const customerIds = [
+      ...new Set(input.otherLines.map((l) => l.customerId).filter((id): id is string => !!id)),
+    ];
+
+    const [accounts, customers] = await Promise.all([
+      prisma.account.count({ where: { id: { in: accountIds }, companyId } }),
+      prisma.customer.count({ where: { id: { in: customerIds }, companyId } }),
+    ]);
+
+    if (accounts !== accountIds.length) {
+      throw new NotFoundError('Account not found');
+    }
+
+    if (customers !== customerIds.length) {
+      throw new NotFoundError('Customer not found');
+    }
+  }
+
+  /**
+   * Load the given statement line, or the single pending deposit line for this amount
+   */
+  private async findStatementLine(
+    bankAccountId: string,
+    total: number,
+    date: Date,
+    bankTransactionId?: string
+  ) {
+    if (bankTransactionId) {
+      const txn = await prisma.bankTransaction.findFirst({
+        where: { id: bankTransactionId, bankAccountId },
+      });
+
+      if (!txn) {
+        throw new NotFoundError('Transaction not found');
+      }
+
+      if (txn.status !== BankTransactionStatus.PENDING) {
+        throw new BadRequestError('Transaction is already categorized or matched');
+      }
+
+      if (
+        txn.type !== BankTransactionType.CREDIT ||
+        Math.abs(decimalToNumber(txn.amount) - total) >= 0.01
+      ) {
+        throw new BadRequestError('Transaction does not match the deposit total');
+      }
+
+      return txn;
+    }
+
+    const candidates = await prisma.bankTransaction.findMany({
+      where: {
+        bankAccountId,
+        type: BankTransactionType.CREDIT,
+        amount: total,
+        status: BankTransactionStatus.PENDING,
+        transactionDate: {
+          gte: addDays(date, -DEPOSIT_MATCH_WINDOW_DAYS),
+          lte: addDays(date, DEPOSIT_MATCH_WINDOW_DAYS),
+        },
+      },
+    });
+
+    // Only auto-match when there is no ambiguity
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+}
+
+export const depositService = new DepositService();
@@ -0,0 +1,174 @@
+import { round } from '../../utils/helpers';
+
+export type MatchCandidateType =
+  | 'CUSTOMER_PAYMENT'
+  | 'BILL_PAYMENT'
+  | 'TRANSFER'
+  | 'DEPOSIT'
+  | 'JOURNAL_ENTRY';
+
+export interface MatchCandidate {
+  journalEntryId: string;
+  entryNumber: number;
+  type: MatchCandidateType;
+  sourceId: string | null;
+  date: Date;
+  amount: number; // Absolute amount posted to the bank GL account
+  payee: string | null;
+  reference: string | null;
+  checkNumber: string | null;
+  memo: string | null;
+}
+
+export interface ScoredCandidate extends MatchCandidate {
+  score: number;
+  reasons: string[];
+}
+
+export interface GroupSuggestion {
+  candidates: ScoredCandidate[];
+  total: number;
+  score: number;
+}
+
+interface MatchTarget {
+  transactionDate: Date;
+  description: string;
+  amount: number;
+  checkNumber: string | null;
+}
+
+// Score weights add up to 100
+const AMOUNT_WEIGHT = 50;
+const DATE_WEIGHT = 25;
+const CHECK_WEIGHT = 15;
+const REFERENCE_WEIGHT = 10;
+
+export const MATCH_WINDOW_DAYS = 30;
+const MAX_GROUP_SIZE = 5;
+const MAX_GROUP_CANDIDATES = 15;
+const MAX_GROUP_SUGGESTIONS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Score how likely a posted entry is the counterpart of a bank transaction
+ */
+export function scoreCandidate(target: MatchTarget, candidate: MatchCandidate): ScoredCandidate {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const diff = Math.abs(candidate.amount - target.amount);
+  if (diff < 0.005) {
+    score += AMOUNT_WEIGHT;
+    reasons.push('Exact amount');
+  } else if (target.amount > 0 && diff / target.amount <= 0.05) {
+    score += AMOUNT_WEIGHT * 0.4;
+    reasons.push('Amount within 5%');
+  }
+
+  score += dateScore(target.transactionDate, candidate.date);
+  const days = daysBetween(target.transactionDate, candidate.date);
+  if (days <= 3) {
+    reasons.push(days === 0 ? 'Same date' : `${days} day(s) apart`);
+  }
+
+  if (
+    target.checkNumber &&
+    candidate.checkNumber &&
+    normalizeCheckNumber(target.checkNumber) === normalizeCheckNumber(candidate.checkNumber)
+  ) {
+    score += CHECK_WEIGHT;
+    reasons.push('Check number matches');
+  }
+
+  if (referenceAppears(target.description, candidate)) {
+    score += REFERENCE_WEIGHT;
+    reasons.push('Reference found in description');
+  }
+
+  return { ...candidate, score: round(score, 0), reasons };
+}
+
+/**
+ * Find sets of entries that together add up to the bank transaction amount,
+ * e.g. one deposit covering several customer payments
+ */
+export function findGroupMatches(
+  target: MatchTarget,
+  candidates: ScoredCandidate[]
+): GroupSuggestion[] {
+  const targetCents = toCents(target.amount);
+
+  // Only smaller entries can be part of a group; keep the closest by date
+  const pool = candidates
+    .filter((c) => toCents(c.amount) < targetCents)
+    .sort(
+      (a, b) =>
+        daysBetween(target.transactionDate, a.date) - daysBetween(target.transactionDate, b.date)
+    )
+    .slice(0, MAX_GROUP_CANDIDATES)
+    .sort((a, b) => b.amount - a.amount);
+
+  const groups: ScoredCandidate[][] = [];
+
+  const search = (start: number, remaining: number, current: ScoredCandidate[]) => {
+    if (groups.length >= MAX_GROUP_SUGGESTIONS * 4) return;
+    if (remaining === 0 && current.length > 1) {
+      groups.push([...current]);
+      return;
+    }
+    if (current.length >= MAX_GROUP_SIZE) return;
+
+    for (let i = start; i < pool.length; i++) {
+      const cents = toCents(pool[i].amount);
+      if (cents > remaining) continue;
+      current.push(pool[i]);
+      search(i + 1, remaining - cents, current);
+      current.pop();
+    }
+  };
+
+  search(0, targetCents, []);
+
+  return groups
+    .map((group) => ({
+      candidates: group,
+      total: round(group.reduce((sum, c) => sum + c.amount, 0)),
+      // A complete set is an exact amount match; rank sets by how close their dates are
+      score: round(
+        AMOUNT_WEIGHT +
+          group.reduce((sum, c) => sum + dateScore(target.transactionDate, c.date), 0) /
+            group.length,
+        0
+      ),
+    }))
+    .sort((a, b) => b.score - a.score || a.candidates.length - b.candidates.length)
+    .slice(0, MAX_GROUP_SUGGESTIONS);
+}
+
+function dateScore(a: Date, b: Date): number {
+  const days = daysBetween(a, b);
+  return Math.max(0, DATE_WEIGHT * (1 - days / MATCH_WINDOW_DAYS));
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.round(Math.abs(a.getTime() - b.getTime()) / DAY_MS);
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function normalizeCheckNumber(value: string): string {
+  return value.replace(/\D/g, '').replace(/^0+/, '');
+}
+
+function referenceAppears(description: string, candidate: MatchCandidate): boolean {
+  const haystack = description.toLowerCase();
+  const needles = [candidate.reference, candidate.payee]
+    .filter((v): v is string => !!v && v.trim().length >= 3)
+    .map((v) => v.trim().toLowerCase());
+
+  return needles.some((needle) => haystack.includes(needle));
+}
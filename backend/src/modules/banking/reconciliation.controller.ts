@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { reconciliationService } from './reconciliation.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent } from '../../utils/response';
+
+export class ReconciliationController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const reconciliations = await reconciliationService.getReconciliations(
+      req.companyId!,
+      req.params.id
+    );
+    return sendSuccess(res, reconciliations);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const reconciliation = await reconciliationService.getReconciliation(
+      req.companyId!,
+      req.params.reconciliationId
+    );
+    return sendSuccess(res, reconciliation);
+  }
+
+  async start(req: AuthenticatedRequest, res: Response) {
+    const reconciliation = await reconciliationService.startReconciliation(
+      req.companyId!,
+      req.params.id,
+      req.body
+    );
+    return sendCreated(res, reconciliation, 'Reconciliation started');
+  }
+
+  async saveItems(req: AuthenticatedRequest, res: Response) {
+    const reconciliation = await reconciliationService.saveClearedItems(
+      req.companyId!,
+      req.params.reconciliationId,
+      req.body.lineIds
+    );
+    return sendSuccess(res, reconciliation, 'Cleared items saved');
+  }
+
+  async complete(req: AuthenticatedRequest, res: Response) {
+    const reconciliation = await reconciliationService.completeReconciliation(
+      req.companyId!,
+      req.user!.id,
+      req.params.reconciliationId,
+      req.body.lineIds
+    );
+    return sendSuccess(res, reconciliation, 'Reconciliation completed');
+  }
+
+  async cancel(req: AuthenticatedRequest, res: Response) {
+    await reconciliationService.cancelReconciliation(req.companyId!, req.params.reconciliationId);
+    return sendNoContent(res);
+  }
+
+  async undoLast(req: AuthenticatedRequest, res: Response) {
+    const reconciliation = await reconciliationService.undoLastReconciliation(
+      req.companyId!,
+      req.params.id
+    );
+    return sendSuccess(res, reconciliation, 'Reconciliation undone');
+  }
+
+  async report(req: AuthenticatedRequest, res: Response) {
+    const report = await reconciliationService.getReconciliationReport(
+      req.companyId!,
+      req.params.reconciliationId
+    );
+    return sendSuccess(res, report);
+  }
+}
+
+export const reconciliationController = new ReconciliationController();
@@ -0,0 +1,539 @@
+import { prisma } from '../../config/database';
+import {
+  AccountType,
+  BankReconciliation,
+  BankTransaction,
+  BankTransactionStatus,
+  ReconciliationStatus,
+  Prisma,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { StartReconciliationInput } from './banking.schema';
+import { decimalToNumber, maskAccountNumber, round, areEqual } from '../../utils/helpers';
+
+const reconciliationLineInclude = {
+  journalEntry: {
+    select: { id: true, entryNumber: true, date: true, memo: true, reference: true, source: true },
+  },
+} satisfies Prisma.JournalLineInclude;
+
+type ReconciliationLine = Prisma.JournalLineGetPayload<{ include: typeof reconciliationLineInclude }>;
+
+type ReconciliationWithAccount = BankReconciliation & {
+  bankAccount: { id: string; accountId: string; account: { type: AccountType } };
+};
+
+export class ReconciliationService {
+  /**
+   * Get reconciliation history for a bank account
+   */
+  async getReconciliations(companyId: string, bankAccountId: string) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    const reconciliations = await prisma.bankReconciliation.findMany({
+      where: { bankAccountId },
+      include: {
+        completedBy: { select: { id: true, name: true } },
+        _count: { select: { clearedLines: true } },
+      },
+      orderBy: { statementDate: 'desc' },
+    });
+
+    return reconciliations.map((r) => this.formatReconciliation(r));
+  }
+
+  /**
+   * Get a reconciliation with the GL lines it can clear and running totals
+   */
+  async getReconciliation(companyId: string, reconciliationId: string) {
+    const reconciliation = await this.findReconciliation(companyId, reconciliationId);
+
+    const lines = await prisma.journalLine.findMany({
+      where:
+        reconciliation.status === ReconciliationStatus.IN_PROGRESS
+          ? this.openLinesWhere(reconciliation)
+          : { reconciliationId },
+      include: reconciliationLineInclude,
+      orderBy: [{ journalEntry: { date: 'asc' } }, { journalEntry: { entryNumber: 'asc' } }],
+    });
+
+    const cleared = lines.filter((l) => l.reconciliationId === reconciliationId);
+
+    return {
+      ...this.formatReconciliation(reconciliation),
+      ...this.summarize(reconciliation, cleared, reconciliation.bankAccount.account.type),
+      items: lines.map((l) => this.formatLine(l)),
+    };
+  }
+
+  /**
+   * Start bank reconciliation
+   */
+  async startReconciliation(
+    companyId: string,
+    bankAccountId: string,
+    input: StartReconciliationInput
+  ) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: bankAccountId, companyId },
+      include: { account: true },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    // Check for existing in-progress reconciliation
+    const existing = await prisma.bankReconciliation.findFirst({
+      where: {
+        bankAccountId,
+        status: ReconciliationStatus.IN_PROGRESS,
+      },
+    });
+
+    if (existing) {
+      throw new BadRequestError('A reconciliation is already in progress');
+    }
+
+    const statementDate = new Date(input.statementDate);
+    const lastReconciliation = await this.findLastCompleted(bankAccountId);
+
+    if (lastReconciliation && statementDate <= lastReconciliation.statementDate) {
+      throw new BadRequestError('Statement date must be after the last reconciled statement');
+    }
+
+    // Opening balance: GL opening balance plus everything cleared so far
+    const previouslyCleared = await prisma.journalLine.aggregate({
+      where: {
+        accountId: bankAccount.accountId,
+        isCleared: true,
+        reconciliation: { status: ReconciliationStatus.COMPLETED },
+      },
+      _sum: { debit: true, credit: true },
+    });
+
+    const openingBalance = round(
+      decimalToNumber(bankAccount.account.openingBalance) +
+        this.balanceSign(bankAccount.account.type) *
+          (decimalToNumber(previouslyCleared._sum.debit) -
+            decimalToNumber(previouslyCleared._sum.credit))
+    );
+
+    const reconciliation = await prisma.bankReconciliation.create({
+      data: {
+        bankAccountId,
+        statementDate,
+        statementBalance: input.statementBalance,
+        openingBalance,
+        status: ReconciliationStatus.IN_PROGRESS,
+      },
+    });
+
+    return {
+      ...this.formatReconciliation(reconciliation),
+      ...this.summarize(reconciliation, [], bankAccount.account.type),
+    };
+  }
+
+  /**
+   * Save the cleared lines of an in-progress reconciliation
+   */
+  async saveClearedItems(companyId: string, reconciliationId: string, lineIds: string[]) {
+    const reconciliation = await this.findReconciliation(companyId, reconciliationId);
+
+    if (reconciliation.status !== ReconciliationStatus.IN_PROGRESS) {
+      throw new BadRequestError('Reconciliation already completed');
+    }
+
+    const ids = [...new Set(lineIds)];
+    const eligible = await prisma.journalLine.count({
+      where: { ...this.openLinesWhere(reconciliation), id: { in: ids } },
+    });
+
+    if (eligible !== ids.length) {
+      throw new BadRequestError(
+        'Some lines cannot be cleared in this reconciliation (not on this bank account, already cleared or after the statement date)'
+      );
+    }
+
+    await prisma.journalLine.updateMany({
+      where: { reconciliationId, id: { notIn: ids } },
+      data: { reconciliationId: null, isCleared: false, clearedAt: null },
+    });
+
+    await prisma.journalLine.updateMany({
+      where: { id: { in: ids }, reconciliationId: null },
+      data: { reconciliationId, isCleared: true, clearedAt: new Date() },
+    });
+
+    const cleared = await prisma.journalLine.findMany({
+      where: { reconciliationId },
+    });
+
+    return {
+      ...this.formatReconciliation(reconciliation),
+      ...this.summarize(reconciliation, cleared, reconciliation.bankAccount.account.type),
+    };
+  }
+
+  /**
+   * Complete reconciliation
+   */
+  async completeReconciliation(
+    companyId: string,
+    userId: string,
+    reconciliationId: string,
+    lineIds?: string[]
+  ) {
+    const reconciliation = await this.findReconciliation(companyId, reconciliationId);
+
+    if (reconciliation.status === ReconciliationStatus.COMPLETED) {
+      throw new BadRequestError('Reconciliation already completed');
+    }
+
+    if (lineIds) {
+      await this.saveClearedItems(companyId, reconciliationId, lineIds);
+    }
+
+    const cleared = await prisma.journalLine.findMany({
+      where: { reconciliationId },
+    });
+
+    const { clearedBalance, difference } = this.summarize(
+      reconciliation,
+      cleared,
+      reconciliation.bankAccount.account.type
+    );
+
+    // Check if balanced
+    if (!areEqual(difference, 0)) {
+      throw new BadRequestError(
+        `Difference of ${difference.toFixed(2)} - reconciliation not balanced`
+      );
+    }
+
+    // Imported bank transactions behind the cleared entries are reconciled with them
+    const entryIds = [...new Set(cleared.map((l) => l.journalEntryId))];
+    await prisma.bankTransaction.updateMany({
+      where: {
+        bankAccountId: reconciliation.bankAccountId,
+        status: { not: BankTransactionStatus.EXCLUDED },
+        OR: [
+          { matchedJournalEntryId: { in: entryIds } },
+          { matches: { some: { journalEntryId: { in: entryIds } } } },
+        ],
+      },
+      data: { status: BankTransactionStatus.RECONCILED, reconciliationId },
+    });
+
+    // Complete reconciliation
+    const updated = await prisma.bankReconciliation.update({
+      where: { id: reconciliationId },
+      data: {
+        reconciledBalance: clearedBalance,
+        status: ReconciliationStatus.COMPLETED,
+        completedAt: new Date(),
+        completedById: userId,
+      },
+    });
+
+    // Update bank account balance
+    await prisma.bankAccount.update({
+      where: { id: reconciliation.bankAccountId },
+      data: {
+        currentBalance: updated.statementBalance,
+        lastReconciled: new Date(),
+      },
+    });
+
+    return this.formatReconciliation(updated);
+  }
+
+  /**
+   * Discard an in-progress reconciliation and its cleared selection
+   */
+  async cancelReconciliation(companyId: string, reconciliationId: string) {
+    const reconciliation = await this.findReconciliation(companyId, reconciliationId);
+
+    if (reconciliation.status !== ReconciliationStatus.IN_PROGRESS) {
+      throw new BadRequestError('Only an in-progress reconciliation can be cancelled');
+    }
+
+    await prisma.journalLine.updateMany({
+      where: { reconciliationId },
+      data: { reconciliationId: null, isCleared: false, clearedAt: null },
+    });
+
+    await prisma.bankReconciliation.delete({
+      where: { id: reconciliationId },
+    });
+  }
+
+  /**
+   * Reopen the most recent completed reconciliation, unreconciling its transactions
+   */
+  async undoLastReconciliation(companyId: string, bankAccountId: string) {
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    const inProgress = await prisma.bankReconciliation.findFirst({
+      where: { bankAccountId, status: ReconciliationStatus.IN_PROGRESS },
+    });
+
+    if (inProgress) {
+      throw new BadRequestError('Cancel or complete the reconciliation in progress first');
+    }
+
+    const last = await this.findLastCompleted(bankAccountId);
+
+    if (!last) {
+      throw new BadRequestError('No completed reconciliation to undo');
+    }
+
+    const transactions = await prisma.bankTransaction.findMany({
+      where: { reconciliationId: last.id },
+      include: { _count: { select: { matches: true } } },
+    });
+
+    // Return each bank transaction to the state it had before reconciling;
+    // the journal lines stay selected so the reopened reconciliation can be adjusted
+    for (const txn of transactions) {
+      await prisma.bankTransaction.update({
+        where: { id: txn.id },
+        data: {
+          status: this.unreconciledStatus(txn, txn._count.matches),
+          reconciliationId: null,
+        },
+      });
+    }
+
+    const reopened = await prisma.bankReconciliation.update({
+      where: { id: last.id },
+      data: {
+        status: ReconciliationStatus.IN_PROGRESS,
+        reconciledBalance: 0,
+        completedAt: null,
+        completedById: null,
+      },
+    });
+
+    const previous = await this.findLastCompleted(bankAccountId);
+
+    // Undoing the first reconciliation returns to the balance it started from
+    await prisma.bankAccount.update({
+      where: { id: bankAccountId },
+      data: {
+        currentBalance: previous ? previous.statementBalance : last.openingBalance,
+        lastReconciled: previous ? previous.completedAt : null,
+      },
+    });
+
+    return this.formatReconciliation(reopened);
+  }
+
+  /**
+   * Reconciliation report: cleared and uncleared deposits and withdrawals as of the statement date
+   */
+  async getReconciliationReport(companyId: string, reconciliationId: string) {
+    const reconciliation = await this.findReconciliation(companyId, reconciliationId);
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: reconciliation.bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    const [cleared, uncleared] = await Promise.all([
+      prisma.journalLine.findMany({
+        where: { reconciliationId },
+        include: reconciliationLineInclude,
+        orderBy: { journalEntry: { date: 'asc' } },
+      }),
+      // Not cleared by this or any earlier reconciliation
+      prisma.journalLine.findMany({
+        where: {
+          accountId: bankAccount.accountId,
+          journalEntry: { isPosted: true, date: { lte: reconciliation.statementDate } },
+          OR: [
+            { reconciliationId: null },
+            { reconciliation: { statementDate: { gt: reconciliation.statementDate } } },
+          ],
+        },
+        include: reconciliationLineInclude,
+        orderBy: { journalEntry: { date: 'asc' } },
+      }),
+    ]);
+
+    const accountType = reconciliation.bankAccount.account.type;
+    const summary = this.summarize(reconciliation, cleared, accountType);
+    const unclearedSection = this.reportSection(uncleared);
+
+    return {
+      reconciliation: this.formatReconciliation(reconciliation),
+      bankAccount: {
+        id: bankAccount.id,
+        bankName: bankAccount.bankName,
+        accountNumber: maskAccountNumber(bankAccount.accountNumber),
+      },
+      statementDate: reconciliation.statementDate,
+      ...summary,
+      cleared: this.reportSection(cleared),
+      uncleared: unclearedSection,
+      // Register balance at the statement date, including uncleared items
+      registerBalance: round(
+        summary.clearedBalance +
+          this.balanceSign(accountType) *
+            (unclearedSection.deposits.total - unclearedSection.withdrawals.total)
+      ),
+    };
+  }
+
+  private async findReconciliation(
+    companyId: string,
+    reconciliationId: string
+  ): Promise<ReconciliationWithAccount> {
+    const reconciliation = await prisma.bankReconciliation.findFirst({
+      where: { id: reconciliationId, bankAccount: { companyId } },
+      include: {
+        bankAccount: { select: { id: true, accountId: true, account: { select: { type: true } } } },
+      },
+    });
+
+    if (!reconciliation) {
+      throw new NotFoundError('Reconciliation not found');
+    }
+
+    return reconciliation;
+  }
+
+  private findLastCompleted(bankAccountId: string) {
+    return prisma.bankReconciliation.findFirst({
+      where: { bankAccountId, status: ReconciliationStatus.COMPLETED },
+      orderBy: { statementDate: 'desc' },
+    });
+  }
+
+  /**
+   * Posted lines on the bank's GL account that can still be cleared
+   */
+  private openLinesWhere(reconciliation: ReconciliationWithAccount): Prisma.JournalLineWhereInput {
+    return {
+      accountId: reconciliation.bankAccount.accountId,
+      journalEntry: { isPosted: true, date: { lte: reconciliation.statementDate } },
+      OR: [{ reconciliationId: null }, { reconciliationId: reconciliation.id }],
+    };
+  }
+
+  /**
+   * Whether debits raise the balance of the bank's GL account (1) or lower it (-1).
+   * Credit cards are linked to liability accounts, where charges are credits.
+   */
+  private balanceSign(accountType: AccountType): 1 | -1 {
+    return ['ASSET', 'EXPENSE'].includes(accountType) ? 1 : -1;
+  }
+
+  /**
+   * Running cleared balance and difference against the statement
+   */
+  private summarize(
+    reconciliation: BankReconciliation,
+    cleared: { debit: Prisma.Decimal; credit: Prisma.Decimal }[],
+    accountType: AccountType
+  ) {
+    let clearedDeposits = 0;
+    let clearedWithdrawals = 0;
+
+    for (const line of cleared) {
+      clearedDeposits += decimalToNumber(line.debit);
+      clearedWithdrawals += decimalToNumber(line.credit);
+    }
+
+    const openingBalance = decimalToNumber(reconciliation.openingBalance);
+    const clearedBalance = round(
+      openingBalance + this.balanceSign(accountType) * (clearedDeposits - clearedWithdrawals)
+    );
+    const statementBalance = decimalToNumber(reconciliation.statementBalance);
+
+    return {
+      openingBalance,
+      clearedDeposits: round(clearedDeposits),
+      clearedWithdrawals: round(clearedWithdrawals),
+      clearedCount: cleared.length,
+      clearedBalance,
+      difference: round(clearedBalance - statementBalance),
+    };
+  }
+
+  private reportSection(lines: ReconciliationLine[]) {
+    const items = lines.map((l) => this.formatLine(l));
+    const deposits = items.filter((i) => i.type === 'DEPOSIT');
+    const withdrawals = items.filter((i) => i.type === 'WITHDRAWAL');
+
+    return {
+      deposits: {
+        items: deposits,
+        total: round(deposits.reduce((sum, i) => sum + i.amount, 0)),
+      },
+      withdrawals: {
+        items: withdrawals,
+        total: round(withdrawals.reduce((sum, i) => sum + i.amount, 0)),
+      },
+    };
+  }
+
+  private formatLine(line: ReconciliationLine) {
+    const net = decimalToNumber(line.debit) - decimalToNumber(line.credit);
+
+    return {
+      id: line.id,
+      journalEntryId: line.journalEntryId,
+      entryNumber: line.journalEntry.entryNumber,
+      date: line.journalEntry.date,
+      memo: line.memo || line.journalEntry.memo,
+      reference: line.journalEntry.reference,
+      source: line.journalEntry.source,
+      type: net >= 0 ? ('DEPOSIT' as const) : ('WITHDRAWAL' as const),
+      amount: round(Math.abs(net)),
+      isCleared: line.isCleared,
+      clearedAt: line.clearedAt,
+    };
+  }
+
+  /**
+   * Status a bank transaction returns to when its reconciliation is undone
+   */
+  private unreconciledStatus(txn: BankTransaction, matchCount: number): BankTransactionStatus {
+    if (matchCount > 0) return BankTransactionStatus.MATCHED;
+    if (txn.matchedJournalEntryId) return BankTransactionStatus.CATEGORIZED;
+    return BankTransactionStatus.PENDING;
+  }
+
+  private formatReconciliation<
+    T extends {
+      statementBalance: Prisma.Decimal;
+      openingBalance: Prisma.Decimal;
+      reconciledBalance: Prisma.Decimal;
+    },
+  >(reconciliation: T) {
+    return {
+      ...reconciliation,
+      statementBalance: decimalToNumber(reconciliation.statementBalance),
+      openingBalance: decimalToNumber(reconciliation.openingBalance),
+      reconciledBalance: decimalToNumber(reconciliation.reconciledBalance),
+    };
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,430 @@
+import crypto from 'crypto';
+import { parse as parseOfxDocument } from 'ofx-js';
+import { BankTransactionType, CsvSignConvention } from '@prisma/client';
+import { BadRequestError } from '../../utils/errors';
+import { round } from '../../utils/helpers';
+
+export interface ParsedTransaction {
+  transactionDate: Date;
+  postDate?: Date;
+  description: string;
+  amount: number;
+  type: BankTransactionType;
+  fitId?: string;
+  legacyFitId?: string; // ID the original CSV importer gave the same row, for duplicate checks
+  checkNumber?: string;
+}
+
+export interface ParsedStatement {
+  accountId?: string;
+  currency?: string;
+  startDate?: Date;
+  endDate?: Date;
+  ledgerBalance?: number;
+  ledgerBalanceDate?: Date;
+  availableBalance?: number;
+  transactions: ParsedTransaction[];
+}
+
+export interface CsvColumnMapping {
+  delimiter: string;
+  skipRows: number;
+  hasHeaderRow: boolean;
+  dateColumn: string;
+  dateFormat?: string | null;
+  descriptionColumn: string;
+  amountColumn?: string | null;
+  debitColumn?: string | null;
+  creditColumn?: string | null;
+  checkNumberColumn?: string | null;
+  referenceColumn?: string | null;
+  signConvention: CsvSignConvention;
+  decimalSeparator: string;
+}
+
+export interface ParseError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedCsv {
+  transactions: (ParsedTransaction & { row: number })[];
+  errors: ParseError[];
+}
+
+// Legacy layout used when a bank account has no saved import profile
+export const DEFAULT_CSV_MAPPING: CsvColumnMapping = {
+  delimiter: ',',
+  skipRows: 0,
+  hasHeaderRow: true,
+  dateColumn: '1',
+  descriptionColumn: '2',
+  amountColumn: '3',
+  signConvention: CsvSignConvention.CREDIT_POSITIVE,
+  decimalSeparator: '.',
+};
+
+/**
+ * Decode import payloads that may arrive base64 encoded
+ */
+export function decodeStatementData(data: string): string {
+  const trimmed = data.trim();
+
+  // Raw OFX/CSV content contains characters that never appear in base64
+  if (!/^[A-Za-z0-9+/=\s]+$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  return Buffer.from(trimmed, 'base64').toString('utf8').trim();
+}
+
+/**
+ * Parse an OFX 1.x (SGML) or 2.x (XML) document, including QFX files.
+ * Returns one entry per bank or credit card statement in the file.
+ */
+export async function parseOFX(data: string): Promise<ParsedStatement[]> {
+  if (!/<OFX>/i.test(data)) {
+    throw new BadRequestError('File does not contain OFX data');
+  }
+
+  let document: Record<string, any>;
+  try {
+    document = await parseOfxDocument(normalizeOfx(data));
+  } catch {
+    throw new BadRequestError('Unable to parse OFX file');
+  }
+
+  const ofx = document.OFX || {};
+
+  const statements = [
+    ...toArray(ofx.BANKMSGSRSV1?.STMTTRNRS).map((trnrs: any) => trnrs?.STMTRS),
+    ...toArray(ofx.CREDITCARDMSGSRSV1?.CCSTMTTRNRS).map((trnrs: any) => trnrs?.CCSTMTRS),
+  ].filter(Boolean);
+
+  if (statements.length === 0) {
+    throw new BadRequestError('OFX file does not contain a bank or credit card statement');
+  }
+
+  return statements.map((stmt: any) => {
+    const account = stmt.BANKACCTFROM || stmt.CCACCTFROM || {};
+    const tranList = stmt.BANKTRANLIST || {};
+
+    return {
+      accountId: text(account.ACCTID),
+      currency: text(stmt.CURDEF),
+      startDate: parseOfxDate(tranList.DTSTART),
+      endDate: parseOfxDate(tranList.DTEND),
+      ledgerBalance: parseOfxAmount(stmt.LEDGERBAL?.BALAMT),
+      ledgerBalanceDate: parseOfxDate(stmt.LEDGERBAL?.DTASOF),
+      availableBalance: parseOfxAmount(stmt.AVAILBAL?.BALAMT),
+      transactions: toArray(tranList.STMTTRN)
+        .map(mapOfxTransaction)
+        .filter((txn): txn is ParsedTransaction => txn !== null),
+    };
+  });
+}
+
+/**
+ * Map a single STMTTRN record onto a parsed transaction
+ */
+function mapOfxTransaction(trn: any): ParsedTransaction | null {
+  const amount = parseOfxAmount(trn.TRNAMT);
+  const transactionDate = parseOfxDate(trn.DTUSER) || parseOfxDate(trn.DTPOSTED);
+
+  if (amount === undefined || !transactionDate) return null;
+
+  const name = text(trn.NAME) || text(trn.PAYEE?.NAME);
+  const memo = text(trn.MEMO);
+  const description =
+    name && memo && memo !== name ? `${name} - ${memo}` : name || memo || text(trn.TRNTYPE) || 'Bank transaction';
+
+  return {
+    transactionDate,
+    postDate: parseOfxDate(trn.DTPOSTED),
+    description,
+    amount: Math.abs(amount),
+    type: amount >= 0 ? BankTransactionType.CREDIT : BankTransactionType.DEBIT,
+    fitId: text(trn.FITID),
+    checkNumber: text(trn.CHECKNUM),
+  };
+}
+
+/**
+ * Parse OFX date-time values (YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz]]).
+ * Only the calendar date is kept since transactions are stored as dates.
+ */
+export function parseOfxDate(value: unknown): Date | undefined {
+  const match = text(value)?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return undefined;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse OFX amounts, which may use a comma as the decimal separator
+ */
+function parseOfxAmount(value: unknown): number | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+
+  const amount = parseFloat(raw.replace(/\s/g, '').replace(',', '.'));
+  return isNaN(amount) ? undefined : round(amount);
+}
+
+/**
+ * Escape characters that are legal in SGML OFX but break XML parsing
+ */
+function normalizeOfx(data: string): string {
+  return data.replace(/^\uFEFF/, '').replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+);)/g, '&amp;');
+}
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') return undefined;
+  const str = String(value).trim();
+  return str.length > 0 ? str : undefined;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Parse a CSV export using a column mapping profile
+ */
+export function parseCSV(data: string, mapping: CsvColumnMapping): ParsedCsv {
+  const records = parseDelimited(data, mapping.delimiter);
+  const errors: ParseError[] = [];
+  const transactions: ParsedCsv['transactions'] = [];
+
+  let rowIndex = mapping.skipRows;
+  let header: string[] = [];
+
+  if (mapping.hasHeaderRow) {
+    header = (records[rowIndex] || []).map((h) => h.trim().toLowerCase());
+    rowIndex++;
+  }
+
+  const resolve = (column: string | null | undefined, label: string): number | undefined => {
+    if (!column) return undefined;
+    const byName = header.indexOf(column.trim().toLowerCase());
+    if (byName >= 0) return byName;
+    if (/^\d+$/.test(column.trim())) return Number(column) - 1;
+    throw new BadRequestError(`${label} column "${column}" not found in file`);
+  };
+
+  const columns = {
+    date: resolve(mapping.dateColumn, 'Date')!,
+    description: resolve(mapping.descriptionColumn, 'Description')!,
+    amount: resolve(mapping.amountColumn, 'Amount'),
+    debit: resolve(mapping.debitColumn, 'Debit'),
+    credit: resolve(mapping.creditColumn, 'Credit'),
+    checkNumber: resolve(mapping.checkNumberColumn, 'Check number'),
+    reference: resolve(mapping.referenceColumn, 'Reference'),
+  };
+
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    throw new BadRequestError('Mapping must include an amount column or debit/credit columns');
+  }
+
+  // Count identical rows so repeated same-day charges get distinct IDs
+  const occurrences = new Map<string, number>();
+
+  for (; rowIndex < records.length; rowIndex++) {
+    const record = records[rowIndex];
+    const row = rowIndex + 1;
+
+    if (record.every((value) => value.trim() === '')) continue;
+
+    const cell = (index: number | undefined) =>
+      index === undefined ? undefined : record[index]?.trim() || undefined;
+
+    const transactionDate = parseDateWithFormat(cell(columns.date), mapping.dateFormat);
+    if (!transactionDate) {
+      errors.push({ row, message: `Invalid date "${cell(columns.date) ?? ''}"` });
+      continue;
+    }
+
+    let signedAmount: number | undefined;
+    let fileAmount: number | undefined;
+    if (columns.amount !== undefined) {
+      const amount = parseCsvAmount(cell(columns.amount), mapping.decimalSeparator);
+      fileAmount = amount;
+      if (amount !== undefined) {
+        signedAmount = mapping.signConvention === CsvSignConvention.DEBIT_POSITIVE ? -amount : amount;
+      }
+    } else {
+      const debit = parseCsvAmount(cell(columns.debit), mapping.decimalSeparator);
+      const credit = parseCsvAmount(cell(columns.credit), mapping.decimalSeparator);
+      if (debit !== undefined || credit !== undefined) {
+        signedAmount = round(Math.abs(credit || 0) - Math.abs(debit || 0));
+      }
+    }
+
+    if (signedAmount === undefined) {
+      errors.push({ row, message: 'Missing or invalid amount' });
+      continue;
+    }
+
+    const description = cell(columns.description) || '';
+    if (!description) {
+      errors.push({ row, message: 'Missing description' });
+      continue;
+    }
+
+    let fitId = cell(columns.reference);
+    if (!fitId) {
+      const key = `${transactionDate.toISOString().slice(0, 10)}|${signedAmount}|${description}`;
+      const occurrence = (occurrences.get(key) || 0) + 1;
+      occurrences.set(key, occurrence);
+      fitId = `CSV-${crypto.createHash('sha1').update(`${key}|${occurrence}`).digest('hex').slice(0, 24)}`;
+    }
+
+    transactions.push({
+      row,
+      transactionDate,
+      description,
+      amount: Math.abs(signedAmount),
+      type: signedAmount >= 0 ? BankTransactionType.CREDIT : BankTransactionType.DEBIT,
+      fitId,
+      // Date, description and amount as written in the file, without whitespace
+      legacyFitId: `${cell(columns.date)}-${description}-${fileAmount ?? signedAmount}`.replace(
+        /\s/g,
+        ''
+      ),
+      checkNumber: cell(columns.checkNumber),
+    });
+  }
+
+  return { transactions, errors };
+}
+
+/**
+ * RFC 4180 parser: quoted fields, escaped quotes and embedded delimiters/newlines
+ */
+export function parseDelimited(data: string, delimiter: string = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = data.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse a date using tokens YYYY, YY, MM, M, MMM, DD and D (e.g. DD/MM/YYYY).
+ * Without a format, ISO and US (M/D/YYYY) dates are accepted.
+ */
+export function parseDateWithFormat(value: string | undefined, format?: string | null): Date | undefined {
+  if (!value) return undefined;
+
+  if (!format) {
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return parseDateWithFormat(value, 'M/D/YYYY');
+  }
+
+  const tokens: string[] = [];
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|YY|MMM|MM|M|DD|D/g, (token) => {
+      tokens.push(token);
+      if (token === 'MMM') return '([A-Za-z]{3})[A-Za-z]*';
+      if (token === 'YYYY') return '(\\d{4})';
+      return '(\\d{1,2})';
+    });
+
+  const match = value.trim().match(new RegExp(`^${pattern}$`));
+  if (!match) return undefined;
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+
+  tokens.forEach((token, i) => {
+    const part = match[i + 1];
+    if (token === 'YYYY') year = Number(part);
+    else if (token === 'YY') year = 2000 + Number(part);
+    else if (token === 'MMM') month = MONTH_NAMES.indexOf(part.toLowerCase()) + 1;
+    else if (token.startsWith('M')) month = Number(part);
+    else day = Number(part);
+  });
+
+  return buildDate(year, month, day);
+}
+
+function buildDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Parse CSV amounts with currency symbols, thousands separators and (negatives)
+ */
+function parseCsvAmount(value: string | undefined, decimalSeparator: string): number | undefined {
+  if (!value) return undefined;
+
+  let cleaned = value.replace(/\s/g, '');
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.endsWith('-');
+  cleaned = cleaned.replace(/[()]/g, '').replace(/-$/, '');
+
+  if (decimalSeparator === ',') {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  cleaned = cleaned.replace(/[^0-9.-]/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned === '.') return undefined;
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return undefined;
+
+  return round(negative ? -Math.abs(amount) : amount);
+}
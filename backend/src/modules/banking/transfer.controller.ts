@@ -0,0 +1,32 @@
+import { Response } from 'express';
+import { transferService } from './transfer.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
+
+export class TransferController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await transferService.getTransfers(req.companyId!, req.query as any);
+    return sendPaginated(res, result.transfers, result.pagination);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const transfer = await transferService.getTransfer(req.companyId!, req.params.id);
+    return sendSuccess(res, transfer);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const transfer = await transferService.createTransfer(
+      req.companyId!,
+      req.user!.id,
+      req.body
+    );
+    return sendCreated(res, transfer, 'Transfer recorded successfully');
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response) {
+    await transferService.deleteTransfer(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+}
+
+export const transferController = new TransferController();
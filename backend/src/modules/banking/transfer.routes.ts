@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { transferController } from './transfer.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { createTransferSchema, transferQuerySchema } from './transfer.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: transferQuerySchema }),
+  asyncHandler(transferController.list.bind(transferController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(transferController.get.bind(transferController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createTransferSchema }),
+  asyncHandler(transferController.create.bind(transferController))
+);
+
+router.delete(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(transferController.delete.bind(transferController))
+);
+
+export default router;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const createTransferSchema = z.object({
+  fromBankAccountId: z.string().uuid(),
+  toBankAccountId: z.string().uuid(),
+  date: z.string().datetime(),
+  amount: z.number().positive(),
+  memo: z.string().max(500).optional(),
+  reference: z.string().max(100).optional(),
+  // Imported statement lines to match; detected automatically when omitted
+  fromTransactionId: z.string().uuid().optional(),
+  toTransactionId: z.string().uuid().optional(),
+});
+
+export const transferQuerySchema = z.object({
+  bankAccountId: z.string().uuid().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type CreateTransferInput = z.infer<typeof createTransferSchema>;
+export type TransferQuery = z.infer<typeof transferQuerySchema>;
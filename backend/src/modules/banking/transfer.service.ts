@@ -0,0 +1,364 @@
+import { prisma } from '../../config/database';
+import {
+  BankTransaction,
+  BankTransactionStatus,
+  BankTransactionType,
+  JournalSource,
+  Prisma,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { CreateTransferInput, TransferQuery } from './transfer.schema';
+import { decimalToNumber, addDays } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { journalService } from '../journal/journal.service';
+import { currencyService } from '../currency/currency.service';
+import { periodService } from '../periods/period.service';
+
+// How far apart the two sides of a transfer can post at the banks
+const TRANSFER_WINDOW_DAYS = 3;
+
+export interface TransferPair {
+  transactionId: string;
+  pairedTransactionId: string;
+  pairedBankAccountId: string;
+  amount: number;
+  date: Date;
+}
+
+export class TransferService {
+  /**
+   * Get transfers with pagination
+   */
+  async getTransfers(companyId: string, query: TransferQuery) {
+    const where: Prisma.BankTransferWhereInput = { companyId };
+
+    if (query.bankAccountId) {
+      where.OR = [
+        { fromBankAccountId: query.bankAccountId },
+        { toBankAccountId: query.bankAccountId },
+      ];
+    }
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [transfers, total] = await Promise.all([
+      prisma.bankTransfer.findMany({
+        where,
+        include: {
+          fromBankAccount: { select: { id: true, bankName: true } },
+          toBankAccount: { select: { id: true, bankName: true } },
+          journalEntry: { select: { id: true, entryNumber: true } },
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.bankTransfer.count({ where }),
+    ]);
+
+    return {
+      transfers: transfers.map((t) => ({ ...t, amount: decimalToNumber(t.amount) })),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Get single transfer
+   */
+  async getTransfer(companyId: string, transferId: string) {
+    const transfer = await prisma.bankTransfer.findFirst({
+      where: { id: transferId, companyId },
+      include: {
+        fromBankAccount: { select: { id: true, bankName: true } },
+        toBankAccount: { select: { id: true, bankName: true } },
+        journalEntry: {
+          select: {
+            id: true,
+            entryNumber: true,
+            bankTransactionMatches: { select: { bankTransactionId: true } },
+          },
+        },
+      },
+    });
+
+    if (!transfer) {
+      throw new NotFoundError('Transfer not found');
+    }
+
+    return { ...transfer, amount: decimalToNumber(transfer.amount) };
+  }
+
+  /**
+   * Move money between two bank accounts and match the imported lines on both sides
+   */
+  async createTransfer(companyId: string, userId: string, input: CreateTransferInput) {
+    if (input.fromBankAccountId === input.toBankAccountId) {
+      throw new BadRequestError('Cannot transfer to the same bank account');
+    }
+
+    const [fromAccount, toAccount] = await Promise.all([
+      prisma.bankAccount.findFirst({ where: { id: input.fromBankAccountId, companyId } }),
+      prisma.bankAccount.findFirst({ where: { id: input.toBankAccountId, companyId } }),
+    ]);
+
+    if (!fromAccount || !toAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    if (fromAccount.currency !== toAccount.currency) {
+      throw new BadRequestError('Cannot transfer between accounts in different currencies');
+    }
+
+    const date = new Date(input.date);
+
+    // Resolve the statement lines before posting so a bad ID fails cleanly
+    const [fromTransaction, toTransaction] = await Promise.all([
+      this.findTransferTransaction(
+        fromAccount.id,
+        BankTransactionType.DEBIT,
+        input.amount,
+        date,
+        input.fromTransactionId
+      ),
+      this.findTransferTransaction(
+        toAccount.id,
+        BankTransactionType.CREDIT,
+        input.amount,
+        date,
+        input.toTransactionId
+      ),
+    ]);
+
+    await periodService.assertOpen(companyId, date);
+
+    // Fails without a rate, so it must come before anything is saved
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const exchangeRate = await currencyService.getRate(companyId, fromAccount.currency, date);
+
+    const transfer = await prisma.bankTransfer.create({
+      data: {
+        companyId,
+        fromBankAccountId: fromAccount.id,
+        toBankAccountId: toAccount.id,
+        date,
+        amount: input.amount,
+        memo: input.memo,
+        reference: input.reference,
+      },
+    });
+
+    const memo = input.memo || `Transfer from ${fromAccount.bankName} to ${toAccount.bankName}`;
+
+    const journalEntry = await journalService.createFromTransaction(companyId, userId, {
+      date,
+      memo,
+      reference: input.reference,
+      source: JournalSource.TRANSFER,
+      sourceId: transfer.id,
+      lines: currencyService.toBaseLines(
+        [
+          {
+            accountId: toAccount.accountId,
+            debit: input.amount,
+            credit: 0,
+            memo,
+          },
+          {
+            accountId: fromAccount.accountId,
+            debit: 0,
+            credit: input.amount,
+            memo,
+          },
+        ],
+        fromAccount.currency,
+        exchangeRate,
+        baseCurrency
+      ),
+    });
+
+    await prisma.bankTransfer.update({
+      where: { id: transfer.id },
+      data: { journalEntryId: journalEntry.id },
+    });
+
+    for (const txn of [fromTransaction, toTransaction]) {
+      if (!txn) continue;
+
+      await prisma.bankTransactionMatch.create({
+        data: {
+          bankTransactionId: txn.id,
+          journalEntryId: journalEntry.id,
+          amount: input.amount,
+        },
+      });
+
+      await prisma.bankTransaction.update({
+        where: { id: txn.id },
+        data: {
+          matchedJournalEntryId: journalEntry.id,
+          status: BankTransactionStatus.MATCHED,
+        },
+      });
+    }
+
+    return {
+      ...(await this.getTransfer(companyId, transfer.id)),
+      matchedTransactionIds: [fromTransaction?.id, toTransaction?.id].filter(Boolean),
+    };
+  }
+
+  /**
+   * Delete transfer, voiding its journal entry and unmatching its statement lines
+   */
+  async deleteTransfer(companyId: string, transferId: string) {
+    const transfer = await prisma.bankTransfer.findFirst({
+      where: { id: transferId, companyId },
+    });
+
+    if (!transfer) {
+      throw new NotFoundError('Transfer not found');
+    }
+
+    if (transfer.journalEntryId) {
+      await journalService.assertSourceNotCleared(companyId, JournalSource.TRANSFER, transfer.id);
+      await periodService.assertOpen(companyId, transfer.date);
+
+      await prisma.bankTransaction.updateMany({
+        where: { matches: { some: { journalEntryId: transfer.journalEntryId } } },
+        data: { matchedJournalEntryId: null, status: BankTransactionStatus.PENDING },
+      });
+
+      await prisma.bankTransactionMatch.deleteMany({
+        where: { journalEntryId: transfer.journalEntryId },
+      });
+
+      // Void journal entry
+      await prisma.journalEntry.update({
+        where: { id: transfer.journalEntryId },
+        data: { isPosted: false },
+      });
+    }
+
+    await prisma.bankTransfer.delete({
+      where: { id: transferId },
+    });
+  }
+
+  /**
+   * Find pending lines on other bank accounts that look like the other side of a transfer
+   */
+  async detectTransferPairs(companyId: string, transactions: BankTransaction[]) {
+    const pairs: TransferPair[] = [];
+    const claimed = new Set(transactions.map((t) => t.id));
+
+    for (const txn of transactions) {
+      if (txn.status !== BankTransactionStatus.PENDING) continue;
+
+      const candidates = await prisma.bankTransaction.findMany({
+        where: {
+          bankAccount: { companyId },
+          bankAccountId: { not: txn.bankAccountId },
+          status: BankTransactionStatus.PENDING,
+          type:
+            txn.type === BankTransactionType.DEBIT
+              ? BankTransactionType.CREDIT
+              : BankTransactionType.DEBIT,
+          amount: txn.amount,
+          transactionDate: {
+            gte: addDays(txn.transactionDate, -TRANSFER_WINDOW_DAYS),
+            lte: addDays(txn.transactionDate, TRANSFER_WINDOW_DAYS),
+          },
+        },
+      });
+
+      const paired = this.closestByDate(
+        candidates.filter((c) => !claimed.has(c.id)),
+        txn.transactionDate
+      );
+
+      if (paired) {
+        claimed.add(paired.id);
+        pairs.push({
+          transactionId: txn.id,
+          pairedTransactionId: paired.id,
+          pairedBankAccountId: paired.bankAccountId,
+          amount: decimalToNumber(txn.amount),
+          date: txn.transactionDate,
+        });
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Load the given statement line, or find the closest pending one for this side of the transfer
+   */
+  private async findTransferTransaction(
+    bankAccountId: string,
+    type: BankTransactionType,
+    amount: number,
+    date: Date,
+    transactionId?: string
+  ) {
+    if (transactionId) {
+      const txn = await prisma.bankTransaction.findFirst({
+        where: { id: transactionId, bankAccountId },
+      });
+
+      if (!txn) {
+        throw new NotFoundError('Transaction not found');
+      }
+
+      if (txn.status !== BankTransactionStatus.PENDING) {
+        throw new BadRequestError('Transaction is already categorized or matched');
+      }
+
+      if (txn.type !== type || Math.abs(decimalToNumber(txn.amount) - amount) >= 0.01) {
+        throw new BadRequestError('Transaction does not match the transfer amount and direction');
+      }
+
+      return txn;
+    }
+
+    const candidates = await prisma.bankTransaction.findMany({
+      where: {
+        bankAccountId,
+        type,
+        amount,
+        status: BankTransactionStatus.PENDING,
+        transactionDate: {
+          gte: addDays(date, -TRANSFER_WINDOW_DAYS),
+          lte: addDays(date, TRANSFER_WINDOW_DAYS),
+        },
+      },
+    });
+
+    return this.closestByDate(candidates, date);
+  }
+
+  private closestByDate(transactions: BankTransaction[], date: Date) {
+    let closest: BankTransaction | null = null;
+
+    for (const txn of transactions) {
+      if (
+        !closest ||
+        Math.abs(txn.transactionDate.getTime() - date.getTime()) <
+          Math.abs(closest.transactionDate.getTime() - date.getTime())
+      ) {
+        closest = txn;
+      }
+    }
+
+    return closest;
+  }
+}
+
+export const transferService = new TransferService();
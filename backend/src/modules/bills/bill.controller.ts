@@ -33,6 +33,11 @@ export class BillController {
     return sendSuccess(res, bill, 'Bill updated successfully');
   }
 
+  async receive(req: AuthenticatedRequest, res: Response) {
+    const bill = await billService.receiveBill(req.companyId!, req.user!.id, req.params.id);
+    return sendSuccess(res, bill, 'Bill received');
+  }
+
   async void(req: AuthenticatedRequest, res: Response) {
     await billService.voidBill(req.companyId!, req.params.id);
     return sendSuccess(res, null, 'Bill voided');
@@ -39,6 +39,13 @@ router.put(
   asyncHandler(billController.update.bind(billController))
 );
 
+router.post(
+  '/:id/receive',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(billController.receive.bind(billController))
+);
+
 router.post(
   '/:id/void',
   requireWriteAccess,
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { BillStatus } from '@prisma/client';
 
 export const billLineSchema = z.object({
+  productId: z.string().uuid().optional().nullable(),
   accountId: z.string().uuid(),
   description: z.string().min(1).max(500),
   quantity: z.number().positive().default(1),
@@ -18,6 +19,8 @@ export const createBillSchema = z.object({
   date: z.string().datetime(),
   dueDate: z.string().datetime().optional(),
   terms: z.number().int().min(0).max(365).default(30),
+  amountsAreTaxInclusive: z.boolean().default(false),
+  exchangeRate: z.number().positive().optional(), // Overrides the rate on the bill date
   memo: z.string().max(2000).optional(),
   lines: z.array(billLineSchema).min(1, 'At least one line required'),
 });
@@ -28,6 +31,8 @@ export const updateBillSchema = z.object({
   date: z.string().datetime().optional(),
   dueDate: z.string().datetime().optional(),
   terms: z.number().int().min(0).max(365).optional(),
+  amountsAreTaxInclusive: z.boolean().optional(),
+  exchangeRate: z.number().positive().optional(),
   memo: z.string().max(2000).optional(),
   lines: z.array(billLineSchema).min(1).optional(),
 });
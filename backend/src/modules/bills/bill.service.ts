@@ -2,10 +2,15 @@ import { prisma } from '../../config/database';
 import { BillStatus, JournalSource, AccountSubType, Prisma } from '@prisma/client';
 import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
 import { CreateBillInput, UpdateBillInput, BillQuery, BillLineInput } from './bill.schema';
-import { decimalToNumber, calculateDueDate, round } from '../../utils/helpers';
+import { decimalToNumber, calculateDueDate, calculateLineTax, round } from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
 import { journalService } from '../journal/journal.service';
 import { accountService } from '../accounts/account.service';
+import { inventoryService } from '../inventory/inventory.service';
+import { taxService } from '../tax/tax.service';
+import { periodService } from '../periods/period.service';
+import { currencyService } from '../currency/currency.service';
+import { productService } from '../products/product.service';
 
 export class BillService {
   /**
@@ -86,9 +91,16 @@ export class BillService {
   }
 
   /**
-   * Create bill
+   * Create bill, received and posted unless it is saved as a draft. Bills created by
+   * a recurring template are tagged with the occurrence.
    */
-  async createBill(companyId: string, userId: string, input: CreateBillInput) {
+  async createBill(
+    companyId: string,
+    userId: string,
+    input: CreateBillInput,
+    asDraft = false,
+    recurringRunId?: string
+  ) {
     const vendor = await prisma.vendor.findFirst({
       where: { id: input.vendorId, companyId },
     });
@@ -109,7 +121,8 @@ export class BillService {
 
     const { lines, subtotal, taxTotal, total } = await this.calculateLineTotals(
       companyId,
-      input.lines
+      input.lines,
+      input.amountsAreTaxInclusive
     );
 
     const billDate = new Date(input.date);
@@ -117,6 +130,14 @@ export class BillService {
       ? new Date(input.dueDate)
       : calculateDueDate(billDate, input.terms);
 
+    if (!asDraft) {
+      await periodService.assertOpen(companyId, billDate);
+    }
+
+    // Bills are entered in the vendor's currency
+    const exchangeRate =
+      input.exchangeRate ?? (await currencyService.getRate(companyId, vendor.currency, billDate));
+
     const bill = await prisma.bill.create({
       data: {
         companyId,
@@ -126,13 +147,17 @@ export class BillService {
         date: billDate,
         dueDate,
         terms: input.terms,
+        amountsAreTaxInclusive: input.amountsAreTaxInclusive,
+        currency: vendor.currency,
+        exchangeRate,
         subtotal,
         taxTotal,
         total,
         amountPaid: 0,
         amountDue: total,
-        status: BillStatus.RECEIVED,
+        status: asDraft ? BillStatus.DRAFT : BillStatus.RECEIVED,
         memo: input.memo,
+        recurringRunId,
         lines: {
           create: lines.map((line, index) => ({
             ...line,
@@ -151,7 +176,9 @@ export class BillService {
     });
 
     // Create journal entry immediately for bills
-    await this.postBillToGL(companyId, userId, bill);
+    if (!asDraft) {
+      await this.postBillToGL(companyId, userId, bill);
+    }
 
     return this.formatBill(bill);
   }
@@ -167,6 +194,7 @@ export class BillService {
   ) {
     const bill = await prisma.bill.findFirst({
       where: { id: billId, companyId },
+      include: { lines: { select: { productId: true } } },
     });
 
     if (!bill) {
@@ -181,12 +209,26 @@ export class BillService {
       throw new BadRequestError('Cannot edit bill with payments');
     }
 
+    const isDraft = bill.status === BillStatus.DRAFT;
+
+    if (!isDraft) {
+      await periodService.assertOpen(companyId, bill.date, input.date ?? bill.date);
+    }
+
+    const taxInclusive = input.amountsAreTaxInclusive ?? bill.amountsAreTaxInclusive;
+
+    if (taxInclusive !== bill.amountsAreTaxInclusive && !input.lines) {
+      throw new BadRequestError('Lines are required when changing tax-inclusive pricing');
+    }
+
     let updateData: any = { ...input };
 
     if (input.lines) {
       const { lines, subtotal, taxTotal, total } = await this.calculateLineTotals(
         companyId,
-        input.lines
+        input.lines,
+        taxInclusive,
+        bill.lines.map((line) => line.productId)
       );
 
       updateData = {
@@ -220,15 +262,34 @@ export class BillService {
       updateData.dueDate = new Date(input.dueDate);
     }
 
-    // Void old journal entry
-    await prisma.journalEntry.updateMany({
-      where: {
-        companyId,
-        source: JournalSource.BILL,
-        sourceId: bill.id,
-      },
-      data: { isPosted: false },
-    });
+    // A new vendor or date brings a new currency or rate
+    if (input.vendorId || input.date || input.exchangeRate) {
+      const vendor = await prisma.vendor.findFirst({
+        where: { id: input.vendorId ?? bill.vendorId, companyId },
+      });
+
+      if (!vendor) {
+        throw new NotFoundError('Vendor not found');
+      }
+
+      updateData.currency = vendor.currency;
+      updateData.exchangeRate =
+        input.exchangeRate ??
+        (await currencyService.getRate(companyId, vendor.currency, updateData.date ?? bill.date));
+    }
+
+    // Void old journal entry and the stock it received
+    if (!isDraft) {
+      await inventoryService.reverseSource(companyId, JournalSource.BILL, bill.id);
+      await prisma.journalEntry.updateMany({
+        where: {
+          companyId,
+          source: JournalSource.BILL,
+          sourceId: bill.id,
+        },
+        data: { isPosted: false },
+      });
+    }
 
     const updated = await prisma.bill.update({
       where: { id: billId },
@@ -244,7 +305,53 @@ export class BillService {
     });
 
     // Create new journal entry
-    await this.postBillToGL(companyId, userId, updated);
+    if (!isDraft) {
+      await this.postBillToGL(companyId, userId, updated);
+    }
+
+    return this.formatBill(updated);
+  }
+
+  /**
+   * Receive a draft bill, posting it to the ledger
+   */
+  async receiveBill(companyId: string, userId: string, billId: string) {
+    const bill = await prisma.bill.findFirst({
+      where: { id: billId, companyId },
+      include: {
+        vendor: { select: { id: true, name: true } },
+        lines: {
+          include: {
+            account: { select: { id: true, code: true, name: true } },
+          },
+        },
+      },
+    });
+
+    if (!bill) {
+      throw new NotFoundError('Bill not found');
+    }
+
+    if (bill.status !== BillStatus.DRAFT) {
+      throw new BadRequestError('Only draft bills can be received');
+    }
+
+    await periodService.assertOpen(companyId, bill.date);
+
+    await this.postBillToGL(companyId, userId, bill);
+
+    const updated = await prisma.bill.update({
+      where: { id: billId },
+      data: { status: BillStatus.RECEIVED },
+      include: {
+        vendor: { select: { id: true, name: true } },
+        lines: {
+          include: {
+            account: { select: { id: true, code: true, name: true } },
+          },
+        },
+      },
+    });
 
     return this.formatBill(updated);
   }
@@ -278,6 +385,8 @@ export class BillService {
       data: { isPosted: false },
     });
 
+    await inventoryService.reverseSource(companyId, JournalSource.BILL, bill.id);
+
     await prisma.bill.update({
       where: { id: billId },
       data: { status: BillStatus.VOID },
@@ -362,14 +471,39 @@ export class BillService {
       memo: `Bill ${bill.billNumber}`,
     });
 
-    await journalService.createFromTransaction(companyId, userId, {
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const exchangeRate = decimalToNumber(bill.exchangeRate);
+
+    const journalEntry = await journalService.createFromTransaction(companyId, userId, {
       date: bill.date,
       memo: `Bill ${bill.billNumber} - ${bill.vendor.name}`,
       reference: bill.billNumber,
       source: JournalSource.BILL,
       sourceId: bill.id,
-      lines: journalLines,
+      lines: currencyService.toBaseLines(journalLines, bill.currency, exchangeRate, baseCurrency),
     });
+
+    // Stock is costed in the base currency
+    const costLines =
+      bill.currency === baseCurrency
+        ? bill.lines
+        : bill.lines.map((line: any) => ({
+            ...line,
+            amount: new Prisma.Decimal(round(decimalToNumber(line.amount) * exchangeRate)),
+            taxAmount: new Prisma.Decimal(round(decimalToNumber(line.taxAmount) * exchangeRate)),
+          }));
+
+    // Receive stock for inventory lines, which were posted to the asset account
+    await inventoryService.recordPurchase(
+      companyId,
+      {
+        date: bill.date,
+        source: JournalSource.BILL,
+        sourceId: bill.id,
+        journalEntryId: journalEntry.id,
+      },
+      costLines
+    );
   }
 
   /**
@@ -399,33 +533,40 @@ export class BillService {
   }
 
   /**
-   * Calculate line totals
+   * Calculate line totals; tax-inclusive lines are stored net with the tax backed out.
+   * Inactive products are rejected unless already on the bill.
    */
-  private async calculateLineTotals(companyId: string, lines: BillLineInput[]) {
+  private async calculateLineTotals(
+    companyId: string,
+    lines: BillLineInput[],
+    taxInclusive: boolean,
+    keepProductIds: (string | null)[] = []
+  ) {
     let subtotal = 0;
     let taxTotal = 0;
 
+    await productService.assertLineProducts(companyId, lines, keepProductIds);
+
+    // Purchases of inventory products are capitalized to the inventory asset account
+    const assetAccounts = await inventoryService.getAssetAccounts(companyId, lines);
+    const taxRates = await taxService.getRatesForLines(companyId, lines);
+
     const calculatedLines = await Promise.all(
       lines.map(async (line) => {
-        const lineAmount = round(line.quantity * line.unitPrice);
-        let taxAmount = 0;
-        let taxRate = 0;
-
-        if (line.taxRateId) {
-          const tax = await prisma.taxRate.findUnique({
-            where: { id: line.taxRateId },
-          });
-          if (tax) {
-            taxRate = decimalToNumber(tax.rate);
-            taxAmount = round(lineAmount * taxRate);
-          }
-        }
+        const taxRate = line.taxRateId ? taxRates.get(line.taxRateId)! : 0;
+        const { amount: lineAmount, taxAmount } = calculateLineTax(
+          round(line.quantity * line.unitPrice),
+          0,
+          taxRate,
+          taxInclusive
+        );
 
         subtotal += lineAmount;
         taxTotal += taxAmount;
 
         return {
-          accountId: line.accountId,
+          productId: line.productId,
+          accountId: (line.productId && assetAccounts.get(line.productId)) || line.accountId,
           description: line.description,
           quantity: line.quantity,
           unitPrice: line.unitPrice,
@@ -441,7 +582,12 @@ export class BillService {
 
     const total = round(subtotal + taxTotal);
 
-    return { lines: calculatedLines, subtotal, taxTotal, total };
+    return {
+      lines: calculatedLines,
+      subtotal: round(subtotal),
+      taxTotal: round(taxTotal),
+      total,
+    };
   }
 
   /**
@@ -453,6 +599,7 @@ export class BillService {
       subtotal: decimalToNumber(bill.subtotal),
       taxTotal: decimalToNumber(bill.taxTotal),
       total: decimalToNumber(bill.total),
+      exchangeRate: decimalToNumber(bill.exchangeRate),
       amountPaid: decimalToNumber(bill.amountPaid),
       amountDue: decimalToNumber(bill.amountDue),
       lines: bill.lines?.map((line: any) => ({
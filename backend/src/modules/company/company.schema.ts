@@ -21,7 +21,14 @@ export const createCompanySchema = z.object({
   fiscalYearStart: z.number().int().min(1).max(12).default(1),
 });
 
-export const updateCompanySchema = createCompanySchema.partial();
+export const updateCompanySchema = createCompanySchema.partial().extend({
+  logo: z
+    .string()
+    .regex(/^data:image\/(png|jpeg);base64,/, 'Logo must be a PNG or JPEG data URI')
+    .max(2_000_000)
+    .nullable()
+    .optional(),
+});
 
 export const inviteUserSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -32,16 +39,82 @@ export const updateUserRoleSchema = z.object({
   role: z.enum(['OWNER', 'ADMIN', 'MEMBER', 'READONLY']),
 });
 
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #1f2937');
+
+export const invoiceTemplateSchema = z.object({
+  name: z.string().min(1).max(50),
+  logoPosition: z.enum(['left', 'center', 'right', 'none']).default('left'),
+  primaryColor: hexColorSchema.default('#1f2937'), // Headings and totals
+  accentColor: hexColorSchema.default('#2563eb'), // Table header and balance due
+  footerText: z.string().max(1000).optional(),
+  customFields: z
+    .array(z.object({ label: z.string().min(1).max(50), value: z.string().max(200) }))
+    .max(10)
+    .default([]), // Extra label/value pairs printed under the invoice details
+  showCompanyTaxId: z.boolean().default(true),
+  showShippingAddress: z.boolean().default(true),
+  showTaxBreakdown: z.boolean().default(true),
+  showPayments: z.boolean().default(true),
+});
+
+// Subject and body for customer emails; {{placeholders}} are filled from the document
+export const emailTemplateSchema = z.object({
+  subject: z.string().min(1).max(200),
+  body: z.string().min(1).max(10000),
+});
+
+// A payment reminder sent daysFromDue days after the due date (negative: before it)
+export const dunningRuleSchema = z.object({
+  daysFromDue: z.number().int().min(-90).max(365),
+  subject: z.string().min(1).max(200).optional(), // Defaults to a standard reminder
+  body: z.string().min(1).max(10000).optional(),
+  applyLateFee: z.boolean().default(false), // Charge the company's late fee; ignored before the due date
+});
+
+export const lateFeePolicySchema = z.object({
+  type: z.enum(['FIXED', 'PERCENT']),
+  amount: z.number().positive(), // In the invoice currency, or a fraction of the amount due (0.015 = 1.5%)
+  minimumBalance: z.number().min(0).default(0), // No fee on smaller balances
+  accountId: z.string().uuid(), // Income account credited with the fee
+});
+
 export const companySettingsSchema = z.object({
   invoicePrefix: z.string().max(10).optional(),
   invoiceStartNumber: z.number().int().min(1).optional(),
   billPrefix: z.string().max(10).optional(),
   paymentPrefix: z.string().max(10).optional(),
+  creditMemoPrefix: z.string().max(10).optional(),
+  refundPrefix: z.string().max(10).optional(),
   dateFormat: z.string().max(20).optional(),
   numberFormat: z.enum(['us', 'eu']).optional(),
   defaultPaymentTerms: z.number().int().min(0).max(365).optional(),
   taxEnabled: z.boolean().optional(),
   defaultTaxRate: z.number().min(0).max(1).optional(),
+  journalApprovalThreshold: z.number().min(0).nullable().optional(), // Members' manual entries above this need approval
+  invoiceTemplates: z
+    .array(invoiceTemplateSchema)
+    .max(10)
+    .refine(
+      (templates) => new Set(templates.map((t) => t.name)).size === templates.length,
+      'Template names must be unique'
+    )
+    .optional(),
+  defaultInvoiceTemplate: z.string().max(50).nullable().optional(),
+  emailTemplates: z
+    .object({
+      invoice: emailTemplateSchema.optional(),
+      statement: emailTemplateSchema.optional(),
+    })
+    .optional(),
+  dunningRules: z
+    .array(dunningRuleSchema)
+    .max(10)
+    .refine(
+      (rules) => new Set(rules.map((r) => r.daysFromDue)).size === rules.length,
+      'Each dunning rule needs a different number of days'
+    )
+    .optional(),
+  lateFeePolicy: lateFeePolicySchema.nullable().optional(),
 });
 
 export type CreateCompanyInput = z.infer<typeof createCompanySchema>;
@@ -49,3 +122,7 @@ export type UpdateCompanyInput = z.infer<typeof updateCompanySchema>;
 export type InviteUserInput = z.infer<typeof inviteUserSchema>;
 export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
 export type CompanySettingsInput = z.infer<typeof companySettingsSchema>;
+export type InvoiceTemplate = z.infer<typeof invoiceTemplateSchema>;
+export type EmailTemplate = z.infer<typeof emailTemplateSchema>;
+export type DunningRule = z.infer<typeof dunningRuleSchema>;
+export type LateFeePolicy = z.infer<typeof lateFeePolicySchema>;
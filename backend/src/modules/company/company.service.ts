@@ -1,7 +1,8 @@
 import { prisma } from '../../config/database';
-import { UserRole } from '@prisma/client';
+import { UserRole, AccountType } from '@prisma/client';
 import { NotFoundError, ForbiddenError, ConflictError, BadRequestError } from '../../utils/errors';
 import { CreateCompanyInput, UpdateCompanyInput, InviteUserInput, CompanySettingsInput } from './company.schema';
+import { omit } from '../../utils/helpers';
 
 export class CompanyService {
   /**
@@ -86,7 +87,7 @@ export class CompanyService {
     }
 
     return {
-      ...companyUser.company,
+      ...omit(companyUser.company, ['closingDatePasswordHash']),
       role: companyUser.role,
     };
   }
@@ -115,7 +116,7 @@ export class CompanyService {
       data: input,
     });
 
-    return company;
+    return omit(company, ['closingDatePasswordHash']);
   }
 
   /**
@@ -136,6 +137,16 @@ export class CompanyService {
       throw new ForbiddenError('Admin access required');
     }
 
+    if (settings.lateFeePolicy) {
+      const account = await prisma.account.findFirst({
+        where: { id: settings.lateFeePolicy.accountId, companyId, type: AccountType.REVENUE },
+      });
+
+      if (!account) {
+        throw new BadRequestError('Late fee account must be a revenue account');
+      }
+    }
+
     const company = await prisma.company.findUnique({
       where: { id: companyId },
     });
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { creditMemoService } from './creditMemo.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendPaginated } from '../../utils/response';
+
+export class CreditMemoController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await creditMemoService.getCreditMemos(req.companyId!, req.query as any);
+    return sendPaginated(res, result.creditMemos, result.pagination);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const creditMemo = await creditMemoService.getCreditMemo(req.companyId!, req.params.id);
+    return sendSuccess(res, creditMemo);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const creditMemo = await creditMemoService.createCreditMemo(
+      req.companyId!,
+      req.user!.id,
+      req.body
+    );
+    return sendCreated(res, creditMemo, 'Credit memo created successfully');
+  }
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const creditMemo = await creditMemoService.updateCreditMemo(
+      req.companyId!,
+      req.user!.id,
+      req.params.id,
+      req.body
+    );
+    return sendSuccess(res, creditMemo, 'Credit memo updated successfully');
+  }
+
+  async issue(req: AuthenticatedRequest, res: Response) {
+    const creditMemo = await creditMemoService.issueCreditMemo(
+      req.companyId!,
+      req.user!.id,
+      req.params.id
+    );
+    return sendSuccess(res, creditMemo, 'Credit memo issued');
+  }
+
+  async apply(req: AuthenticatedRequest, res: Response) {
+    const creditMemo = await creditMemoService.applyCreditMemo(
+      req.companyId!,
+      req.user!.id,
+      req.params.id,
+      req.body
+    );
+    return sendSuccess(res, creditMemo, 'Credit applied');
+  }
+
+  async unapply(req: AuthenticatedRequest, res: Response) {
+    const creditMemo = await creditMemoService.unapplyCreditMemo(
+      req.companyId!,
+      req.params.id,
+      req.params.allocationId
+    );
+    return sendSuccess(res, creditMemo, 'Credit application removed');
+  }
+
+  async void(req: AuthenticatedRequest, res: Response) {
+    await creditMemoService.voidCreditMemo(req.companyId!, req.params.id);
+    return sendSuccess(res, null, 'Credit memo voided');
+  }
+}
+
+export const creditMemoController = new CreditMemoController();
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { creditMemoController } from './creditMemo.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  createCreditMemoSchema,
+  updateCreditMemoSchema,
+  creditMemoQuerySchema,
+  applyCreditMemoSchema,
+  creditAllocationParamSchema,
+} from './creditMemo.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: creditMemoQuerySchema }),
+  asyncHandler(creditMemoController.list.bind(creditMemoController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(creditMemoController.get.bind(creditMemoController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createCreditMemoSchema }),
+  asyncHandler(creditMemoController.create.bind(creditMemoController))
+);
+
+router.put(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: updateCreditMemoSchema }),
+  asyncHandler(creditMemoController.update.bind(creditMemoController))
+);
+
+router.post(
+  '/:id/issue',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(creditMemoController.issue.bind(creditMemoController))
+);
+
+router.post(
+  '/:id/apply',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: applyCreditMemoSchema }),
+  asyncHandler(creditMemoController.apply.bind(creditMemoController))
+);
+
+router.delete(
+  '/:id/allocations/:allocationId',
+  requireWriteAccess,
+  validate({ params: creditAllocationParamSchema }),
+  asyncHandler(creditMemoController.unapply.bind(creditMemoController))
+);
+
+router.post(
+  '/:id/void',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(creditMemoController.void.bind(creditMemoController))
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { CreditMemoStatus } from '@prisma/client';
+import { invoiceLineSchema } from '../invoices/invoice.schema';
+import { idParamSchema } from '../../middleware/validate';
+
+export const createCreditMemoSchema = z.object({
+  customerId: z.string().uuid(),
+  invoiceId: z.string().uuid().optional(), // Invoice being credited
+  creditMemoNumber: z.string().max(50).optional(),
+  date: z.string().datetime(),
+  amountsAreTaxInclusive: z.boolean().default(false),
+  exchangeRate: z.number().positive().optional(), // Overrides the rate on the credit date
+  memo: z.string().max(2000).optional(),
+  notes: z.string().max(2000).optional(),
+  lines: z.array(invoiceLineSchema).min(1, 'At least one line required'),
+});
+
+export const updateCreditMemoSchema = z.object({
+  customerId: z.string().uuid().optional(),
+  invoiceId: z.string().uuid().nullable().optional(),
+  date: z.string().datetime().optional(),
+  amountsAreTaxInclusive: z.boolean().optional(),
+  exchangeRate: z.number().positive().optional(),
+  memo: z.string().max(2000).optional(),
+  notes: z.string().max(2000).optional(),
+  lines: z.array(invoiceLineSchema).min(1).optional(),
+});
+
+export const creditMemoQuerySchema = z.object({
+  customerId: z.string().uuid().optional(),
+  status: z.nativeEnum(CreditMemoStatus).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  search: z.string().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export const creditAllocationSchema = z.object({
+  invoiceId: z.string().uuid(),
+  amount: z.number().positive(),
+});
+
+export const applyCreditMemoSchema = z.object({
+  date: z.string().datetime().optional(), // Defaults to today
+  allocations: z.array(creditAllocationSchema).min(1, 'At least one invoice required'),
+});
+
+export const creditAllocationParamSchema = idParamSchema.extend({
+  allocationId: z.string().uuid('Invalid ID format'),
+});
+
+export type CreateCreditMemoInput = z.infer<typeof createCreditMemoSchema>;
+export type UpdateCreditMemoInput = z.infer<typeof updateCreditMemoSchema>;
+export type CreditMemoQuery = z.infer<typeof creditMemoQuerySchema>;
+export type CreditAllocationInput = z.infer<typeof creditAllocationSchema>;
+export type ApplyCreditMemoInput = z.infer<typeof applyCreditMemoSchema>;
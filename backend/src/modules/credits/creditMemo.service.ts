@@ -0,0 +1,814 @@
+import { prisma } from '../../config/database';
+import {
+  CreditMemoStatus,
+  InvoiceStatus,
+  JournalSource,
+  AccountSubType,
+  CustomerPayment,
+  Prisma,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
+import {
+  CreateCreditMemoInput,
+  UpdateCreditMemoInput,
+  CreditMemoQuery,
+  ApplyCreditMemoInput,
+} from './creditMemo.schema';
+import { decimalToNumber, round, formatDateISO } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { journalService } from '../journal/journal.service';
+import { inventoryService } from '../inventory/inventory.service';
+import { accountService } from '../accounts/account.service';
+import { invoiceService } from '../invoices/invoice.service';
+import { periodService } from '../periods/period.service';
+import { currencyService } from '../currency/currency.service';
+
+const OPEN_INVOICE_STATUSES = [InvoiceStatus.SENT, InvoiceStatus.PARTIAL, InvoiceStatus.OVERDUE];
+
+export class CreditMemoService {
+  /**
+   * Get credit memos with pagination
+   */
+  async getCreditMemos(companyId: string, query: CreditMemoQuery) {
+    const where: Prisma.CreditMemoWhereInput = { companyId };
+
+    if (query.customerId) where.customerId = query.customerId;
+    if (query.status) where.status = query.status;
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    if (query.search) {
+      where.OR = [
+        { creditMemoNumber: { contains: query.search, mode: 'insensitive' } },
+        { customer: { name: { contains: query.search, mode: 'insensitive' } } },
+      ];
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [creditMemos, total] = await Promise.all([
+      prisma.creditMemo.findMany({
+        where,
+        include: {
+          customer: { select: { id: true, name: true } },
+          payment: { select: { id: true, paymentNumber: true } },
+        },
+        orderBy: [{ date: 'desc' }, { creditMemoNumber: 'desc' }],
+        skip,
+        take,
+      }),
+      prisma.creditMemo.count({ where }),
+    ]);
+
+    return {
+      creditMemos: creditMemos.map(this.formatCreditMemo),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Get single credit memo with lines, applications and refunds
+   */
+  async getCreditMemo(companyId: string, creditMemoId: string) {
+    const creditMemo = await prisma.creditMemo.findFirst({
+      where: { id: creditMemoId, companyId },
+      include: {
+        customer: { select: { id: true, name: true, email: true } },
+        invoice: { select: { id: true, invoiceNumber: true } },
+        payment: { select: { id: true, paymentNumber: true, date: true } },
+        lines: {
+          include: {
+            product: { select: { id: true, name: true, sku: true } },
+            account: { select: { id: true, code: true, name: true } },
+            tax: { select: { id: true, name: true, rate: true } },
+          },
+          orderBy: { sortOrder: 'asc' },
+        },
+        allocations: {
+          include: {
+            invoice: { select: { id: true, invoiceNumber: true, date: true, total: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        refunds: {
+          include: { bankAccount: { select: { id: true, bankName: true } } },
+          orderBy: { date: 'asc' },
+        },
+      },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    return this.formatCreditMemo(creditMemo);
+  }
+
+  /**
+   * Create credit memo
+   */
+  async createCreditMemo(companyId: string, userId: string, input: CreateCreditMemoInput) {
+    const customer = await prisma.customer.findFirst({
+      where: { id: input.customerId, companyId },
+    });
+
+    if (!customer) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    const creditedInvoice = input.invoiceId
+      ? await this.findCreditedInvoice(companyId, customer.id, input.invoiceId)
+      : null;
+
+    const creditMemoNumber = input.creditMemoNumber || (await this.generateCreditMemoNumber(companyId));
+
+    const existing = await prisma.creditMemo.findUnique({
+      where: { companyId_creditMemoNumber: { companyId, creditMemoNumber } },
+    });
+
+    if (existing) {
+      throw new ConflictError('Credit memo number already exists');
+    }
+
+    const { lines, subtotal, taxTotal, discountTotal, total } =
+      await invoiceService.calculateLineTotals(companyId, input.lines, {
+        taxExempt: customer.taxExempt,
+        taxInclusive: input.amountsAreTaxInclusive,
+        // Items sold on the credited invoice can be returned after they are deactivated
+        keepProductIds: creditedInvoice?.lines.map((line) => line.productId),
+      });
+
+    const date = new Date(input.date);
+
+    // Credits are raised in the customer's currency, like invoices
+    const exchangeRate =
+      input.exchangeRate ?? (await currencyService.getRate(companyId, customer.currency, date));
+
+    const creditMemo = await prisma.creditMemo.create({
+      data: {
+        companyId,
+        customerId: customer.id,
+        invoiceId: input.invoiceId,
+        creditMemoNumber,
+        date,
+        amountsAreTaxInclusive: input.amountsAreTaxInclusive,
+        taxExempt: customer.taxExempt,
+        currency: customer.currency,
+        exchangeRate,
+        subtotal,
+        taxTotal,
+        discountTotal,
+        total,
+        amountRemaining: total,
+        status: CreditMemoStatus.DRAFT,
+        memo: input.memo,
+        notes: input.notes,
+        lines: {
+          create: lines.map((line, index) => ({
+            ...line,
+            sortOrder: index,
+          })),
+        },
+      },
+      include: {
+        customer: { select: { id: true, name: true } },
+        lines: {
+          include: {
+            account: { select: { id: true, code: true, name: true } },
+          },
+        },
+      },
+    });
+
+    return this.formatCreditMemo(creditMemo);
+  }
+
+  /**
+   * Update credit memo (only drafts)
+   */
+  async updateCreditMemo(
+    companyId: string,
+    userId: string,
+    creditMemoId: string,
+    input: UpdateCreditMemoInput
+  ) {
+    const creditMemo = await prisma.creditMemo.findFirst({
+      where: { id: creditMemoId, companyId },
+      include: { lines: { select: { productId: true } } },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    if (creditMemo.status !== CreditMemoStatus.DRAFT) {
+      throw new BadRequestError('Only draft credit memos can be edited');
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: input.customerId ?? creditMemo.customerId, companyId },
+    });
+
+    if (!customer) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    // A new customer drops the credited invoice unless another one is given
+    const invoiceId =
+      input.invoiceId !== undefined
+        ? input.invoiceId
+        : input.customerId && input.customerId !== creditMemo.customerId
+          ? null
+          : creditMemo.invoiceId;
+
+    const creditedInvoice = invoiceId
+      ? await this.findCreditedInvoice(companyId, customer.id, invoiceId)
+      : null;
+
+    const taxInclusive = input.amountsAreTaxInclusive ?? creditMemo.amountsAreTaxInclusive;
+
+    if (taxInclusive !== creditMemo.amountsAreTaxInclusive && !input.lines) {
+      throw new BadRequestError('Lines are required when changing tax-inclusive pricing');
+    }
+
+    const data: Prisma.CreditMemoUncheckedUpdateInput = {
+      customerId: customer.id,
+      invoiceId,
+      amountsAreTaxInclusive: taxInclusive,
+      memo: input.memo,
+      notes: input.notes,
+    };
+
+    if (input.lines) {
+      const { lines, subtotal, taxTotal, discountTotal, total } =
+        await invoiceService.calculateLineTotals(companyId, input.lines, {
+          taxExempt: customer.taxExempt,
+          taxInclusive,
+          keepProductIds: [
+            ...creditMemo.lines.map((line) => line.productId),
+            ...(creditedInvoice?.lines.map((line) => line.productId) ?? []),
+          ],
+        });
+
+      Object.assign(data, {
+        taxExempt: customer.taxExempt,
+        subtotal,
+        taxTotal,
+        discountTotal,
+        total,
+        amountRemaining: total,
+        lines: {
+          deleteMany: {},
+          create: lines.map((line, index) => ({
+            ...line,
+            sortOrder: index,
+          })),
+        },
+      });
+    }
+
+    if (input.date) {
+      data.date = new Date(input.date);
+    }
+
+    // A new customer or date brings a new currency or rate
+    if (input.customerId || input.date || input.exchangeRate) {
+      data.currency = customer.currency;
+      data.exchangeRate =
+        input.exchangeRate ??
+        (await currencyService.getRate(
+          companyId,
+          customer.currency,
+          input.date ? new Date(input.date) : creditMemo.date
+        ));
+    }
+
+    const updated = await prisma.creditMemo.update({
+      where: { id: creditMemoId },
+      data,
+      include: {
+        customer: { select: { id: true, name: true } },
+        lines: {
+          include: {
+            account: { select: { id: true, code: true, name: true } },
+          },
+        },
+      },
+    });
+
+    return this.formatCreditMemo(updated);
+  }
+
+  /**
+   * Issue credit memo (opens the credit, posts the invoice entry in reverse and restocks
+   * returned inventory)
+   */
+  async issueCreditMemo(companyId: string, userId: string, creditMemoId: string) {
+    const creditMemo = await prisma.creditMemo.findFirst({
+      where: { id: creditMemoId, companyId },
+      include: { customer: true, lines: true },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    if (creditMemo.status !== CreditMemoStatus.DRAFT) {
+      throw new BadRequestError('Credit memo has already been issued');
+    }
+
+    await periodService.assertOpen(companyId, creditMemo.date);
+
+    const arAccount = await accountService.getSystemAccount(
+      companyId,
+      AccountSubType.ACCOUNTS_RECEIVABLE
+    );
+    const taxAccount = await accountService.getSystemAccount(
+      companyId,
+      AccountSubType.CURRENT_LIABILITY
+    );
+
+    // Debit revenue accounts and tax payable, credit AR
+    const journalLines: any[] = [];
+
+    for (const line of creditMemo.lines) {
+      const amount = decimalToNumber(line.amount) - decimalToNumber(line.discountAmount);
+      if (amount > 0) {
+        journalLines.push({
+          accountId: line.accountId,
+          debit: amount,
+          credit: 0,
+          memo: line.description,
+        });
+      }
+    }
+
+    const taxTotal = decimalToNumber(creditMemo.taxTotal);
+    if (taxTotal > 0) {
+      journalLines.push({
+        accountId: taxAccount.id,
+        debit: taxTotal,
+        credit: 0,
+        memo: 'Sales tax',
+      });
+    }
+
+    journalLines.push({
+      accountId: arAccount.id,
+      debit: 0,
+      credit: decimalToNumber(creditMemo.total),
+      customerId: creditMemo.customerId,
+      memo: `Credit memo ${creditMemo.creditMemoNumber}`,
+    });
+
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const baseLines = currencyService.toBaseLines(
+      journalLines,
+      creditMemo.currency,
+      decimalToNumber(creditMemo.exchangeRate),
+      baseCurrency
+    );
+
+    // Restock returned inventory at cost: debit inventory asset, credit COGS
+    const costedLines = await inventoryService.costReturnLines(
+      companyId,
+      creditMemo.lines,
+      creditMemo.invoiceId
+    );
+    for (const line of costedLines) {
+      if (line.totalCost > 0) {
+        baseLines.push(
+          { accountId: line.assetAccountId, debit: line.totalCost, credit: 0, memo: line.memo },
+          { accountId: line.cogsAccountId, debit: 0, credit: line.totalCost, memo: line.memo }
+        );
+      }
+    }
+
+    const journalEntry = await journalService.createFromTransaction(companyId, userId, {
+      date: creditMemo.date,
+      memo: `Credit memo ${creditMemo.creditMemoNumber} - ${creditMemo.customer.name}`,
+      reference: creditMemo.creditMemoNumber,
+      source: JournalSource.CREDIT_MEMO,
+      sourceId: creditMemo.id,
+      lines: baseLines,
+    });
+
+    await inventoryService.recordReturn(
+      companyId,
+      {
+        date: creditMemo.date,
+        source: JournalSource.CREDIT_MEMO,
+        sourceId: creditMemo.id,
+        journalEntryId: journalEntry.id,
+      },
+      costedLines
+    );
+
+    const updated = await prisma.creditMemo.update({
+      where: { id: creditMemoId },
+      data: {
+        status: CreditMemoStatus.OPEN,
+        amountRemaining: creditMemo.total,
+        issuedAt: new Date(),
+      },
+    });
+
+    return this.formatCreditMemo(updated);
+  }
+
+  /**
+   * Void credit memo
+   */
+  async voidCreditMemo(companyId: string, creditMemoId: string) {
+    const creditMemo = await prisma.creditMemo.findFirst({
+      where: { id: creditMemoId, companyId },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    if (creditMemo.status === CreditMemoStatus.VOID) {
+      throw new BadRequestError('Credit memo is already voided');
+    }
+
+    if (creditMemo.paymentId) {
+      throw new BadRequestError('Overpayment credit is removed by deleting its payment');
+    }
+
+    if (decimalToNumber(creditMemo.amountApplied) > 0 || decimalToNumber(creditMemo.amountRefunded) > 0) {
+      throw new BadRequestError(
+        'Cannot void a credit memo that has been applied or refunded. Remove those first.'
+      );
+    }
+
+    if (creditMemo.status !== CreditMemoStatus.DRAFT) {
+      await periodService.assertOpen(companyId, creditMemo.date);
+      await journalService.assertSourceNotCleared(companyId, JournalSource.CREDIT_MEMO, creditMemo.id);
+    }
+
+    await prisma.journalEntry.updateMany({
+      where: {
+        companyId,
+        source: JournalSource.CREDIT_MEMO,
+        sourceId: creditMemo.id,
+      },
+      data: { isPosted: false },
+    });
+
+    // Take restocked items back out
+    await inventoryService.reverseSource(companyId, JournalSource.CREDIT_MEMO, creditMemo.id);
+
+    await prisma.creditMemo.update({
+      where: { id: creditMemoId },
+      data: { status: CreditMemoStatus.VOID, amountRemaining: 0 },
+    });
+  }
+
+  /**
+   * Apply credit to one or more of the customer's open invoices
+   */
+  async applyCreditMemo(
+    companyId: string,
+    userId: string,
+    creditMemoId: string,
+    input: ApplyCreditMemoInput
+  ) {
+    const creditMemo = await prisma.creditMemo.findFirst({
+      where: { id: creditMemoId, companyId },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    if (creditMemo.status !== CreditMemoStatus.OPEN) {
+      throw new BadRequestError('Only open credit memos can be applied');
+    }
+
+    const date = new Date(formatDateISO(input.date ? new Date(input.date) : new Date()));
+
+    if (date < creditMemo.date) {
+      throw new BadRequestError('Credit cannot be applied before the credit memo date');
+    }
+
+    const invoiceIds = input.allocations.map((alloc) => alloc.invoiceId);
+    if (new Set(invoiceIds).size !== invoiceIds.length) {
+      throw new BadRequestError('Each invoice can only be listed once');
+    }
+
+    const invoices = new Map<string, { invoiceNumber: string; exchangeRate: number }>();
+    let total = 0;
+
+    for (const alloc of input.allocations) {
+      const invoice = await prisma.invoice.findFirst({
+        where: {
+          id: alloc.invoiceId,
+          companyId,
+          customerId: creditMemo.customerId,
+          status: { in: OPEN_INVOICE_STATUSES },
+        },
+      });
+
+      if (!invoice) {
+        throw new BadRequestError('Invalid invoice for allocation');
+      }
+
+      if (invoice.currency !== creditMemo.currency) {
+        throw new BadRequestError(`Invoice ${invoice.invoiceNumber} is not in ${creditMemo.currency}`);
+      }
+
+      const amountDue = decimalToNumber(invoice.amountDue);
+      if (alloc.amount > amountDue) {
+        throw new BadRequestError(
+          `Allocation amount (${alloc.amount}) exceeds invoice balance (${amountDue})`
+        );
+      }
+
+      total = round(total + alloc.amount);
+      invoices.set(invoice.id, {
+        invoiceNumber: invoice.invoiceNumber,
+        exchangeRate: decimalToNumber(invoice.exchangeRate),
+      });
+    }
+
+    const remaining = decimalToNumber(creditMemo.amountRemaining);
+    if (total > remaining) {
+      throw new BadRequestError(`Total allocations (${total}) exceed remaining credit (${remaining})`);
+    }
+
+    await periodService.assertOpen(companyId, date);
+
+    const arAccount = await accountService.getSystemAccount(
+      companyId,
+      AccountSubType.ACCOUNTS_RECEIVABLE
+    );
+    const creditRate = decimalToNumber(creditMemo.exchangeRate);
+
+    for (const alloc of input.allocations) {
+      const invoice = invoices.get(alloc.invoiceId)!;
+
+      const allocation = await prisma.creditMemoAllocation.create({
+        data: { creditMemoId, invoiceId: alloc.invoiceId, date, amount: alloc.amount },
+      });
+
+      // Both sides sit in AR, so only a difference between the credit and invoice
+      // rates needs posting, as a realized exchange gain or loss
+      const creditBase = round(alloc.amount * creditRate);
+      const invoiceBase = round(alloc.amount * invoice.exchangeRate);
+
+      if (creditBase !== invoiceBase) {
+        const lines = await currencyService.addFxGainLoss(
+          companyId,
+          [
+            {
+              accountId: arAccount.id,
+              debit: creditBase,
+              credit: 0,
+              customerId: creditMemo.customerId,
+              currency: creditMemo.currency,
+              exchangeRate: creditRate,
+              foreignDebit: alloc.amount,
+              foreignCredit: 0,
+              memo: `Credit memo ${creditMemo.creditMemoNumber}`,
+            },
+            {
+              accountId: arAccount.id,
+              debit: 0,
+              credit: invoiceBase,
+              customerId: creditMemo.customerId,
+              currency: creditMemo.currency,
+              exchangeRate: invoice.exchangeRate,
+              foreignDebit: 0,
+              foreignCredit: alloc.amount,
+              memo: `Invoice ${invoice.invoiceNumber}`,
+            },
+          ],
+          'Exchange gain/loss on credit applied'
+        );
+
+        await journalService.createFromTransaction(companyId, userId, {
+          date,
+          memo: `Credit memo ${creditMemo.creditMemoNumber} applied to invoice ${invoice.invoiceNumber}`,
+          reference: creditMemo.creditMemoNumber,
+          source: JournalSource.CREDIT_MEMO,
+          sourceId: allocation.id,
+          lines,
+        });
+      }
+
+      await invoiceService.applyPayment(alloc.invoiceId, alloc.amount);
+    }
+
+    await this.updateBalance(creditMemoId, { applied: total });
+
+    return this.getCreditMemo(companyId, creditMemoId);
+  }
+
+  /**
+   * Remove an application, reopening the invoice and restoring the credit
+   */
+  async unapplyCreditMemo(companyId: string, creditMemoId: string, allocationId: string) {
+    const allocation = await prisma.creditMemoAllocation.findFirst({
+      where: { id: allocationId, creditMemoId, creditMemo: { companyId } },
+    });
+
+    if (!allocation) {
+      throw new NotFoundError('Credit application not found');
+    }
+
+    await periodService.assertOpen(companyId, allocation.date);
+    await journalService.assertSourceNotCleared(companyId, JournalSource.CREDIT_MEMO, allocation.id);
+
+    const amount = decimalToNumber(allocation.amount);
+
+    await invoiceService.applyPayment(allocation.invoiceId, -amount);
+
+    await prisma.journalEntry.updateMany({
+      where: {
+        companyId,
+        source: JournalSource.CREDIT_MEMO,
+        sourceId: allocation.id,
+      },
+      data: { isPosted: false },
+    });
+
+    await prisma.creditMemoAllocation.delete({ where: { id: allocation.id } });
+
+    await this.updateBalance(creditMemoId, { applied: -amount });
+
+    return this.getCreditMemo(companyId, creditMemoId);
+  }
+
+  /**
+   * Hold the unapplied part of a customer payment as credit. The payment entry has
+   * already credited AR, so nothing is posted here.
+   */
+  async createFromOverpayment(companyId: string, payment: CustomerPayment, amount: number) {
+    const creditMemoNumber = await this.generateCreditMemoNumber(companyId);
+
+    return prisma.creditMemo.create({
+      data: {
+        companyId,
+        customerId: payment.customerId,
+        paymentId: payment.id,
+        creditMemoNumber,
+        date: payment.date,
+        currency: payment.currency,
+        exchangeRate: payment.exchangeRate,
+        subtotal: amount,
+        total: amount,
+        amountRemaining: amount,
+        status: CreditMemoStatus.OPEN,
+        memo: `Overpayment on ${payment.paymentNumber}`,
+        issuedAt: new Date(),
+      },
+      select: { id: true, creditMemoNumber: true, total: true, amountRemaining: true },
+    });
+  }
+
+  /**
+   * Remove a payment's overpayment credit before the payment is deleted (internal use)
+   */
+  async deleteOverpaymentCredit(paymentId: string) {
+    const creditMemo = await prisma.creditMemo.findUnique({ where: { paymentId } });
+
+    if (!creditMemo) return;
+
+    if (decimalToNumber(creditMemo.amountApplied) > 0 || decimalToNumber(creditMemo.amountRefunded) > 0) {
+      throw new BadRequestError(
+        `Credit ${creditMemo.creditMemoNumber} from this payment has been applied or refunded. Remove those first.`
+      );
+    }
+
+    await prisma.creditMemo.delete({ where: { id: creditMemo.id } });
+  }
+
+  /**
+   * Apply refund to credit memo (internal use)
+   */
+  async applyRefund(creditMemoId: string, amount: number) {
+    await this.updateBalance(creditMemoId, { refunded: amount });
+  }
+
+  /**
+   * Move credit between remaining and applied or refunded, closing the memo once
+   * nothing is left
+   */
+  private async updateBalance(creditMemoId: string, change: { applied?: number; refunded?: number }) {
+    const creditMemo = await prisma.creditMemo.findUnique({
+      where: { id: creditMemoId },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    const applied = round(decimalToNumber(creditMemo.amountApplied) + (change.applied ?? 0));
+    const refunded = round(decimalToNumber(creditMemo.amountRefunded) + (change.refunded ?? 0));
+    const remaining = round(decimalToNumber(creditMemo.total) - applied - refunded);
+
+    await prisma.creditMemo.update({
+      where: { id: creditMemoId },
+      data: {
+        amountApplied: applied,
+        amountRefunded: refunded,
+        amountRemaining: Math.max(0, remaining),
+        status: remaining <= 0 ? CreditMemoStatus.CLOSED : CreditMemoStatus.OPEN,
+      },
+    });
+  }
+
+  /**
+   * The invoice a credit memo refers to must be the customer's and not a draft or void
+   */
+  private async findCreditedInvoice(companyId: string, customerId: string, invoiceId: string) {
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        id: invoiceId,
+        companyId,
+        customerId,
+        status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+      },
+      include: { lines: { select: { productId: true } } },
+    });
+
+    if (!invoice) {
+      throw new BadRequestError('Credited invoice must be a sent invoice for the same customer');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Generate unique credit memo number
+   */
+  private async generateCreditMemoNumber(companyId: string): Promise<string> {
+    const lastCreditMemo = await prisma.creditMemo.findFirst({
+      where: { companyId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    const settings = company?.settings as any || {};
+    const prefix = settings.creditMemoPrefix || 'CM-';
+
+    if (!lastCreditMemo) {
+      return `${prefix}1001`;
+    }
+
+    const match = lastCreditMemo.creditMemoNumber.match(/(\d+)$/);
+    const lastNumber = match ? parseInt(match[1]) : 1000;
+
+    return `${prefix}${lastNumber + 1}`;
+  }
+
+  /**
+   * Format credit memo for response
+   */
+  private formatCreditMemo(creditMemo: any) {
+    return {
+      ...creditMemo,
+      subtotal: decimalToNumber(creditMemo.subtotal),
+      taxTotal: decimalToNumber(creditMemo.taxTotal),
+      discountTotal: decimalToNumber(creditMemo.discountTotal),
+      total: decimalToNumber(creditMemo.total),
+      exchangeRate: decimalToNumber(creditMemo.exchangeRate),
+      amountApplied: decimalToNumber(creditMemo.amountApplied),
+      amountRefunded: decimalToNumber(creditMemo.amountRefunded),
+      amountRemaining: decimalToNumber(creditMemo.amountRemaining),
+      lines: creditMemo.lines?.map((line: any) => ({
+        ...line,
+        quantity: decimalToNumber(line.quantity),
+        unitPrice: decimalToNumber(line.unitPrice),
+        amount: decimalToNumber(line.amount),
+        discountPercent: decimalToNumber(line.discountPercent),
+        discountAmount: decimalToNumber(line.discountAmount),
+        taxRate: decimalToNumber(line.taxRate),
+        taxAmount: decimalToNumber(line.taxAmount),
+      })),
+      allocations: creditMemo.allocations?.map((alloc: any) => ({
+        ...alloc,
+        amount: decimalToNumber(alloc.amount),
+        invoice: alloc.invoice
+          ? { ...alloc.invoice, total: decimalToNumber(alloc.invoice.total) }
+          : undefined,
+      })),
+      refunds: creditMemo.refunds?.map((refund: any) => ({
+        ...refund,
+        amount: decimalToNumber(refund.amount),
+        exchangeRate: decimalToNumber(refund.exchangeRate),
+      })),
+    };
+  }
+}
+
+export const creditMemoService = new CreditMemoService();
@@ -0,0 +1,32 @@
+import { Response } from 'express';
+import { customerRefundService } from './customerRefund.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
+
+export class CustomerRefundController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await customerRefundService.getRefunds(req.companyId!, req.query as any);
+    return sendPaginated(res, result.refunds, result.pagination);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const refund = await customerRefundService.getRefund(req.companyId!, req.params.id);
+    return sendSuccess(res, refund);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const refund = await customerRefundService.createRefund(
+      req.companyId!,
+      req.user!.id,
+      req.body
+    );
+    return sendCreated(res, refund, 'Refund recorded successfully');
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response) {
+    await customerRefundService.deleteRefund(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+}
+
+export const customerRefundController = new CustomerRefundController();
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { customerRefundController } from './customerRefund.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  createCustomerRefundSchema,
+  customerRefundQuerySchema,
+} from './customerRefund.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: customerRefundQuerySchema }),
+  asyncHandler(customerRefundController.list.bind(customerRefundController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(customerRefundController.get.bind(customerRefundController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createCustomerRefundSchema }),
+  asyncHandler(customerRefundController.create.bind(customerRefundController))
+);
+
+router.delete(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(customerRefundController.delete.bind(customerRefundController))
+);
+
+export default router;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { PaymentMethod } from '@prisma/client';
+
+export const createCustomerRefundSchema = z.object({
+  creditMemoId: z.string().uuid(), // Credit being paid out
+  date: z.string().datetime(),
+  amount: z.number().positive(),
+  method: z.nativeEnum(PaymentMethod).default(PaymentMethod.OTHER),
+  reference: z.string().max(100).optional(),
+  memo: z.string().max(500).optional(),
+  bankAccountId: z.string().uuid(),
+});
+
+export const customerRefundQuerySchema = z.object({
+  customerId: z.string().uuid().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type CreateCustomerRefundInput = z.infer<typeof createCustomerRefundSchema>;
+export type CustomerRefundQuery = z.infer<typeof customerRefundQuerySchema>;
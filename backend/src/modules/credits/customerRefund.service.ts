@@ -0,0 +1,269 @@
+import { prisma } from '../../config/database';
+import { JournalSource, AccountSubType, CreditMemoStatus, Prisma } from '@prisma/client';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { CreateCustomerRefundInput, CustomerRefundQuery } from './customerRefund.schema';
+import { decimalToNumber, round } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { journalService } from '../journal/journal.service';
+import { accountService } from '../accounts/account.service';
+import { periodService } from '../periods/period.service';
+import { currencyService } from '../currency/currency.service';
+import { creditMemoService } from './creditMemo.service';
+
+export class CustomerRefundService {
+  /**
+   * Get customer refunds with pagination
+   */
+  async getRefunds(companyId: string, query: CustomerRefundQuery) {
+    const where: Prisma.CustomerRefundWhereInput = { companyId };
+
+    if (query.customerId) where.customerId = query.customerId;
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [refunds, total] = await Promise.all([
+      prisma.customerRefund.findMany({
+        where,
+        include: {
+          customer: { select: { id: true, name: true } },
+          creditMemo: { select: { id: true, creditMemoNumber: true } },
+          bankAccount: { select: { id: true, bankName: true } },
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.customerRefund.count({ where }),
+    ]);
+
+    return {
+      refunds: refunds.map(this.formatRefund),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Get single refund
+   */
+  async getRefund(companyId: string, refundId: string) {
+    const refund = await prisma.customerRefund.findFirst({
+      where: { id: refundId, companyId },
+      include: {
+        customer: { select: { id: true, name: true, email: true } },
+        creditMemo: { select: { id: true, creditMemoNumber: true, date: true, total: true } },
+        bankAccount: { select: { id: true, bankName: true } },
+      },
+    });
+
+    if (!refund) {
+      throw new NotFoundError('Refund not found');
+    }
+
+    return this.formatRefund(refund);
+  }
+
+  /**
+   * Pay unapplied credit back to the customer from a bank account
+   */
+  async createRefund(companyId: string, userId: string, input: CreateCustomerRefundInput) {
+    const creditMemo = await prisma.creditMemo.findFirst({
+      where: { id: input.creditMemoId, companyId },
+      include: { customer: true },
+    });
+
+    if (!creditMemo) {
+      throw new NotFoundError('Credit memo not found');
+    }
+
+    if (creditMemo.status !== CreditMemoStatus.OPEN) {
+      throw new BadRequestError('Only open credit memos can be refunded');
+    }
+
+    const remaining = decimalToNumber(creditMemo.amountRemaining);
+    if (input.amount > remaining) {
+      throw new BadRequestError(`Refund amount (${input.amount}) exceeds remaining credit (${remaining})`);
+    }
+
+    const date = new Date(input.date);
+    if (date < creditMemo.date) {
+      throw new BadRequestError('Refund cannot be dated before the credit memo');
+    }
+
+    const { customer } = creditMemo;
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const isForeign = creditMemo.currency !== baseCurrency;
+    const exchangeRate = await currencyService.getRate(companyId, creditMemo.currency, date);
+
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { id: input.bankAccountId, companyId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError('Bank account not found');
+    }
+
+    if (bankAccount.currency !== creditMemo.currency && bankAccount.currency !== baseCurrency) {
+      throw new BadRequestError(
+        `Bank account is in ${bankAccount.currency} but the refund is in ${creditMemo.currency}`
+      );
+    }
+
+    const paidInForeign = isForeign && bankAccount.currency === creditMemo.currency;
+
+    await periodService.assertOpen(companyId, date);
+
+    const refundNumber = await this.generateRefundNumber(companyId);
+
+    const arAccount = await accountService.getSystemAccount(
+      companyId,
+      AccountSubType.ACCOUNTS_RECEIVABLE
+    );
+
+    const refund = await prisma.customerRefund.create({
+      data: {
+        companyId,
+        customerId: creditMemo.customerId,
+        creditMemoId: creditMemo.id,
+        refundNumber,
+        date,
+        amount: input.amount,
+        currency: creditMemo.currency,
+        exchangeRate,
+        method: input.method,
+        reference: input.reference,
+        memo: input.memo,
+        bankAccountId: bankAccount.id,
+      },
+      include: {
+        customer: { select: { id: true, name: true } },
+        creditMemo: { select: { id: true, creditMemoNumber: true } },
+      },
+    });
+
+    // AR is restored at the credit's rate and the cash goes out at today's rate;
+    // any difference is a realized exchange gain or loss
+    const creditRate = decimalToNumber(creditMemo.exchangeRate);
+    const foreignAmounts = (rate: number, foreignDebit: number, foreignCredit: number) =>
+      isForeign
+        ? { currency: creditMemo.currency, exchangeRate: rate, foreignDebit, foreignCredit }
+        : {};
+
+    const lines = await currencyService.addFxGainLoss(
+      companyId,
+      [
+        {
+          accountId: arAccount.id,
+          debit: round(input.amount * creditRate),
+          credit: 0,
+          customerId: creditMemo.customerId,
+          memo: `Refund of credit memo ${creditMemo.creditMemoNumber}`,
+          ...foreignAmounts(creditRate, input.amount, 0),
+        },
+        {
+          accountId: bankAccount.accountId,
+          debit: 0,
+          credit: round(input.amount * exchangeRate),
+          memo: `Refund to ${customer.name}`,
+          ...(paidInForeign ? foreignAmounts(exchangeRate, 0, input.amount) : {}),
+        },
+      ],
+      'Exchange gain/loss on refund'
+    );
+
+    await journalService.createFromTransaction(companyId, userId, {
+      date,
+      memo: `Refund to ${customer.name}`,
+      reference: refundNumber,
+      source: JournalSource.CUSTOMER_REFUND,
+      sourceId: refund.id,
+      lines,
+    });
+
+    await creditMemoService.applyRefund(creditMemo.id, input.amount);
+
+    return this.formatRefund(refund);
+  }
+
+  /**
+   * Delete refund (reverses GL and restores the credit)
+   */
+  async deleteRefund(companyId: string, refundId: string) {
+    const refund = await prisma.customerRefund.findFirst({
+      where: { id: refundId, companyId },
+    });
+
+    if (!refund) {
+      throw new NotFoundError('Refund not found');
+    }
+
+    await periodService.assertOpen(companyId, refund.date);
+    await journalService.assertSourceNotCleared(companyId, JournalSource.CUSTOMER_REFUND, refund.id);
+
+    await prisma.journalEntry.updateMany({
+      where: {
+        companyId,
+        source: JournalSource.CUSTOMER_REFUND,
+        sourceId: refund.id,
+      },
+      data: { isPosted: false },
+    });
+
+    await prisma.customerRefund.delete({
+      where: { id: refundId },
+    });
+
+    await creditMemoService.applyRefund(refund.creditMemoId, -decimalToNumber(refund.amount));
+  }
+
+  /**
+   * Generate refund number
+   */
+  private async generateRefundNumber(companyId: string): Promise<string> {
+    const lastRefund = await prisma.customerRefund.findFirst({
+      where: { companyId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    const settings = company?.settings as any || {};
+    const prefix = settings.refundPrefix || 'RFD-';
+
+    if (!lastRefund) {
+      return `${prefix}1001`;
+    }
+
+    const match = lastRefund.refundNumber.match(/(\d+)$/);
+    const lastNumber = match ? parseInt(match[1]) : 1000;
+
+    return `${prefix}${lastNumber + 1}`;
+  }
+
+  /**
+   * Format refund for response
+   */
+  private formatRefund(refund: any) {
+    return {
+      ...refund,
+      amount: decimalToNumber(refund.amount),
+      exchangeRate: decimalToNumber(refund.exchangeRate),
+      creditMemo: refund.creditMemo
+        ? {
+            ...refund.creditMemo,
+            total: refund.creditMemo.total ? decimalToNumber(refund.creditMemo.total) : undefined,
+          }
+        : undefined,
+    };
+  }
+}
+
+export const customerRefundService = new CustomerRefundService();
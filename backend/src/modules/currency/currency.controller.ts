@@ -0,0 +1,33 @@
+import { Response } from 'express';
+import { currencyService } from './currency.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent } from '../../utils/response';
+
+export class CurrencyController {
+  async listRates(req: AuthenticatedRequest, res: Response) {
+    const rates = await currencyService.getRates(req.companyId!, req.query as any);
+    return sendSuccess(res, rates);
+  }
+
+  async setRate(req: AuthenticatedRequest, res: Response) {
+    const rate = await currencyService.setRate(req.companyId!, req.body);
+    return sendSuccess(res, rate, 'Exchange rate saved');
+  }
+
+  async importRates(req: AuthenticatedRequest, res: Response) {
+    const result = await currencyService.importRates(req.companyId!, req.body.data);
+    return sendSuccess(res, result, `Imported ${result.imported} exchange rates`);
+  }
+
+  async deleteRate(req: AuthenticatedRequest, res: Response) {
+    await currencyService.deleteRate(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+
+  async revalue(req: AuthenticatedRequest, res: Response) {
+    const entry = await currencyService.revalue(req.companyId!, req.user!.id, req.body);
+    return sendCreated(res, entry, 'Foreign currency balances revalued');
+  }
+}
+
+export const currencyController = new CurrencyController();
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { currencyController } from './currency.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess, requireAdmin } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  exchangeRateSchema,
+  exchangeRateQuerySchema,
+  importExchangeRatesSchema,
+  revaluationSchema,
+} from './currency.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/exchange-rates',
+  validate({ query: exchangeRateQuerySchema }),
+  asyncHandler(currencyController.listRates.bind(currencyController))
+);
+
+router.put(
+  '/exchange-rates',
+  requireWriteAccess,
+  validate({ body: exchangeRateSchema }),
+  asyncHandler(currencyController.setRate.bind(currencyController))
+);
+
+router.post(
+  '/exchange-rates/import',
+  requireWriteAccess,
+  validate({ body: importExchangeRatesSchema }),
+  asyncHandler(currencyController.importRates.bind(currencyController))
+);
+
+router.delete(
+  '/exchange-rates/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(currencyController.deleteRate.bind(currencyController))
+);
+
+// Post unrealized gains and losses as of a period end
+router.post(
+  '/revaluations',
+  requireAdmin,
+  validate({ body: revaluationSchema }),
+  asyncHandler(currencyController.revalue.bind(currencyController))
+);
+
+export default router;
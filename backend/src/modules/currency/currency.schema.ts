@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO 4217 code')
+  .transform((code) => code.toUpperCase());
+
+export const exchangeRateSchema = z.object({
+  currency: currencyCodeSchema,
+  date: z.string().datetime(),
+  rate: z.number().positive(), // Base currency per unit of the foreign currency
+});
+
+export const importExchangeRatesSchema = z.object({
+  data: z.string().min(1), // CSV with currency, date and rate columns; raw or base64 encoded
+});
+
+export const exchangeRateQuerySchema = z.object({
+  currency: currencyCodeSchema.optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const revaluationSchema = z.object({
+  date: z.string().datetime(), // Period end; the entry reverses the next day
+});
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
+export type ExchangeRateQuery = z.infer<typeof exchangeRateQuerySchema>;
+export type RevaluationInput = z.infer<typeof revaluationSchema>;
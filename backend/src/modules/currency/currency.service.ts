@@ -0,0 +1,474 @@
+import { prisma } from '../../config/database';
+import {
+  AccountSubType,
+  AccountType,
+  BillStatus,
+  CreditMemoStatus,
+  InvoiceStatus,
+  JournalSource,
+  Prisma,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
+import { addDays, decimalToNumber, formatDateISO, round } from '../../utils/helpers';
+import { ExchangeRateInput, ExchangeRateQuery, RevaluationInput } from './currency.schema';
+import { PostingLineInput } from '../journal/journal.schema';
+import { journalService } from '../journal/journal.service';
+import { accountService } from '../accounts/account.service';
+import {
+  decodeStatementData,
+  parseDelimited,
+  parseDateWithFormat,
+} from '../banking/statement.parser';
+
+const FX_ACCOUNT = { code: '4930', name: 'Foreign Exchange Gain/Loss' };
+
+export class CurrencyService {
+  /**
+   * Get exchange rates, newest first
+   */
+  async getRates(companyId: string, query: ExchangeRateQuery) {
+    const where: Prisma.ExchangeRateWhereInput = { companyId };
+
+    if (query.currency) where.currency = query.currency;
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const rates = await prisma.exchangeRate.findMany({
+      where,
+      orderBy: [{ date: 'desc' }, { currency: 'asc' }],
+      take: 500,
+    });
+
+    return rates.map(this.formatRate);
+  }
+
+  /**
+   * Set the rate for a currency on a date, replacing any rate already entered for it
+   */
+  async setRate(companyId: string, input: ExchangeRateInput) {
+    const baseCurrency = await this.getBaseCurrency(companyId);
+
+    if (input.currency === baseCurrency) {
+      throw new BadRequestError(`${baseCurrency} is the base currency`);
+    }
+
+    const date = new Date(formatDateISO(new Date(input.date)));
+
+    const rate = await prisma.exchangeRate.upsert({
+      where: { companyId_currency_date: { companyId, currency: input.currency, date } },
+      create: { companyId, currency: input.currency, date, rate: input.rate },
+      update: { rate: input.rate },
+    });
+
+    return this.formatRate(rate);
+  }
+
+  /**
+   * Delete exchange rate
+   */
+  async deleteRate(companyId: string, rateId: string) {
+    const rate = await prisma.exchangeRate.findFirst({
+      where: { id: rateId, companyId },
+    });
+
+    if (!rate) {
+      throw new NotFoundError('Exchange rate not found');
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: rateId } });
+  }
+
+  /**
+   * Import rates from a CSV with currency, date and rate columns. Rows that cannot be
+   * read are reported back; the rest are saved.
+   */
+  async importRates(companyId: string, data: string) {
+    const baseCurrency = await this.getBaseCurrency(companyId);
+    const records = parseDelimited(decodeStatementData(data));
+    const header = (records[0] || []).map((h) => h.trim().toLowerCase());
+
+    const columns = {
+      currency: header.indexOf('currency'),
+      date: header.indexOf('date'),
+      rate: header.indexOf('rate'),
+    };
+
+    if (columns.currency < 0 || columns.date < 0 || columns.rate < 0) {
+      throw new BadRequestError('CSV must have currency, date and rate columns');
+    }
+
+    const errors: { row: number; message: string }[] = [];
+    let imported = 0;
+
+    for (let index = 1; index < records.length; index++) {
+      const record = records[index];
+      const row = index + 1;
+
+      if (record.every((value) => value.trim() === '')) continue;
+
+      const currency = record[columns.currency]?.trim().toUpperCase();
+      const date = parseDateWithFormat(record[columns.date]?.trim());
+      const rate = Number(record[columns.rate]?.trim());
+
+      if (!currency || !/^[A-Z]{3}$/.test(currency)) {
+        errors.push({ row, message: 'Invalid currency code' });
+      } else if (currency === baseCurrency) {
+        errors.push({ row, message: `${baseCurrency} is the base currency` });
+      } else if (!date) {
+        errors.push({ row, message: 'Invalid date' });
+      } else if (!Number.isFinite(rate) || rate <= 0) {
+        errors.push({ row, message: 'Rate must be a positive number' });
+      } else {
+        await prisma.exchangeRate.upsert({
+          where: { companyId_currency_date: { companyId, currency, date } },
+          create: { companyId, currency, date, rate },
+          update: { rate },
+        });
+        imported++;
+      }
+    }
+
+    return { imported, errors };
+  }
+
+  /**
+   * Rate for a currency on a date: the latest one entered on or before it
+   */
+  async getRate(companyId: string, currency: string, date: Date | string) {
+    const baseCurrency = await this.getBaseCurrency(companyId);
+
+    if (currency === baseCurrency) {
+      return 1;
+    }
+
+    const day = formatDateISO(new Date(date));
+
+    const rate = await prisma.exchangeRate.findFirst({
+      where: { companyId, currency, date: { lte: new Date(day) } },
+      orderBy: { date: 'desc' },
+    });
+
+    if (!rate) {
+      throw new BadRequestError(`No ${currency} exchange rate on or before ${day}`);
+    }
+
+    return decimalToNumber(rate.rate);
+  }
+
+  /**
+   * Company's base (reporting) currency
+   */
+  async getBaseCurrency(companyId: string) {
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: { baseCurrency: true },
+    });
+
+    if (!company) {
+      throw new NotFoundError('Company not found');
+    }
+
+    return company.baseCurrency;
+  }
+
+  /**
+   * Convert document lines in a foreign currency to base currency lines that keep the
+   * original amounts. Rounding differences go to the largest line so the entry balances.
+   */
+  toBaseLines(
+    lines: PostingLineInput[],
+    currency: string,
+    exchangeRate: number,
+    baseCurrency: string
+  ): PostingLineInput[] {
+    if (currency === baseCurrency) {
+      return lines;
+    }
+
+    const converted = lines.map((line) => ({
+      ...line,
+      debit: round((line.debit || 0) * exchangeRate),
+      credit: round((line.credit || 0) * exchangeRate),
+      currency,
+      exchangeRate,
+      foreignDebit: line.debit || 0,
+      foreignCredit: line.credit || 0,
+    }));
+
+    const difference = round(
+      converted.reduce((sum, line) => sum + line.debit - line.credit, 0)
+    );
+
+    if (difference !== 0 && converted.length > 0) {
+      const largest = converted.reduce((max, line) =>
+        line.debit + line.credit > max.debit + max.credit ? line : max
+      );
+
+      if (largest.debit > 0) {
+        largest.debit = round(largest.debit - difference);
+      } else {
+        largest.credit = round(largest.credit + difference);
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * Balance an entry whose sides differ only by exchange movements with a realized
+   * gain (credit) or loss (debit) line
+   */
+  async addFxGainLoss(companyId: string, lines: PostingLineInput[], memo: string) {
+    const difference = round(
+      lines.reduce((sum, line) => sum + (line.debit || 0) - (line.credit || 0), 0)
+    );
+
+    if (difference === 0) {
+      return lines;
+    }
+
+    const fxAccount = await this.getFxAccount(companyId);
+
+    return [
+      ...lines,
+      {
+        accountId: fxAccount.id,
+        debit: difference < 0 ? -difference : 0,
+        credit: difference > 0 ? difference : 0,
+        memo,
+      },
+    ];
+  }
+
+  /**
+   * Post unrealized exchange gains and losses on open receivables, payables and foreign
+   * bank balances as of a period end. The entry reverses the next day, so realized
+   * gains are still measured from the original document rates.
+   */
+  async revalue(companyId: string, userId: string, input: RevaluationInput) {
+    const date = new Date(formatDateISO(new Date(input.date)));
+    const baseCurrency = await this.getBaseCurrency(companyId);
+
+    const existing = await prisma.journalEntry.findFirst({
+      where: { companyId, source: JournalSource.FX_REVALUATION, date, isPosted: true },
+    });
+
+    if (existing) {
+      throw new ConflictError(
+        `Balances were already revalued on ${formatDateISO(date)} (Entry #${existing.entryNumber})`
+      );
+    }
+
+    const rates = new Map<string, number>();
+    const rateFor = async (currency: string) => {
+      if (!rates.has(currency)) {
+        rates.set(currency, await this.getRate(companyId, currency, date));
+      }
+      return rates.get(currency)!;
+    };
+
+    const memo = `Unrealized FX revaluation ${formatDateISO(date)}`;
+    const lines: PostingLineInput[] = [];
+
+    // Receivables: a stronger currency is worth more base currency
+    const [arAccount, apAccount] = await Promise.all([
+      accountService.getSystemAccount(companyId, AccountSubType.ACCOUNTS_RECEIVABLE),
+      accountService.getSystemAccount(companyId, AccountSubType.ACCOUNTS_PAYABLE),
+    ]);
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        companyId,
+        currency: { not: baseCurrency },
+        date: { lte: date },
+        status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+      },
+      include: {
+        paymentAllocations: { include: { payment: { select: { date: true } } } },
+        creditAllocations: { where: { date: { lte: date } } },
+      },
+    });
+
+    for (const invoice of invoices) {
+      const paid =
+        invoice.paymentAllocations
+          .filter((alloc) => alloc.payment.date <= date)
+          .reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0) +
+        invoice.creditAllocations.reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0);
+      const open = round(decimalToNumber(invoice.total) - paid);
+      if (open <= 0) continue;
+
+      const adjustment = round(
+        open * (await rateFor(invoice.currency)) - open * decimalToNumber(invoice.exchangeRate)
+      );
+      if (adjustment === 0) continue;
+
+      lines.push({
+        accountId: arAccount.id,
+        debit: adjustment > 0 ? adjustment : 0,
+        credit: adjustment < 0 ? -adjustment : 0,
+        customerId: invoice.customerId,
+        currency: invoice.currency,
+        foreignDebit: 0,
+        foreignCredit: 0,
+        memo: `${memo} - Invoice ${invoice.invoiceNumber}`,
+      });
+    }
+
+    // Unapplied customer credit is owed back, so it moves the other way
+    const creditMemos = await prisma.creditMemo.findMany({
+      where: {
+        companyId,
+        currency: { not: baseCurrency },
+        date: { lte: date },
+        status: { in: [CreditMemoStatus.OPEN, CreditMemoStatus.CLOSED] },
+      },
+      include: {
+        allocations: { where: { date: { lte: date } } },
+        refunds: { where: { date: { lte: date } } },
+      },
+    });
+
+    for (const creditMemo of creditMemos) {
+      const used = [...creditMemo.allocations, ...creditMemo.refunds].reduce(
+        (sum, item) => sum + decimalToNumber(item.amount),
+        0
+      );
+      const open = round(decimalToNumber(creditMemo.total) - used);
+      if (open <= 0) continue;
+
+      const adjustment = round(
+        open * (await rateFor(creditMemo.currency)) - open * decimalToNumber(creditMemo.exchangeRate)
+      );
+      if (adjustment === 0) continue;
+
+      lines.push({
+        accountId: arAccount.id,
+        debit: adjustment < 0 ? -adjustment : 0,
+        credit: adjustment > 0 ? adjustment : 0,
+        customerId: creditMemo.customerId,
+        currency: creditMemo.currency,
+        foreignDebit: 0,
+        foreignCredit: 0,
+        memo: `${memo} - Credit memo ${creditMemo.creditMemoNumber}`,
+      });
+    }
+
+    // Payables: a stronger currency costs more base currency to settle
+    const bills = await prisma.bill.findMany({
+      where: {
+        companyId,
+        currency: { not: baseCurrency },
+        date: { lte: date },
+        status: { notIn: [BillStatus.DRAFT, BillStatus.VOID] },
+      },
+      include: { paymentAllocations: { include: { payment: { select: { date: true } } } } },
+    });
+
+    for (const bill of bills) {
+      const paid = bill.paymentAllocations
+        .filter((alloc) => alloc.payment.date <= date)
+        .reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0);
+      const open = round(decimalToNumber(bill.total) - paid);
+      if (open <= 0) continue;
+
+      const adjustment = round(
+        open * (await rateFor(bill.currency)) - open * decimalToNumber(bill.exchangeRate)
+      );
+      if (adjustment === 0) continue;
+
+      lines.push({
+        accountId: apAccount.id,
+        debit: adjustment < 0 ? -adjustment : 0,
+        credit: adjustment > 0 ? adjustment : 0,
+        vendorId: bill.vendorId,
+        currency: bill.currency,
+        foreignDebit: 0,
+        foreignCredit: 0,
+        memo: `${memo} - Bill ${bill.billNumber}`,
+      });
+    }
+
+    // Foreign bank balances, from the lines posted in the account's own currency
+    const bankAccounts = await prisma.bankAccount.findMany({
+      where: { companyId, currency: { not: baseCurrency }, isActive: true },
+    });
+
+    for (const bankAccount of bankAccounts) {
+      const totals = await prisma.journalLine.aggregate({
+        where: {
+          accountId: bankAccount.accountId,
+          currency: bankAccount.currency,
+          journalEntry: { isPosted: true, date: { lte: date } },
+        },
+        _sum: { debit: true, credit: true, foreignDebit: true, foreignCredit: true },
+      });
+
+      const foreignBalance =
+        decimalToNumber(totals._sum.foreignDebit) - decimalToNumber(totals._sum.foreignCredit);
+      const bookBalance = decimalToNumber(totals._sum.debit) - decimalToNumber(totals._sum.credit);
+      const adjustment = round(foreignBalance * (await rateFor(bankAccount.currency)) - bookBalance);
+      if (adjustment === 0) continue;
+
+      lines.push({
+        accountId: bankAccount.accountId,
+        debit: adjustment > 0 ? adjustment : 0,
+        credit: adjustment < 0 ? -adjustment : 0,
+        currency: bankAccount.currency,
+        foreignDebit: 0,
+        foreignCredit: 0,
+        memo: `${memo} - ${bankAccount.bankName}`,
+      });
+    }
+
+    if (lines.length === 0) {
+      throw new ConflictError(`No foreign currency balances to revalue on ${formatDateISO(date)}`);
+    }
+
+    const entry = await journalService.createFromTransaction(companyId, userId, {
+      date,
+      memo,
+      source: JournalSource.FX_REVALUATION,
+      sourceId: companyId,
+      lines: await this.addFxGainLoss(companyId, lines, memo),
+      autoReverseDate: addDays(date, 1),
+    });
+
+    return journalService.getJournalEntry(companyId, entry.id);
+  }
+
+  /**
+   * The system account for exchange gains and losses, created for companies set up
+   * before multi-currency support
+   */
+  private async getFxAccount(companyId: string) {
+    const account = await prisma.account.findFirst({
+      where: { companyId, subType: AccountSubType.OTHER_INCOME, isSystemAccount: true },
+    });
+
+    if (account) {
+      return account;
+    }
+
+    return prisma.account.create({
+      data: {
+        companyId,
+        ...FX_ACCOUNT,
+        type: AccountType.REVENUE,
+        subType: AccountSubType.OTHER_INCOME,
+        isSystemAccount: true,
+      },
+    });
+  }
+
+  private formatRate(rate: any) {
+    return { ...rate, rate: decimalToNumber(rate.rate) };
+  }
+}
+
+export const currencyService = new CurrencyService();
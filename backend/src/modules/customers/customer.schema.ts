@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from '../currency/currency.schema';
 
 export const addressSchema = z.object({
   line1: z.string().optional(),
@@ -19,6 +20,7 @@ export const createCustomerSchema = z.object({
   billingAddress: addressSchema.optional(),
   shippingAddress: addressSchema.optional(),
   paymentTerms: z.number().int().min(0).max(365).default(30),
+  currency: currencyCodeSchema.optional(), // Defaults to the company's base currency
   creditLimit: z.number().min(0).optional(),
   taxExempt: z.boolean().default(false),
   taxExemptNumber: z.string().max(50).optional(),
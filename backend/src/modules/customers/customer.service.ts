@@ -1,9 +1,10 @@
 import { prisma } from '../../config/database';
 import { Prisma } from '@prisma/client';
-import { NotFoundError, ConflictError } from '../../utils/errors';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
 import { CreateCustomerInput, UpdateCustomerInput, CustomerQuery } from './customer.schema';
-import { generateCode, decimalToNumber } from '../../utils/helpers';
+import { generateCode, decimalToNumber, round } from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
+import { currencyService } from '../currency/currency.service';
 
 export class CustomerService {
   /**
@@ -95,6 +96,7 @@ export class CustomerService {
         billingAddress: input.billingAddress || null,
         shippingAddress: input.shippingAddress || null,
         paymentTerms: input.paymentTerms,
+        currency: input.currency ?? (await currencyService.getBaseCurrency(companyId)),
         creditLimit: input.creditLimit,
         taxExempt: input.taxExempt,
         taxExemptNumber: input.taxExemptNumber,
@@ -133,6 +135,23 @@ export class CustomerService {
       }
     }
 
+    // Open documents and payments are in the current currency
+    if (input.currency && input.currency !== customer.currency) {
+      const documents = await prisma.customer.findUnique({
+        where: { id: customerId },
+        select: {
+          _count: { select: { invoices: true, customerPayments: true, creditMemos: true } },
+        },
+      });
+
+      const count = documents?._count;
+      if (count && count.invoices + count.customerPayments + count.creditMemos > 0) {
+        throw new BadRequestError(
+          'Currency cannot change once the customer has invoices, payments or credits'
+        );
+      }
+    }
+
     const updated = await prisma.customer.update({
       where: { id: customerId },
       data: {
@@ -216,20 +235,28 @@ export class CustomerService {
   }
 
   /**
-   * Calculate customer outstanding balance
+   * Calculate customer outstanding balance, net of unapplied credit
    */
   async calculateBalance(customerId: string): Promise<number> {
-    const result = await prisma.invoice.aggregate({
-      where: {
-        customerId,
-        status: { notIn: ['DRAFT', 'VOID'] },
-      },
-      _sum: {
-        amountDue: true,
-      },
-    });
+    const [invoices, credits] = await Promise.all([
+      prisma.invoice.aggregate({
+        where: {
+          customerId,
+          status: { notIn: ['DRAFT', 'VOID'] },
+        },
+        _sum: {
+          amountDue: true,
+        },
+      }),
+      prisma.creditMemo.aggregate({
+        where: { customerId, status: 'OPEN' },
+        _sum: { amountRemaining: true },
+      }),
+    ]);
 
-    return decimalToNumber(result._sum.amountDue);
+    return round(
+      decimalToNumber(invoices._sum.amountDue) - decimalToNumber(credits._sum.amountRemaining)
+    );
   }
 
   /**
@@ -0,0 +1,18 @@
+import { Response } from 'express';
+import { dunningService } from './dunning.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess } from '../../utils/response';
+
+export class DunningController {
+  async listReminders(req: AuthenticatedRequest, res: Response) {
+    const reminders = await dunningService.getReminders(req.companyId!, req.query as any);
+    return sendSuccess(res, reminders);
+  }
+
+  async run(req: AuthenticatedRequest, res: Response) {
+    const summary = await dunningService.runDue(req.companyId!);
+    return sendSuccess(res, summary, 'Dunning run complete');
+  }
+}
+
+export const dunningController = new DunningController();
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { dunningController } from './dunning.controller';
+import { validate } from '../../middleware/validate';
+import { authenticate, requireCompany, requireAdmin } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { reminderQuerySchema } from './dunning.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/reminders',
+  validate({ query: reminderQuerySchema }),
+  asyncHandler(dunningController.listReminders.bind(dunningController))
+);
+
+// Mark overdue invoices and send any reminders that have come due
+router.post(
+  '/run',
+  requireAdmin,
+  asyncHandler(dunningController.run.bind(dunningController))
+);
+
+export default router;
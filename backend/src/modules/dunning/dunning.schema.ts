@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const reminderQuerySchema = z.object({
+  invoiceId: z.string().uuid().optional(),
+});
+
+export type ReminderQuery = z.infer<typeof reminderQuerySchema>;
@@ -0,0 +1,224 @@
+import { prisma } from '../../config/database';
+import { InvoiceStatus, Prisma, UserRole } from '@prisma/client';
+import { decimalToNumber, formatDateISO, addDays, round } from '../../utils/helpers';
+import { ReminderQuery } from './dunning.schema';
+import {
+  dunningRuleSchema,
+  lateFeePolicySchema,
+  DunningRule,
+  LateFeePolicy,
+  EmailTemplate,
+} from '../company/company.schema';
+import { invoiceService } from '../invoices/invoice.service';
+import { emailService } from '../email/email.service';
+import { formatMoney } from '../invoices/invoice.pdf';
+import { runWithAuditContext } from '../audit/audit.extension';
+
+// Used when a rule has no subject or body of its own
+const DEFAULT_REMINDERS: Record<'upcoming' | 'overdue', EmailTemplate> = {
+  upcoming: {
+    subject: 'Reminder: invoice {{invoiceNumber}} is due {{dueDate}}',
+    body:
+      'Hi {{customerName}},\n\n' +
+      'This is a friendly reminder that invoice {{invoiceNumber}} for {{amountDue}} ' +
+      'is due on {{dueDate}}. A copy is attached.\n\n' +
+      'Thank you,\n{{companyName}}',
+  },
+  overdue: {
+    subject: 'Overdue: invoice {{invoiceNumber}} was due {{dueDate}}',
+    body:
+      'Hi {{customerName}},\n\n' +
+      'Invoice {{invoiceNumber}} is {{daysOverdue}} days past due. ' +
+      'The balance of {{amountDue}} was due on {{dueDate}}. A copy is attached.\n\n' +
+      'If you have already paid, please disregard this message.\n\n' +
+      'Thank you,\n{{companyName}}',
+  },
+};
+
+// A rule missed by a late run still fires within this many days; after that it is skipped
+const CATCH_UP_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_STATUSES = [InvoiceStatus.SENT, InvoiceStatus.PARTIAL, InvoiceStatus.OVERDUE];
+
+type DunningInvoice = Prisma.InvoiceGetPayload<{
+  include: {
+    customer: { select: { email: true } };
+    reminders: { select: { daysFromDue: true } };
+  };
+}>;
+
+export class DunningService {
+  /**
+   * Reminders sent so far, newest first
+   */
+  async getReminders(companyId: string, query: ReminderQuery) {
+    const reminders = await prisma.invoiceReminder.findMany({
+      where: {
+        companyId,
+        ...(query.invoiceId && { invoiceId: query.invoiceId }),
+      },
+      include: {
+        invoice: { select: { id: true, invoiceNumber: true, currency: true } },
+        delivery: { select: { id: true, to: true, status: true, error: true, sentAt: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    return reminders.map((reminder) => ({
+      ...reminder,
+      lateFee: reminder.lateFee === null ? null : decimalToNumber(reminder.lateFee),
+    }));
+  }
+
+  /**
+   * Mark overdue invoices, then send each open invoice the latest dunning rule it
+   * has reached. Safe to run repeatedly; every rule fires at most once per invoice.
+   */
+  async runDue(companyId?: string, asOf: Date = new Date(formatDateISO(new Date()))) {
+    const overdue = await invoiceService.updateOverdueStatuses(companyId, asOf);
+    const summary = { overdue, reminded: 0, lateFees: 0, failed: 0 };
+
+    const companies = await prisma.company.findMany({
+      where: companyId ? { id: companyId } : {},
+      select: { id: true, settings: true },
+    });
+
+    for (const company of companies) {
+      const settings = (company.settings as Record<string, any>) || {};
+      const rules: DunningRule[] = (settings.dunningRules ?? [])
+        .map((rule: unknown) => dunningRuleSchema.parse(rule))
+        .sort((a: DunningRule, b: DunningRule) => a.daysFromDue - b.daysFromDue);
+
+      if (rules.length === 0) continue;
+
+      const policy = settings.lateFeePolicy ? lateFeePolicySchema.parse(settings.lateFeePolicy) : null;
+
+      // Reminders go out, and fees are posted, as the company's owner
+      const owner = await prisma.companyUser.findFirst({
+        where: { companyId: company.id, role: UserRole.OWNER },
+        orderBy: { invitedAt: 'asc' },
+      });
+
+      if (!owner) continue;
+
+      const invoices = await prisma.invoice.findMany({
+        where: {
+          companyId: company.id,
+          status: { in: OPEN_STATUSES },
+          amountDue: { gt: 0 },
+          dueDate: { lte: addDays(asOf, -rules[0].daysFromDue) },
+        },
+        include: {
+          customer: { select: { email: true } },
+          reminders: { select: { daysFromDue: true } },
+        },
+      });
+
+      for (const invoice of invoices) {
+        const daysOverdue = Math.round((asOf.getTime() - invoice.dueDate.getTime()) / DAY_MS);
+        const rule = [...rules].reverse().find((r) => r.daysFromDue <= daysOverdue);
+
+        if (!rule || daysOverdue - rule.daysFromDue > CATCH_UP_DAYS) continue;
+
+        // Never step back to an earlier rule once a later one has gone out
+        if (invoice.reminders.some((r) => r.daysFromDue >= rule.daysFromDue)) continue;
+
+        const context = { userId: owner.userId, userAgent: 'Dunning' };
+
+        try {
+          const reminder = await runWithAuditContext(context, () =>
+            this.remind(owner.userId, invoice, rule, policy, daysOverdue, asOf)
+          );
+
+          if (reminder) {
+            summary.reminded++;
+            if (reminder.lateFee !== null) summary.lateFees++;
+          }
+        } catch (error) {
+          console.error(`❌ Dunning reminder for invoice ${invoice.id} failed:`, error);
+          summary.failed++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Apply one rule to an invoice: charge the late fee, email the reminder and
+   * log both. Returns null when another run already claimed this rule.
+   */
+  private async remind(
+    userId: string,
+    invoice: DunningInvoice,
+    rule: DunningRule,
+    policy: LateFeePolicy | null,
+    daysOverdue: number,
+    asOf: Date
+  ) {
+    const { companyId } = invoice;
+
+    let reminder;
+    try {
+      reminder = await prisma.invoiceReminder.create({
+        data: { companyId, invoiceId: invoice.id, daysFromDue: rule.daysFromDue },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+
+    let lateFee: number | null = null;
+    const amountDue = decimalToNumber(invoice.amountDue);
+
+    if (rule.applyLateFee && policy && rule.daysFromDue > 0 && amountDue >= policy.minimumBalance) {
+      const fee = round(policy.type === 'FIXED' ? policy.amount : amountDue * policy.amount);
+
+      if (fee > 0) {
+        try {
+          await invoiceService.addLateFee(companyId, userId, invoice.id, {
+            date: asOf,
+            amount: fee,
+            accountId: policy.accountId,
+            description: `Late fee (${daysOverdue} days overdue)`,
+          });
+        } catch (error) {
+          // Release the rule so the next run tries again
+          await prisma.invoiceReminder.delete({ where: { id: reminder.id } });
+          throw error;
+        }
+        lateFee = fee;
+      }
+    }
+
+    let deliveryId: string | null = null;
+
+    if (invoice.customer.email) {
+      const defaults = DEFAULT_REMINDERS[rule.daysFromDue < 0 ? 'upcoming' : 'overdue'];
+      const delivery = await emailService.emailInvoiceReminder(
+        companyId,
+        userId,
+        invoice.id,
+        { subject: rule.subject ?? defaults.subject, body: rule.body ?? defaults.body },
+        {
+          daysOverdue: String(Math.max(0, daysOverdue)),
+          daysUntilDue: String(Math.max(0, -daysOverdue)),
+          lateFee: lateFee === null ? '' : formatMoney(lateFee, invoice.currency),
+        }
+      );
+      deliveryId = delivery.id;
+    }
+
+    return prisma.invoiceReminder.update({
+      where: { id: reminder.id },
+      data: { deliveryId, lateFee },
+    });
+  }
+}
+
+export const dunningService = new DunningService();
@@ -0,0 +1,18 @@
+import { Response } from 'express';
+import { emailService } from './email.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendCreated, sendPaginated } from '../../utils/response';
+
+export class EmailController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await emailService.getDeliveries(req.companyId!, req.query as any);
+    return sendPaginated(res, result.deliveries, result.pagination);
+  }
+
+  async resend(req: AuthenticatedRequest, res: Response) {
+    const delivery = await emailService.resend(req.companyId!, req.user!.id, req.params.id);
+    return sendCreated(res, delivery, 'Email queued');
+  }
+}
+
+export const emailController = new EmailController();
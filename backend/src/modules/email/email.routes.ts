@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { emailController } from './email.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { emailDeliveryQuerySchema } from './email.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: emailDeliveryQuerySchema }),
+  asyncHandler(emailController.list.bind(emailController))
+);
+
+router.post(
+  '/:id/resend',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(emailController.resend.bind(emailController))
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { EmailDocumentType, EmailDeliveryStatus } from '@prisma/client';
+
+export const emailDocumentSchema = z.object({
+  to: z.string().email().optional(), // Defaults to the customer's email
+  cc: z.array(z.string().email()).max(10).default([]),
+  subject: z.string().min(1).max(200).optional(), // Overrides the company's email template
+  body: z.string().min(1).max(10000).optional(),
+});
+
+export const emailDeliveryQuerySchema = z.object({
+  documentType: z.nativeEnum(EmailDocumentType).optional(),
+  documentId: z.string().uuid().optional(),
+  status: z.nativeEnum(EmailDeliveryStatus).optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type EmailDocumentInput = z.infer<typeof emailDocumentSchema>;
+export type EmailDeliveryQuery = z.infer<typeof emailDeliveryQuerySchema>;
@@ -0,0 +1,443 @@
+import { prisma } from '../../config/database';
+import { env } from '../../config/env';
+import { getMailer } from '../../config/mailer';
+import { EmailDeliveryStatus, EmailDocumentType, InvoiceStatus, Prisma } from '@prisma/client';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { decimalToNumber } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { EmailDocumentInput, EmailDeliveryQuery } from './email.schema';
+import { statementQuerySchema, EmailStatementsInput } from '../statements/statement.schema';
+import { statementService } from '../statements/statement.service';
+import { EmailTemplate } from '../company/company.schema';
+import { invoiceService } from '../invoices/invoice.service';
+import { formatMoney, formatPdfDate } from '../invoices/invoice.pdf';
+
+export interface EmailMessage {
+  to: string;
+  cc: string[];
+  subject: string;
+  body: string;
+}
+
+// Used when the company has not set its own template in settings.emailTemplates
+const DEFAULT_TEMPLATES: Record<EmailDocumentType, EmailTemplate> = {
+  INVOICE: {
+    subject: 'Invoice {{invoiceNumber}} from {{companyName}}',
+    body:
+      'Hi {{customerName}},\n\n' +
+      'Please find attached invoice {{invoiceNumber}} for {{total}}, due {{dueDate}}. ' +
+      'The balance due is {{amountDue}}.\n\n' +
+      'Thank you for your business,\n{{companyName}}',
+  },
+  STATEMENT: {
+    subject: 'Statement from {{companyName}}',
+    body:
+      'Hi {{customerName}},\n\n' +
+      'Please find attached your statement as of {{endDate}}. ' +
+      'The balance due is {{balance}}.\n\n' +
+      'Thank you for your business,\n{{companyName}}',
+  },
+};
+
+// Deliveries still SENDING after this long were cut off (e.g. by a restart) and are retried
+const STALE_SENDING_MINUTES = 15;
+
+/**
+ * Replace {{name}} placeholders; unknown names are left as written
+ */
+export function renderTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+type InvoiceForEmail = Prisma.InvoiceGetPayload<{
+  include: {
+    company: { select: { name: true; settings: true } };
+    customer: { select: { name: true; email: true } };
+  };
+}>;
+
+export class EmailService {
+  /**
+   * Get email deliveries, newest first
+   */
+  async getDeliveries(companyId: string, query: EmailDeliveryQuery) {
+    const where: Prisma.EmailDeliveryWhereInput = { companyId };
+
+    if (query.documentType) where.documentType = query.documentType;
+    if (query.documentId) where.documentId = query.documentId;
+    if (query.status) where.status = query.status;
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [deliveries, total] = await Promise.all([
+      prisma.emailDelivery.findMany({
+        where,
+        include: {
+          createdBy: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.emailDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries,
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Build an invoice email from the company template without queueing it, so
+   * callers can reject a bad recipient before changing the invoice
+   */
+  async prepareInvoiceEmail(companyId: string, invoiceId: string, input: EmailDocumentInput) {
+    const invoice = await this.findInvoice(companyId, invoiceId);
+    return this.buildInvoiceEmail(invoice, input);
+  }
+
+  /**
+   * Email a sent invoice to the customer with its PDF attached
+   */
+  async emailInvoice(
+    companyId: string,
+    userId: string,
+    invoiceId: string,
+    input: EmailDocumentInput
+  ) {
+    const invoice = await this.findInvoice(companyId, invoiceId);
+
+    if (invoice.status === InvoiceStatus.DRAFT) {
+      throw new BadRequestError('Send the invoice before emailing it');
+    }
+
+    return this.queue(
+      companyId,
+      userId,
+      EmailDocumentType.INVOICE,
+      invoiceId,
+      this.buildInvoiceEmail(invoice, input)
+    );
+  }
+
+  /**
+   * Email a payment reminder for an invoice; the template can use the invoice
+   * placeholders plus any extra values the caller supplies
+   */
+  async emailInvoiceReminder(
+    companyId: string,
+    userId: string,
+    invoiceId: string,
+    template: EmailTemplate,
+    values: Record<string, string>
+  ) {
+    const invoice = await this.findInvoice(companyId, invoiceId);
+
+    return this.queue(
+      companyId,
+      userId,
+      EmailDocumentType.INVOICE,
+      invoiceId,
+      this.buildInvoiceEmail(invoice, { cc: [] }, template, values)
+    );
+  }
+
+  /**
+   * Email statements to a batch of customers; customers without an email
+   * address are skipped and listed in the result
+   */
+  async emailStatements(companyId: string, userId: string, input: EmailStatementsInput) {
+    const { customerIds, subject, body, ...query } = input;
+    const { type, startDate, endDate } = statementService.resolvePeriod(query);
+    const statements = await statementService.getStatements(companyId, query, customerIds);
+
+    const company = await prisma.company.findUniqueOrThrow({
+      where: { id: companyId },
+      select: { name: true, settings: true },
+    });
+    const settings = (company.settings as Record<string, any>) || {};
+    const template: EmailTemplate = settings.emailTemplates?.statement ?? DEFAULT_TEMPLATES.STATEMENT;
+
+    // Stored on each delivery so the attachment renders the same statement
+    const documentOptions = {
+      type,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+    };
+
+    const result = { queued: 0, skipped: [] as { customerId: string; name: string }[] };
+
+    for (const statement of statements) {
+      const { customer } = statement;
+
+      if (!customer.email) {
+        result.skipped.push({ customerId: customer.id, name: customer.name });
+        continue;
+      }
+
+      const values = {
+        companyName: company.name,
+        customerName: customer.name,
+        startDate: formatPdfDate(startDate),
+        endDate: formatPdfDate(endDate),
+        balance: formatMoney(statement.balance, statement.currency),
+      };
+
+      await this.queue(
+        companyId,
+        userId,
+        EmailDocumentType.STATEMENT,
+        customer.id,
+        {
+          to: customer.email,
+          cc: [],
+          subject: renderTemplate(subject ?? template.subject, values),
+          body: renderTemplate(body ?? template.body, values),
+        },
+        documentOptions
+      );
+      result.queued++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a delivery and send it in the background; the caller gets the
+   * QUEUED delivery back without waiting on the SMTP server
+   */
+  async queue(
+    companyId: string,
+    userId: string,
+    documentType: EmailDocumentType,
+    documentId: string,
+    message: EmailMessage,
+    documentOptions: Prisma.InputJsonValue = {}
+  ) {
+    const delivery = await prisma.emailDelivery.create({
+      data: {
+        companyId,
+        documentType,
+        documentId,
+        documentOptions,
+        to: message.to,
+        cc: message.cc,
+        subject: message.subject,
+        body: message.body,
+        createdById: userId,
+      },
+    });
+
+    setImmediate(() => {
+      this.deliver(delivery.id).catch((error) =>
+        console.error(`❌ Email delivery ${delivery.id} failed:`, error)
+      );
+    });
+
+    return delivery;
+  }
+
+  /**
+   * Send a finished delivery again as a new delivery with the same message
+   */
+  async resend(companyId: string, userId: string, deliveryId: string) {
+    const delivery = await prisma.emailDelivery.findFirst({
+      where: { id: deliveryId, companyId },
+    });
+
+    if (!delivery) {
+      throw new NotFoundError('Email delivery not found');
+    }
+
+    if (delivery.status === EmailDeliveryStatus.QUEUED || delivery.status === EmailDeliveryStatus.SENDING) {
+      throw new BadRequestError('Email is still being delivered');
+    }
+
+    return this.queue(
+      companyId,
+      userId,
+      delivery.documentType,
+      delivery.documentId,
+      {
+        to: delivery.to,
+        cc: delivery.cc,
+        subject: delivery.subject,
+        body: delivery.body,
+      },
+      delivery.documentOptions as Prisma.InputJsonValue
+    );
+  }
+
+  /**
+   * Deliver emails left queued, or stuck sending, when the server stopped.
+   * Called by the background scheduler.
+   */
+  async processQueued() {
+    const staleBefore = new Date(Date.now() - STALE_SENDING_MINUTES * 60 * 1000);
+
+    await prisma.emailDelivery.updateMany({
+      where: { status: EmailDeliveryStatus.SENDING, updatedAt: { lt: staleBefore } },
+      data: { status: EmailDeliveryStatus.QUEUED },
+    });
+
+    const queued = await prisma.emailDelivery.findMany({
+      where: { status: EmailDeliveryStatus.QUEUED },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    for (const { id } of queued) {
+      await this.deliver(id);
+    }
+
+    return { processed: queued.length };
+  }
+
+  /**
+   * Send one queued delivery and record the outcome
+   */
+  private async deliver(deliveryId: string) {
+    // Claim the delivery so a request and the scheduler never send it twice
+    const claimed = await prisma.emailDelivery.updateMany({
+      where: { id: deliveryId, status: EmailDeliveryStatus.QUEUED },
+      data: { status: EmailDeliveryStatus.SENDING, attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) return;
+
+    const delivery = await prisma.emailDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { company: { select: { name: true, email: true } } },
+    });
+
+    try {
+      const mailer = getMailer();
+      if (!mailer) {
+        throw new Error('Email is not configured (SMTP_HOST is not set)');
+      }
+
+      const from = env.SMTP_FROM ?? delivery.company.email;
+      if (!from) {
+        throw new Error('No sender address; set SMTP_FROM or the company email');
+      }
+
+      const info = await mailer.sendMail({
+        from: { name: delivery.company.name, address: from },
+        replyTo: delivery.company.email ?? undefined,
+        to: delivery.to,
+        cc: delivery.cc,
+        subject: delivery.subject,
+        text: delivery.body,
+        attachments: [await this.renderAttachment(delivery)],
+      });
+
+      await prisma.emailDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: EmailDeliveryStatus.SENT,
+          messageId: info.messageId,
+          sentAt: new Date(),
+          error: null,
+        },
+      });
+    } catch (error) {
+      await prisma.emailDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: EmailDeliveryStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Render the document PDF at send time so it reflects payments made since queueing
+   */
+  private async renderAttachment(delivery: {
+    companyId: string;
+    documentType: EmailDocumentType;
+    documentId: string;
+    documentOptions: Prisma.JsonValue;
+  }) {
+    switch (delivery.documentType) {
+      case EmailDocumentType.INVOICE: {
+        const { filename, pdf } = await invoiceService.getInvoicePdf(
+          delivery.companyId,
+          delivery.documentId,
+          {}
+        );
+        return { filename, content: pdf, contentType: 'application/pdf' };
+      }
+      case EmailDocumentType.STATEMENT: {
+        const { filename, pdf } = await statementService.getStatementPdf(
+          delivery.companyId,
+          delivery.documentId,
+          statementQuerySchema.parse(delivery.documentOptions)
+        );
+        return { filename, content: pdf, contentType: 'application/pdf' };
+      }
+    }
+  }
+
+  private async findInvoice(companyId: string, invoiceId: string): Promise<InvoiceForEmail> {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, companyId },
+      include: {
+        company: { select: { name: true, settings: true } },
+        customer: { select: { name: true, email: true } },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    if (invoice.status === InvoiceStatus.VOID) {
+      throw new BadRequestError('Cannot email a voided invoice');
+    }
+
+    return invoice;
+  }
+
+  private buildInvoiceEmail(
+    invoice: InvoiceForEmail,
+    input: EmailDocumentInput,
+    template?: EmailTemplate,
+    extraValues: Record<string, string> = {}
+  ): EmailMessage {
+    const to = input.to ?? invoice.customer.email;
+    if (!to) {
+      throw new BadRequestError('Customer has no email address; enter a recipient');
+    }
+
+    if (!template) {
+      const settings = (invoice.company.settings as Record<string, any>) || {};
+      template = (settings.emailTemplates?.invoice ?? DEFAULT_TEMPLATES.INVOICE) as EmailTemplate;
+    }
+
+    const values = {
+      ...extraValues,
+      companyName: invoice.company.name,
+      customerName: invoice.customer.name,
+      invoiceNumber: invoice.invoiceNumber,
+      date: formatPdfDate(invoice.date),
+      dueDate: formatPdfDate(invoice.dueDate),
+      total: formatMoney(decimalToNumber(invoice.total), invoice.currency),
+      amountDue: formatMoney(decimalToNumber(invoice.amountDue), invoice.currency),
+    };
+
+    return {
+      to,
+      cc: input.cc,
+      subject: renderTemplate(input.subject ?? template.subject, values),
+      body: renderTemplate(input.body ?? template.body, values),
+    };
+  }
+}
+
+export const emailService = new EmailService();
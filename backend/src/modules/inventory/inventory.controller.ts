@@ -0,0 +1,27 @@
+import { Response } from 'express';
+import { inventoryService } from './inventory.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
+
+export class InventoryController {
+  async listTransactions(req: AuthenticatedRequest, res: Response) {
+    const result = await inventoryService.getTransactions(req.companyId!, req.query as any);
+    return sendPaginated(res, result.transactions, result.pagination);
+  }
+
+  async createAdjustment(req: AuthenticatedRequest, res: Response) {
+    const adjustment = await inventoryService.createAdjustment(
+      req.companyId!,
+      req.user!.id,
+      req.body
+    );
+    return sendCreated(res, adjustment, 'Inventory adjusted successfully');
+  }
+
+  async deleteAdjustment(req: AuthenticatedRequest, res: Response) {
+    await inventoryService.deleteAdjustment(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+}
+
+export const inventoryController = new InventoryController();
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { inventoryController } from './inventory.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { createAdjustmentSchema, inventoryTransactionQuerySchema } from './inventory.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/transactions',
+  validate({ query: inventoryTransactionQuerySchema }),
+  asyncHandler(inventoryController.listTransactions.bind(inventoryController))
+);
+
+router.post(
+  '/adjustments',
+  requireWriteAccess,
+  validate({ body: createAdjustmentSchema }),
+  asyncHandler(inventoryController.createAdjustment.bind(inventoryController))
+);
+
+router.delete(
+  '/adjustments/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(inventoryController.deleteAdjustment.bind(inventoryController))
+);
+
+export default router;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { InventoryTransactionType } from '@prisma/client';
+
+export const createAdjustmentSchema = z.object({
+  productId: z.string().uuid(),
+  date: z.string().datetime(),
+  quantity: z.number().refine((v) => v !== 0, 'Quantity change cannot be zero'), // Signed change in stock
+  unitCost: z.number().min(0).optional(), // Cost of added stock, defaults to average cost
+  accountId: z.string().uuid(), // Offset account, e.g. inventory shrinkage
+  memo: z.string().max(500).optional(),
+});
+
+export const inventoryTransactionQuerySchema = z.object({
+  productId: z.string().uuid().optional(),
+  type: z.nativeEnum(InventoryTransactionType).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type CreateAdjustmentInput = z.infer<typeof createAdjustmentSchema>;
+export type InventoryTransactionQuery = z.infer<typeof inventoryTransactionQuerySchema>;
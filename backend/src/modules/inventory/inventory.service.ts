@@ -0,0 +1,477 @@
+import crypto from 'crypto';
+import { prisma } from '../../config/database';
+import {
+  InventoryTransactionType,
+  JournalSource,
+  Prisma,
+  Product,
+  ProductType,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { CreateAdjustmentInput, InventoryTransactionQuery } from './inventory.schema';
+import { decimalToNumber, round } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { journalService } from '../journal/journal.service';
+import { periodService } from '../periods/period.service';
+
+interface StockMovement {
+  id?: string;
+  productId: string;
+  type: InventoryTransactionType;
+  date: Date;
+  quantity: number; // Signed: positive receives stock, negative relieves it
+  unitCost: number;
+  totalCost: number; // Signed value change of the stock
+  source: JournalSource;
+  sourceId: string;
+  journalEntryId?: string;
+  memo?: string;
+}
+
+interface MovementSource {
+  date: Date;
+  source: JournalSource;
+  sourceId: string;
+  journalEntryId?: string;
+}
+
+export interface CostedSaleLine {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+  totalCost: number;
+  assetAccountId: string;
+  cogsAccountId: string;
+  memo: string;
+}
+
+interface DocumentLine {
+  productId?: string | null;
+  quantity: Decimal;
+  description: string;
+}
+
+export class InventoryService {
+  /**
+   * Get stock movements with pagination
+   */
+  async getTransactions(companyId: string, query: InventoryTransactionQuery) {
+    const where: Prisma.InventoryTransactionWhereInput = { companyId };
+
+    if (query.productId) where.productId = query.productId;
+    if (query.type) where.type = query.type;
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [transactions, total] = await Promise.all([
+      prisma.inventoryTransaction.findMany({
+        where,
+        include: {
+          product: { select: { id: true, sku: true, name: true } },
+          journalEntry: { select: { id: true, entryNumber: true } },
+        },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take,
+      }),
+      prisma.inventoryTransaction.count({ where }),
+    ]);
+
+    return {
+      transactions: transactions.map((t) => ({
+        ...t,
+        quantity: decimalToNumber(t.quantity),
+        unitCost: decimalToNumber(t.unitCost),
+        totalCost: decimalToNumber(t.totalCost),
+      })),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Adjust quantity on hand (counts, shrinkage, damage), offsetting the value change
+   */
+  async createAdjustment(companyId: string, userId: string, input: CreateAdjustmentInput) {
+    const [product, account] = await Promise.all([
+      prisma.product.findFirst({ where: { id: input.productId, companyId } }),
+      prisma.account.findFirst({ where: { id: input.accountId, companyId } }),
+    ]);
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    if (!account) {
+      throw new NotFoundError('Account not found');
+    }
+
+    if (product.type !== ProductType.INVENTORY) {
+      throw new BadRequestError('Only inventory products can be adjusted');
+    }
+
+    if (!product.assetAccountId) {
+      throw new BadRequestError(`Product "${product.name}" has no inventory asset account`);
+    }
+
+    const unitCost =
+      input.quantity > 0 && input.unitCost !== undefined
+        ? input.unitCost
+        : decimalToNumber(product.averageCost);
+    const totalCost = round(input.quantity * unitCost);
+    const date = new Date(input.date);
+    const memo = input.memo || `Inventory adjustment - ${product.name}`;
+
+    await periodService.assertOpen(companyId, date);
+
+    // The ledger row is the journal source, so its ID is assigned up front
+    const transactionId = crypto.randomUUID();
+    let journalEntryId: string | undefined;
+
+    // A zero-cost adjustment only changes quantity
+    if (totalCost !== 0) {
+      const value = Math.abs(totalCost);
+      const journalEntry = await journalService.createFromTransaction(companyId, userId, {
+        date,
+        memo,
+        source: JournalSource.ADJUSTMENT,
+        sourceId: transactionId,
+        lines: [
+          {
+            accountId: product.assetAccountId,
+            debit: totalCost > 0 ? value : 0,
+            credit: totalCost < 0 ? value : 0,
+            memo,
+          },
+          {
+            accountId: account.id,
+            debit: totalCost < 0 ? value : 0,
+            credit: totalCost > 0 ? value : 0,
+            memo,
+          },
+        ],
+      });
+
+      journalEntryId = journalEntry.id;
+    }
+
+    await this.recordMovement(companyId, {
+      id: transactionId,
+      productId: product.id,
+      type: InventoryTransactionType.ADJUSTMENT,
+      date,
+      quantity: input.quantity,
+      unitCost,
+      totalCost,
+      source: JournalSource.ADJUSTMENT,
+      sourceId: transactionId,
+      journalEntryId,
+      memo,
+    });
+
+    return this.getTransaction(companyId, transactionId);
+  }
+
+  /**
+   * Delete an adjustment, restoring stock and voiding its journal entry
+   */
+  async deleteAdjustment(companyId: string, transactionId: string) {
+    const transaction = await prisma.inventoryTransaction.findFirst({
+      where: { id: transactionId, companyId },
+    });
+
+    if (!transaction) {
+      throw new NotFoundError('Inventory transaction not found');
+    }
+
+    if (transaction.type !== InventoryTransactionType.ADJUSTMENT) {
+      throw new BadRequestError('Only adjustments can be deleted; void the source document instead');
+    }
+
+    await periodService.assertOpen(companyId, transaction.date);
+
+    if (transaction.journalEntryId) {
+      // Void journal entry
+      await prisma.journalEntry.update({
+        where: { id: transaction.journalEntryId },
+        data: { isPosted: false },
+      });
+    }
+
+    await this.reverseSource(companyId, JournalSource.ADJUSTMENT, transaction.id);
+  }
+
+  /**
+   * Cost the inventory lines of a sale at each product's weighted-average cost
+   */
+  async costSaleLines(companyId: string, lines: DocumentLine[]): Promise<CostedSaleLine[]> {
+    const products = await this.getInventoryProducts(companyId, lines);
+    const costed: CostedSaleLine[] = [];
+
+    for (const line of lines) {
+      const product = line.productId ? products.get(line.productId) : undefined;
+      if (!product) continue;
+
+      if (!product.assetAccountId || !product.expenseAccountId) {
+        throw new BadRequestError(
+          `Product "${product.name}" needs an inventory asset account and a cost of goods sold account`
+        );
+      }
+
+      const quantity = decimalToNumber(line.quantity);
+      const unitCost = decimalToNumber(product.averageCost);
+
+      costed.push({
+        productId: product.id,
+        quantity,
+        unitCost,
+        totalCost: round(quantity * unitCost),
+        assetAccountId: product.assetAccountId,
+        cogsAccountId: product.expenseAccountId,
+        memo: line.description,
+      });
+    }
+
+    return costed;
+  }
+
+  /**
+   * Relieve stock for costed sale lines
+   */
+  async recordSale(companyId: string, ref: MovementSource, lines: CostedSaleLine[]) {
+    for (const line of lines) {
+      await this.recordMovement(companyId, {
+        ...ref,
+        productId: line.productId,
+        type: InventoryTransactionType.SALE,
+        quantity: -line.quantity,
+        unitCost: line.unitCost,
+        totalCost: -line.totalCost,
+        memo: line.memo,
+      });
+    }
+  }
+
+  /**
+   * Cost returned inventory lines at the cost they were sold at on the credited invoice,
+   * falling back to each product's current average cost
+   */
+  async costReturnLines(
+    companyId: string,
+    lines: DocumentLine[],
+    invoiceId?: string | null
+  ): Promise<CostedSaleLine[]> {
+    const costed = await this.costSaleLines(companyId, lines);
+    if (!invoiceId || costed.length === 0) return costed;
+
+    const sales = await prisma.inventoryTransaction.findMany({
+      where: { companyId, source: JournalSource.INVOICE, sourceId: invoiceId },
+    });
+    const soldAt = new Map(sales.map((sale) => [sale.productId, decimalToNumber(sale.unitCost)]));
+
+    return costed.map((line) => {
+      const unitCost = soldAt.get(line.productId) ?? line.unitCost;
+      return { ...line, unitCost, totalCost: round(line.quantity * unitCost) };
+    });
+  }
+
+  /**
+   * Put returned stock back on hand for costed lines
+   */
+  async recordReturn(companyId: string, ref: MovementSource, lines: CostedSaleLine[]) {
+    for (const line of lines) {
+      await this.recordMovement(companyId, {
+        ...ref,
+        productId: line.productId,
+        type: InventoryTransactionType.RETURN,
+        quantity: line.quantity,
+        unitCost: line.unitCost,
+        totalCost: line.totalCost,
+        memo: line.memo,
+      });
+    }
+  }
+
+  /**
+   * Receive stock for the inventory lines of a purchase; tax on the line is capitalized
+   */
+  async recordPurchase(
+    companyId: string,
+    ref: MovementSource,
+    lines: (DocumentLine & { amount: Decimal; taxAmount: Decimal })[]
+  ) {
+    const products = await this.getInventoryProducts(companyId, lines);
+
+    for (const line of lines) {
+      if (!line.productId || !products.has(line.productId)) continue;
+
+      const quantity = decimalToNumber(line.quantity);
+      const totalCost = round(
+        decimalToNumber(line.amount) + decimalToNumber(line.taxAmount)
+      );
+
+      await this.recordMovement(companyId, {
+        ...ref,
+        productId: line.productId,
+        type: InventoryTransactionType.PURCHASE,
+        quantity,
+        unitCost: quantity > 0 ? round(totalCost / quantity, 4) : 0,
+        totalCost,
+        memo: line.description,
+      });
+    }
+  }
+
+  /**
+   * Undo every stock movement recorded for a source document
+   */
+  async reverseSource(companyId: string, source: JournalSource, sourceId: string) {
+    const transactions = await prisma.inventoryTransaction.findMany({
+      where: { companyId, source, sourceId },
+    });
+
+    for (const txn of transactions) {
+      await this.applyToProduct(
+        txn.productId,
+        -decimalToNumber(txn.quantity),
+        -decimalToNumber(txn.totalCost),
+        decimalToNumber(txn.unitCost)
+      );
+    }
+
+    await prisma.inventoryTransaction.deleteMany({
+      where: { companyId, source, sourceId },
+    });
+  }
+
+  /**
+   * Inventory asset account for each inventory product on the given lines
+   */
+  async getAssetAccounts(companyId: string, lines: { productId?: string | null }[]) {
+    const products = await this.getInventoryProducts(companyId, lines);
+    const accounts = new Map<string, string>();
+
+    for (const product of products.values()) {
+      if (!product.assetAccountId) {
+        throw new BadRequestError(`Product "${product.name}" has no inventory asset account`);
+      }
+      accounts.set(product.id, product.assetAccountId);
+    }
+
+    return accounts;
+  }
+
+  private async getTransaction(companyId: string, transactionId: string) {
+    const transaction = await prisma.inventoryTransaction.findFirst({
+      where: { id: transactionId, companyId },
+      include: {
+        product: {
+          select: { id: true, sku: true, name: true, quantityOnHand: true, averageCost: true },
+        },
+        journalEntry: { select: { id: true, entryNumber: true } },
+      },
+    });
+
+    if (!transaction) {
+      throw new NotFoundError('Inventory transaction not found');
+    }
+
+    return {
+      ...transaction,
+      quantity: decimalToNumber(transaction.quantity),
+      unitCost: decimalToNumber(transaction.unitCost),
+      totalCost: decimalToNumber(transaction.totalCost),
+      product: {
+        ...transaction.product,
+        quantityOnHand: decimalToNumber(transaction.product.quantityOnHand),
+        averageCost: decimalToNumber(transaction.product.averageCost),
+      },
+    };
+  }
+
+  private async getInventoryProducts(companyId: string, lines: { productId?: string | null }[]) {
+    const productIds = [
+      ...new Set(lines.map((l) => l.productId).filter((id): id is string => !!id)),
+    ];
+
+    if (productIds.length === 0) {
+      return new Map<string, Product>();
+    }
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds }, companyId, type: ProductType.INVENTORY },
+    });
+
+    return new Map(products.map((p) => [p.id, p]));
+  }
+
+  /**
+   * Write a ledger row and roll it into the product's quantity and average cost
+   */
+  private async recordMovement(companyId: string, movement: StockMovement) {
+    await this.applyToProduct(
+      movement.productId,
+      movement.quantity,
+      movement.totalCost,
+      movement.unitCost
+    );
+
+    return prisma.inventoryTransaction.create({
+      data: {
+        id: movement.id,
+        companyId,
+        productId: movement.productId,
+        type: movement.type,
+        date: movement.date,
+        quantity: movement.quantity,
+        unitCost: movement.unitCost,
+        totalCost: movement.totalCost,
+        source: movement.source,
+        sourceId: movement.sourceId,
+        journalEntryId: movement.journalEntryId,
+        memo: movement.memo,
+      },
+    });
+  }
+
+  private async applyToProduct(
+    productId: string,
+    quantity: number,
+    totalCost: number,
+    unitCost: number
+  ) {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    const onHand = decimalToNumber(product.quantityOnHand);
+    const averageCost = decimalToNumber(product.averageCost);
+    const newQuantity = round(onHand + quantity, 4);
+    const newValue = onHand * averageCost + totalCost;
+
+    // Relieving stock at average cost leaves the average unchanged; when stock
+    // runs out (or negative) keep the last known cost for the next sale
+    let newAverage = averageCost;
+    if (newQuantity > 0) {
+      newAverage = round(Math.max(0, newValue) / newQuantity, 4);
+    } else if (quantity > 0) {
+      newAverage = unitCost;
+    }
+
+    await prisma.product.update({
+      where: { id: productId },
+      data: { quantityOnHand: newQuantity, averageCost: newAverage },
+    });
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -1,5 +1,7 @@
 import { Response } from 'express';
+import { EmailDocumentType } from '@prisma/client';
 import { invoiceService } from './invoice.service';
+import { emailService } from '../email/email.service';
 import { AuthenticatedRequest } from '../../middleware/auth';
 import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
 
@@ -14,6 +16,17 @@ export class InvoiceController {
     return sendSuccess(res, invoice);
   }
 
+  async pdf(req: AuthenticatedRequest, res: Response) {
+    const { filename, pdf } = await invoiceService.getInvoicePdf(
+      req.companyId!,
+      req.params.id,
+      req.query as any
+    );
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    return res.send(pdf);
+  }
+
   async create(req: AuthenticatedRequest, res: Response) {
     const invoice = await invoiceService.createInvoice(
       req.companyId!,
@@ -34,12 +47,44 @@ export class InvoiceController {
   }
 
   async send(req: AuthenticatedRequest, res: Response) {
+    const { email, ...input } = req.body;
+
+    // Build the email first so a missing recipient doesn't leave a sent invoice unemailed
+    const message = email
+      ? await emailService.prepareInvoiceEmail(req.companyId!, req.params.id, input)
+      : null;
+
     const invoice = await invoiceService.sendInvoice(
       req.companyId!,
       req.user!.id,
       req.params.id
     );
-    return sendSuccess(res, invoice, 'Invoice sent successfully');
+
+    const delivery = message
+      ? await emailService.queue(
+          req.companyId!,
+          req.user!.id,
+          EmailDocumentType.INVOICE,
+          req.params.id,
+          message
+        )
+      : null;
+
+    return sendSuccess(
+      res,
+      { ...invoice, delivery },
+      delivery ? 'Invoice sent and email queued' : 'Invoice sent successfully'
+    );
+  }
+
+  async email(req: AuthenticatedRequest, res: Response) {
+    const delivery = await emailService.emailInvoice(
+      req.companyId!,
+      req.user!.id,
+      req.params.id,
+      req.body
+    );
+    return sendCreated(res, delivery, 'Invoice email queued');
   }
 
   async void(req: AuthenticatedRequest, res: Response) {
@@ -0,0 +1,475 @@
+import PDFDocument from 'pdfkit';
+import { InvoiceTemplate } from '../company/company.schema';
+
+export interface PdfAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface InvoicePdfData {
+  company: {
+    name: string;
+    legalName: string | null;
+    taxId: string | null;
+    address: PdfAddress | null;
+    phone: string | null;
+    email: string | null;
+    website: string | null;
+    logo: string | null;
+  };
+  customer: {
+    name: string;
+    email: string | null;
+    billingAddress: PdfAddress | null;
+    shippingAddress: PdfAddress | null;
+  };
+  invoice: {
+    invoiceNumber: string;
+    status: string;
+    date: Date;
+    dueDate: Date;
+    terms: number;
+    currency: string;
+    memo: string | null;
+    notes: string | null;
+    subtotal: number;
+    discountTotal: number;
+    taxTotal: number;
+    total: number;
+    amountPaid: number;
+    amountDue: number;
+  };
+  lines: {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    discountAmount: number;
+    amount: number;
+    taxAmount: number;
+    taxName: string | null;
+    taxRate: number;
+  }[];
+  payments: { paymentNumber: string; date: Date; amount: number }[];
+}
+
+// Used when the company has not saved any templates
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplate = {
+  name: 'Standard',
+  logoPosition: 'left',
+  primaryColor: '#1f2937',
+  accentColor: '#2563eb',
+  customFields: [],
+  showCompanyTaxId: true,
+  showShippingAddress: true,
+  showTaxBreakdown: true,
+  showPayments: true,
+};
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const MUTED = '#6b7280';
+
+const COLUMNS = [
+  { label: 'Description', width: 222, align: 'left' as const },
+  { label: 'Qty', width: 50, align: 'right' as const },
+  { label: 'Unit Price', width: 80, align: 'right' as const },
+  { label: 'Tax', width: 70, align: 'right' as const },
+  { label: 'Amount', width: 90, align: 'right' as const },
+];
+
+/**
+ * Render an invoice to a PDF using a company template
+ */
+export function renderInvoicePdf(data: InvoicePdfData, template: InvoiceTemplate): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'LETTER', margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const money = (amount: number) => formatMoney(amount, data.invoice.currency);
+
+  drawHeader(doc, data, template);
+  drawDetails(doc, data, template);
+  drawAddresses(doc, data, template);
+  drawLines(doc, data, template, money);
+  drawTotals(doc, data, template, money);
+  drawNotes(doc, data);
+  drawFooters(doc, template);
+
+  doc.end();
+  return done;
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, data: InvoicePdfData, template: InvoiceTemplate) {
+  const { company } = data;
+  const contentWidth = pageContentWidth(doc);
+  const top = doc.y;
+  const logo = template.logoPosition === 'none' ? null : decodeLogo(company.logo);
+  const centered = !!logo && template.logoPosition === 'center';
+
+  // The company block sits opposite the logo, or under it when the logo is centered
+  let blockX = MARGIN;
+  let blockY = top;
+  let blockWidth = 250;
+  let align: 'left' | 'center' | 'right' = 'left';
+
+  if (logo) {
+    const logoX = {
+      left: MARGIN,
+      center: MARGIN + (contentWidth - 150) / 2,
+      right: MARGIN + contentWidth - 150,
+    }[template.logoPosition as 'left' | 'center' | 'right'];
+    doc.image(logo, logoX, top, { fit: [150, 60] });
+
+    if (centered) {
+      blockY = top + 70;
+      blockWidth = contentWidth;
+      align = 'center';
+    } else if (template.logoPosition === 'left') {
+      blockX = MARGIN + contentWidth - blockWidth;
+      align = 'right';
+    }
+  }
+
+  const companyLines = [
+    company.legalName && company.legalName !== company.name ? company.legalName : null,
+    ...formatAddress(company.address),
+    company.phone,
+    company.email,
+    company.website,
+    template.showCompanyTaxId && company.taxId ? `Tax ID: ${company.taxId}` : null,
+  ].filter((line): line is string => !!line);
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(14)
+    .fillColor(template.primaryColor)
+    .text(company.name, blockX, blockY, { width: blockWidth, align });
+  doc.font('Helvetica').fontSize(9).fillColor(MUTED);
+  for (const line of companyLines) {
+    doc.text(line, { width: blockWidth, align });
+  }
+
+  const headerBottom = Math.max(doc.y, logo ? top + 60 : top);
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(24)
+    .fillColor(template.primaryColor)
+    .text('INVOICE', MARGIN, headerBottom + 15, {
+      width: contentWidth,
+      align: centered ? 'center' : 'left',
+    });
+
+  doc.moveDown(0.5);
+}
+
+function drawDetails(doc: PDFKit.PDFDocument, data: InvoicePdfData, template: InvoiceTemplate) {
+  const { invoice } = data;
+  const rows: [string, string][] = [
+    ['Invoice Number', invoice.invoiceNumber],
+    ['Invoice Date', formatPdfDate(invoice.date)],
+    ['Due Date', formatPdfDate(invoice.dueDate)],
+    ['Terms', invoice.terms === 0 ? 'Due on receipt' : `Net ${invoice.terms}`],
+    ['Currency', invoice.currency],
+    ...template.customFields.map((field): [string, string] => [field.label, field.value]),
+  ];
+
+  if (invoice.status === 'VOID') {
+    rows.unshift(['Status', 'VOID']);
+  }
+
+  const x = MARGIN;
+  doc.fontSize(9);
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fillColor(template.primaryColor).text(label, x, y, { width: 100 });
+    doc.font('Helvetica').fillColor('black').text(value, x + 105, y, { width: 250 });
+    doc.moveDown(0.2);
+  }
+
+  doc.moveDown(1);
+}
+
+function drawAddresses(doc: PDFKit.PDFDocument, data: InvoicePdfData, template: InvoiceTemplate) {
+  const { customer } = data;
+  const top = doc.y;
+
+  const blocks: { title: string; lines: string[] }[] = [
+    {
+      title: 'Bill To',
+      lines: [customer.name, ...formatAddress(customer.billingAddress), customer.email].filter(
+        (line): line is string => !!line
+      ),
+    },
+  ];
+
+  if (template.showShippingAddress && customer.shippingAddress) {
+    const shipping = formatAddress(customer.shippingAddress);
+    if (shipping.length > 0) {
+      blocks.push({ title: 'Ship To', lines: [customer.name, ...shipping] });
+    }
+  }
+
+  let bottom = top;
+  blocks.forEach((block, index) => {
+    const x = MARGIN + index * 260;
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .fillColor(template.primaryColor)
+      .text(block.title, x, top, { width: 240 });
+    doc.font('Helvetica').fontSize(9).fillColor('black');
+    for (const line of block.lines) {
+      doc.text(line, { width: 240 });
+    }
+    bottom = Math.max(bottom, doc.y);
+  });
+
+  doc.x = MARGIN;
+  doc.y = bottom + 20;
+}
+
+function drawLines(
+  doc: PDFKit.PDFDocument,
+  data: InvoicePdfData,
+  template: InvoiceTemplate,
+  money: (amount: number) => string
+) {
+  const drawHeaderRow = () => {
+    const y = doc.y;
+    doc.rect(MARGIN, y, pageContentWidth(doc), 20).fill(template.accentColor);
+    doc.font('Helvetica-Bold').fontSize(9).fillColor('white');
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      doc.text(column.label, x + 5, y + 6, { width: column.width - 10, align: column.align });
+      x += column.width;
+    }
+    doc.y = y + 26;
+  };
+
+  drawHeaderRow();
+
+  for (const line of data.lines) {
+    const description =
+      line.discountAmount > 0
+        ? `${line.description}\nDiscount: -${money(line.discountAmount)}`
+        : line.description;
+
+    doc.font('Helvetica').fontSize(9);
+    const height = doc.heightOfString(description, { width: COLUMNS[0].width - 10 }) + 8;
+
+    if (doc.y + height > pageBottom(doc)) {
+      doc.addPage();
+      drawHeaderRow();
+    }
+
+    const y = doc.y;
+    const cells = [
+      description,
+      formatQuantity(line.quantity),
+      money(line.unitPrice),
+      line.taxAmount > 0 ? money(line.taxAmount) : '-',
+      money(line.amount - line.discountAmount),
+    ];
+
+    let x = MARGIN;
+    doc.fillColor('black');
+    cells.forEach((cell, index) => {
+      doc.text(cell, x + 5, y, { width: COLUMNS[index].width - 10, align: COLUMNS[index].align });
+      x += COLUMNS[index].width;
+    });
+
+    doc
+      .moveTo(MARGIN, y + height - 3)
+      .lineTo(MARGIN + pageContentWidth(doc), y + height - 3)
+      .strokeColor('#e5e7eb')
+      .lineWidth(0.5)
+      .stroke();
+
+    doc.y = y + height;
+  }
+
+  doc.moveDown(1);
+}
+
+function drawTotals(
+  doc: PDFKit.PDFDocument,
+  data: InvoicePdfData,
+  template: InvoiceTemplate,
+  money: (amount: number) => string
+) {
+  const { invoice } = data;
+  const rows: { label: string; value: string; bold?: boolean; color?: string }[] = [
+    { label: 'Subtotal', value: money(invoice.subtotal) },
+  ];
+
+  if (invoice.discountTotal > 0) {
+    rows.push({ label: 'Discount', value: `-${money(invoice.discountTotal)}` });
+  }
+
+  if (template.showTaxBreakdown) {
+    for (const tax of taxBreakdown(data.lines)) {
+      rows.push({ label: tax.label, value: money(tax.amount) });
+    }
+  } else if (invoice.taxTotal > 0) {
+    rows.push({ label: 'Tax', value: money(invoice.taxTotal) });
+  }
+
+  rows.push({ label: 'Total', value: money(invoice.total), bold: true, color: template.primaryColor });
+
+  if (template.showPayments) {
+    for (const payment of data.payments) {
+      rows.push({
+        label: `Payment ${payment.paymentNumber} (${formatPdfDate(payment.date)})`,
+        value: `-${money(payment.amount)}`,
+      });
+    }
+  } else if (invoice.amountPaid > 0) {
+    rows.push({ label: 'Payments', value: `-${money(invoice.amountPaid)}` });
+  }
+
+  rows.push({
+    label: 'Balance Due',
+    value: money(invoice.amountDue),
+    bold: true,
+    color: template.accentColor,
+  });
+
+  if (doc.y + rows.length * 16 > pageBottom(doc)) {
+    doc.addPage();
+  }
+
+  const labelX = MARGIN + pageContentWidth(doc) - 300;
+  for (const row of rows) {
+    const y = doc.y;
+    doc
+      .font(row.bold ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(row.bold ? 11 : 9)
+      .fillColor(row.color ?? 'black');
+    doc.text(row.label, labelX, y, { width: 195, align: 'right' });
+    doc.text(row.value, labelX + 200, y, { width: 100, align: 'right' });
+    doc.y = y + (row.bold ? 18 : 14);
+  }
+
+  doc.x = MARGIN;
+  doc.moveDown(1);
+}
+
+function drawNotes(doc: PDFKit.PDFDocument, data: InvoicePdfData) {
+  const notes = [data.invoice.memo, data.invoice.notes].filter((note): note is string => !!note);
+  if (notes.length === 0) return;
+
+  if (doc.y + 40 > pageBottom(doc)) {
+    doc.addPage();
+  }
+
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('black').text('Notes', MARGIN, doc.y);
+  doc.font('Helvetica').fontSize(9).fillColor(MUTED);
+  for (const note of notes) {
+    doc.text(note, { width: pageContentWidth(doc) });
+  }
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, template: InvoiceTemplate) {
+  const range = doc.bufferedPageRange();
+
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    const y = doc.page.height - MARGIN - FOOTER_HEIGHT + 10;
+    doc.font('Helvetica').fontSize(8).fillColor(MUTED);
+
+    if (template.footerText) {
+      doc.text(template.footerText, MARGIN, y, {
+        width: pageContentWidth(doc),
+        align: 'center',
+        height: 20,
+        ellipsis: true,
+      });
+    }
+
+    if (range.count > 1) {
+      doc.text(`Page ${index - range.start + 1} of ${range.count}`, MARGIN, y + 20, {
+        width: pageContentWidth(doc),
+        align: 'right',
+      });
+    }
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * Sum tax per rate so each one prints on its own line
+ */
+function taxBreakdown(lines: InvoicePdfData['lines']) {
+  const totals = new Map<string, number>();
+
+  for (const line of lines) {
+    if (line.taxAmount <= 0) continue;
+    const label = line.taxName
+      ? `${line.taxName} (${formatQuantity(line.taxRate * 100)}%)`
+      : 'Tax';
+    totals.set(label, (totals.get(label) ?? 0) + line.taxAmount);
+  }
+
+  return Array.from(totals, ([label, amount]) => ({ label, amount }));
+}
+
+/**
+ * Logos are stored on the company as PNG or JPEG data URIs
+ */
+export function decodeLogo(logo: string | null): Buffer | null {
+  const match = logo?.match(/^data:image\/(png|jpeg);base64,(.+)$/);
+  return match ? Buffer.from(match[2], 'base64') : null;
+}
+
+export function formatAddress(address: PdfAddress | null): string[] {
+  if (!address) return [];
+
+  const cityLine = [address.city, [address.state, address.postalCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return [address.line1, address.line2, cityLine, address.country].filter(
+    (line): line is string => !!line
+  );
+}
+
+export function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+function formatQuantity(value: number) {
+  return new Intl.NumberFormat('en-US', { maximumFractionDigits: 4 }).format(value);
+}
+
+export function formatPdfDate(date: Date) {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function pageContentWidth(doc: PDFKit.PDFDocument) {
+  return doc.page.width - MARGIN * 2;
+}
+
+function pageBottom(doc: PDFKit.PDFDocument) {
+  return doc.page.height - MARGIN - FOOTER_HEIGHT;
+}
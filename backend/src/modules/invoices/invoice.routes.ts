@@ -7,7 +7,10 @@ import {
   createInvoiceSchema,
   updateInvoiceSchema,
   invoiceQuerySchema,
+  invoicePdfQuerySchema,
+  sendInvoiceSchema,
 } from './invoice.schema';
+import { emailDocumentSchema } from '../email/email.schema';
 
 const router = Router();
 
@@ -25,6 +28,12 @@ router.get(
   asyncHandler(invoiceController.get.bind(invoiceController))
 );
 
+router.get(
+  '/:id/pdf',
+  validate({ params: idParamSchema, query: invoicePdfQuerySchema }),
+  asyncHandler(invoiceController.pdf.bind(invoiceController))
+);
+
 router.post(
   '/',
   requireWriteAccess,
@@ -42,10 +51,17 @@ router.put(
 router.post(
   '/:id/send',
   requireWriteAccess,
-  validate({ params: idParamSchema }),
+  validate({ params: idParamSchema, body: sendInvoiceSchema }),
   asyncHandler(invoiceController.send.bind(invoiceController))
 );
 
+router.post(
+  '/:id/email',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: emailDocumentSchema }),
+  asyncHandler(invoiceController.email.bind(invoiceController))
+);
+
 router.post(
   '/:id/void',
   requireWriteAccess,
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { InvoiceStatus } from '@prisma/client';
+import { emailDocumentSchema } from '../email/email.schema';
 
 export const invoiceLineSchema = z.object({
   productId: z.string().uuid().optional().nullable(),
@@ -17,6 +18,8 @@ export const createInvoiceSchema = z.object({
   date: z.string().datetime(),
   dueDate: z.string().datetime().optional(),
   terms: z.number().int().min(0).max(365).default(30),
+  amountsAreTaxInclusive: z.boolean().default(false),
+  exchangeRate: z.number().positive().optional(), // Overrides the rate on the invoice date
   memo: z.string().max(2000).optional(),
   notes: z.string().max(2000).optional(),
   lines: z.array(invoiceLineSchema).min(1, 'At least one line required'),
@@ -27,6 +30,8 @@ export const updateInvoiceSchema = z.object({
   date: z.string().datetime().optional(),
   dueDate: z.string().datetime().optional(),
   terms: z.number().int().min(0).max(365).optional(),
+  amountsAreTaxInclusive: z.boolean().optional(),
+  exchangeRate: z.number().positive().optional(),
   memo: z.string().max(2000).optional(),
   notes: z.string().max(2000).optional(),
   lines: z.array(invoiceLineSchema).min(1).optional(),
@@ -42,7 +47,17 @@ export const invoiceQuerySchema = z.object({
   limit: z.string().transform(Number).default('50'),
 });
 
+export const invoicePdfQuerySchema = z.object({
+  template: z.string().max(50).optional(), // Template name; defaults to the company's default
+});
+
+export const sendInvoiceSchema = emailDocumentSchema.extend({
+  email: z.boolean().default(false), // Also email the invoice to the customer
+});
+
 export type InvoiceLineInput = z.infer<typeof invoiceLineSchema>;
 export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>;
 export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>;
 export type InvoiceQuery = z.infer<typeof invoiceQuerySchema>;
+export type InvoicePdfQuery = z.infer<typeof invoicePdfQuerySchema>;
+export type SendInvoiceInput = z.infer<typeof sendInvoiceSchema>;
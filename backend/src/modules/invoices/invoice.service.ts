@@ -1,11 +1,29 @@
 import { prisma } from '../../config/database';
 import { InvoiceStatus, JournalSource, AccountSubType, Prisma } from '@prisma/client';
 import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
-import { CreateInvoiceInput, UpdateInvoiceInput, InvoiceQuery, InvoiceLineInput } from './invoice.schema';
-import { decimalToNumber, calculateDueDate, round } from '../../utils/helpers';
+import {
+  CreateInvoiceInput,
+  UpdateInvoiceInput,
+  InvoiceQuery,
+  InvoiceLineInput,
+  InvoicePdfQuery,
+} from './invoice.schema';
+import { invoiceTemplateSchema } from '../company/company.schema';
+import { renderInvoicePdf, DEFAULT_INVOICE_TEMPLATE, PdfAddress } from './invoice.pdf';
+import {
+  decimalToNumber,
+  calculateDueDate,
+  calculateLineTax,
+  round,
+  formatDateISO,
+} from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
 import { journalService } from '../journal/journal.service';
 import { accountService } from '../accounts/account.service';
+import { inventoryService } from '../inventory/inventory.service';
+import { taxService } from '../tax/tax.service';
+import { currencyService } from '../currency/currency.service';
+import { productService } from '../products/product.service';
 
 export class InvoiceService {
   /**
@@ -90,9 +108,97 @@ export class InvoiceService {
   }
 
   /**
-   * Create invoice
+   * Render an invoice as a PDF with one of the company's templates
    */
-  async createInvoice(companyId: string, userId: string, input: CreateInvoiceInput) {
+  async getInvoicePdf(companyId: string, invoiceId: string, query: InvoicePdfQuery) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, companyId },
+      include: {
+        company: true,
+        customer: true,
+        lines: {
+          include: { tax: { select: { name: true } } },
+          orderBy: { sortOrder: 'asc' },
+        },
+        paymentAllocations: {
+          include: { payment: { select: { paymentNumber: true, date: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    const template = this.resolveTemplate(invoice.company.settings, query.template);
+    const { company, customer } = invoice;
+
+    const pdf = await renderInvoicePdf(
+      {
+        company: {
+          name: company.name,
+          legalName: company.legalName,
+          taxId: company.taxId,
+          address: company.address as PdfAddress | null,
+          phone: company.phone,
+          email: company.email,
+          website: company.website,
+          logo: company.logo,
+        },
+        customer: {
+          name: customer.name,
+          email: customer.email,
+          billingAddress: customer.billingAddress as PdfAddress | null,
+          shippingAddress: customer.shippingAddress as PdfAddress | null,
+        },
+        invoice: {
+          invoiceNumber: invoice.invoiceNumber,
+          status: invoice.status,
+          date: invoice.date,
+          dueDate: invoice.dueDate,
+          terms: invoice.terms,
+          currency: invoice.currency,
+          memo: invoice.memo,
+          notes: invoice.notes,
+          subtotal: decimalToNumber(invoice.subtotal),
+          discountTotal: decimalToNumber(invoice.discountTotal),
+          taxTotal: decimalToNumber(invoice.taxTotal),
+          total: decimalToNumber(invoice.total),
+          amountPaid: decimalToNumber(invoice.amountPaid),
+          amountDue: decimalToNumber(invoice.amountDue),
+        },
+        lines: invoice.lines.map((line) => ({
+          description: line.description,
+          quantity: decimalToNumber(line.quantity),
+          unitPrice: decimalToNumber(line.unitPrice),
+          discountAmount: decimalToNumber(line.discountAmount),
+          amount: decimalToNumber(line.amount),
+          taxAmount: decimalToNumber(line.taxAmount),
+          taxName: line.tax?.name ?? null,
+          taxRate: decimalToNumber(line.taxRate),
+        })),
+        payments: invoice.paymentAllocations.map((alloc) => ({
+          paymentNumber: alloc.payment.paymentNumber,
+          date: alloc.payment.date,
+          amount: decimalToNumber(alloc.amount),
+        })),
+      },
+      template
+    );
+
+    return { filename: `${invoice.invoiceNumber.replace(/[^\w.-]/g, '_')}.pdf`, pdf };
+  }
+
+  /**
+   * Create invoice, tagged with the recurring template occurrence that created it, if any
+   */
+  async createInvoice(
+    companyId: string,
+    userId: string,
+    input: CreateInvoiceInput,
+    recurringRunId?: string
+  ) {
     // Validate customer
     const customer = await prisma.customer.findFirst({
       where: { id: input.customerId, companyId },
@@ -117,7 +223,8 @@ export class InvoiceService {
     // Calculate totals
     const { lines, subtotal, taxTotal, discountTotal, total } = await this.calculateLineTotals(
       companyId,
-      input.lines
+      input.lines,
+      { taxExempt: customer.taxExempt, taxInclusive: input.amountsAreTaxInclusive }
     );
 
     const invoiceDate = new Date(input.date);
@@ -125,6 +232,11 @@ export class InvoiceService {
       ? new Date(input.dueDate)
       : calculateDueDate(invoiceDate, input.terms);
 
+    // Invoices are raised in the customer's currency
+    const exchangeRate =
+      input.exchangeRate ??
+      (await currencyService.getRate(companyId, customer.currency, invoiceDate));
+
     // Create invoice
     const invoice = await prisma.invoice.create({
       data: {
@@ -134,6 +246,10 @@ export class InvoiceService {
         date: invoiceDate,
         dueDate,
         terms: input.terms,
+        amountsAreTaxInclusive: input.amountsAreTaxInclusive,
+        taxExempt: customer.taxExempt,
+        currency: customer.currency,
+        exchangeRate,
         subtotal,
         taxTotal,
         discountTotal,
@@ -143,6 +259,7 @@ export class InvoiceService {
         status: InvoiceStatus.DRAFT,
         memo: input.memo,
         notes: input.notes,
+        recurringRunId,
         lines: {
           create: lines.map((line, index) => ({
             ...line,
@@ -174,6 +291,7 @@ export class InvoiceService {
   ) {
     const invoice = await prisma.invoice.findFirst({
       where: { id: invoiceId, companyId },
+      include: { lines: { select: { productId: true } } },
     });
 
     if (!invoice) {
@@ -184,17 +302,37 @@ export class InvoiceService {
       throw new BadRequestError('Only draft invoices can be edited');
     }
 
+    const customer = await prisma.customer.findFirst({
+      where: { id: input.customerId ?? invoice.customerId, companyId },
+    });
+
+    if (!customer) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    const taxInclusive = input.amountsAreTaxInclusive ?? invoice.amountsAreTaxInclusive;
+
+    if (taxInclusive !== invoice.amountsAreTaxInclusive && !input.lines) {
+      throw new BadRequestError('Lines are required when changing tax-inclusive pricing');
+    }
+
     // Calculate new totals if lines changed
     let updateData: any = { ...input };
 
     if (input.lines) {
       const { lines, subtotal, taxTotal, discountTotal, total } = await this.calculateLineTotals(
         companyId,
-        input.lines
+        input.lines,
+        {
+          taxExempt: customer.taxExempt,
+          taxInclusive,
+          keepProductIds: invoice.lines.map((line) => line.productId),
+        }
       );
 
       updateData = {
         ...updateData,
+        taxExempt: customer.taxExempt,
         subtotal,
         taxTotal,
         discountTotal,
@@ -225,6 +363,18 @@ export class InvoiceService {
       updateData.dueDate = new Date(input.dueDate);
     }
 
+    // A new customer or date brings a new currency or rate
+    if (input.customerId || input.date || input.exchangeRate) {
+      updateData.currency = customer.currency;
+      updateData.exchangeRate =
+        input.exchangeRate ??
+        (await currencyService.getRate(
+          companyId,
+          customer.currency,
+          updateData.date ?? invoice.date
+        ));
+    }
+
     const updated = await prisma.invoice.update({
       where: { id: invoiceId },
       data: updateData,
@@ -273,7 +423,7 @@ export class InvoiceService {
       AccountSubType.CURRENT_LIABILITY
     );
 
-    // Build journal entry lines
+    // Build journal entry lines in the invoice currency
     const journalLines: any[] = [];
 
     // Debit AR
@@ -309,16 +459,47 @@ export class InvoiceService {
       });
     }
 
+    // Convert to the base currency; inventory cost below is already in base
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const baseLines = currencyService.toBaseLines(
+      journalLines,
+      invoice.currency,
+      decimalToNumber(invoice.exchangeRate),
+      baseCurrency
+    );
+
+    // Relieve inventory at average cost: debit COGS, credit inventory asset
+    const costedLines = await inventoryService.costSaleLines(companyId, invoice.lines);
+    for (const line of costedLines) {
+      if (line.totalCost > 0) {
+        baseLines.push(
+          { accountId: line.cogsAccountId, debit: line.totalCost, credit: 0, memo: line.memo },
+          { accountId: line.assetAccountId, debit: 0, credit: line.totalCost, memo: line.memo }
+        );
+      }
+    }
+
     // Create journal entry
-    await journalService.createFromTransaction(companyId, userId, {
+    const journalEntry = await journalService.createFromTransaction(companyId, userId, {
       date: invoice.date,
       memo: `Invoice ${invoice.invoiceNumber} - ${invoice.customer.name}`,
       reference: invoice.invoiceNumber,
       source: JournalSource.INVOICE,
       sourceId: invoice.id,
-      lines: journalLines,
+      lines: baseLines,
     });
 
+    await inventoryService.recordSale(
+      companyId,
+      {
+        date: invoice.date,
+        source: JournalSource.INVOICE,
+        sourceId: invoice.id,
+        journalEntryId: journalEntry.id,
+      },
+      costedLines
+    );
+
     // Update invoice status
     const updated = await prisma.invoice.update({
       where: { id: invoiceId },
@@ -369,6 +550,9 @@ export class InvoiceService {
       data: { isPosted: false },
     });
 
+    // Return sold stock
+    await inventoryService.reverseSource(companyId, JournalSource.INVOICE, invoice.id);
+
     await prisma.invoice.update({
       where: { id: invoiceId },
       data: { status: InvoiceStatus.VOID },
@@ -376,7 +560,104 @@ export class InvoiceService {
   }
 
   /**
-   * Apply payment to invoice (internal use)
+   * Mark unpaid sent invoices past their due date as OVERDUE
+   */
+  async updateOverdueStatuses(companyId?: string, asOf: Date = new Date(formatDateISO(new Date()))) {
+    const { count } = await prisma.invoice.updateMany({
+      where: {
+        ...(companyId && { companyId }),
+        status: { in: [InvoiceStatus.SENT, InvoiceStatus.PARTIAL] },
+        dueDate: { lt: asOf },
+        amountDue: { gt: 0 },
+      },
+      data: { status: InvoiceStatus.OVERDUE },
+    });
+
+    return count;
+  }
+
+  /**
+   * Add a late fee line to a sent invoice and post it: debit AR, credit the fee account
+   */
+  async addLateFee(
+    companyId: string,
+    userId: string,
+    invoiceId: string,
+    fee: { date: Date; amount: number; accountId: string; description: string }
+  ) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, companyId },
+      include: { lines: { select: { sortOrder: true } } },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.VOID) {
+      throw new BadRequestError('Late fees can only be added to sent invoices');
+    }
+
+    const amount = round(fee.amount);
+    const arAccount = await accountService.getSystemAccount(
+      companyId,
+      AccountSubType.ACCOUNTS_RECEIVABLE
+    );
+
+    // AR is carried at the invoice rate, so the fee is too
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const baseLines = currencyService.toBaseLines(
+      [
+        {
+          accountId: arAccount.id,
+          debit: amount,
+          credit: 0,
+          customerId: invoice.customerId,
+          memo: `Invoice ${invoice.invoiceNumber}`,
+        },
+        { accountId: fee.accountId, debit: 0, credit: amount, memo: fee.description },
+      ],
+      invoice.currency,
+      decimalToNumber(invoice.exchangeRate),
+      baseCurrency
+    );
+
+    // Sourced to the invoice so voiding it unposts the fee as well
+    await journalService.createFromTransaction(companyId, userId, {
+      date: fee.date,
+      memo: `Late fee on invoice ${invoice.invoiceNumber}`,
+      reference: invoice.invoiceNumber,
+      source: JournalSource.INVOICE,
+      sourceId: invoice.id,
+      lines: baseLines,
+    });
+
+    await prisma.invoiceLine.create({
+      data: {
+        invoiceId,
+        description: fee.description,
+        quantity: 1,
+        unitPrice: amount,
+        amount,
+        accountId: fee.accountId,
+        sortOrder: Math.max(-1, ...invoice.lines.map((line) => line.sortOrder)) + 1,
+      },
+    });
+
+    const updated = await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        subtotal: { increment: amount },
+        total: { increment: amount },
+        amountDue: { increment: amount },
+      },
+    });
+
+    return this.formatInvoice(updated);
+  }
+
+  /**
+   * Apply payment or credit to invoice (internal use); a negative amount takes it back
    */
   async applyPayment(invoiceId: string, amount: number) {
     const invoice = await prisma.invoice.findUnique({
@@ -397,6 +678,11 @@ export class InvoiceService {
       status = InvoiceStatus.PAID;
     } else if (newPaid > 0) {
       status = InvoiceStatus.PARTIAL;
+    } else {
+      status =
+        invoice.dueDate < new Date(formatDateISO(new Date()))
+          ? InvoiceStatus.OVERDUE
+          : InvoiceStatus.SENT;
     }
 
     await prisma.invoice.update({
@@ -410,60 +696,37 @@ export class InvoiceService {
   }
 
   /**
-   * Generate unique invoice number
-   */
-  private async generateInvoiceNumber(companyId: string): Promise<string> {
-    const lastInvoice = await prisma.invoice.findFirst({
-      where: { companyId },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    // Get company settings for prefix
-    const company = await prisma.company.findUnique({
-      where: { id: companyId },
-    });
-
-    const settings = company?.settings as any || {};
-    const prefix = settings.invoicePrefix || 'INV-';
-    const startNumber = settings.invoiceStartNumber || 1001;
-
-    if (!lastInvoice) {
-      return `${prefix}${startNumber}`;
-    }
-
-    // Extract number from last invoice
-    const match = lastInvoice.invoiceNumber.match(/(\d+)$/);
-    const lastNumber = match ? parseInt(match[1]) : startNumber - 1;
-
-    return `${prefix}${lastNumber + 1}`;
-  }
-
-  /**
-   * Calculate line totals
+   * Calculate line totals; tax-exempt customers are not charged tax, and
+   * tax-inclusive lines are stored net with the tax backed out. Credit memos
+   * price their lines the same way. Inactive products are rejected unless listed
+   * in keepProductIds.
    */
-  private async calculateLineTotals(companyId: string, lines: InvoiceLineInput[]) {
+  async calculateLineTotals(
+    companyId: string,
+    lines: InvoiceLineInput[],
+    options: { taxExempt: boolean; taxInclusive: boolean; keepProductIds?: (string | null)[] }
+  ) {
+    const { taxExempt, taxInclusive } = options;
     let subtotal = 0;
     let taxTotal = 0;
     let discountTotal = 0;
 
+    await productService.assertLineProducts(companyId, lines, options.keepProductIds);
+
+    const taxRates = taxExempt
+      ? new Map<string, number>()
+      : await taxService.getRatesForLines(companyId, lines);
+
     const calculatedLines = await Promise.all(
       lines.map(async (line) => {
-        const lineAmount = round(line.quantity * line.unitPrice);
-        const discountAmount = round(lineAmount * (line.discountPercent / 100));
-        const afterDiscount = lineAmount - discountAmount;
-
-        let taxAmount = 0;
-        let taxRate = 0;
-
-        if (line.taxRateId) {
-          const tax = await prisma.taxRate.findUnique({
-            where: { id: line.taxRateId },
-          });
-          if (tax) {
-            taxRate = decimalToNumber(tax.rate);
-            taxAmount = round(afterDiscount * taxRate);
-          }
-        }
+        const grossAmount = round(line.quantity * line.unitPrice);
+        const taxRate = line.taxRateId && !taxExempt ? taxRates.get(line.taxRateId)! : 0;
+        const { amount: lineAmount, discountAmount, taxAmount } = calculateLineTax(
+          grossAmount,
+          round(grossAmount * (line.discountPercent / 100)),
+          taxRate,
+          taxInclusive
+        );
 
         subtotal += lineAmount;
         discountTotal += discountAmount;
@@ -477,7 +740,7 @@ export class InvoiceService {
           amount: lineAmount,
           discountPercent: line.discountPercent,
           discountAmount,
-          taxRateId: line.taxRateId,
+          taxRateId: taxExempt ? null : line.taxRateId,
           taxRate,
           taxAmount,
           accountId: line.accountId,
@@ -489,13 +752,67 @@ export class InvoiceService {
 
     return {
       lines: calculatedLines,
-      subtotal,
-      taxTotal,
-      discountTotal,
+      subtotal: round(subtotal),
+      taxTotal: round(taxTotal),
+      discountTotal: round(discountTotal),
       total,
     };
   }
 
+  /**
+   * Generate unique invoice number
+   */
+  private async generateInvoiceNumber(companyId: string): Promise<string> {
+    const lastInvoice = await prisma.invoice.findFirst({
+      where: { companyId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Get company settings for prefix
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    const settings = company?.settings as any || {};
+    const prefix = settings.invoicePrefix || 'INV-';
+    const startNumber = settings.invoiceStartNumber || 1001;
+
+    if (!lastInvoice) {
+      return `${prefix}${startNumber}`;
+    }
+
+    // Extract number from last invoice
+    const match = lastInvoice.invoiceNumber.match(/(\d+)$/);
+    const lastNumber = match ? parseInt(match[1]) : startNumber - 1;
+
+    return `${prefix}${lastNumber + 1}`;
+  }
+
+  /**
+   * Pick the named template, else the company default, else the built-in layout
+   */
+  private resolveTemplate(settings: Prisma.JsonValue, name?: string) {
+    const { invoiceTemplates = [], defaultInvoiceTemplate } = (settings as Record<string, any>) || {};
+    const wanted = name ?? defaultInvoiceTemplate;
+
+    if (!wanted) {
+      return invoiceTemplates.length > 0
+        ? invoiceTemplateSchema.parse(invoiceTemplates[0])
+        : DEFAULT_INVOICE_TEMPLATE;
+    }
+
+    const template = invoiceTemplates.find((t: { name: string }) => t.name === wanted);
+
+    if (!template) {
+      if (name) {
+        throw new NotFoundError(`Invoice template "${name}" not found`);
+      }
+      return DEFAULT_INVOICE_TEMPLATE;
+    }
+
+    return invoiceTemplateSchema.parse(template);
+  }
+
   /**
    * Format invoice for response
    */
@@ -506,6 +823,7 @@ export class InvoiceService {
       taxTotal: decimalToNumber(invoice.taxTotal),
       discountTotal: decimalToNumber(invoice.discountTotal),
       total: decimalToNumber(invoice.total),
+      exchangeRate: decimalToNumber(invoice.exchangeRate),
       amountPaid: decimalToNumber(invoice.amountPaid),
       amountDue: decimalToNumber(invoice.amountDue),
       lines: invoice.lines?.map((line: any) => ({
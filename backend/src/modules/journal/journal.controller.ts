@@ -27,6 +27,7 @@ export class JournalController {
     const entry = await journalService.createJournalEntry(
       req.companyId!,
       req.user!.id,
+      req.companyRole!,
       req.body
     );
     return sendCreated(res, entry, 'Journal entry created successfully');
@@ -39,6 +40,7 @@ export class JournalController {
     const entry = await journalService.updateJournalEntry(
       req.companyId!,
       req.params.id,
+      req.companyRole!,
       req.body
     );
     return sendSuccess(res, entry, 'Journal entry updated successfully');
@@ -66,6 +68,69 @@ export class JournalController {
     return sendCreated(res, entry, 'Reversing entry created');
   }
 
+  /**
+   * List auto-reversing entries that have not been reversed yet
+   */
+  async pendingReversals(req: AuthenticatedRequest, res: Response) {
+    const entries = await journalService.getPendingReversals(req.companyId!);
+    return sendSuccess(res, entries);
+  }
+
+  /**
+   * Reverse the company's auto-reversing entries that are due
+   */
+  async runReversals(req: AuthenticatedRequest, res: Response) {
+    const summary = await journalService.runDueReversals(req.companyId!);
+    return sendSuccess(res, summary, 'Due reversals run');
+  }
+
+  /**
+   * List entries awaiting approval
+   */
+  async pendingApprovals(req: AuthenticatedRequest, res: Response) {
+    const entries = await journalService.getPendingApprovals(req.companyId!);
+    return sendSuccess(res, entries);
+  }
+
+  /**
+   * Submit entry for approval
+   */
+  async submit(req: AuthenticatedRequest, res: Response) {
+    const entry = await journalService.submitForApproval(
+      req.companyId!,
+      req.user!.id,
+      req.params.id,
+      req.body.comment
+    );
+    return sendSuccess(res, entry, 'Journal entry submitted for approval');
+  }
+
+  /**
+   * Approve and post entry
+   */
+  async approve(req: AuthenticatedRequest, res: Response) {
+    const entry = await journalService.approveJournalEntry(
+      req.companyId!,
+      req.user!.id,
+      req.params.id,
+      req.body.comment
+    );
+    return sendSuccess(res, entry, 'Journal entry approved');
+  }
+
+  /**
+   * Reject entry
+   */
+  async reject(req: AuthenticatedRequest, res: Response) {
+    const entry = await journalService.rejectJournalEntry(
+      req.companyId!,
+      req.user!.id,
+      req.params.id,
+      req.body.comment
+    );
+    return sendSuccess(res, entry, 'Journal entry rejected');
+  }
+
   /**
    * Get general ledger for an account
    */
@@ -1,12 +1,14 @@
 import { Router } from 'express';
 import { journalController } from './journal.controller';
 import { validate, idParamSchema } from '../../middleware/validate';
-import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { authenticate, requireCompany, requireWriteAccess, requireAdmin } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
 import {
   createJournalEntrySchema,
   updateJournalEntrySchema,
   journalQuerySchema,
+  approvalCommentSchema,
+  rejectJournalEntrySchema,
 } from './journal.schema';
 import { z } from 'zod';
 
@@ -22,6 +24,25 @@ router.get(
   asyncHandler(journalController.list.bind(journalController))
 );
 
+// Entries awaiting approval
+router.get(
+  '/pending-approval',
+  asyncHandler(journalController.pendingApprovals.bind(journalController))
+);
+
+// Auto-reversing entries not reversed yet
+router.get(
+  '/pending-reversals',
+  asyncHandler(journalController.pendingReversals.bind(journalController))
+);
+
+// Reverse due auto-reversing entries now
+router.post(
+  '/reversals/run',
+  requireAdmin,
+  asyncHandler(journalController.runReversals.bind(journalController))
+);
+
 // Get single entry
 router.get(
   '/:id',
@@ -66,6 +87,30 @@ router.post(
   asyncHandler(journalController.reverse.bind(journalController))
 );
 
+// Submit draft entry for approval
+router.post(
+  '/:id/submit',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: approvalCommentSchema }),
+  asyncHandler(journalController.submit.bind(journalController))
+);
+
+// Approve pending entry
+router.post(
+  '/:id/approve',
+  requireAdmin,
+  validate({ params: idParamSchema, body: approvalCommentSchema }),
+  asyncHandler(journalController.approve.bind(journalController))
+);
+
+// Reject pending entry
+router.post(
+  '/:id/reject',
+  requireAdmin,
+  validate({ params: idParamSchema, body: rejectJournalEntrySchema }),
+  asyncHandler(journalController.reject.bind(journalController))
+);
+
 // General ledger for an account
 router.get(
   '/account/:accountId/ledger',
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { JournalSource } from '@prisma/client';
+import { JournalApprovalStatus, JournalSource } from '@prisma/client';
 
 export const journalLineSchema = z.object({
   accountId: z.string().uuid(),
@@ -15,6 +15,8 @@ export const createJournalEntrySchema = z.object({
   memo: z.string().max(500).optional(),
   reference: z.string().max(100).optional(),
   isAdjusting: z.boolean().default(false),
+  autoReverse: z.boolean().default(false),
+  autoReverseDate: z.string().datetime().optional(), // Defaults to the first day of the next month
   lines: z.array(journalLineSchema).min(2, 'At least 2 lines required'),
 }).refine(
   (data) => {
@@ -29,6 +31,8 @@ export const updateJournalEntrySchema = z.object({
   date: z.string().datetime().optional(),
   memo: z.string().max(500).optional(),
   reference: z.string().max(100).optional(),
+  autoReverse: z.boolean().optional(),
+  autoReverseDate: z.string().datetime().optional(),
   lines: z.array(journalLineSchema).min(2).optional(),
 }).refine(
   (data) => {
@@ -45,12 +49,29 @@ export const journalQuerySchema = z.object({
   endDate: z.string().datetime().optional(),
   accountId: z.string().uuid().optional(),
   source: z.nativeEnum(JournalSource).optional(),
+  approvalStatus: z.nativeEnum(JournalApprovalStatus).optional(),
   search: z.string().optional(),
   page: z.string().transform(Number).default('1'),
   limit: z.string().transform(Number).default('50'),
 });
 
+export const approvalCommentSchema = z.object({
+  comment: z.string().max(1000).optional(),
+});
+
+export const rejectJournalEntrySchema = z.object({
+  comment: z.string().min(1, 'A reason is required').max(1000),
+});
+
 export type JournalLineInput = z.infer<typeof journalLineSchema>;
+
+// Lines posted from foreign currency documents also carry the transaction currency amounts
+export type PostingLineInput = JournalLineInput & {
+  currency?: string;
+  exchangeRate?: number;
+  foreignDebit?: number;
+  foreignCredit?: number;
+};
 export type CreateJournalEntryInput = z.infer<typeof createJournalEntrySchema>;
 export type UpdateJournalEntryInput = z.infer<typeof updateJournalEntrySchema>;
 export type JournalQuery = z.infer<typeof journalQuerySchema>;
@@ -1,9 +1,23 @@
 import { prisma } from '../../config/database';
-import { JournalSource, Prisma } from '@prisma/client';
-import { NotFoundError, BadRequestError } from '../../utils/errors';
-import { CreateJournalEntryInput, UpdateJournalEntryInput, JournalQuery, JournalLineInput } from './journal.schema';
-import { decimalToNumber } from '../../utils/helpers';
+import {
+  BankTransactionStatus,
+  JournalApprovalAction,
+  JournalApprovalStatus,
+  JournalSource,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError, ConflictError, ForbiddenError } from '../../utils/errors';
+import {
+  CreateJournalEntryInput,
+  UpdateJournalEntryInput,
+  JournalQuery,
+  JournalLineInput,
+  PostingLineInput,
+} from './journal.schema';
+import { decimalToNumber, formatDateISO } from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
+import { runWithAuditContext } from '../audit/audit.extension';
 
 export class JournalService {
   /**
@@ -26,6 +40,10 @@ export class JournalService {
       where.source = query.source;
     }
 
+    if (query.approvalStatus) {
+      where.approvalStatus = query.approvalStatus;
+    }
+
     if (query.accountId) {
       where.lines = { some: { accountId: query.accountId } };
     }
@@ -97,6 +115,10 @@ export class JournalService {
         approvedBy: {
           select: { id: true, name: true },
         },
+        comments: {
+          include: { user: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -108,12 +130,18 @@ export class JournalService {
   }
 
   /**
-   * Create a manual journal entry
+   * Create a manual journal entry. Entries members make above the company's approval
+   * threshold, or that are asked for as drafts, stay unposted until an admin approves them.
+   * Auto-reversing entries are reversed by the background runner on their reversal date.
+   * Entries created by a recurring template are tagged with the occurrence.
    */
   async createJournalEntry(
     companyId: string,
     userId: string,
-    input: CreateJournalEntryInput
+    role: UserRole,
+    input: CreateJournalEntryInput,
+    asDraft = false,
+    recurringRunId?: string
   ) {
     // Validate double entry
     this.validateDoubleEntry(input.lines);
@@ -121,6 +149,9 @@ export class JournalService {
     // Validate accounts exist and belong to company
     await this.validateAccounts(companyId, input.lines);
 
+    const needsApproval = asDraft || (await this.requiresApproval(companyId, role, input.lines));
+    const date = new Date(input.date);
+
     // Get next entry number
     const lastEntry = await prisma.journalEntry.findFirst({
       where: { companyId },
@@ -132,12 +163,16 @@ export class JournalService {
       data: {
         companyId,
         entryNumber,
-        date: new Date(input.date),
+        date,
         memo: input.memo,
         reference: input.reference,
         source: JournalSource.MANUAL,
         isAdjusting: input.isAdjusting,
+        autoReverseDate: input.autoReverse ? this.reversalDate(date, input.autoReverseDate) : null,
+        isPosted: !needsApproval,
+        approvalStatus: needsApproval ? JournalApprovalStatus.DRAFT : JournalApprovalStatus.NOT_REQUIRED,
         createdById: userId,
+        recurringRunId,
         lines: {
           create: input.lines.map((line) => ({
             accountId: line.accountId,
@@ -175,7 +210,8 @@ export class JournalService {
       reference?: string;
       source: JournalSource;
       sourceId: string;
-      lines: JournalLineInput[];
+      lines: PostingLineInput[];
+      autoReverseDate?: Date;
     }
   ) {
     this.validateDoubleEntry(data.lines);
@@ -195,6 +231,7 @@ export class JournalService {
         reference: data.reference,
         source: data.source,
         sourceId: data.sourceId,
+        autoReverseDate: data.autoReverseDate,
         createdById: userId,
         lines: {
           create: data.lines.map((line) => ({
@@ -204,6 +241,10 @@ export class JournalService {
             memo: line.memo,
             customerId: line.customerId,
             vendorId: line.vendorId,
+            currency: line.currency,
+            exchangeRate: line.exchangeRate,
+            foreignDebit: line.foreignDebit,
+            foreignCredit: line.foreignCredit,
           })),
         },
       },
@@ -213,11 +254,37 @@ export class JournalService {
   }
 
   /**
-   * Update a journal entry (manual entries only)
+   * Transactions posted to the GL cannot be undone while any of their lines are cleared
+   * in a bank reconciliation or matched to a reconciled statement line
+   */
+  async assertSourceNotCleared(companyId: string, source: JournalSource, sourceId: string) {
+    const journalEntry = { companyId, source, sourceId, isPosted: true };
+
+    const [clearedLines, reconciledTransactions] = await Promise.all([
+      prisma.journalLine.count({
+        where: { isCleared: true, journalEntry },
+      }),
+      prisma.bankTransaction.count({
+        where: {
+          status: BankTransactionStatus.RECONCILED,
+          matches: { some: { journalEntry } },
+        },
+      }),
+    ]);
+
+    if (clearedLines > 0 || reconciledTransactions > 0) {
+      throw new BadRequestError('Transaction is cleared in a bank reconciliation');
+    }
+  }
+
+  /**
+   * Update a journal entry (manual entries only). A member raising a posted entry
+   * above the approval threshold sends it back to draft.
    */
   async updateJournalEntry(
     companyId: string,
     entryId: string,
+    role: UserRole,
     input: UpdateJournalEntryInput
   ) {
     const entry = await prisma.journalEntry.findFirst({
@@ -232,18 +299,55 @@ export class JournalService {
       throw new BadRequestError('Only manual entries can be edited');
     }
 
+    if (entry.approvalStatus === JournalApprovalStatus.PENDING) {
+      throw new BadRequestError('Entry is awaiting approval and cannot be edited');
+    }
+
+    await this.assertNotCleared(entryId);
+
     // Validate lines if provided
     if (input.lines) {
       this.validateDoubleEntry(input.lines);
       await this.validateAccounts(companyId, input.lines);
     }
 
+    const date = input.date ? new Date(input.date) : entry.date;
+    let autoReverseDate: Date | null | undefined;
+
+    if (input.autoReverse === false) {
+      autoReverseDate = null;
+    } else if (input.autoReverse || input.autoReverseDate) {
+      autoReverseDate = this.reversalDate(date, input.autoReverseDate);
+    } else if (entry.autoReverseDate && input.date) {
+      // Moving the entry must keep its reversal after it
+      autoReverseDate = this.reversalDate(date, entry.autoReverseDate);
+    }
+
+    let approval: Prisma.JournalEntryUncheckedUpdateInput = {};
+
+    if (entry.approvalStatus === JournalApprovalStatus.REJECTED) {
+      approval = { approvalStatus: JournalApprovalStatus.DRAFT };
+    } else if (
+      entry.isPosted &&
+      input.lines &&
+      (await this.requiresApproval(companyId, role, input.lines))
+    ) {
+      approval = {
+        isPosted: false,
+        approvalStatus: JournalApprovalStatus.DRAFT,
+        approvedById: null,
+        approvedAt: null,
+      };
+    }
+
     const updated = await prisma.journalEntry.update({
       where: { id: entryId },
       data: {
-        date: input.date ? new Date(input.date) : undefined,
+        ...approval,
+        date: input.date ? date : undefined,
         memo: input.memo,
         reference: input.reference,
+        autoReverseDate,
         ...(input.lines && {
           lines: {
             deleteMany: {},
@@ -273,7 +377,7 @@ export class JournalService {
   }
 
   /**
-   * Void a journal entry
+   * Void a journal entry. Drafts were never posted, so they are discarded instead.
    */
   async voidJournalEntry(companyId: string, entryId: string) {
     const entry = await prisma.journalEntry.findFirst({
@@ -288,6 +392,13 @@ export class JournalService {
       throw new BadRequestError('Only manual entries can be voided directly');
     }
 
+    if (this.isAwaitingApproval(entry)) {
+      await prisma.journalEntry.delete({ where: { id: entryId } });
+      return;
+    }
+
+    await this.assertNotCleared(entryId);
+
     await prisma.journalEntry.update({
       where: { id: entryId },
       data: { isPosted: false },
@@ -295,7 +406,7 @@ export class JournalService {
   }
 
   /**
-   * Create a reversing entry
+   * Create a reversing entry. An entry can only have one posted reversal.
    */
   async reverseJournalEntry(
     companyId: string,
@@ -312,6 +423,20 @@ export class JournalService {
       throw new NotFoundError('Journal entry not found');
     }
 
+    if (!entry.isPosted) {
+      throw new BadRequestError('Only posted entries can be reversed');
+    }
+
+    const existingReversal = await prisma.journalEntry.findFirst({
+      where: { reversedEntryId: entry.id, isPosted: true },
+    });
+
+    if (existingReversal) {
+      throw new ConflictError(
+        `Entry #${entry.entryNumber} was already reversed by Entry #${existingReversal.entryNumber}`
+      );
+    }
+
     const lastEntry = await prisma.journalEntry.findFirst({
       where: { companyId },
       orderBy: { entryNumber: 'desc' },
@@ -338,6 +463,10 @@ export class JournalService {
             memo: line.memo,
             customerId: line.customerId,
             vendorId: line.vendorId,
+            currency: line.currency,
+            exchangeRate: line.exchangeRate,
+            foreignDebit: line.foreignCredit,
+            foreignCredit: line.foreignDebit,
           })),
         },
       },
@@ -355,6 +484,170 @@ export class JournalService {
     return this.formatJournalEntry(reversingEntry);
   }
 
+  /**
+   * Posted auto-reversing entries that have not been reversed yet, next due first. Entries
+   * the runner could not reverse carry the error from its last attempt.
+   */
+  async getPendingReversals(companyId: string) {
+    const entries = await prisma.journalEntry.findMany({
+      where: { companyId, ...this.pendingReversalWhere() },
+      include: {
+        lines: {
+          include: {
+            account: {
+              select: { id: true, code: true, name: true, type: true },
+            },
+          },
+        },
+        createdBy: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: [{ autoReverseDate: 'asc' }, { entryNumber: 'asc' }],
+    });
+
+    return entries.map((entry) => this.formatJournalEntry(entry));
+  }
+
+  /**
+   * Reverse every auto-reversing entry that has come due, for one company or all of
+   * them. Reversals are dated on the reversal date and made on behalf of the entry's
+   * author; an entry that cannot be reversed yet is retried on the next run, and the
+   * failure is recorded on it.
+   */
+  async runDueReversals(companyId?: string, asOf: Date = new Date(formatDateISO(new Date()))) {
+    const entries = await prisma.journalEntry.findMany({
+      where: {
+        ...(companyId && { companyId }),
+        ...this.pendingReversalWhere(),
+        autoReverseDate: { lte: asOf },
+      },
+      orderBy: { autoReverseDate: 'asc' },
+    });
+
+    const summary = { reversed: 0, failed: 0 };
+
+    for (const entry of entries) {
+      const context = { userId: entry.createdById, userAgent: 'Auto-reversal' };
+
+      try {
+        await runWithAuditContext(context, () =>
+          this.reverseJournalEntry(entry.companyId, entry.createdById, entry.id, entry.autoReverseDate!)
+        );
+        summary.reversed++;
+
+        if (entry.lastReversalError) {
+          await prisma.journalEntry.update({
+            where: { id: entry.id },
+            data: { lastReversalError: null, lastReversalAttemptAt: new Date() },
+          });
+        }
+      } catch (error) {
+        console.error(`❌ Auto-reversal of journal entry ${entry.id} failed:`, error);
+        summary.failed++;
+
+        await prisma.journalEntry.update({
+          where: { id: entry.id },
+          data: {
+            lastReversalError: error instanceof Error ? error.message : String(error),
+            lastReversalAttemptAt: new Date(),
+          },
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Entries submitted for approval, oldest first
+   */
+  async getPendingApprovals(companyId: string) {
+    const entries = await prisma.journalEntry.findMany({
+      where: { companyId, approvalStatus: JournalApprovalStatus.PENDING },
+      include: {
+        lines: {
+          include: {
+            account: {
+              select: { id: true, code: true, name: true, type: true },
+            },
+          },
+        },
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        comments: {
+          include: { user: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { entryNumber: 'asc' }],
+    });
+
+    return entries.map((entry) => this.formatJournalEntry(entry));
+  }
+
+  /**
+   * Submit a draft or rejected entry for approval
+   */
+  async submitForApproval(companyId: string, userId: string, entryId: string, comment?: string) {
+    const entry = await this.findManualEntry(companyId, entryId);
+
+    if (!this.isAwaitingApproval(entry) || entry.approvalStatus === JournalApprovalStatus.PENDING) {
+      throw new BadRequestError('Only draft or rejected entries can be submitted for approval');
+    }
+
+    await prisma.journalEntry.update({
+      where: { id: entryId },
+      data: { approvalStatus: JournalApprovalStatus.PENDING },
+    });
+
+    await this.addComment(entryId, userId, JournalApprovalAction.SUBMIT, comment);
+
+    return this.getJournalEntry(companyId, entryId);
+  }
+
+  /**
+   * Approve a pending entry, posting it to the ledger
+   */
+  async approveJournalEntry(companyId: string, userId: string, entryId: string, comment?: string) {
+    const entry = await this.findPendingEntry(companyId, entryId);
+
+    if (entry.createdById === userId) {
+      throw new ForbiddenError('Entries must be approved by someone other than their author');
+    }
+
+    await prisma.journalEntry.update({
+      where: { id: entryId },
+      data: {
+        isPosted: true,
+        approvalStatus: JournalApprovalStatus.APPROVED,
+        approvedById: userId,
+        approvedAt: new Date(),
+      },
+    });
+
+    await this.addComment(entryId, userId, JournalApprovalAction.APPROVE, comment);
+
+    return this.getJournalEntry(companyId, entryId);
+  }
+
+  /**
+   * Reject a pending entry, returning it to its author to correct and resubmit
+   */
+  async rejectJournalEntry(companyId: string, userId: string, entryId: string, comment: string) {
+    await this.findPendingEntry(companyId, entryId);
+
+    await prisma.journalEntry.update({
+      where: { id: entryId },
+      data: { approvalStatus: JournalApprovalStatus.REJECTED },
+    });
+
+    await this.addComment(entryId, userId, JournalApprovalAction.REJECT, comment);
+
+    return this.getJournalEntry(companyId, entryId);
+  }
+
   /**
    * Get general ledger for an account
    */
@@ -486,6 +779,111 @@ export class JournalService {
     }
   }
 
+  /**
+   * Members need approval for entries above the company's threshold, when one is set
+   */
+  private async requiresApproval(companyId: string, role: UserRole, lines: JournalLineInput[]) {
+    if (role !== UserRole.MEMBER) {
+      return false;
+    }
+
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: { settings: true },
+    });
+
+    const threshold = (company?.settings as Record<string, any>)?.journalApprovalThreshold;
+
+    if (typeof threshold !== 'number') {
+      return false;
+    }
+
+    const total = lines.reduce((sum, line) => sum + (line.debit || 0), 0);
+    return total > threshold;
+  }
+
+  /**
+   * Reversal date for an auto-reversing entry, by default the first day of the next month
+   */
+  private reversalDate(entryDate: Date, reversalDate?: Date | string) {
+    let date: Date;
+
+    if (reversalDate) {
+      date = new Date(formatDateISO(new Date(reversalDate)));
+    } else {
+      date = new Date(Date.UTC(entryDate.getUTCFullYear(), entryDate.getUTCMonth() + 1, 1));
+    }
+
+    if (formatDateISO(date) <= formatDateISO(entryDate)) {
+      throw new BadRequestError('Reversal date must be after the entry date');
+    }
+
+    return date;
+  }
+
+  // Every reversal counts, so voiding an automatic reversal does not bring it back
+  private pendingReversalWhere(): Prisma.JournalEntryWhereInput {
+    return {
+      isPosted: true,
+      autoReverseDate: { not: null },
+      reversingEntries: { none: {} },
+    };
+  }
+
+  private isAwaitingApproval(entry: { approvalStatus: JournalApprovalStatus }) {
+    return (
+      entry.approvalStatus === JournalApprovalStatus.DRAFT ||
+      entry.approvalStatus === JournalApprovalStatus.PENDING ||
+      entry.approvalStatus === JournalApprovalStatus.REJECTED
+    );
+  }
+
+  private async findManualEntry(companyId: string, entryId: string) {
+    const entry = await prisma.journalEntry.findFirst({
+      where: { id: entryId, companyId, source: JournalSource.MANUAL },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('Journal entry not found');
+    }
+
+    return entry;
+  }
+
+  private async findPendingEntry(companyId: string, entryId: string) {
+    const entry = await this.findManualEntry(companyId, entryId);
+
+    if (entry.approvalStatus !== JournalApprovalStatus.PENDING) {
+      throw new BadRequestError('Entry is not awaiting approval');
+    }
+
+    return entry;
+  }
+
+  private async addComment(
+    journalEntryId: string,
+    userId: string,
+    action: JournalApprovalAction,
+    comment?: string
+  ) {
+    await prisma.journalEntryComment.create({
+      data: { journalEntryId, userId, action, comment },
+    });
+  }
+
+  /**
+   * Entries cleared against a bank statement cannot change until the reconciliation is undone
+   */
+  private async assertNotCleared(entryId: string) {
+    const clearedLines = await prisma.journalLine.count({
+      where: { journalEntryId: entryId, isCleared: true },
+    });
+
+    if (clearedLines > 0) {
+      throw new BadRequestError('Entry has lines cleared in a bank reconciliation');
+    }
+  }
+
   /**
    * Format journal entry for response
    */
@@ -496,6 +894,11 @@ export class JournalService {
         ...line,
         debit: decimalToNumber(line.debit),
         credit: decimalToNumber(line.credit),
+        ...(line.currency && {
+          exchangeRate: decimalToNumber(line.exchangeRate),
+          foreignDebit: decimalToNumber(line.foreignDebit),
+          foreignCredit: decimalToNumber(line.foreignCredit),
+        }),
       })),
     };
   }
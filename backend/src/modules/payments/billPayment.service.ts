@@ -2,11 +2,13 @@ import { prisma } from '../../config/database';
 import { JournalSource, AccountSubType, BillStatus, Prisma } from '@prisma/client';
 import { NotFoundError, BadRequestError } from '../../utils/errors';
 import { CreateBillPaymentInput, BillPaymentQuery, BillPaymentAllocationInput } from './billPayment.schema';
-import { decimalToNumber } from '../../utils/helpers';
+import { decimalToNumber, round } from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
 import { journalService } from '../journal/journal.service';
 import { accountService } from '../accounts/account.service';
 import { billService } from '../bills/bill.service';
+import { periodService } from '../periods/period.service';
+import { currencyService } from '../currency/currency.service';
 
 export class BillPaymentService {
   /**
@@ -95,9 +97,21 @@ export class BillPaymentService {
       throw new NotFoundError('Vendor not found');
     }
 
-    if (input.allocations && input.allocations.length > 0) {
-      await this.validateAllocations(companyId, input.vendorId, input.amount, input.allocations);
-    }
+    const billRates =
+      input.allocations && input.allocations.length > 0
+        ? await this.validateAllocations(
+            companyId,
+            input.vendorId,
+            vendor.currency,
+            input.amount,
+            input.allocations
+          )
+        : new Map<string, number>();
+
+    // Payments are made in the vendor's currency
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const isForeign = vendor.currency !== baseCurrency;
+    const exchangeRate = await currencyService.getRate(companyId, vendor.currency, input.date);
 
     const paymentNumber = await this.generatePaymentNumber(companyId);
 
@@ -109,6 +123,7 @@ export class BillPaymentService {
 
     // Determine payment account
     let paymentAccountId: string;
+    let paidInForeign = false;
     if (input.bankAccountId) {
       const bankAccount = await prisma.bankAccount.findUnique({
         where: { id: input.bankAccountId },
@@ -116,7 +131,15 @@ export class BillPaymentService {
       if (!bankAccount) {
         throw new NotFoundError('Bank account not found');
       }
+      if (bankAccount.currency !== vendor.currency && bankAccount.currency !== baseCurrency) {
+        throw new BadRequestError(
+          `Bank account is in ${bankAccount.currency} but the payment is in ${vendor.currency}`
+        );
+      }
       paymentAccountId = bankAccount.accountId;
+      paidInForeign = isForeign && bankAccount.currency === vendor.currency;
+    } else if (isForeign) {
+      throw new BadRequestError('Foreign currency payments must be made from a bank account');
     } else {
       // Use cash account
       const cashAccount = await accountService.getSystemAccount(
@@ -126,6 +149,8 @@ export class BillPaymentService {
       paymentAccountId = cashAccount.id;
     }
 
+    await periodService.assertOpen(companyId, input.date);
+
     // Create payment
     const payment = await prisma.billPayment.create({
       data: {
@@ -139,6 +164,8 @@ export class BillPaymentService {
         checkNumber: input.checkNumber,
         reference: input.reference,
         memo: input.memo,
+        currency: vendor.currency,
+        exchangeRate,
         allocations: input.allocations
           ? {
               create: input.allocations.map((alloc) => ({
@@ -158,28 +185,49 @@ export class BillPaymentService {
       },
     });
 
-    // Create journal entry
-    await journalService.createFromTransaction(companyId, userId, {
-      date: new Date(input.date),
-      memo: `Payment to ${vendor.name}`,
-      reference: paymentNumber,
-      source: JournalSource.BILL_PAYMENT,
-      sourceId: payment.id,
-      lines: [
+    // AP is relieved at each bill's rate and the cash goes out at today's rate;
+    // any difference is a realized exchange gain or loss
+    const foreignAmounts = (foreignDebit: number, foreignCredit: number) =>
+      isForeign ? { currency: vendor.currency, exchangeRate, foreignDebit, foreignCredit } : {};
+
+    const allocated = (input.allocations ?? []).reduce((sum, alloc) => sum + alloc.amount, 0);
+    const apDebit = round(
+      (input.allocations ?? []).reduce(
+        (sum, alloc) => sum + round(alloc.amount * billRates.get(alloc.billId)!),
+        0
+      ) + round((input.amount - allocated) * exchangeRate)
+    );
+
+    const lines = await currencyService.addFxGainLoss(
+      companyId,
+      [
         {
           accountId: apAccount.id,
-          debit: input.amount,
+          debit: apDebit,
           credit: 0,
           vendorId: input.vendorId,
           memo: `Payment to vendor`,
+          ...foreignAmounts(input.amount, 0),
         },
         {
           accountId: paymentAccountId,
           debit: 0,
-          credit: input.amount,
+          credit: round(input.amount * exchangeRate),
           memo: `Payment to vendor`,
+          ...(paidInForeign ? foreignAmounts(0, input.amount) : {}),
         },
       ],
+      'Exchange gain/loss on payment'
+    );
+
+    // Create journal entry
+    await journalService.createFromTransaction(companyId, userId, {
+      date: new Date(input.date),
+      memo: `Payment to ${vendor.name}`,
+      reference: paymentNumber,
+      source: JournalSource.BILL_PAYMENT,
+      sourceId: payment.id,
+      lines,
     });
 
     // Apply payment to bills
@@ -205,6 +253,10 @@ export class BillPaymentService {
       throw new NotFoundError('Payment not found');
     }
 
+    await periodService.assertOpen(companyId, payment.date);
+
+    await journalService.assertSourceNotCleared(companyId, JournalSource.BILL_PAYMENT, payment.id);
+
     // Reverse bill allocations
     for (const alloc of payment.allocations) {
       await billService.applyPayment(alloc.billId, -decimalToNumber(alloc.amount));
@@ -227,14 +279,16 @@ export class BillPaymentService {
   }
 
   /**
-   * Validate payment allocations
+   * Validate payment allocations, returning each bill's exchange rate
    */
   private async validateAllocations(
     companyId: string,
     vendorId: string,
+    currency: string,
     totalAmount: number,
     allocations: BillPaymentAllocationInput[]
   ) {
+    const rates = new Map<string, number>();
     let allocatedAmount = 0;
 
     for (const alloc of allocations) {
@@ -251,6 +305,10 @@ export class BillPaymentService {
         throw new BadRequestError('Invalid bill for allocation');
       }
 
+      if (bill.currency !== currency) {
+        throw new BadRequestError(`Bill ${bill.billNumber} is not in ${currency}`);
+      }
+
       const amountDue = decimalToNumber(bill.amountDue);
       if (alloc.amount > amountDue) {
         throw new BadRequestError(
@@ -259,6 +317,7 @@ export class BillPaymentService {
       }
 
       allocatedAmount += alloc.amount;
+      rates.set(bill.id, decimalToNumber(bill.exchangeRate));
     }
 
     if (allocatedAmount > totalAmount) {
@@ -266,6 +325,8 @@ export class BillPaymentService {
         `Total allocations (${allocatedAmount}) exceed payment amount (${totalAmount})`
       );
     }
+
+    return rates;
   }
 
   /**
@@ -294,6 +355,7 @@ export class BillPaymentService {
     return {
       ...payment,
       amount: decimalToNumber(payment.amount),
+      exchangeRate: decimalToNumber(payment.exchangeRate),
       allocations: payment.allocations?.map((alloc: any) => ({
         ...alloc,
         amount: decimalToNumber(alloc.amount),
@@ -7,6 +7,9 @@ import { getPagination } from '../../middleware/validate';
 import { journalService } from '../journal/journal.service';
 import { accountService } from '../accounts/account.service';
 import { invoiceService } from '../invoices/invoice.service';
+import { periodService } from '../periods/period.service';
+import { currencyService } from '../currency/currency.service';
+import { creditMemoService } from '../credits/creditMemo.service';
 
 export class CustomerPaymentService {
   /**
@@ -36,6 +39,7 @@ export class CustomerPaymentService {
               invoice: { select: { id: true, invoiceNumber: true } },
             },
           },
+          creditMemo: { select: { id: true, creditMemoNumber: true, total: true, amountRemaining: true } },
         },
         orderBy: { date: 'desc' },
         skip,
@@ -72,6 +76,7 @@ export class CustomerPaymentService {
             },
           },
         },
+        creditMemo: { select: { id: true, creditMemoNumber: true, total: true, amountRemaining: true } },
       },
     });
 
@@ -95,10 +100,22 @@ export class CustomerPaymentService {
       throw new NotFoundError('Customer not found');
     }
 
-    // Validate allocations
-    if (input.allocations && input.allocations.length > 0) {
-      await this.validateAllocations(companyId, input.customerId, input.amount, input.allocations);
-    }
+    // Validate allocations; anything beyond the invoice balances is kept as credit
+    const { allocations, rates: invoiceRates } =
+      input.allocations && input.allocations.length > 0
+        ? await this.validateAllocations(
+            companyId,
+            input.customerId,
+            customer.currency,
+            input.amount,
+            input.allocations
+          )
+        : { allocations: [], rates: new Map<string, number>() };
+
+    // Payments are received in the customer's currency
+    const baseCurrency = await currencyService.getBaseCurrency(companyId);
+    const isForeign = customer.currency !== baseCurrency;
+    const exchangeRate = await currencyService.getRate(companyId, customer.currency, input.date);
 
     // Generate payment number
     const paymentNumber = await this.generatePaymentNumber(companyId);
@@ -111,6 +128,7 @@ export class CustomerPaymentService {
 
     // Determine deposit account
     let depositAccountId: string;
+    let depositInForeign = false;
     if (input.bankAccountId) {
       const bankAccount = await prisma.bankAccount.findUnique({
         where: { id: input.bankAccountId },
@@ -118,7 +136,15 @@ export class CustomerPaymentService {
       if (!bankAccount) {
         throw new NotFoundError('Bank account not found');
       }
+      if (bankAccount.currency !== customer.currency && bankAccount.currency !== baseCurrency) {
+        throw new BadRequestError(
+          `Bank account is in ${bankAccount.currency} but the payment is in ${customer.currency}`
+        );
+      }
       depositAccountId = bankAccount.accountId;
+      depositInForeign = isForeign && bankAccount.currency === customer.currency;
+    } else if (isForeign) {
+      throw new BadRequestError('Foreign currency payments must be deposited to a bank account');
     } else {
       // Use undeposited funds
       const undepositedAccount = await accountService.getSystemAccount(
@@ -128,6 +154,8 @@ export class CustomerPaymentService {
       depositAccountId = undepositedAccount.id;
     }
 
+    await periodService.assertOpen(companyId, input.date);
+
     // Create payment
     const payment = await prisma.customerPayment.create({
       data: {
@@ -140,9 +168,11 @@ export class CustomerPaymentService {
         reference: input.reference,
         memo: input.memo,
         bankAccountId: input.bankAccountId,
-        allocations: input.allocations
+        currency: customer.currency,
+        exchangeRate,
+        allocations: allocations.length
           ? {
-              create: input.allocations.map((alloc) => ({
+              create: allocations.map((alloc) => ({
                 invoiceId: alloc.invoiceId,
                 amount: alloc.amount,
               })),
@@ -159,38 +189,64 @@ export class CustomerPaymentService {
       },
     });
 
-    // Create journal entry
-    await journalService.createFromTransaction(companyId, userId, {
-      date: new Date(input.date),
-      memo: `Payment from ${customer.name}`,
-      reference: paymentNumber,
-      source: JournalSource.CUSTOMER_PAYMENT,
-      sourceId: payment.id,
-      lines: [
+    // AR is relieved at each invoice's rate and the cash comes in at today's rate;
+    // any difference is a realized exchange gain or loss
+    const foreignAmounts = (foreignDebit: number, foreignCredit: number) =>
+      isForeign ? { currency: customer.currency, exchangeRate, foreignDebit, foreignCredit } : {};
+
+    const allocated = round(allocations.reduce((sum, alloc) => sum + alloc.amount, 0));
+    const arCredit = round(
+      allocations.reduce(
+        (sum, alloc) => sum + round(alloc.amount * invoiceRates.get(alloc.invoiceId)!),
+        0
+      ) + round((input.amount - allocated) * exchangeRate)
+    );
+
+    const lines = await currencyService.addFxGainLoss(
+      companyId,
+      [
         {
           accountId: depositAccountId,
-          debit: input.amount,
+          debit: round(input.amount * exchangeRate),
           credit: 0,
           memo: `Payment received`,
+          ...(depositInForeign ? foreignAmounts(input.amount, 0) : {}),
         },
         {
           accountId: arAccount.id,
           debit: 0,
-          credit: input.amount,
+          credit: arCredit,
           customerId: input.customerId,
           memo: `Payment received`,
+          ...foreignAmounts(0, input.amount),
         },
       ],
+      'Exchange gain/loss on payment'
+    );
+
+    // Create journal entry
+    await journalService.createFromTransaction(companyId, userId, {
+      date: new Date(input.date),
+      memo: `Payment from ${customer.name}`,
+      reference: paymentNumber,
+      source: JournalSource.CUSTOMER_PAYMENT,
+      sourceId: payment.id,
+      lines,
     });
 
     // Apply payment to invoices
-    if (input.allocations) {
-      for (const alloc of input.allocations) {
-        await invoiceService.applyPayment(alloc.invoiceId, alloc.amount);
-      }
+    for (const alloc of allocations) {
+      await invoiceService.applyPayment(alloc.invoiceId, alloc.amount);
     }
 
-    return this.formatPayment(payment);
+    // The unapplied rest stays with the customer as credit
+    const unapplied = round(input.amount - allocated);
+    const creditMemo =
+      unapplied > 0
+        ? await creditMemoService.createFromOverpayment(companyId, payment, unapplied)
+        : null;
+
+    return this.formatPayment({ ...payment, creditMemo });
   }
 
   /**
@@ -206,6 +262,17 @@ export class CustomerPaymentService {
       throw new NotFoundError('Payment not found');
     }
 
+    if (payment.depositId) {
+      throw new BadRequestError('Payment has been deposited; delete the deposit first');
+    }
+
+    await periodService.assertOpen(companyId, payment.date);
+
+    await journalService.assertSourceNotCleared(companyId, JournalSource.CUSTOMER_PAYMENT, payment.id);
+
+    // Fails if the overpayment credit has been used
+    await creditMemoService.deleteOverpaymentCredit(payment.id);
+
     // Reverse invoice allocations
     for (const alloc of payment.allocations) {
       await invoiceService.applyPayment(alloc.invoiceId, -decimalToNumber(alloc.amount));
@@ -228,16 +295,25 @@ export class CustomerPaymentService {
   }
 
   /**
-   * Validate payment allocations
+   * Validate payment allocations, returning them capped at each invoice's balance
+   * along with each invoice's exchange rate
    */
   private async validateAllocations(
     companyId: string,
     customerId: string,
+    currency: string,
     totalAmount: number,
     allocations: PaymentAllocationInput[]
   ) {
+    const rates = new Map<string, number>();
+    const capped: PaymentAllocationInput[] = [];
     let allocatedAmount = 0;
 
+    const invoiceIds = allocations.map((alloc) => alloc.invoiceId);
+    if (new Set(invoiceIds).size !== invoiceIds.length) {
+      throw new BadRequestError('Each invoice can only be listed once');
+    }
+
     for (const alloc of allocations) {
       const invoice = await prisma.invoice.findFirst({
         where: {
@@ -252,14 +328,16 @@ export class CustomerPaymentService {
         throw new BadRequestError('Invalid invoice for allocation');
       }
 
-      const amountDue = decimalToNumber(invoice.amountDue);
-      if (alloc.amount > amountDue) {
-        throw new BadRequestError(
-          `Allocation amount (${alloc.amount}) exceeds invoice balance (${amountDue})`
-        );
+      if (invoice.currency !== currency) {
+        throw new BadRequestError(`Invoice ${invoice.invoiceNumber} is not in ${currency}`);
       }
 
-      allocatedAmount += alloc.amount;
+      allocatedAmount = round(allocatedAmount + alloc.amount);
+      capped.push({
+        invoiceId: invoice.id,
+        amount: Math.min(alloc.amount, decimalToNumber(invoice.amountDue)),
+      });
+      rates.set(invoice.id, decimalToNumber(invoice.exchangeRate));
     }
 
     if (allocatedAmount > totalAmount) {
@@ -267,6 +345,8 @@ export class CustomerPaymentService {
         `Total allocations (${allocatedAmount}) exceed payment amount (${totalAmount})`
       );
     }
+
+    return { allocations: capped, rates };
   }
 
   /**
@@ -302,6 +382,7 @@ export class CustomerPaymentService {
     return {
       ...payment,
       amount: decimalToNumber(payment.amount),
+      exchangeRate: decimalToNumber(payment.exchangeRate),
       allocations: payment.allocations?.map((alloc: any) => ({
         ...alloc,
         amount: decimalToNumber(alloc.amount),
@@ -315,6 +396,13 @@ export class CustomerPaymentService {
             }
           : undefined,
       })),
+      creditMemo: payment.creditMemo
+        ? {
+            ...payment.creditMemo,
+            total: decimalToNumber(payment.creditMemo.total),
+            amountRemaining: decimalToNumber(payment.creditMemo.amountRemaining),
+          }
+        : payment.creditMemo,
     };
   }
 }
@@ -0,0 +1,23 @@
+import { Response } from 'express';
+import { periodService } from './period.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated } from '../../utils/response';
+
+export class PeriodController {
+  async getClosingDate(req: AuthenticatedRequest, res: Response) {
+    const settings = await periodService.getClosingDate(req.companyId!);
+    return sendSuccess(res, settings);
+  }
+
+  async updateClosingDate(req: AuthenticatedRequest, res: Response) {
+    const settings = await periodService.updateClosingDate(req.companyId!, req.body);
+    return sendSuccess(res, settings, 'Closing date updated successfully');
+  }
+
+  async closeYear(req: AuthenticatedRequest, res: Response) {
+    const entry = await periodService.closeYear(req.companyId!, req.user!.id, req.body);
+    return sendCreated(res, entry, 'Fiscal year closed successfully');
+  }
+}
+
+export const periodController = new PeriodController();
@@ -0,0 +1,117 @@
+import bcrypt from 'bcryptjs';
+import { Prisma, UserRole } from '@prisma/client';
+import { ForbiddenError } from '../../utils/errors';
+import { formatDateISO } from '../../utils/helpers';
+import { getAuditContext } from '../audit/audit.extension';
+
+// Journal entry fields that change what is posted to the ledger
+const POSTING_FIELDS = ['companyId', 'date', 'isPosted', 'lines'];
+
+let client: Prisma.DefaultPrismaClient;
+
+/**
+ * Refuse a ledger change dated on or before the company's closing date, unless an owner
+ * or admin sent the closing date password with the request
+ */
+export async function assertPeriodOpen(companyId: string, dates: (Date | string)[]) {
+  if (dates.length === 0) return;
+
+  const company = await client.company.findUnique({
+    where: { id: companyId },
+    select: { closingDate: true, closingDatePasswordHash: true },
+  });
+
+  if (!company?.closingDate) return;
+
+  const closingDate = formatDateISO(company.closingDate);
+  const closed = dates.some((date) => formatDateISO(new Date(date)) <= closingDate);
+
+  if (!closed || (await canOverride(companyId, company.closingDatePasswordHash))) return;
+
+  throw new ForbiddenError(`The books are closed through ${closingDate}`);
+}
+
+async function canOverride(companyId: string, passwordHash: string | null) {
+  const context = getAuditContext();
+  if (!passwordHash || !context?.closingDatePassword) return false;
+
+  const companyUser = await client.companyUser.findUnique({
+    where: { companyId_userId: { companyId, userId: context.userId } },
+    select: { role: true },
+  });
+
+  if (companyUser?.role !== UserRole.OWNER && companyUser?.role !== UserRole.ADMIN) {
+    return false;
+  }
+
+  return bcrypt.compare(context.closingDatePassword, passwordHash);
+}
+
+const touchesLedger = (data: object) => POSTING_FIELDS.some((field) => field in data);
+
+const newDate = (data: { date?: unknown }): (Date | string)[] =>
+  data.date instanceof Date || typeof data.date === 'string' ? [data.date] : [];
+
+/**
+ * Checks every journal entry write against the closing date, so no code path can post
+ * into a closed period. Entries are checked at both their old and new dates; unposted
+ * drafts are only checked once they are posted.
+ */
+export const closingDateExtension = Prisma.defineExtension((base) => {
+  client = base as unknown as Prisma.DefaultPrismaClient;
+
+  const assertEntriesOpen = async (
+    where: Prisma.JournalEntryWhereInput,
+    data: { date?: unknown; isPosted?: unknown } = {}
+  ) => {
+    const entries = await client.journalEntry.findMany({
+      where,
+      select: { companyId: true, date: true, isPosted: true },
+    });
+
+    for (const entry of entries) {
+      if (entry.isPosted || data.isPosted === true) {
+        await assertPeriodOpen(entry.companyId, [entry.date, ...newDate(data)]);
+      }
+    }
+  };
+
+  return base.$extends({
+    name: 'closingDate',
+    query: {
+      journalEntry: {
+        async create({ args, query }) {
+          const data = args.data as Prisma.JournalEntryUncheckedCreateInput;
+          if (data.isPosted !== false) {
+            await assertPeriodOpen(data.companyId, [data.date]);
+          }
+          return query(args);
+        },
+
+        async update({ args, query }) {
+          if (touchesLedger(args.data)) {
+            await assertEntriesOpen(args.where, args.data);
+          }
+          return query(args);
+        },
+
+        async updateMany({ args, query }) {
+          if (touchesLedger(args.data)) {
+            await assertEntriesOpen(args.where ?? {}, args.data);
+          }
+          return query(args);
+        },
+
+        async delete({ args, query }) {
+          await assertEntriesOpen(args.where);
+          return query(args);
+        },
+
+        async deleteMany({ args, query }) {
+          await assertEntriesOpen(args.where ?? {});
+          return query(args);
+        },
+      },
+    },
+  });
+});
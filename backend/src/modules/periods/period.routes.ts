@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { periodController } from './period.controller';
+import { validate } from '../../middleware/validate';
+import { authenticate, requireCompany, requireAdmin } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { updateClosingDateSchema, yearEndCloseSchema } from './period.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/closing-date',
+  asyncHandler(periodController.getClosingDate.bind(periodController))
+);
+
+router.put(
+  '/closing-date',
+  requireAdmin,
+  validate({ body: updateClosingDateSchema }),
+  asyncHandler(periodController.updateClosingDate.bind(periodController))
+);
+
+router.post(
+  '/year-end-close',
+  requireAdmin,
+  validate({ body: yearEndCloseSchema }),
+  asyncHandler(periodController.closeYear.bind(periodController))
+);
+
+export default router;
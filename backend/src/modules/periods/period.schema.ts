@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const updateClosingDateSchema = z.object({
+  closingDate: z.string().datetime().nullable(), // Null reopens every period
+  password: z.string().min(8).max(100).nullable().optional(), // Null removes the override
+});
+
+export const yearEndCloseSchema = z.object({
+  fiscalYearEnd: z.string().datetime(),
+  lockPeriod: z.boolean().default(false), // Also move the closing date to the year end
+});
+
+export type UpdateClosingDateInput = z.infer<typeof updateClosingDateSchema>;
+export type YearEndCloseInput = z.infer<typeof yearEndCloseSchema>;
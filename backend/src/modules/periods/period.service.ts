@@ -0,0 +1,153 @@
+import bcrypt from 'bcryptjs';
+import { prisma } from '../../config/database';
+import { AccountSubType, AccountType, JournalSource } from '@prisma/client';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
+import { addDays, decimalToNumber, formatDateISO, round } from '../../utils/helpers';
+import { UpdateClosingDateInput, YearEndCloseInput } from './period.schema';
+import { assertPeriodOpen } from './period.extension';
+import { accountService } from '../accounts/account.service';
+import { journalService } from '../journal/journal.service';
+import { JournalLineInput } from '../journal/journal.schema';
+
+export class PeriodService {
+  private static readonly SALT_ROUNDS = 12;
+
+  /**
+   * Get the closing date, without exposing the override password
+   */
+  async getClosingDate(companyId: string) {
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: { closingDate: true, closingDatePasswordHash: true },
+    });
+
+    if (!company) {
+      throw new NotFoundError('Company not found');
+    }
+
+    return {
+      closingDate: company.closingDate,
+      hasPassword: company.closingDatePasswordHash !== null,
+    };
+  }
+
+  /**
+   * Set or clear the closing date and its override password
+   */
+  async updateClosingDate(companyId: string, input: UpdateClosingDateInput) {
+    const data: { closingDate: Date | null; closingDatePasswordHash?: string | null } = {
+      closingDate: input.closingDate ? new Date(input.closingDate) : null,
+    };
+
+    if (input.password !== undefined) {
+      data.closingDatePasswordHash = input.password
+        ? await bcrypt.hash(input.password, PeriodService.SALT_ROUNDS)
+        : null;
+    }
+
+    await prisma.company.update({ where: { id: companyId }, data });
+
+    return this.getClosingDate(companyId);
+  }
+
+  /**
+   * Refuse a document dated in a closed period before any of its records are written.
+   * Journal entries are checked again when they are posted.
+   */
+  async assertOpen(companyId: string, ...dates: (Date | string)[]) {
+    await assertPeriodOpen(companyId, dates);
+  }
+
+  /**
+   * Close a fiscal year: zero out every revenue and expense account with a closing
+   * entry on the last day of the year, moving net income into Retained Earnings.
+   * Closing a year again sweeps only what was posted to it after the last close.
+   */
+  async closeYear(companyId: string, userId: string, input: YearEndCloseInput) {
+    const company = await prisma.company.findUnique({ where: { id: companyId } });
+
+    if (!company) {
+      throw new NotFoundError('Company not found');
+    }
+
+    const yearEnd = new Date(formatDateISO(new Date(input.fiscalYearEnd)));
+    const nextYearStart = addDays(yearEnd, 1);
+
+    if (
+      nextYearStart.getUTCDate() !== 1 ||
+      nextYearStart.getUTCMonth() + 1 !== company.fiscalYearStart
+    ) {
+      throw new BadRequestError("Date is not the last day of the company's fiscal year");
+    }
+
+    const yearStart = new Date(nextYearStart);
+    yearStart.setUTCFullYear(yearStart.getUTCFullYear() - 1);
+
+    // Earlier closing entries count, so closing again only sweeps entries posted since
+    const totals = await prisma.journalLine.groupBy({
+      by: ['accountId'],
+      where: {
+        account: { companyId, type: { in: [AccountType.REVENUE, AccountType.EXPENSE] } },
+        journalEntry: { isPosted: true, date: { gte: yearStart, lte: yearEnd } },
+      },
+      _sum: { debit: true, credit: true },
+    });
+
+    const memo = `Year-end close ${formatDateISO(yearEnd)}`;
+    const lines: JournalLineInput[] = [];
+    let netIncome = 0;
+
+    // Post the opposite of each account's balance so it ends the year at zero
+    for (const total of totals) {
+      const balance = round(decimalToNumber(total._sum.credit) - decimalToNumber(total._sum.debit));
+      if (balance === 0) continue;
+
+      netIncome += balance;
+      lines.push({
+        accountId: total.accountId,
+        debit: balance > 0 ? balance : 0,
+        credit: balance < 0 ? -balance : 0,
+        memo,
+      });
+    }
+
+    if (lines.length === 0) {
+      throw new ConflictError(`Nothing left to close for the year ending ${formatDateISO(yearEnd)}`);
+    }
+
+    netIncome = round(netIncome);
+
+    if (netIncome !== 0) {
+      const retainedEarnings = await accountService.getSystemAccount(
+        companyId,
+        AccountSubType.RETAINED_EARNINGS
+      );
+
+      lines.push({
+        accountId: retainedEarnings.id,
+        debit: netIncome < 0 ? -netIncome : 0,
+        credit: netIncome > 0 ? netIncome : 0,
+        memo,
+      });
+    }
+
+    const entry = await journalService.createFromTransaction(companyId, userId, {
+      date: yearEnd,
+      memo,
+      source: JournalSource.CLOSING,
+      sourceId: companyId,
+      lines,
+    });
+
+    if (input.lockPeriod && (!company.closingDate || company.closingDate < yearEnd)) {
+      await prisma.company.update({
+        where: { id: companyId },
+        data: { closingDate: yearEnd },
+      });
+    }
+
+    return journalService.getJournalEntry(companyId, entry.id);
+  }
+}
+
+export const periodService = new PeriodService();
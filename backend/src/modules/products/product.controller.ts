@@ -0,0 +1,47 @@
+import { Response } from 'express';
+import { productService } from './product.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
+
+export class ProductController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await productService.getProducts(req.companyId!, req.query as any);
+    return sendPaginated(res, result.products, result.pagination);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const product = await productService.getProduct(req.companyId!, req.params.id);
+    return sendSuccess(res, product);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const product = await productService.createProduct(req.companyId!, req.body);
+    return sendCreated(res, product, 'Product created successfully');
+  }
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const product = await productService.updateProduct(
+      req.companyId!,
+      req.params.id,
+      req.body
+    );
+    return sendSuccess(res, product, 'Product updated successfully');
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response) {
+    await productService.deactivateProduct(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+
+  async activate(req: AuthenticatedRequest, res: Response) {
+    const product = await productService.activateProduct(req.companyId!, req.params.id);
+    return sendSuccess(res, product, 'Product activated successfully');
+  }
+
+  async import(req: AuthenticatedRequest, res: Response) {
+    const result = await productService.importProducts(req.companyId!, req.body);
+    return sendSuccess(res, result, 'Products imported successfully');
+  }
+}
+
+export const productController = new ProductController();
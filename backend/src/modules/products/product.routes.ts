@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { productController } from './product.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  createProductSchema,
+  updateProductSchema,
+  productQuerySchema,
+  importProductsSchema,
+} from './product.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: productQuerySchema }),
+  asyncHandler(productController.list.bind(productController))
+);
+
+router.post(
+  '/import',
+  requireWriteAccess,
+  validate({ body: importProductsSchema }),
+  asyncHandler(productController.import.bind(productController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(productController.get.bind(productController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createProductSchema }),
+  asyncHandler(productController.create.bind(productController))
+);
+
+router.put(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: updateProductSchema }),
+  asyncHandler(productController.update.bind(productController))
+);
+
+router.post(
+  '/:id/activate',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(productController.activate.bind(productController))
+);
+
+router.delete(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(productController.delete.bind(productController))
+);
+
+export default router;
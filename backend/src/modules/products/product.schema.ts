@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { ProductType } from '@prisma/client';
+
+export const createProductSchema = z.object({
+  sku: z.string().min(1).max(50).optional(),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional().nullable(),
+  type: z.nativeEnum(ProductType).default(ProductType.SERVICE),
+  salePrice: z.number().min(0).optional().nullable(),
+  purchasePrice: z.number().min(0).optional().nullable(),
+  incomeAccountId: z.string().uuid().optional().nullable(),
+  expenseAccountId: z.string().uuid().optional().nullable(),
+  assetAccountId: z.string().uuid().optional().nullable(),
+  taxRateId: z.string().uuid().optional().nullable(),
+  taxable: z.boolean().default(true),
+});
+
+export const updateProductSchema = createProductSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const productQuerySchema = z.object({
+  search: z.string().optional(),
+  type: z.nativeEnum(ProductType).optional(),
+  isActive: z.string().transform((v) => v === 'true').optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export const importProductsSchema = z.object({
+  data: z.string().min(1), // Base64 encoded file or raw CSV
+  updateExisting: z.boolean().default(true), // Update products whose SKU already exists
+});
+
+export type CreateProductInput = z.infer<typeof createProductSchema>;
+export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type ProductQuery = z.infer<typeof productQuerySchema>;
+export type ImportProductsInput = z.infer<typeof importProductsSchema>;
@@ -0,0 +1,450 @@
+import { prisma } from '../../config/database';
+import { Prisma, ProductType } from '@prisma/client';
+import { NotFoundError, ConflictError, BadRequestError } from '../../utils/errors';
+import {
+  CreateProductInput,
+  UpdateProductInput,
+  ProductQuery,
+  ImportProductsInput,
+} from './product.schema';
+import { generateCode, decimalToNumber } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { decodeStatementData, parseDelimited, ParseError } from '../banking/statement.parser';
+
+const productInclude = {
+  incomeAccount: { select: { id: true, code: true, name: true } },
+  expenseAccount: { select: { id: true, code: true, name: true } },
+  assetAccount: { select: { id: true, code: true, name: true } },
+  taxRate: { select: { id: true, name: true, rate: true } },
+} satisfies Prisma.ProductInclude;
+
+// Accepted CSV headers, compared lowercase with spaces, dashes and underscores removed
+const IMPORT_COLUMNS: Record<string, string[]> = {
+  sku: ['sku', 'code', 'itemcode'],
+  name: ['name', 'productname', 'itemname'],
+  description: ['description'],
+  type: ['type', 'producttype'],
+  salePrice: ['saleprice', 'price', 'salesprice'],
+  purchasePrice: ['purchaseprice', 'cost'],
+  incomeAccount: ['incomeaccount'],
+  expenseAccount: ['expenseaccount'],
+  assetAccount: ['assetaccount'],
+  taxable: ['taxable'],
+  taxRate: ['taxrate'],
+};
+
+type AccountField = 'incomeAccountId' | 'expenseAccountId' | 'assetAccountId';
+
+export class ProductService {
+  /**
+   * Get products with pagination
+   */
+  async getProducts(companyId: string, query: ProductQuery) {
+    const where: Prisma.ProductWhereInput = { companyId };
+
+    if (query.search) {
+      where.OR = [
+        { name: { contains: query.search, mode: 'insensitive' } },
+        { sku: { contains: query.search, mode: 'insensitive' } },
+        { description: { contains: query.search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    if (query.isActive !== undefined) {
+      where.isActive = query.isActive;
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        include: productInclude,
+        orderBy: { name: 'asc' },
+        skip,
+        take,
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    return {
+      products: products.map((p) => this.formatProduct(p)),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Get single product
+   */
+  async getProduct(companyId: string, productId: string) {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, companyId },
+      include: productInclude,
+    });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    return this.formatProduct(product);
+  }
+
+  /**
+   * Create product
+   */
+  async createProduct(companyId: string, input: CreateProductInput) {
+    const sku = input.sku || await this.generateSku(companyId, input.name);
+
+    const existing = await prisma.product.findUnique({
+      where: { companyId_sku: { companyId, sku } },
+    });
+
+    if (existing) {
+      throw new ConflictError('Product SKU already exists');
+    }
+
+    await this.validateReferences(companyId, input);
+    this.validateInventoryAccounts(input.type, input.assetAccountId, input.expenseAccountId);
+
+    const product = await prisma.product.create({
+      data: {
+        companyId,
+        sku,
+        name: input.name,
+        description: input.description,
+        type: input.type,
+        salePrice: input.salePrice,
+        purchasePrice: input.purchasePrice,
+        incomeAccountId: input.incomeAccountId,
+        expenseAccountId: input.expenseAccountId,
+        assetAccountId: input.assetAccountId,
+        taxRateId: input.taxRateId,
+        taxable: input.taxable,
+      },
+      include: productInclude,
+    });
+
+    return this.formatProduct(product);
+  }
+
+  /**
+   * Update product
+   */
+  async updateProduct(companyId: string, productId: string, input: UpdateProductInput) {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, companyId },
+    });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    if (input.sku && input.sku !== product.sku) {
+      const existing = await prisma.product.findUnique({
+        where: { companyId_sku: { companyId, sku: input.sku } },
+      });
+
+      if (existing) {
+        throw new ConflictError('Product SKU already exists');
+      }
+    }
+
+    await this.validateReferences(companyId, input);
+
+    const type = input.type ?? product.type;
+    this.validateInventoryAccounts(
+      type,
+      input.assetAccountId !== undefined ? input.assetAccountId : product.assetAccountId,
+      input.expenseAccountId !== undefined ? input.expenseAccountId : product.expenseAccountId
+    );
+
+    if (type !== ProductType.INVENTORY && decimalToNumber(product.quantityOnHand) !== 0) {
+      throw new BadRequestError('Adjust stock to zero before changing the type of an inventory product');
+    }
+
+    const updated = await prisma.product.update({
+      where: { id: productId },
+      data: input,
+      include: productInclude,
+    });
+
+    return this.formatProduct(updated);
+  }
+
+  /**
+   * Deactivate product so it can no longer be picked on new lines
+   */
+  async deactivateProduct(companyId: string, productId: string) {
+    return this.setActive(companyId, productId, false);
+  }
+
+  /**
+   * Check that line products belong to the company and are active. Products already on
+   * the document being edited may stay after they are deactivated.
+   */
+  async assertLineProducts(
+    companyId: string,
+    lines: { productId?: string | null }[],
+    keepProductIds: (string | null)[] = []
+  ) {
+    const productIds = [
+      ...new Set(lines.map((l) => l.productId).filter((id): id is string => !!id)),
+    ];
+    if (productIds.length === 0) return;
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds }, companyId },
+      select: { id: true, name: true, isActive: true },
+    });
+
+    if (products.length !== productIds.length) {
+      throw new NotFoundError('Product not found');
+    }
+
+    const inactive = products.find((p) => !p.isActive && !keepProductIds.includes(p.id));
+    if (inactive) {
+      throw new BadRequestError(`Product "${inactive.name}" is inactive`);
+    }
+  }
+
+  /**
+   * Reactivate a deactivated product
+   */
+  async activateProduct(companyId: string, productId: string) {
+    return this.setActive(companyId, productId, true);
+  }
+
+  /**
+   * Create products from a CSV file, updating existing SKUs when requested.
+   * Accounts are referenced by code and tax rates by name.
+   */
+  async importProducts(companyId: string, input: ImportProductsInput) {
+    const records = parseDelimited(decodeStatementData(input.data));
+    const header = (records[0] || []).map((h) => h.trim().toLowerCase().replace(/[\s_-]/g, ''));
+
+    const columns: Record<string, number> = {};
+    for (const [field, aliases] of Object.entries(IMPORT_COLUMNS)) {
+      const index = header.findIndex((h) => aliases.includes(h));
+      if (index >= 0) columns[field] = index;
+    }
+
+    if (columns.name === undefined) {
+      throw new BadRequestError('CSV file must have a header row with a "name" column');
+    }
+
+    const [accounts, taxRates, existingProducts] = await Promise.all([
+      prisma.account.findMany({ where: { companyId }, select: { id: true, code: true } }),
+      prisma.taxRate.findMany({ where: { companyId }, select: { id: true, name: true } }),
+      prisma.product.findMany({ where: { companyId }, select: { id: true, sku: true } }),
+    ]);
+
+    const accountsByCode = new Map(accounts.map((a) => [a.code.toLowerCase(), a.id]));
+    const taxRatesByName = new Map(taxRates.map((t) => [t.name.toLowerCase(), t.id]));
+    const productsBySku = new Map(existingProducts.map((p) => [p.sku, p.id]));
+
+    const errors: ParseError[] = [];
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    for (let rowIndex = 1; rowIndex < records.length; rowIndex++) {
+      const record = records[rowIndex];
+      const row = rowIndex + 1;
+
+      if (record.every((value) => value.trim() === '')) continue;
+
+      const cell = (field: string) =>
+        columns[field] === undefined ? undefined : record[columns[field]]?.trim() || undefined;
+
+      try {
+        const data = this.parseImportRow(cell, accountsByCode, taxRatesByName);
+        const sku = data.sku || await this.generateSku(companyId, data.name);
+        const existingId = productsBySku.get(sku);
+
+        if (existingId) {
+          if (!input.updateExisting) {
+            skipped++;
+            continue;
+          }
+
+          // Same checks as an edit, so a stocked inventory product keeps its type and accounts
+          await this.updateProduct(companyId, existingId, { ...data, sku });
+          updated++;
+        } else {
+          this.validateInventoryAccounts(data.type, data.assetAccountId, data.expenseAccountId);
+          const product = await prisma.product.create({ data: { ...data, sku, companyId } });
+          productsBySku.set(sku, product.id);
+          created++;
+        }
+      } catch (error) {
+        errors.push({ row, message: error instanceof Error ? error.message : 'Invalid row' });
+      }
+    }
+
+    return { created, updated, skipped, errors };
+  }
+
+  /**
+   * Convert one CSV row into product fields
+   */
+  private parseImportRow(
+    cell: (field: string) => string | undefined,
+    accountsByCode: Map<string, string>,
+    taxRatesByName: Map<string, string>
+  ) {
+    const name = cell('name');
+    if (!name) {
+      throw new Error('Missing name');
+    }
+
+    const typeValue = cell('type')?.toUpperCase().replace(/[\s-]/g, '_');
+    if (typeValue && !(typeValue in ProductType)) {
+      throw new Error(`Unknown product type "${cell('type')}"`);
+    }
+
+    const price = (field: string) => {
+      const value = cell(field);
+      if (value === undefined) return undefined;
+      const amount = parseFloat(value.replace(/[^0-9.-]/g, ''));
+      if (isNaN(amount) || amount < 0) {
+        throw new Error(`Invalid ${field} "${value}"`);
+      }
+      return amount;
+    };
+
+    const account = (field: string) => {
+      const code = cell(field);
+      if (code === undefined) return undefined;
+      const id = accountsByCode.get(code.toLowerCase());
+      if (!id) {
+        throw new Error(`Account "${code}" not found`);
+      }
+      return id;
+    };
+
+    const taxRateName = cell('taxRate');
+    const taxRateId = taxRateName ? taxRatesByName.get(taxRateName.toLowerCase()) : undefined;
+    if (taxRateName && !taxRateId) {
+      throw new Error(`Tax rate "${taxRateName}" not found`);
+    }
+
+    const taxable = cell('taxable');
+
+    return {
+      sku: cell('sku'),
+      name,
+      description: cell('description'),
+      type: typeValue as ProductType | undefined,
+      salePrice: price('salePrice'),
+      purchasePrice: price('purchasePrice'),
+      incomeAccountId: account('incomeAccount'),
+      expenseAccountId: account('expenseAccount'),
+      assetAccountId: account('assetAccount'),
+      taxRateId,
+      taxable: taxable === undefined ? undefined : /^(y|yes|true|1)$/i.test(taxable),
+    };
+  }
+
+  /**
+   * Inventory products post purchases to an asset account and sales cost to an expense (COGS) account
+   */
+  private validateInventoryAccounts(
+    type: ProductType | undefined,
+    assetAccountId: string | null | undefined,
+    expenseAccountId: string | null | undefined
+  ) {
+    if (type === ProductType.INVENTORY && (!assetAccountId || !expenseAccountId)) {
+      throw new BadRequestError(
+        'Inventory products need an inventory asset account and a cost of goods sold account'
+      );
+    }
+  }
+
+  private async setActive(companyId: string, productId: string, isActive: boolean) {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, companyId },
+    });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    const updated = await prisma.product.update({
+      where: { id: productId },
+      data: { isActive },
+      include: productInclude,
+    });
+
+    return this.formatProduct(updated);
+  }
+
+  /**
+   * Make sure referenced accounts and tax rate belong to the company
+   */
+  private async validateReferences(companyId: string, input: UpdateProductInput) {
+    const accountFields: AccountField[] = ['incomeAccountId', 'expenseAccountId', 'assetAccountId'];
+    const accountIds = [
+      ...new Set(accountFields.map((field) => input[field]).filter((id): id is string => !!id)),
+    ];
+
+    const [accounts, taxRate] = await Promise.all([
+      prisma.account.count({ where: { id: { in: accountIds }, companyId } }),
+      input.taxRateId
+        ? prisma.taxRate.findFirst({ where: { id: input.taxRateId, companyId } })
+        : null,
+    ]);
+
+    if (accounts !== accountIds.length) {
+      throw new NotFoundError('Account not found');
+    }
+
+    if (input.taxRateId && !taxRate) {
+      throw new NotFoundError('Tax rate not found');
+    }
+  }
+
+  /**
+   * Generate unique product SKU
+   */
+  private async generateSku(companyId: string, name: string): Promise<string> {
+    const baseSku = generateCode(name, 8);
+
+    let sku = baseSku;
+    let counter = 1;
+
+    while (true) {
+      const existing = await prisma.product.findUnique({
+        where: { companyId_sku: { companyId, sku } },
+      });
+
+      if (!existing) break;
+
+      sku = `${baseSku}${counter}`;
+      counter++;
+    }
+
+    return sku;
+  }
+
+  /**
+   * Format product for response, keeping unset prices as null
+   */
+  private formatProduct(product: any) {
+    return {
+      ...product,
+      salePrice: product.salePrice === null ? null : decimalToNumber(product.salePrice),
+      purchasePrice: product.purchasePrice === null ? null : decimalToNumber(product.purchasePrice),
+      quantityOnHand: decimalToNumber(product.quantityOnHand),
+      averageCost: decimalToNumber(product.averageCost),
+      taxRate: product.taxRate
+        ? { ...product.taxRate, rate: decimalToNumber(product.taxRate.rate) }
+        : null,
+    };
+  }
+}
+
+export const productService = new ProductService();
@@ -0,0 +1,38 @@
+import { Response } from 'express';
+import { recurringService } from './recurring.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent } from '../../utils/response';
+
+export class RecurringController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const templates = await recurringService.getTemplates(req.companyId!, req.query as any);
+    return sendSuccess(res, templates);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const template = await recurringService.getTemplate(req.companyId!, req.params.id);
+    return sendSuccess(res, template);
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    const template = await recurringService.createTemplate(req.companyId!, req.user!.id, req.body);
+    return sendCreated(res, template, 'Recurring template created successfully');
+  }
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const template = await recurringService.updateTemplate(req.companyId!, req.params.id, req.body);
+    return sendSuccess(res, template, 'Recurring template updated successfully');
+  }
+
+  async deactivate(req: AuthenticatedRequest, res: Response) {
+    await recurringService.deactivateTemplate(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+
+  async run(req: AuthenticatedRequest, res: Response) {
+    const summary = await recurringService.runDueTemplates(req.companyId!);
+    return sendSuccess(res, summary, 'Recurring templates run');
+  }
+}
+
+export const recurringController = new RecurringController();
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { recurringController } from './recurring.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess, requireAdmin } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  createRecurringTemplateSchema,
+  updateRecurringTemplateSchema,
+  recurringTemplateQuerySchema,
+} from './recurring.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: recurringTemplateQuerySchema }),
+  asyncHandler(recurringController.list.bind(recurringController))
+);
+
+// Create documents for every template that has come due
+router.post(
+  '/run',
+  requireAdmin,
+  asyncHandler(recurringController.run.bind(recurringController))
+);
+
+router.get(
+  '/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(recurringController.get.bind(recurringController))
+);
+
+router.post(
+  '/',
+  requireWriteAccess,
+  validate({ body: createRecurringTemplateSchema }),
+  asyncHandler(recurringController.create.bind(recurringController))
+);
+
+router.put(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: updateRecurringTemplateSchema }),
+  asyncHandler(recurringController.update.bind(recurringController))
+);
+
+router.delete(
+  '/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(recurringController.deactivate.bind(recurringController))
+);
+
+export default router;
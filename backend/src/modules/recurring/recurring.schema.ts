@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { RecurringDocumentType, RecurringFrequency } from '@prisma/client';
+import { createJournalEntrySchema } from '../journal/journal.schema';
+import { createInvoiceSchema } from '../invoices/invoice.schema';
+import { createBillSchema } from '../bills/bill.schema';
+
+// Document bodies without the date and number each occurrence fills in
+export const recurringPayloadSchemas = {
+  [RecurringDocumentType.JOURNAL_ENTRY]: createJournalEntrySchema.innerType().omit({
+    date: true,
+    autoReverseDate: true,
+  }),
+  [RecurringDocumentType.INVOICE]: createInvoiceSchema.omit({
+    date: true,
+    dueDate: true,
+    invoiceNumber: true,
+    exchangeRate: true,
+  }),
+  [RecurringDocumentType.BILL]: createBillSchema.omit({
+    date: true,
+    dueDate: true,
+    billNumber: true,
+    exchangeRate: true,
+  }),
+};
+
+const scheduleSchema = z.object({
+  name: z.string().min(1).max(200),
+  frequency: z.nativeEnum(RecurringFrequency),
+  interval: z.number().int().min(1).max(365).default(1),
+  dayOfMonth: z.number().int().min(1).max(31).optional().nullable(), // Monthly and yearly only
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime().optional().nullable(),
+  maxOccurrences: z.number().int().min(1).optional().nullable(),
+  autoPost: z.boolean().default(false), // Post, send or receive instead of leaving a draft
+});
+
+// Payloads are checked against the document type by the service
+export const createRecurringTemplateSchema = scheduleSchema.extend({
+  documentType: z.nativeEnum(RecurringDocumentType),
+  payload: z.record(z.unknown()),
+});
+
+export const updateRecurringTemplateSchema = scheduleSchema.partial().extend({
+  payload: z.record(z.unknown()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const recurringTemplateQuerySchema = z.object({
+  documentType: z.nativeEnum(RecurringDocumentType).optional(),
+  isActive: z.string().transform((v) => v === 'true').optional(),
+});
+
+export type CreateRecurringTemplateInput = z.infer<typeof createRecurringTemplateSchema>;
+export type UpdateRecurringTemplateInput = z.infer<typeof updateRecurringTemplateSchema>;
+export type RecurringTemplateQuery = z.infer<typeof recurringTemplateQuerySchema>;
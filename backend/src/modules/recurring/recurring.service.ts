@@ -0,0 +1,483 @@
+import { prisma } from '../../config/database';
+import {
+  Prisma,
+  RecurringDocumentType,
+  RecurringFrequency,
+  RecurringRunStatus,
+  RecurringTemplate,
+  UserRole,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError, ForbiddenError } from '../../utils/errors';
+import { addDays, formatDateISO } from '../../utils/helpers';
+import {
+  CreateRecurringTemplateInput,
+  UpdateRecurringTemplateInput,
+  RecurringTemplateQuery,
+  recurringPayloadSchemas,
+} from './recurring.schema';
+import { runWithAuditContext } from '../audit/audit.extension';
+import { journalService } from '../journal/journal.service';
+import { invoiceService } from '../invoices/invoice.service';
+import { billService } from '../bills/bill.service';
+
+type Schedule = Pick<
+  RecurringTemplate,
+  'frequency' | 'interval' | 'dayOfMonth' | 'startDate' | 'endDate' | 'maxOccurrences'
+>;
+
+type RunResult = 'created' | 'failed' | 'skipped';
+
+// A pending run this old was abandoned by a runner that stopped part way
+const ABANDONED_RUN_MS = 60 * 60 * 1000;
+
+export class RecurringService {
+  /**
+   * Get recurring templates
+   */
+  async getTemplates(companyId: string, query: RecurringTemplateQuery) {
+    const where: Prisma.RecurringTemplateWhereInput = { companyId };
+
+    if (query.documentType) {
+      where.documentType = query.documentType;
+    }
+
+    if (query.isActive !== undefined) {
+      where.isActive = query.isActive;
+    }
+
+    return prisma.recurringTemplate.findMany({
+      where,
+      include: { createdBy: { select: { id: true, name: true } } },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get recurring template with the documents it produced, newest first
+   */
+  async getTemplate(companyId: string, templateId: string) {
+    const template = await prisma.recurringTemplate.findFirst({
+      where: { id: templateId, companyId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        runs: { orderBy: { occurrenceDate: 'desc' }, take: 100 },
+      },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Recurring template not found');
+    }
+
+    return template;
+  }
+
+  /**
+   * Create recurring template
+   */
+  async createTemplate(companyId: string, userId: string, input: CreateRecurringTemplateInput) {
+    const payload = recurringPayloadSchemas[input.documentType].parse(input.payload);
+
+    const schedule: Schedule = {
+      frequency: input.frequency,
+      interval: input.interval,
+      dayOfMonth: input.dayOfMonth ?? null,
+      startDate: new Date(formatDateISO(new Date(input.startDate))),
+      endDate: input.endDate ? new Date(formatDateISO(new Date(input.endDate))) : null,
+      maxOccurrences: input.maxOccurrences ?? null,
+    };
+
+    this.validateSchedule(schedule);
+
+    const template = await prisma.recurringTemplate.create({
+      data: {
+        companyId,
+        name: input.name,
+        documentType: input.documentType,
+        payload: payload as Prisma.InputJsonValue,
+        ...schedule,
+        nextRunDate: this.nextOccurrence(schedule, schedule.startDate, 0),
+        autoPost: input.autoPost,
+        createdById: userId,
+      },
+    });
+
+    return this.getTemplate(companyId, template.id);
+  }
+
+  /**
+   * Update recurring template. Schedule changes apply from the day after the last
+   * occurrence that was created.
+   */
+  async updateTemplate(
+    companyId: string,
+    templateId: string,
+    input: UpdateRecurringTemplateInput
+  ) {
+    const template = await prisma.recurringTemplate.findFirst({
+      where: { id: templateId, companyId },
+      include: {
+        runs: {
+          where: { status: RecurringRunStatus.SUCCEEDED },
+          orderBy: { occurrenceDate: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Recurring template not found');
+    }
+
+    const schedule: Schedule = {
+      frequency: input.frequency ?? template.frequency,
+      interval: input.interval ?? template.interval,
+      dayOfMonth: input.dayOfMonth !== undefined ? input.dayOfMonth : template.dayOfMonth,
+      startDate: input.startDate
+        ? new Date(formatDateISO(new Date(input.startDate)))
+        : template.startDate,
+      endDate:
+        input.endDate !== undefined
+          ? input.endDate
+            ? new Date(formatDateISO(new Date(input.endDate)))
+            : null
+          : template.endDate,
+      maxOccurrences:
+        input.maxOccurrences !== undefined ? input.maxOccurrences : template.maxOccurrences,
+    };
+
+    this.validateSchedule(schedule);
+
+    const lastOccurrence = template.runs[0]?.occurrenceDate;
+    const from =
+      lastOccurrence && addDays(lastOccurrence, 1) > schedule.startDate
+        ? addDays(lastOccurrence, 1)
+        : schedule.startDate;
+
+    await prisma.recurringTemplate.update({
+      where: { id: templateId },
+      data: {
+        name: input.name,
+        ...(input.payload && {
+          payload: recurringPayloadSchemas[template.documentType].parse(
+            input.payload
+          ) as Prisma.InputJsonValue,
+        }),
+        ...schedule,
+        nextRunDate: this.nextOccurrence(schedule, from, template.occurrencesCreated),
+        autoPost: input.autoPost,
+        isActive: input.isActive,
+      },
+    });
+
+    return this.getTemplate(companyId, templateId);
+  }
+
+  /**
+   * Deactivate recurring template, keeping its history
+   */
+  async deactivateTemplate(companyId: string, templateId: string) {
+    const template = await prisma.recurringTemplate.findFirst({
+      where: { id: templateId, companyId },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Recurring template not found');
+    }
+
+    await prisma.recurringTemplate.update({
+      where: { id: templateId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Create every document that has come due, for one company or all of them. Each
+   * occurrence is claimed before its document is created, so overlapping runs and
+   * retries never create it twice.
+   */
+  async runDueTemplates(companyId?: string, asOf: Date = new Date(formatDateISO(new Date()))) {
+    const templates = await prisma.recurringTemplate.findMany({
+      where: {
+        isActive: true,
+        nextRunDate: { lte: asOf },
+        ...(companyId && { companyId }),
+      },
+    });
+
+    const summary = { created: 0, failed: 0 };
+
+    for (const due of templates) {
+      let template: RecurringTemplate | null = due;
+
+      // Catch up on every occurrence missed since the last run
+      while (template?.nextRunDate && template.nextRunDate <= asOf) {
+        const result = await this.runOccurrence(template);
+        if (result !== 'created') {
+          if (result === 'failed') summary.failed++;
+          break;
+        }
+
+        summary.created++;
+        template = await prisma.recurringTemplate.findUnique({ where: { id: due.id } });
+      }
+    }
+
+    return summary;
+  }
+
+  private async runOccurrence(template: RecurringTemplate): Promise<RunResult> {
+    const occurrenceDate = template.nextRunDate!;
+    const run = await this.claimOccurrence(template.id, occurrenceDate);
+
+    if (!run) {
+      const existing = await prisma.recurringTemplateRun.findUnique({
+        where: { templateId_occurrenceDate: { templateId: template.id, occurrenceDate } },
+      });
+
+      // Created by an earlier run that stopped before moving the schedule on
+      if (existing?.status === RecurringRunStatus.SUCCEEDED) {
+        await this.advance(template, occurrenceDate);
+        return 'created';
+      }
+
+      return 'skipped';
+    }
+
+    // Changes are audited as the template's owner
+    const context = { userId: template.createdById, userAgent: 'Recurring template' };
+
+    try {
+      await runWithAuditContext(context, async () => {
+        // A retry only finishes posting a document an earlier attempt created, even one
+        // whose ID was never recorded on the run
+        const documentId =
+          run.documentId ??
+          (await this.findDocument(template, run.id)) ??
+          (await this.createDocument(template, occurrenceDate, run.id));
+
+        if (!run.documentId) {
+          await prisma.recurringTemplateRun.update({
+            where: { id: run.id },
+            data: { documentId },
+          });
+        }
+
+        if (template.autoPost && template.documentType === RecurringDocumentType.INVOICE) {
+          await invoiceService.sendInvoice(template.companyId, template.createdById, documentId);
+        }
+      });
+    } catch (error) {
+      await prisma.recurringTemplateRun.update({
+        where: { id: run.id },
+        data: {
+          status: RecurringRunStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      return 'failed';
+    }
+
+    await prisma.recurringTemplateRun.update({
+      where: { id: run.id },
+      data: { status: RecurringRunStatus.SUCCEEDED, error: null },
+    });
+    await this.advance(template, occurrenceDate);
+
+    return 'created';
+  }
+
+  /**
+   * Claim an occurrence for this runner; failed and abandoned attempts can be retried
+   */
+  private async claimOccurrence(templateId: string, occurrenceDate: Date) {
+    try {
+      return await prisma.recurringTemplateRun.create({
+        data: { templateId, occurrenceDate },
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const { count } = await prisma.recurringTemplateRun.updateMany({
+      where: {
+        templateId,
+        occurrenceDate,
+        OR: [
+          { status: RecurringRunStatus.FAILED },
+          {
+            status: RecurringRunStatus.PENDING,
+            updatedAt: { lt: new Date(Date.now() - ABANDONED_RUN_MS) },
+          },
+        ],
+      },
+      data: { status: RecurringRunStatus.PENDING, error: null },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return prisma.recurringTemplateRun.findUnique({
+      where: { templateId_occurrenceDate: { templateId, occurrenceDate } },
+    });
+  }
+
+  /**
+   * Document an earlier attempt at this occurrence created, found by its run tag
+   */
+  private async findDocument(template: RecurringTemplate, runId: string) {
+    const where = { companyId: template.companyId, recurringRunId: runId };
+    const select = { id: true };
+
+    switch (template.documentType) {
+      case RecurringDocumentType.JOURNAL_ENTRY:
+        return (await prisma.journalEntry.findFirst({ where, select }))?.id;
+      case RecurringDocumentType.INVOICE:
+        return (await prisma.invoice.findFirst({ where, select }))?.id;
+      case RecurringDocumentType.BILL:
+        return (await prisma.bill.findFirst({ where, select }))?.id;
+    }
+  }
+
+  /**
+   * Create the occurrence's document through its service, on behalf of the template's owner.
+   * The document carries the run's ID, so a retry can find it.
+   */
+  private async createDocument(
+    template: RecurringTemplate,
+    occurrenceDate: Date,
+    runId: string
+  ): Promise<string> {
+    const { companyId, createdById: userId } = template;
+
+    const companyUser = await prisma.companyUser.findUnique({
+      where: { companyId_userId: { companyId, userId } },
+    });
+
+    if (!companyUser?.acceptedAt || companyUser.role === UserRole.READONLY) {
+      throw new ForbiddenError("The template's owner can no longer create documents in this company");
+    }
+
+    const date = occurrenceDate.toISOString();
+
+    switch (template.documentType) {
+      case RecurringDocumentType.JOURNAL_ENTRY: {
+        const payload = recurringPayloadSchemas.JOURNAL_ENTRY.parse(template.payload);
+        const entry = await journalService.createJournalEntry(
+          companyId,
+          userId,
+          companyUser.role,
+          { ...payload, date },
+          !template.autoPost,
+          runId
+        );
+        return entry.id;
+      }
+
+      case RecurringDocumentType.INVOICE: {
+        const payload = recurringPayloadSchemas.INVOICE.parse(template.payload);
+        const invoice = await invoiceService.createInvoice(
+          companyId,
+          userId,
+          { ...payload, date },
+          runId
+        );
+        return invoice.id;
+      }
+
+      case RecurringDocumentType.BILL: {
+        const payload = recurringPayloadSchemas.BILL.parse(template.payload);
+        const bill = await billService.createBill(
+          companyId,
+          userId,
+          { ...payload, date },
+          !template.autoPost,
+          runId
+        );
+        return bill.id;
+      }
+    }
+  }
+
+  private async advance(template: RecurringTemplate, occurrenceDate: Date) {
+    const occurrencesCreated = template.occurrencesCreated + 1;
+
+    await prisma.recurringTemplate.update({
+      where: { id: template.id },
+      data: {
+        occurrencesCreated,
+        nextRunDate: this.nextOccurrence(template, addDays(occurrenceDate, 1), occurrencesCreated),
+      },
+    });
+  }
+
+  private validateSchedule(schedule: Schedule) {
+    if (
+      schedule.dayOfMonth &&
+      schedule.frequency !== RecurringFrequency.MONTHLY &&
+      schedule.frequency !== RecurringFrequency.YEARLY
+    ) {
+      throw new BadRequestError('Day of month only applies to monthly and yearly schedules');
+    }
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      throw new BadRequestError('End date must be on or after the start date');
+    }
+  }
+
+  /**
+   * First occurrence on or after a date, or null once the schedule has finished
+   */
+  private nextOccurrence(schedule: Schedule, from: Date, occurrencesCreated: number) {
+    if (schedule.maxOccurrences !== null && occurrencesCreated >= schedule.maxOccurrences) {
+      return null;
+    }
+
+    let index = 0;
+    let date = this.occurrence(schedule, index);
+
+    while (date < from) {
+      date = this.occurrence(schedule, ++index);
+    }
+
+    return schedule.endDate && date > schedule.endDate ? null : date;
+  }
+
+  /**
+   * The schedule's nth occurrence. Monthly and yearly occurrences fall on the day of
+   * month (the start date's by default), or the month's last day when it is shorter.
+   */
+  private occurrence(schedule: Schedule, index: number): Date {
+    const start = schedule.startDate;
+    const steps = index * schedule.interval;
+
+    switch (schedule.frequency) {
+      case RecurringFrequency.DAILY:
+        return addDays(start, steps);
+
+      case RecurringFrequency.WEEKLY:
+        return addDays(start, steps * 7);
+
+      case RecurringFrequency.MONTHLY:
+      case RecurringFrequency.YEARLY: {
+        const unit = schedule.frequency === RecurringFrequency.MONTHLY ? 1 : 12;
+        const day = schedule.dayOfMonth ?? start.getUTCDate();
+
+        // A day of month before the start date's first falls in the following period
+        const first = dayInMonth(start.getUTCFullYear(), start.getUTCMonth(), day);
+        const offset = first < start ? unit : 0;
+
+        return dayInMonth(start.getUTCFullYear(), start.getUTCMonth() + offset + steps * unit, day);
+      }
+    }
+  }
+}
+
+function dayInMonth(year: number, month: number, day: number) {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+}
+
+export const recurringService = new RecurringService();
@@ -41,6 +41,17 @@ export class ReportController {
     return sendSuccess(res, report);
   }
 
+  async inventoryValuation(req: AuthenticatedRequest, res: Response) {
+    const { asOfDate } = req.query as any;
+
+    const report = await reportService.getInventoryValuation(
+      req.companyId!,
+      new Date(asOfDate)
+    );
+
+    return sendSuccess(res, report);
+  }
+
   async arAging(req: AuthenticatedRequest, res: Response) {
     const { asOfDate, agingPeriods } = req.query as any;
 
@@ -32,6 +32,12 @@ router.get(
   asyncHandler(reportController.trialBalance.bind(reportController))
 );
 
+router.get(
+  '/inventory-valuation',
+  validate({ query: asOfDateSchema }),
+  asyncHandler(reportController.inventoryValuation.bind(reportController))
+);
+
 router.get(
   '/ar-aging',
   validate({ query: agingReportSchema }),
@@ -1,6 +1,6 @@
 import { prisma } from '../../config/database';
-import { AccountType, InvoiceStatus, BillStatus } from '@prisma/client';
-import { decimalToNumber, addDays } from '../../utils/helpers';
+import { AccountType, InvoiceStatus, BillStatus, JournalSource, ProductType } from '@prisma/client';
+import { decimalToNumber, addDays, round } from '../../utils/helpers';
 
 interface ReportAccount {
   id: string;
@@ -23,8 +23,10 @@ interface AgingDetail {
   name: string;
   date: Date;
   dueDate: Date;
+  currency: string;
   total: number;
   amountDue: number;
+  baseAmountDue: number; // Amount due in the base currency at the document's rate
   daysOverdue: number;
   bucket: string;
 }
@@ -250,6 +252,9 @@ export class ReportService {
       const amountDue = decimalToNumber(invoice.amountDue);
       if (amountDue <= 0) continue;
 
+      // Buckets and totals are in the base currency
+      const baseAmountDue = round(amountDue * decimalToNumber(invoice.exchangeRate));
+
       const daysOverdue = Math.floor(
         (asOfDate.getTime() - invoice.dueDate.getTime()) / (1000 * 60 * 60 * 24)
       );
@@ -263,14 +268,16 @@ export class ReportService {
         name: invoice.customer.name,
         date: invoice.date,
         dueDate: invoice.dueDate,
+        currency: invoice.currency,
         total: decimalToNumber(invoice.total),
         amountDue,
+        baseAmountDue,
         daysOverdue,
         bucket: bucketLabel,
       });
 
       // Add to bucket totals
-      buckets[bucketIndex].amount += amountDue;
+      buckets[bucketIndex].amount += baseAmountDue;
       buckets[bucketIndex].count++;
 
       // Track by customer
@@ -282,8 +289,8 @@ export class ReportService {
         });
       }
       const customer = customerTotals.get(invoice.customerId)!;
-      customer.buckets[bucketIndex] += amountDue;
-      customer.total += amountDue;
+      customer.buckets[bucketIndex] += baseAmountDue;
+      customer.total += baseAmountDue;
     }
 
     const totalAmount = buckets.reduce((sum, b) => sum + b.amount, 0);
@@ -325,6 +332,9 @@ export class ReportService {
       const amountDue = decimalToNumber(bill.amountDue);
       if (amountDue <= 0) continue;
 
+      // Buckets and totals are in the base currency
+      const baseAmountDue = round(amountDue * decimalToNumber(bill.exchangeRate));
+
       const daysOverdue = Math.floor(
         (asOfDate.getTime() - bill.dueDate.getTime()) / (1000 * 60 * 60 * 24)
       );
@@ -338,13 +348,15 @@ export class ReportService {
         name: bill.vendor.name,
         date: bill.date,
         dueDate: bill.dueDate,
+        currency: bill.currency,
         total: decimalToNumber(bill.total),
         amountDue,
+        baseAmountDue,
         daysOverdue,
         bucket: bucketLabel,
       });
 
-      buckets[bucketIndex].amount += amountDue;
+      buckets[bucketIndex].amount += baseAmountDue;
       buckets[bucketIndex].count++;
 
       if (!vendorTotals.has(bill.vendorId)) {
@@ -355,8 +367,8 @@ export class ReportService {
         });
       }
       const vendor = vendorTotals.get(bill.vendorId)!;
-      vendor.buckets[bucketIndex] += amountDue;
-      vendor.total += amountDue;
+      vendor.buckets[bucketIndex] += baseAmountDue;
+      vendor.total += baseAmountDue;
     }
 
     const totalAmount = buckets.reduce((sum, b) => sum + b.amount, 0);
@@ -498,6 +510,7 @@ export class ReportService {
             journalEntry: {
               isPosted: true,
               date: { gte: startDate, lte: endDate },
+              source: { not: JournalSource.CLOSING }, // Closing entries would zero out the year
             },
           },
           _sum: { debit: true, credit: true },
@@ -546,6 +559,79 @@ export class ReportService {
     );
   }
 
+  /**
+   * Inventory Valuation: quantity and weighted-average value per product,
+   * with the GL balance of each inventory asset account for comparison
+   */
+  async getInventoryValuation(companyId: string, asOfDate: Date) {
+    const [products, movements] = await Promise.all([
+      prisma.product.findMany({
+        where: { companyId, type: ProductType.INVENTORY },
+        include: { assetAccount: { select: { id: true, code: true, name: true, type: true } } },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.inventoryTransaction.groupBy({
+        by: ['productId'],
+        where: { companyId, date: { lte: asOfDate } },
+        _sum: { quantity: true, totalCost: true },
+      }),
+    ]);
+
+    const totalsByProduct = new Map(movements.map((m) => [m.productId, m._sum]));
+
+    const rows = products
+      .map((product) => {
+        const totals = totalsByProduct.get(product.id);
+        const quantity = decimalToNumber(totals?.quantity);
+        const value = decimalToNumber(totals?.totalCost);
+
+        return {
+          id: product.id,
+          sku: product.sku,
+          name: product.name,
+          assetAccountId: product.assetAccountId,
+          quantity,
+          averageCost: quantity > 0 ? round(value / quantity, 4) : 0,
+          value,
+          isActive: product.isActive,
+        };
+      })
+      .filter((row) => row.isActive || row.quantity !== 0 || row.value !== 0);
+
+    const assetAccounts = new Map(
+      products
+        .filter((p) => p.assetAccount)
+        .map((p) => [p.assetAccount!.id, p.assetAccount!])
+    );
+
+    const accounts = await Promise.all(
+      [...assetAccounts.values()].map(async (account) => {
+        const inventoryValue = round(
+          rows.filter((r) => r.assetAccountId === account.id).reduce((sum, r) => sum + r.value, 0)
+        );
+        const glBalance = round(
+          await this.calculateAccountBalanceAsOf(account.id, account.type, asOfDate)
+        );
+
+        return {
+          id: account.id,
+          code: account.code,
+          name: account.name,
+          inventoryValue,
+          glBalance,
+          difference: round(glBalance - inventoryValue),
+        };
+      })
+    );
+
+    return {
+      asOfDate,
+      products: rows,
+      accounts,
+      totalValue: round(rows.reduce((sum, r) => sum + r.value, 0)),
+    };
+  }
+
   private async calculateAccountBalanceAsOf(
     accountId: string,
     type: AccountType,
@@ -0,0 +1,46 @@
+import { Response } from 'express';
+import { statementService } from './statement.service';
+import { emailService } from '../email/email.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess } from '../../utils/response';
+
+export class StatementController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const statements = await statementService.getStatements(req.companyId!, req.query as any);
+    return sendSuccess(res, statements);
+  }
+
+  async listPdf(req: AuthenticatedRequest, res: Response) {
+    const { filename, pdf } = await statementService.getStatementsPdf(req.companyId!, req.query as any);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    return res.send(pdf);
+  }
+
+  async get(req: AuthenticatedRequest, res: Response) {
+    const statement = await statementService.getStatement(
+      req.companyId!,
+      req.params.id,
+      req.query as any
+    );
+    return sendSuccess(res, statement);
+  }
+
+  async pdf(req: AuthenticatedRequest, res: Response) {
+    const { filename, pdf } = await statementService.getStatementPdf(
+      req.companyId!,
+      req.params.id,
+      req.query as any
+    );
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    return res.send(pdf);
+  }
+
+  async email(req: AuthenticatedRequest, res: Response) {
+    const result = await emailService.emailStatements(req.companyId!, req.user!.id, req.body);
+    return sendSuccess(res, result, `Queued ${result.queued} statement email(s)`);
+  }
+}
+
+export const statementController = new StatementController();
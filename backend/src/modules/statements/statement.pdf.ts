@@ -0,0 +1,334 @@
+import PDFDocument from 'pdfkit';
+import {
+  InvoicePdfData,
+  DEFAULT_INVOICE_TEMPLATE,
+  decodeLogo,
+  formatAddress,
+  formatMoney,
+  formatPdfDate,
+} from '../invoices/invoice.pdf';
+import type { CustomerStatement, StatementTransaction } from './statement.service';
+
+type PdfCompany = InvoicePdfData['company'];
+
+interface Column {
+  label: string;
+  width: number;
+  align: 'left' | 'right';
+}
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const MUTED = '#6b7280';
+const PRIMARY = DEFAULT_INVOICE_TEMPLATE.primaryColor;
+const ACCENT = DEFAULT_INVOICE_TEMPLATE.accentColor;
+
+const OPEN_ITEM_COLUMNS: Column[] = [
+  { label: 'Document', width: 102, align: 'left' },
+  { label: 'Date', width: 80, align: 'left' },
+  { label: 'Due Date', width: 80, align: 'left' },
+  { label: 'Days Overdue', width: 70, align: 'right' },
+  { label: 'Total', width: 90, align: 'right' },
+  { label: 'Amount Due', width: 90, align: 'right' },
+];
+
+const TRANSACTION_LABELS: Record<StatementTransaction['type'], string> = {
+  INVOICE: 'Invoice',
+  PAYMENT: 'Payment',
+  CREDIT: 'Credit memo',
+  REFUND: 'Refund',
+};
+
+const BALANCE_FORWARD_COLUMNS: Column[] = [
+  { label: 'Date', width: 80, align: 'left' },
+  { label: 'Transaction', width: 152, align: 'left' },
+  { label: 'Due Date', width: 80, align: 'left' },
+  { label: 'Amount', width: 100, align: 'right' },
+  { label: 'Balance', width: 100, align: 'right' },
+];
+
+/**
+ * Render customer statements into one PDF; each statement starts on a new page
+ * and numbers its own pages
+ */
+export function renderStatementsPdf(company: PdfCompany, statements: CustomerStatement[]): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'LETTER', margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const pageRanges: { start: number; count: number }[] = [];
+
+  statements.forEach((statement, index) => {
+    if (index > 0) doc.addPage();
+    const start = doc.bufferedPageRange().count - 1;
+
+    const money = (amount: number) => formatMoney(amount, statement.currency);
+
+    drawHeader(doc, company);
+    drawDetails(doc, statement, money);
+    if (statement.type === 'BALANCE_FORWARD') {
+      drawBalanceForward(doc, statement, money);
+    } else {
+      drawOpenItems(doc, statement, money);
+    }
+    drawAging(doc, statement, money);
+
+    pageRanges.push({ start, count: doc.bufferedPageRange().count - start });
+  });
+
+  drawFooters(doc, pageRanges);
+
+  doc.end();
+  return done;
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, company: PdfCompany) {
+  const top = doc.y;
+  const contentWidth = pageContentWidth(doc);
+  const logo = decodeLogo(company.logo);
+
+  if (logo) {
+    doc.image(logo, MARGIN + contentWidth - 150, top, { fit: [150, 60] });
+  }
+
+  const companyLines = [
+    ...formatAddress(company.address),
+    company.phone,
+    company.email,
+    company.website,
+  ].filter((line): line is string => !!line);
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(14)
+    .fillColor(PRIMARY)
+    .text(company.name, MARGIN, top, { width: 250 });
+  doc.font('Helvetica').fontSize(9).fillColor(MUTED);
+  for (const line of companyLines) {
+    doc.text(line, { width: 250 });
+  }
+
+  const headerBottom = Math.max(doc.y, logo ? top + 60 : top);
+
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(24)
+    .fillColor(PRIMARY)
+    .text('STATEMENT', MARGIN, headerBottom + 15, { width: contentWidth });
+
+  doc.moveDown(0.5);
+}
+
+function drawDetails(
+  doc: PDFKit.PDFDocument,
+  statement: CustomerStatement,
+  money: (amount: number) => string
+) {
+  const top = doc.y;
+  const { customer } = statement;
+
+  doc.font('Helvetica-Bold').fontSize(10).fillColor(PRIMARY).text('Statement For', MARGIN, top, {
+    width: 240,
+  });
+  doc.font('Helvetica').fontSize(9).fillColor('black');
+  for (const line of [customer.name, ...formatAddress(customer.billingAddress)]) {
+    doc.text(line, { width: 240 });
+  }
+  const customerBottom = doc.y;
+
+  const rows: [string, string][] = [
+    ['Statement Date', formatPdfDate(statement.endDate)],
+    statement.type === 'BALANCE_FORWARD'
+      ? ['Period', `${formatPdfDate(statement.startDate)} - ${formatPdfDate(statement.endDate)}`]
+      : ['Type', 'Open items'],
+    ['Currency', statement.currency],
+    ['Balance Due', money(statement.balance)],
+  ];
+
+  const x = MARGIN + 280;
+  doc.y = top;
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fillColor(PRIMARY).text(label, x, y, { width: 90 });
+    doc.font('Helvetica').fillColor('black').text(value, x + 95, y, { width: 135 });
+    doc.moveDown(0.2);
+  }
+
+  doc.x = MARGIN;
+  doc.y = Math.max(customerBottom, doc.y) + 20;
+}
+
+function drawOpenItems(
+  doc: PDFKit.PDFDocument,
+  statement: CustomerStatement,
+  money: (amount: number) => string
+) {
+  const rows = [
+    ...statement.openItems.map((item) => [
+      item.invoiceNumber,
+      formatPdfDate(item.date),
+      formatPdfDate(item.dueDate),
+      item.daysOverdue > 0 ? String(item.daysOverdue) : '-',
+      money(item.total),
+      money(item.amountDue),
+    ]),
+    ...statement.credits.map((credit) => [
+      `Credit ${credit.creditMemoNumber}`,
+      formatPdfDate(credit.date),
+      '',
+      '-',
+      money(-credit.total),
+      money(-credit.amountRemaining),
+    ]),
+  ];
+
+  drawTable(doc, OPEN_ITEM_COLUMNS, rows, 'No open invoices');
+}
+
+function drawBalanceForward(
+  doc: PDFKit.PDFDocument,
+  statement: CustomerStatement,
+  money: (amount: number) => string
+) {
+  const rows = [
+    [formatPdfDate(statement.startDate), 'Balance forward', '', '', money(statement.openingBalance ?? 0)],
+    ...statement.transactions.map((transaction) => [
+      formatPdfDate(transaction.date),
+      `${TRANSACTION_LABELS[transaction.type]} ${transaction.number}`,
+      transaction.dueDate ? formatPdfDate(transaction.dueDate) : '',
+      money(transaction.amount),
+      money(transaction.balance),
+    ]),
+  ];
+
+  drawTable(doc, BALANCE_FORWARD_COLUMNS, rows);
+}
+
+function drawTable(doc: PDFKit.PDFDocument, columns: Column[], rows: string[][], emptyText?: string) {
+  const drawHeaderRow = () => {
+    const y = doc.y;
+    doc.rect(MARGIN, y, pageContentWidth(doc), 20).fill(ACCENT);
+    doc.font('Helvetica-Bold').fontSize(9).fillColor('white');
+    let x = MARGIN;
+    for (const column of columns) {
+      doc.text(column.label, x + 5, y + 6, { width: column.width - 10, align: column.align });
+      x += column.width;
+    }
+    doc.y = y + 26;
+  };
+
+  drawHeaderRow();
+
+  if (rows.length === 0 && emptyText) {
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(emptyText, MARGIN + 5, doc.y);
+    doc.moveDown(1);
+  }
+
+  for (const cells of rows) {
+    const height = 18;
+
+    if (doc.y + height > pageBottom(doc)) {
+      doc.addPage();
+      drawHeaderRow();
+    }
+
+    const y = doc.y;
+    let x = MARGIN;
+    doc.font('Helvetica').fontSize(9).fillColor('black');
+    cells.forEach((cell, index) => {
+      doc.text(cell, x + 5, y, {
+        width: columns[index].width - 10,
+        align: columns[index].align,
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += columns[index].width;
+    });
+
+    doc
+      .moveTo(MARGIN, y + height - 5)
+      .lineTo(MARGIN + pageContentWidth(doc), y + height - 5)
+      .strokeColor('#e5e7eb')
+      .lineWidth(0.5)
+      .stroke();
+
+    doc.y = y + height;
+  }
+
+  doc.x = MARGIN;
+  doc.moveDown(1);
+}
+
+function drawAging(
+  doc: PDFKit.PDFDocument,
+  statement: CustomerStatement,
+  money: (amount: number) => string
+) {
+  const boxes = [...statement.aging, { period: 'Balance Due', amount: statement.balance }];
+  const width = pageContentWidth(doc) / boxes.length;
+
+  if (doc.y + 50 > pageBottom(doc)) {
+    doc.addPage();
+  }
+
+  const top = doc.y;
+  boxes.forEach((box, index) => {
+    const x = MARGIN + index * width;
+    const last = index === boxes.length - 1;
+
+    doc.rect(x, top, width, 40).strokeColor(last ? ACCENT : '#d1d5db').lineWidth(1).stroke();
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(MUTED)
+      .text(box.period, x + 4, top + 6, { width: width - 8, align: 'center' });
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .fillColor(last ? ACCENT : 'black')
+      .text(money(box.amount), x + 4, top + 21, { width: width - 8, align: 'center' });
+  });
+
+  doc.x = MARGIN;
+  doc.y = top + 50;
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, pageRanges: { start: number; count: number }[]) {
+  for (const range of pageRanges) {
+    if (range.count < 2) continue;
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+
+      // Writing inside the bottom margin would otherwise start a new page
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor(MUTED)
+        .text(
+          `Page ${index - range.start + 1} of ${range.count}`,
+          MARGIN,
+          doc.page.height - MARGIN - FOOTER_HEIGHT + 30,
+          { width: pageContentWidth(doc), align: 'right' }
+        );
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+}
+
+function pageContentWidth(doc: PDFKit.PDFDocument) {
+  return doc.page.width - MARGIN * 2;
+}
+
+function pageBottom(doc: PDFKit.PDFDocument) {
+  return doc.page.height - MARGIN - FOOTER_HEIGHT;
+}
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { statementController } from './statement.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  statementQuerySchema,
+  statementBatchQuerySchema,
+  emailStatementsSchema,
+} from './statement.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/',
+  validate({ query: statementBatchQuerySchema }),
+  asyncHandler(statementController.list.bind(statementController))
+);
+
+router.get(
+  '/pdf',
+  validate({ query: statementBatchQuerySchema }),
+  asyncHandler(statementController.listPdf.bind(statementController))
+);
+
+router.post(
+  '/email',
+  requireWriteAccess,
+  validate({ body: emailStatementsSchema }),
+  asyncHandler(statementController.email.bind(statementController))
+);
+
+router.get(
+  '/customers/:id',
+  validate({ params: idParamSchema, query: statementQuerySchema }),
+  asyncHandler(statementController.get.bind(statementController))
+);
+
+router.get(
+  '/customers/:id/pdf',
+  validate({ params: idParamSchema, query: statementQuerySchema }),
+  asyncHandler(statementController.pdf.bind(statementController))
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const statementQuerySchema = z.object({
+  type: z.enum(['OPEN_ITEM', 'BALANCE_FORWARD']).default('OPEN_ITEM'),
+  startDate: z.string().datetime().optional(), // Defaults to the first of the end date's month
+  endDate: z.string().datetime().optional(), // Defaults to today
+});
+
+export const statementBatchQuerySchema = statementQuerySchema.extend({
+  filter: z.enum(['WITH_BALANCE', 'OVERDUE']).default('WITH_BALANCE'),
+});
+
+export const emailStatementsSchema = statementBatchQuerySchema.extend({
+  customerIds: z.array(z.string().uuid()).min(1).max(500).optional(), // Instead of the filter
+  subject: z.string().min(1).max(200).optional(), // Overrides the company's email template
+  body: z.string().min(1).max(10000).optional(),
+});
+
+export type StatementQuery = z.infer<typeof statementQuerySchema>;
+export type StatementBatchQuery = z.infer<typeof statementBatchQuerySchema>;
+export type EmailStatementsInput = z.infer<typeof emailStatementsSchema>;
@@ -0,0 +1,394 @@
+import { prisma } from '../../config/database';
+import { InvoiceStatus, CreditMemoStatus, Customer } from '@prisma/client';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import { decimalToNumber, formatDateISO, round } from '../../utils/helpers';
+import { StatementQuery, StatementBatchQuery } from './statement.schema';
+import { renderStatementsPdf } from './statement.pdf';
+import { PdfAddress } from '../invoices/invoice.pdf';
+
+export type StatementType = StatementQuery['type'];
+
+export interface StatementPeriod {
+  type: StatementType;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface StatementOpenItem {
+  invoiceId: string;
+  invoiceNumber: string;
+  date: Date;
+  dueDate: Date;
+  total: number;
+  amountDue: number; // As of the statement date
+  daysOverdue: number;
+}
+
+export interface StatementCredit {
+  creditMemoId: string;
+  creditMemoNumber: string;
+  date: Date;
+  total: number;
+  amountRemaining: number; // As of the statement date
+}
+
+export interface StatementTransaction {
+  date: Date;
+  type: 'INVOICE' | 'PAYMENT' | 'CREDIT' | 'REFUND';
+  number: string;
+  dueDate: Date | null;
+  amount: number; // Positive for charges, negative for payments
+  balance: number;
+}
+
+export interface CustomerStatement extends StatementPeriod {
+  currency: string;
+  customer: {
+    id: string;
+    name: string;
+    email: string | null;
+    billingAddress: PdfAddress | null;
+  };
+  openingBalance: number | null; // Balance-forward statements only
+  transactions: StatementTransaction[]; // Balance-forward statements only
+  openItems: StatementOpenItem[];
+  credits: StatementCredit[]; // Unapplied credit, shown against the current bucket
+  aging: { period: string; amount: number }[];
+  balance: number;
+}
+
+const AGING_PERIODS = [30, 60, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISSUED_CREDIT_STATUSES = [CreditMemoStatus.OPEN, CreditMemoStatus.CLOSED];
+
+export class StatementService {
+  /**
+   * Fill in the statement period; it defaults to the month to date
+   */
+  resolvePeriod(query: StatementQuery): StatementPeriod {
+    const endDate = new Date(formatDateISO(query.endDate ? new Date(query.endDate) : new Date()));
+    const startDate = query.startDate
+      ? new Date(formatDateISO(new Date(query.startDate)))
+      : new Date(Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth(), 1));
+
+    if (startDate > endDate) {
+      throw new BadRequestError('Statement start date must be on or before the end date');
+    }
+
+    return { type: query.type, startDate, endDate };
+  }
+
+  /**
+   * Statement for one customer
+   */
+  async getStatement(companyId: string, customerId: string, query: StatementQuery) {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, companyId },
+    });
+
+    if (!customer) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    return this.buildStatement(customer, this.resolvePeriod(query));
+  }
+
+  /**
+   * Statements for every customer with a balance, or only those with overdue invoices
+   */
+  async getStatements(companyId: string, query: StatementBatchQuery, customerIds?: string[]) {
+    const period = this.resolvePeriod(query);
+
+    // Only customers invoiced or credited by the end date can have a balance
+    const customers = await prisma.customer.findMany({
+      where: {
+        companyId,
+        ...(customerIds && { id: { in: customerIds } }),
+        OR: [
+          {
+            invoices: {
+              some: {
+                status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+                date: { lte: period.endDate },
+              },
+            },
+          },
+          {
+            creditMemos: {
+              some: { status: { in: ISSUED_CREDIT_STATUSES }, date: { lte: period.endDate } },
+            },
+          },
+        ],
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const statements: CustomerStatement[] = [];
+
+    for (const customer of customers) {
+      const statement = await this.buildStatement(customer, period);
+
+      // Explicitly chosen customers get a statement even when they owe nothing
+      const include = customerIds
+        ? true
+        : query.filter === 'OVERDUE'
+          ? statement.openItems.some((item) => item.daysOverdue > 0)
+          : statement.balance !== 0;
+
+      if (include) statements.push(statement);
+    }
+
+    return statements;
+  }
+
+  /**
+   * Render one customer's statement as a PDF
+   */
+  async getStatementPdf(companyId: string, customerId: string, query: StatementQuery) {
+    const statement = await this.getStatement(companyId, customerId, query);
+    const pdf = await renderStatementsPdf(await this.getPdfCompany(companyId), [statement]);
+
+    return { filename: this.filename(`Statement-${statement.customer.name}`, statement.endDate), pdf };
+  }
+
+  /**
+   * Render a batch of statements into one PDF, one customer per page set
+   */
+  async getStatementsPdf(companyId: string, query: StatementBatchQuery) {
+    const statements = await this.getStatements(companyId, query);
+
+    if (statements.length === 0) {
+      throw new BadRequestError('No customers match the statement filter');
+    }
+
+    const pdf = await renderStatementsPdf(await this.getPdfCompany(companyId), statements);
+
+    return { filename: this.filename('Statements', statements[0].endDate), pdf };
+  }
+
+  private async buildStatement(customer: Customer, period: StatementPeriod): Promise<CustomerStatement> {
+    const { startDate, endDate } = period;
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        customerId: customer.id,
+        status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+        date: { lte: endDate },
+      },
+      include: {
+        paymentAllocations: {
+          include: { payment: { select: { date: true } } },
+        },
+        creditAllocations: {
+          where: { date: { lte: endDate } },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { invoiceNumber: 'asc' }],
+    });
+
+    const creditMemos = await prisma.creditMemo.findMany({
+      where: {
+        customerId: customer.id,
+        status: { in: ISSUED_CREDIT_STATUSES },
+        date: { lte: endDate },
+      },
+      include: {
+        allocations: { where: { date: { lte: endDate } } },
+        refunds: { where: { date: { lte: endDate } } },
+      },
+      orderBy: [{ date: 'asc' }, { creditMemoNumber: 'asc' }],
+    });
+
+    // Open as of the end date: payments received and credits applied later don't count yet
+    const openItems: StatementOpenItem[] = [];
+    for (const invoice of invoices) {
+      const paid =
+        invoice.paymentAllocations
+          .filter((alloc) => alloc.payment.date <= endDate)
+          .reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0) +
+        invoice.creditAllocations.reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0);
+      const amountDue = round(decimalToNumber(invoice.total) - paid);
+
+      if (amountDue > 0) {
+        openItems.push({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          date: invoice.date,
+          dueDate: invoice.dueDate,
+          total: decimalToNumber(invoice.total),
+          amountDue,
+          daysOverdue: Math.max(0, Math.floor((endDate.getTime() - invoice.dueDate.getTime()) / DAY_MS)),
+        });
+      }
+    }
+
+    const credits: StatementCredit[] = [];
+    for (const creditMemo of creditMemos) {
+      const used = [...creditMemo.allocations, ...creditMemo.refunds].reduce(
+        (sum, item) => sum + decimalToNumber(item.amount),
+        0
+      );
+      const amountRemaining = round(decimalToNumber(creditMemo.total) - used);
+
+      if (amountRemaining > 0) {
+        credits.push({
+          creditMemoId: creditMemo.id,
+          creditMemoNumber: creditMemo.creditMemoNumber,
+          date: creditMemo.date,
+          total: decimalToNumber(creditMemo.total),
+          amountRemaining,
+        });
+      }
+    }
+
+    const aging = this.buildAging(openItems, credits);
+    let openingBalance: number | null = null;
+    let transactions: StatementTransaction[] = [];
+    let balance = round(
+      openItems.reduce((sum, item) => sum + item.amountDue, 0) -
+        credits.reduce((sum, credit) => sum + credit.amountRemaining, 0)
+    );
+
+    if (period.type === 'BALANCE_FORWARD') {
+      const payments = await prisma.customerPayment.findMany({
+        where: { customerId: customer.id, date: { lte: endDate } },
+        orderBy: [{ date: 'asc' }, { paymentNumber: 'asc' }],
+      });
+
+      const refunds = await prisma.customerRefund.findMany({
+        where: { customerId: customer.id, date: { lte: endDate } },
+        orderBy: [{ date: 'asc' }, { refundNumber: 'asc' }],
+      });
+
+      // Overpayment credit is already counted in its payment
+      const issuedCredits = creditMemos.filter((creditMemo) => !creditMemo.paymentId);
+
+      const sumBefore = <T extends { date: Date }>(items: T[], amount: (item: T) => number) =>
+        items.filter((item) => item.date < startDate).reduce((sum, item) => sum + amount(item), 0);
+
+      openingBalance = round(
+        sumBefore(invoices, (invoice) => decimalToNumber(invoice.total)) -
+          sumBefore(payments, (payment) => decimalToNumber(payment.amount)) -
+          sumBefore(issuedCredits, (creditMemo) => decimalToNumber(creditMemo.total)) +
+          sumBefore(refunds, (refund) => decimalToNumber(refund.amount))
+      );
+
+      // Invoices and refunds sort ahead of payments and credits made the same day
+      const activity = [
+        ...invoices
+          .filter((invoice) => invoice.date >= startDate)
+          .map((invoice) => ({
+            date: invoice.date,
+            type: 'INVOICE' as const,
+            number: invoice.invoiceNumber,
+            dueDate: invoice.dueDate,
+            amount: decimalToNumber(invoice.total),
+          })),
+        ...payments
+          .filter((payment) => payment.date >= startDate)
+          .map((payment) => ({
+            date: payment.date,
+            type: 'PAYMENT' as const,
+            number: payment.paymentNumber,
+            dueDate: null,
+            amount: -decimalToNumber(payment.amount),
+          })),
+        ...issuedCredits
+          .filter((creditMemo) => creditMemo.date >= startDate)
+          .map((creditMemo) => ({
+            date: creditMemo.date,
+            type: 'CREDIT' as const,
+            number: creditMemo.creditMemoNumber,
+            dueDate: null,
+            amount: -decimalToNumber(creditMemo.total),
+          })),
+        ...refunds
+          .filter((refund) => refund.date >= startDate)
+          .map((refund) => ({
+            date: refund.date,
+            type: 'REFUND' as const,
+            number: refund.refundNumber,
+            dueDate: null,
+            amount: decimalToNumber(refund.amount),
+          })),
+      ].sort(
+        (a, b) =>
+          a.date.getTime() - b.date.getTime() || Number(b.amount > 0) - Number(a.amount > 0)
+      );
+
+      let running = openingBalance;
+      transactions = activity.map((item) => {
+        running = round(running + item.amount);
+        return { ...item, balance: running };
+      });
+      balance = running;
+    }
+
+    return {
+      ...period,
+      currency: customer.currency,
+      customer: {
+        id: customer.id,
+        name: customer.name,
+        email: customer.email,
+        billingAddress: customer.billingAddress as PdfAddress | null,
+      },
+      openingBalance,
+      transactions,
+      openItems,
+      credits,
+      aging,
+      balance,
+    };
+  }
+
+  /**
+   * Bucket open items as Current, 1-30, 31-60, 61-90 and Over 90 days past due;
+   * unapplied credit comes off Current
+   */
+  private buildAging(openItems: StatementOpenItem[], credits: StatementCredit[]) {
+    const aging = [
+      { period: 'Current', amount: 0 },
+      ...AGING_PERIODS.map((end, i) => ({
+        period: `${i === 0 ? 1 : AGING_PERIODS[i - 1] + 1}-${end} days`,
+        amount: 0,
+      })),
+      { period: `Over ${AGING_PERIODS[AGING_PERIODS.length - 1]} days`, amount: 0 },
+    ];
+
+    for (const item of openItems) {
+      const bucket = AGING_PERIODS.findIndex((end) => item.daysOverdue <= end);
+      const index = item.daysOverdue <= 0 ? 0 : bucket === -1 ? aging.length - 1 : bucket + 1;
+      aging[index].amount = round(aging[index].amount + item.amountDue);
+    }
+
+    for (const credit of credits) {
+      aging[0].amount = round(aging[0].amount - credit.amountRemaining);
+    }
+
+    return aging;
+  }
+
+  private async getPdfCompany(companyId: string) {
+    const company = await prisma.company.findUniqueOrThrow({ where: { id: companyId } });
+
+    return {
+      name: company.name,
+      legalName: company.legalName,
+      taxId: company.taxId,
+      address: company.address as PdfAddress | null,
+      phone: company.phone,
+      email: company.email,
+      website: company.website,
+      logo: company.logo,
+    };
+  }
+
+  private filename(label: string, endDate: Date) {
+    return `${label}-${formatDateISO(endDate)}`.replace(/[^\w.-]/g, '_') + '.pdf';
+  }
+}
+
+export const statementService = new StatementService();
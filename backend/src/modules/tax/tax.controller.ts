@@ -0,0 +1,60 @@
+import { Response } from 'express';
+import { taxService } from './tax.service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../../utils/response';
+
+export class TaxController {
+  async listRates(req: AuthenticatedRequest, res: Response) {
+    const rates = await taxService.getTaxRates(req.companyId!, req.query as any);
+    return sendSuccess(res, rates);
+  }
+
+  async getRate(req: AuthenticatedRequest, res: Response) {
+    const rate = await taxService.getTaxRate(req.companyId!, req.params.id);
+    return sendSuccess(res, rate);
+  }
+
+  async createRate(req: AuthenticatedRequest, res: Response) {
+    const rate = await taxService.createTaxRate(req.companyId!, req.body);
+    return sendCreated(res, rate, 'Tax rate created successfully');
+  }
+
+  async updateRate(req: AuthenticatedRequest, res: Response) {
+    const rate = await taxService.updateTaxRate(req.companyId!, req.params.id, req.body);
+    return sendSuccess(res, rate, 'Tax rate updated successfully');
+  }
+
+  async deactivateRate(req: AuthenticatedRequest, res: Response) {
+    await taxService.deactivateTaxRate(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+
+  async salesTaxReport(req: AuthenticatedRequest, res: Response) {
+    const { startDate, endDate } = req.query as any;
+
+    const report = await taxService.getSalesTaxReport(
+      req.companyId!,
+      new Date(startDate),
+      new Date(endDate)
+    );
+
+    return sendSuccess(res, report);
+  }
+
+  async listPayments(req: AuthenticatedRequest, res: Response) {
+    const result = await taxService.getTaxPayments(req.companyId!, req.query as any);
+    return sendPaginated(res, result.payments, result.pagination);
+  }
+
+  async createPayment(req: AuthenticatedRequest, res: Response) {
+    const payment = await taxService.createTaxPayment(req.companyId!, req.user!.id, req.body);
+    return sendCreated(res, payment, 'Tax payment recorded successfully');
+  }
+
+  async deletePayment(req: AuthenticatedRequest, res: Response) {
+    await taxService.deleteTaxPayment(req.companyId!, req.params.id);
+    return sendNoContent(res);
+  }
+}
+
+export const taxController = new TaxController();
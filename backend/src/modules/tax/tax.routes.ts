@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { taxController } from './tax.controller';
+import { validate, idParamSchema } from '../../middleware/validate';
+import { authenticate, requireCompany, requireWriteAccess } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import {
+  createTaxRateSchema,
+  updateTaxRateSchema,
+  taxRateQuerySchema,
+  salesTaxReportSchema,
+  createTaxPaymentSchema,
+  taxPaymentQuerySchema,
+} from './tax.schema';
+
+const router = Router();
+
+router.use(authenticate, requireCompany);
+
+router.get(
+  '/rates',
+  validate({ query: taxRateQuerySchema }),
+  asyncHandler(taxController.listRates.bind(taxController))
+);
+
+router.get(
+  '/rates/:id',
+  validate({ params: idParamSchema }),
+  asyncHandler(taxController.getRate.bind(taxController))
+);
+
+router.post(
+  '/rates',
+  requireWriteAccess,
+  validate({ body: createTaxRateSchema }),
+  asyncHandler(taxController.createRate.bind(taxController))
+);
+
+router.put(
+  '/rates/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema, body: updateTaxRateSchema }),
+  asyncHandler(taxController.updateRate.bind(taxController))
+);
+
+router.delete(
+  '/rates/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(taxController.deactivateRate.bind(taxController))
+);
+
+router.get(
+  '/report',
+  validate({ query: salesTaxReportSchema }),
+  asyncHandler(taxController.salesTaxReport.bind(taxController))
+);
+
+router.get(
+  '/payments',
+  validate({ query: taxPaymentQuerySchema }),
+  asyncHandler(taxController.listPayments.bind(taxController))
+);
+
+router.post(
+  '/payments',
+  requireWriteAccess,
+  validate({ body: createTaxPaymentSchema }),
+  asyncHandler(taxController.createPayment.bind(taxController))
+);
+
+router.delete(
+  '/payments/:id',
+  requireWriteAccess,
+  validate({ params: idParamSchema }),
+  asyncHandler(taxController.deletePayment.bind(taxController))
+);
+
+export default router;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+export const taxRateComponentSchema = z.object({
+  taxRateId: z.string().uuid(),
+  isCompound: z.boolean().default(false), // Charged on the base plus earlier components' tax
+});
+
+// Either a single rate, or two or more components for a combined rate
+export const createTaxRateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  rate: z.number().min(0).max(1).optional(), // Fraction, e.g. 0.0825 for 8.25%
+  components: z.array(taxRateComponentSchema).optional(),
+});
+
+export const updateTaxRateSchema = createTaxRateSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const taxRateQuerySchema = z.object({
+  search: z.string().optional(),
+  isActive: z.string().transform((v) => v === 'true').optional(),
+  isCombined: z.string().transform((v) => v === 'true').optional(),
+});
+
+export const salesTaxReportSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+});
+
+export const createTaxPaymentSchema = z.object({
+  date: z.string().datetime(),
+  amount: z.number().positive(),
+  paymentAccountId: z.string().uuid(), // Bank or credit card account the payment came from
+  periodStart: z.string().datetime().optional(),
+  periodEnd: z.string().datetime().optional(),
+  reference: z.string().max(100).optional(),
+  memo: z.string().max(500).optional(),
+});
+
+export const taxPaymentQuerySchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).default('1'),
+  limit: z.string().transform(Number).default('50'),
+});
+
+export type TaxRateComponentInput = z.infer<typeof taxRateComponentSchema>;
+export type CreateTaxRateInput = z.infer<typeof createTaxRateSchema>;
+export type UpdateTaxRateInput = z.infer<typeof updateTaxRateSchema>;
+export type TaxRateQuery = z.infer<typeof taxRateQuerySchema>;
+export type SalesTaxReportQuery = z.infer<typeof salesTaxReportSchema>;
+export type CreateTaxPaymentInput = z.infer<typeof createTaxPaymentSchema>;
+export type TaxPaymentQuery = z.infer<typeof taxPaymentQuerySchema>;
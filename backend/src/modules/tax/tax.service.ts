@@ -0,0 +1,663 @@
+import { prisma } from '../../config/database';
+import {
+  AccountSubType,
+  AccountType,
+  BankTransactionStatus,
+  CreditMemoStatus,
+  InvoiceStatus,
+  JournalSource,
+  Prisma,
+} from '@prisma/client';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
+import {
+  CreateTaxRateInput,
+  UpdateTaxRateInput,
+  TaxRateQuery,
+  TaxRateComponentInput,
+  CreateTaxPaymentInput,
+  TaxPaymentQuery,
+} from './tax.schema';
+import { decimalToNumber, round } from '../../utils/helpers';
+import { getPagination } from '../../middleware/validate';
+import { journalService } from '../journal/journal.service';
+import { periodService } from '../periods/period.service';
+import { accountService } from '../accounts/account.service';
+
+const taxRateInclude = {
+  components: {
+    include: { componentRate: { select: { id: true, name: true, rate: true } } },
+    orderBy: { sortOrder: 'asc' },
+  },
+} satisfies Prisma.TaxRateInclude;
+
+type TaxRateWithComponents = Prisma.TaxRateGetPayload<{ include: typeof taxRateInclude }>;
+
+interface RateComponent {
+  id: string;
+  rate: number;
+  isCompound: boolean;
+}
+
+interface RateTotals {
+  id: string;
+  name: string;
+  rate: number;
+  taxableSales: number;
+  taxCollected: number;
+}
+
+export class TaxService {
+  /**
+   * Get tax rates
+   */
+  async getTaxRates(companyId: string, query: TaxRateQuery) {
+    const where: Prisma.TaxRateWhereInput = { companyId };
+
+    if (query.search) {
+      where.name = { contains: query.search, mode: 'insensitive' };
+    }
+
+    if (query.isActive !== undefined) {
+      where.isActive = query.isActive;
+    }
+
+    if (query.isCombined !== undefined) {
+      where.isCombined = query.isCombined;
+    }
+
+    const rates = await prisma.taxRate.findMany({
+      where,
+      include: taxRateInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return rates.map((rate) => this.formatTaxRate(rate));
+  }
+
+  /**
+   * Get single tax rate with its components
+   */
+  async getTaxRate(companyId: string, taxRateId: string) {
+    const rate = await prisma.taxRate.findFirst({
+      where: { id: taxRateId, companyId },
+      include: taxRateInclude,
+    });
+
+    if (!rate) {
+      throw new NotFoundError('Tax rate not found');
+    }
+
+    return this.formatTaxRate(rate);
+  }
+
+  /**
+   * Create a single rate, or a combined rate from existing single rates
+   */
+  async createTaxRate(companyId: string, input: CreateTaxRateInput) {
+    await this.assertNameAvailable(companyId, input.name);
+
+    const isCombined = !!input.components?.length;
+
+    if (isCombined && input.rate !== undefined) {
+      throw new BadRequestError('A combined rate is calculated from its components');
+    }
+
+    if (!isCombined && input.rate === undefined) {
+      throw new BadRequestError('Rate is required');
+    }
+
+    const components = isCombined
+      ? await this.resolveComponents(companyId, input.components!)
+      : [];
+
+    const rate = await prisma.taxRate.create({
+      data: {
+        companyId,
+        name: input.name,
+        description: input.description,
+        isCombined,
+        rate: isCombined ? this.combineRates(components) : input.rate!,
+        components: {
+          create: components.map((component, index) => ({
+            componentRateId: component.id,
+            isCompound: component.isCompound,
+            sortOrder: index,
+          })),
+        },
+      },
+    });
+
+    return this.getTaxRate(companyId, rate.id);
+  }
+
+  /**
+   * Update tax rate. Changing a single rate re-prices the combined rates that use it;
+   * lines already on invoices and bills keep the rate they were charged.
+   */
+  async updateTaxRate(companyId: string, taxRateId: string, input: UpdateTaxRateInput) {
+    const existing = await prisma.taxRate.findFirst({
+      where: { id: taxRateId, companyId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Tax rate not found');
+    }
+
+    if (input.name && input.name !== existing.name) {
+      await this.assertNameAvailable(companyId, input.name);
+    }
+
+    const data: Prisma.TaxRateUpdateInput = {
+      name: input.name,
+      description: input.description,
+      isActive: input.isActive,
+    };
+
+    if (existing.isCombined) {
+      if (input.rate !== undefined) {
+        throw new BadRequestError('A combined rate is calculated from its components');
+      }
+
+      if (input.components) {
+        if (input.components.length === 0) {
+          throw new BadRequestError('A combined rate needs components');
+        }
+
+        const components = await this.resolveComponents(companyId, input.components, taxRateId);
+
+        await prisma.taxRateComponent.deleteMany({ where: { combinedRateId: taxRateId } });
+        data.rate = this.combineRates(components);
+        data.components = {
+          create: components.map((component, index) => ({
+            componentRateId: component.id,
+            isCompound: component.isCompound,
+            sortOrder: index,
+          })),
+        };
+      }
+    } else {
+      if (input.components?.length) {
+        throw new BadRequestError('Cannot add components to a single rate');
+      }
+
+      if (input.rate !== undefined) {
+        data.rate = input.rate;
+      }
+    }
+
+    await prisma.taxRate.update({
+      where: { id: taxRateId },
+      data,
+    });
+
+    if (!existing.isCombined && input.rate !== undefined) {
+      await this.recalculateCombinedRates(taxRateId);
+    }
+
+    return this.getTaxRate(companyId, taxRateId);
+  }
+
+  /**
+   * Deactivate tax rate so it can no longer be charged
+   */
+  async deactivateTaxRate(companyId: string, taxRateId: string) {
+    const rate = await prisma.taxRate.findFirst({
+      where: { id: taxRateId, companyId },
+    });
+
+    if (!rate) {
+      throw new NotFoundError('Tax rate not found');
+    }
+
+    await prisma.taxRate.update({
+      where: { id: taxRateId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Look up the effective rate for each tax rate ID used on document lines
+   */
+  async getRatesForLines(companyId: string, lines: { taxRateId?: string | null }[]) {
+    const taxRateIds = [
+      ...new Set(lines.map((l) => l.taxRateId).filter((id): id is string => !!id)),
+    ];
+
+    if (taxRateIds.length === 0) {
+      return new Map<string, number>();
+    }
+
+    const rates = await prisma.taxRate.findMany({
+      where: { id: { in: taxRateIds }, companyId },
+    });
+
+    if (rates.length !== taxRateIds.length) {
+      throw new NotFoundError('Tax rate not found');
+    }
+
+    const inactive = rates.find((r) => !r.isActive);
+    if (inactive) {
+      throw new BadRequestError(`Tax rate "${inactive.name}" is inactive`);
+    }
+
+    return new Map(rates.map((r) => [r.id, decimalToNumber(r.rate)]));
+  }
+
+  /**
+   * Sales tax report: taxable, exempt and non-taxable sales with tax collected
+   * per rate (and per component of combined rates) for invoices dated in the period,
+   * less credit memos issued in it
+   */
+  async getSalesTaxReport(companyId: string, startDate: Date, endDate: Date) {
+    const [invoices, creditMemos, taxRates, payments, taxAccount] = await Promise.all([
+      prisma.invoice.findMany({
+        where: {
+          companyId,
+          status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+          date: { gte: startDate, lte: endDate },
+        },
+        include: {
+          customer: { select: { taxExempt: true } },
+          lines: true,
+        },
+      }),
+      prisma.creditMemo.findMany({
+        where: {
+          companyId,
+          status: { in: [CreditMemoStatus.OPEN, CreditMemoStatus.CLOSED] },
+          date: { gte: startDate, lte: endDate },
+        },
+        include: {
+          customer: { select: { taxExempt: true } },
+          lines: true,
+        },
+      }),
+      prisma.taxRate.findMany({
+        where: { companyId },
+        include: taxRateInclude,
+      }),
+      prisma.taxPayment.aggregate({
+        where: { companyId, date: { gte: startDate, lte: endDate } },
+        _sum: { amount: true },
+      }),
+      accountService.getSystemAccount(companyId, AccountSubType.CURRENT_LIABILITY),
+    ]);
+
+    const ratesById = new Map(taxRates.map((r) => [r.id, r]));
+    const byRate = new Map<string, RateTotals>();
+    const byComponent = new Map<string, RateTotals>();
+
+    let totalSales = 0;
+    let exemptSales = 0;
+    let nonTaxableSales = 0;
+
+    const documents = [
+      ...invoices.map((invoice) => ({ ...invoice, sign: 1 })),
+      ...creditMemos.map((creditMemo) => ({ ...creditMemo, sign: -1 })),
+    ];
+
+    for (const document of documents) {
+      for (const line of document.lines) {
+        const net =
+          document.sign * (decimalToNumber(line.amount) - decimalToNumber(line.discountAmount));
+        const taxAmount = document.sign * decimalToNumber(line.taxAmount);
+        totalSales += net;
+
+        // Classified by the exemption the document was priced under; older documents
+        // fall back to the customer's current flag
+        if (document.taxExempt ?? document.customer.taxExempt) {
+          exemptSales += net;
+          continue;
+        }
+
+        const taxRate = line.taxRateId ? ratesById.get(line.taxRateId) : undefined;
+        if (!taxRate) {
+          nonTaxableSales += net;
+          continue;
+        }
+
+        this.addToTotals(byRate, taxRate, net, taxAmount);
+
+        if (taxRate.isCombined) {
+          for (const part of this.allocateToComponents(taxRate, taxAmount)) {
+            this.addToTotals(byComponent, part.rate, net, part.amount);
+          }
+        } else {
+          this.addToTotals(byComponent, taxRate, net, taxAmount);
+        }
+      }
+    }
+
+    const finalize = (totals: Map<string, RateTotals>) =>
+      [...totals.values()]
+        .map((t) => ({ ...t, taxableSales: round(t.taxableSales), taxCollected: round(t.taxCollected) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    const rates = finalize(byRate);
+    const taxableSales = round(rates.reduce((sum, r) => sum + r.taxableSales, 0));
+
+    return {
+      startDate,
+      endDate,
+      totalSales: round(totalSales),
+      taxableSales,
+      exemptSales: round(exemptSales),
+      nonTaxableSales: round(nonTaxableSales),
+      taxCollected: round(rates.reduce((sum, r) => sum + r.taxCollected, 0)),
+      rates,
+      components: finalize(byComponent),
+      paymentsInPeriod: decimalToNumber(payments._sum.amount),
+      taxPayable: await this.getLiabilityBalance(taxAccount.id, endDate),
+    };
+  }
+
+  /**
+   * Get tax payments with pagination
+   */
+  async getTaxPayments(companyId: string, query: TaxPaymentQuery) {
+    const where: Prisma.TaxPaymentWhereInput = { companyId };
+
+    if (query.startDate || query.endDate) {
+      where.date = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      };
+    }
+
+    const { skip, take } = getPagination(query.page, query.limit);
+
+    const [payments, total] = await Promise.all([
+      prisma.taxPayment.findMany({
+        where,
+        include: {
+          paymentAccount: { select: { id: true, code: true, name: true } },
+          journalEntry: { select: { id: true, entryNumber: true } },
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.taxPayment.count({ where }),
+    ]);
+
+    return {
+      payments: payments.map((p) => ({ ...p, amount: decimalToNumber(p.amount) })),
+      pagination: { page: query.page, limit: query.limit, total },
+    };
+  }
+
+  /**
+   * Record a payment to the tax agency, clearing Sales Tax Payable
+   */
+  async createTaxPayment(companyId: string, userId: string, input: CreateTaxPaymentInput) {
+    const [paymentAccount, taxAccount] = await Promise.all([
+      prisma.account.findFirst({ where: { id: input.paymentAccountId, companyId } }),
+      accountService.getSystemAccount(companyId, AccountSubType.CURRENT_LIABILITY),
+    ]);
+
+    if (!paymentAccount) {
+      throw new NotFoundError('Account not found');
+    }
+
+    if (
+      paymentAccount.id === taxAccount.id ||
+      (paymentAccount.type !== AccountType.ASSET && paymentAccount.type !== AccountType.LIABILITY)
+    ) {
+      throw new BadRequestError('Tax must be paid from a bank, cash or credit card account');
+    }
+
+    const date = new Date(input.date);
+
+    await periodService.assertOpen(companyId, date);
+
+    const payment = await prisma.taxPayment.create({
+      data: {
+        companyId,
+        date,
+        amount: input.amount,
+        paymentAccountId: paymentAccount.id,
+        periodStart: input.periodStart ? new Date(input.periodStart) : null,
+        periodEnd: input.periodEnd ? new Date(input.periodEnd) : null,
+        reference: input.reference,
+        memo: input.memo,
+      },
+    });
+
+    const memo = input.memo || 'Sales tax payment';
+
+    const journalEntry = await journalService.createFromTransaction(companyId, userId, {
+      date,
+      memo,
+      reference: input.reference,
+      source: JournalSource.TAX_PAYMENT,
+      sourceId: payment.id,
+      lines: [
+        {
+          accountId: taxAccount.id,
+          debit: input.amount,
+          credit: 0,
+          memo,
+        },
+        {
+          accountId: paymentAccount.id,
+          debit: 0,
+          credit: input.amount,
+          memo,
+        },
+      ],
+    });
+
+    const updated = await prisma.taxPayment.update({
+      where: { id: payment.id },
+      data: { journalEntryId: journalEntry.id },
+      include: {
+        paymentAccount: { select: { id: true, code: true, name: true } },
+        journalEntry: { select: { id: true, entryNumber: true } },
+      },
+    });
+
+    return { ...updated, amount: decimalToNumber(updated.amount) };
+  }
+
+  /**
+   * Delete tax payment, voiding its journal entry
+   */
+  async deleteTaxPayment(companyId: string, paymentId: string) {
+    const payment = await prisma.taxPayment.findFirst({
+      where: { id: paymentId, companyId },
+    });
+
+    if (!payment) {
+      throw new NotFoundError('Tax payment not found');
+    }
+
+    if (payment.journalEntryId) {
+      await journalService.assertSourceNotCleared(companyId, JournalSource.TAX_PAYMENT, payment.id);
+      await periodService.assertOpen(companyId, payment.date);
+
+      await prisma.bankTransaction.updateMany({
+        where: { matches: { some: { journalEntryId: payment.journalEntryId } } },
+        data: { matchedJournalEntryId: null, status: BankTransactionStatus.PENDING },
+      });
+
+      await prisma.bankTransactionMatch.deleteMany({
+        where: { journalEntryId: payment.journalEntryId },
+      });
+
+      // Void journal entry
+      await prisma.journalEntry.update({
+        where: { id: payment.journalEntryId },
+        data: { isPosted: false },
+      });
+    }
+
+    await prisma.taxPayment.delete({
+      where: { id: paymentId },
+    });
+  }
+
+  private async assertNameAvailable(companyId: string, name: string) {
+    const existing = await prisma.taxRate.findUnique({
+      where: { companyId_name: { companyId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictError('Tax rate name already exists');
+    }
+  }
+
+  /**
+   * Validate components: distinct, active single rates of this company
+   */
+  private async resolveComponents(
+    companyId: string,
+    components: TaxRateComponentInput[],
+    combinedRateId?: string
+  ): Promise<RateComponent[]> {
+    const ids = components.map((c) => c.taxRateId);
+
+    if (ids.length < 2) {
+      throw new BadRequestError('A combined rate needs at least two components');
+    }
+
+    if (new Set(ids).size !== ids.length || (combinedRateId && ids.includes(combinedRateId))) {
+      throw new BadRequestError('Each component can only be used once');
+    }
+
+    const rates = await prisma.taxRate.findMany({
+      where: { id: { in: ids }, companyId },
+    });
+
+    if (rates.length !== ids.length) {
+      throw new NotFoundError('Tax rate not found');
+    }
+
+    if (rates.some((r) => r.isCombined)) {
+      throw new BadRequestError('Components must be single rates');
+    }
+
+    if (rates.some((r) => !r.isActive)) {
+      throw new BadRequestError('Components must be active');
+    }
+
+    const ratesById = new Map(rates.map((r) => [r.id, decimalToNumber(r.rate)]));
+
+    return components.map((c) => ({
+      id: c.taxRateId,
+      rate: ratesById.get(c.taxRateId)!,
+      isCompound: c.isCompound,
+    }));
+  }
+
+  /**
+   * Effective rate: simple components add up, compound components also tax earlier components' tax
+   */
+  private combineRates(components: { rate: number; isCompound: boolean }[]): number {
+    let total = 0;
+
+    for (const component of components) {
+      total += component.isCompound ? component.rate * (1 + total) : component.rate;
+    }
+
+    return round(total, 6);
+  }
+
+  private async recalculateCombinedRates(componentRateId: string) {
+    const combined = await prisma.taxRate.findMany({
+      where: { isCombined: true, components: { some: { componentRateId } } },
+      include: taxRateInclude,
+    });
+
+    for (const rate of combined) {
+      await prisma.taxRate.update({
+        where: { id: rate.id },
+        data: {
+          rate: this.combineRates(
+            rate.components.map((c) => ({
+              rate: decimalToNumber(c.componentRate.rate),
+              isCompound: c.isCompound,
+            }))
+          ),
+        },
+      });
+    }
+  }
+
+  /**
+   * Split the tax charged at a combined rate across its components
+   */
+  private allocateToComponents(taxRate: TaxRateWithComponents, taxAmount: number) {
+    let total = 0;
+    const contributions = taxRate.components.map((c) => {
+      const rate = decimalToNumber(c.componentRate.rate);
+      const contribution = c.isCompound ? rate * (1 + total) : rate;
+      total += contribution;
+      return { rate: c.componentRate, contribution };
+    });
+
+    let allocated = 0;
+    return contributions.map((c, index) => {
+      const amount =
+        index === contributions.length - 1
+          ? round(taxAmount - allocated)
+          : total > 0
+            ? round((taxAmount * c.contribution) / total)
+            : 0;
+      allocated += amount;
+      return { rate: c.rate, amount };
+    });
+  }
+
+  private addToTotals(
+    totals: Map<string, RateTotals>,
+    rate: { id: string; name: string; rate: Prisma.Decimal },
+    taxableSales: number,
+    taxCollected: number
+  ) {
+    const entry = totals.get(rate.id) || {
+      id: rate.id,
+      name: rate.name,
+      rate: decimalToNumber(rate.rate),
+      taxableSales: 0,
+      taxCollected: 0,
+    };
+
+    entry.taxableSales += taxableSales;
+    entry.taxCollected += taxCollected;
+    totals.set(rate.id, entry);
+  }
+
+  private async getLiabilityBalance(accountId: string, asOfDate: Date) {
+    const [account, result] = await Promise.all([
+      prisma.account.findUnique({ where: { id: accountId } }),
+      prisma.journalLine.aggregate({
+        where: {
+          accountId,
+          journalEntry: { isPosted: true, date: { lte: asOfDate } },
+        },
+        _sum: { debit: true, credit: true },
+      }),
+    ]);
+
+    return round(
+      decimalToNumber(account?.openingBalance) +
+        decimalToNumber(result._sum.credit) -
+        decimalToNumber(result._sum.debit)
+    );
+  }
+
+  private formatTaxRate(rate: TaxRateWithComponents) {
+    return {
+      ...rate,
+      rate: decimalToNumber(rate.rate),
+      components: rate.components.map((c) => ({
+        id: c.componentRate.id,
+        name: c.componentRate.name,
+        rate: decimalToNumber(c.componentRate.rate),
+        isCompound: c.isCompound,
+      })),
+    };
+  }
+}
+
+export const taxService = new TaxService();
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from '../currency/currency.schema';
 
 export const addressSchema = z.object({
   line1: z.string().optional(),
@@ -18,6 +19,7 @@ export const createVendorSchema = z.object({
   website: z.string().url().optional().or(z.literal('')),
   address: addressSchema.optional(),
   paymentTerms: z.number().int().min(0).max(365).default(30),
+  currency: currencyCodeSchema.optional(), // Defaults to the company's base currency
   defaultExpenseAccountId: z.string().uuid().optional(),
   taxId: z.string().max(50).optional(),
   is1099Eligible: z.boolean().default(false),
@@ -1,9 +1,10 @@
 import { prisma } from '../../config/database';
 import { Prisma } from '@prisma/client';
-import { NotFoundError, ConflictError } from '../../utils/errors';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors';
 import { CreateVendorInput, UpdateVendorInput, VendorQuery } from './vendor.schema';
 import { generateCode, decimalToNumber } from '../../utils/helpers';
 import { getPagination } from '../../middleware/validate';
+import { currencyService } from '../currency/currency.service';
 
 export class VendorService {
   /**
@@ -98,6 +99,7 @@ export class VendorService {
         website: input.website || null,
         address: input.address || null,
         paymentTerms: input.paymentTerms,
+        currency: input.currency ?? (await currencyService.getBaseCurrency(companyId)),
         defaultExpenseAccountId: input.defaultExpenseAccountId,
         taxId: input.taxId,
         is1099Eligible: input.is1099Eligible,
@@ -131,6 +133,18 @@ export class VendorService {
       }
     }
 
+    // Open documents and payments are in the current currency
+    if (input.currency && input.currency !== vendor.currency) {
+      const documents = await prisma.vendor.findUnique({
+        where: { id: vendorId },
+        select: { _count: { select: { bills: true, billPayments: true } } },
+      });
+
+      if (documents && documents._count.bills + documents._count.billPayments > 0) {
+        throw new BadRequestError('Currency cannot change once the vendor has bills or payments');
+      }
+    }
+
     const updated = await prisma.vendor.update({
       where: { id: vendorId },
       data: {
@@ -0,0 +1,7 @@
+declare module 'ofx-js' {
+  /**
+   * Parse OFX 1.x (SGML) or 2.x (XML) data into a plain object tree.
+   * Leaf values are strings; repeated elements become arrays.
+   */
+  export function parse(data: string): Promise<Record<string, any>>;
+}
@@ -16,6 +16,33 @@ export function decimalToNumber(value: Decimal | null | undefined): number {
   return value.toNumber();
 }
 
+/**
+ * Work out a document line's tax. For tax-inclusive prices the tax is backed out of
+ * the gross and the amount and discount are restated net of tax, so that
+ * amount - discountAmount + taxAmount always equals the gross the customer sees.
+ */
+export function calculateLineTax(
+  amount: number,
+  discountAmount: number,
+  taxRate: number,
+  taxInclusive: boolean
+): { amount: number; discountAmount: number; taxAmount: number } {
+  const afterDiscount = amount - discountAmount;
+
+  if (!taxInclusive) {
+    return { amount, discountAmount, taxAmount: round(afterDiscount * taxRate) };
+  }
+
+  const taxAmount = round((afterDiscount * taxRate) / (1 + taxRate));
+  const netDiscount = round(discountAmount / (1 + taxRate));
+
+  return {
+    amount: round(afterDiscount - taxAmount + netDiscount),
+    discountAmount: netDiscount,
+    taxAmount,
+  };
+}
+
 /**
  * Check if two numbers are equal within a tolerance (for floating point comparison)
  */
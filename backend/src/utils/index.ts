@@ -1,3 +1,4 @@
 export * from './errors';
 export * from './response';
 export * from './helpers';
+export * from './scheduler';
@@ -0,0 +1,26 @@
+/**
+ * Run a background job at startup and then every intervalMinutes. A tick is skipped
+ * while the previous run is still going, and failures are logged rather than thrown.
+ */
+export function scheduleJob(name: string, intervalMinutes: number, job: () => Promise<unknown>) {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await job();
+    } catch (error) {
+      console.error(`❌ Job "${name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  void run();
+
+  return timer;
+}
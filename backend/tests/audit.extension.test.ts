@@ -0,0 +1,122 @@
+import { AuditAction } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+import { auditExtension, redactSnapshot, runWithAuditContext } from '../src/modules/audit/audit.extension';
+
+const context = { userId: 'user-1', ipAddress: '10.0.0.1', userAgent: 'jest' };
+
+// The extension applied to the mock client, exposing the query hook it installs
+const client = new Proxy({} as Record<string, any>, {
+  get: (_, key: string) => (key === '$extends' ? (extension: unknown) => extension : prismaMock[key]),
+});
+const { $allOperations } = (auditExtension as any)(client).query.$allModels;
+
+const run = (model: string, operation: string, args: object, result: unknown) => {
+  const query = jest.fn().mockResolvedValue(result);
+  return runWithAuditContext(context, () => $allOperations({ model, operation, args, query }));
+};
+
+const loggedEntries = () => prismaMock.auditLog.createMany.mock.calls.flatMap(([{ data }]) => data);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+});
+
+describe('auditExtension', () => {
+  it('records a snapshot of created rows with the request details', async () => {
+    const invoice = { id: 'invoice-1', companyId: 'company-1', total: dec(100), lines: [] };
+    prismaMock.invoice.findUnique.mockResolvedValue(invoice);
+
+    await run('Invoice', 'create', { data: {} }, { id: 'invoice-1' });
+
+    expect(prismaMock.invoice.findUnique).toHaveBeenCalledWith({
+      where: { id: 'invoice-1' },
+      include: { lines: true },
+    });
+    expect(loggedEntries()).toEqual([
+      {
+        companyId: 'company-1',
+        userId: 'user-1',
+        entityType: 'Invoice',
+        entityId: 'invoice-1',
+        action: AuditAction.CREATE,
+        previousData: undefined,
+        newData: { id: 'invoice-1', companyId: 'company-1', total: '100', lines: [] },
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+      },
+    ]);
+  });
+
+  it('records voiding as a void with the before and after snapshots', async () => {
+    prismaMock.journalEntry.findUnique
+      .mockResolvedValueOnce({ id: 'entry-1', companyId: 'company-1', isPosted: true })
+      .mockResolvedValueOnce({ id: 'entry-1', companyId: 'company-1', isPosted: false });
+
+    await run('JournalEntry', 'update', { where: { id: 'entry-1' }, data: { isPosted: false } }, {});
+
+    expect(loggedEntries()).toEqual([
+      expect.objectContaining({
+        action: AuditAction.VOID,
+        previousData: { id: 'entry-1', companyId: 'company-1', isPosted: true },
+        newData: { id: 'entry-1', companyId: 'company-1', isPosted: false },
+      }),
+    ]);
+  });
+
+  it('skips updates that change nothing', async () => {
+    prismaMock.customer.findUnique.mockResolvedValue({ id: 'customer-1', companyId: 'company-1' });
+
+    await run('Customer', 'update', { where: { id: 'customer-1' }, data: {} }, {});
+
+    expect(prismaMock.auditLog.createMany).not.toHaveBeenCalled();
+  });
+
+  it('records each row of a bulk delete, finding the company through the bank account', async () => {
+    prismaMock.bankTransaction.findMany.mockResolvedValue([
+      { id: 'txn-1', bankAccountId: 'bank-1' },
+      { id: 'txn-2', bankAccountId: 'bank-1' },
+    ]);
+    prismaMock.bankAccount.findUnique.mockResolvedValue({ companyId: 'company-1' });
+
+    await run('BankTransaction', 'deleteMany', { where: { bankAccountId: 'bank-1' } }, { count: 2 });
+
+    expect(loggedEntries().map((e) => [e.entityId, e.action, e.companyId])).toEqual([
+      ['txn-1', AuditAction.DELETE, 'company-1'],
+      ['txn-2', AuditAction.DELETE, 'company-1'],
+    ]);
+  });
+
+  it('keeps the closing date password out of company snapshots', async () => {
+    prismaMock.company.findUnique
+      .mockResolvedValueOnce({ id: 'company-1', closingDatePasswordHash: null })
+      .mockResolvedValueOnce({ id: 'company-1', closingDatePasswordHash: 'hash' });
+
+    await run('Company', 'update', { where: { id: 'company-1' }, data: {} }, {});
+
+    // Only the secret changed, so there is nothing to record
+    expect(prismaMock.auditLog.createMany).not.toHaveBeenCalled();
+  });
+
+  it('leaves unaudited models and changes outside a request alone', async () => {
+    const query = jest.fn().mockResolvedValue({ id: 'rate-1' });
+
+    await runWithAuditContext(context, () =>
+      $allOperations({ model: 'ExchangeRate', operation: 'create', args: {}, query })
+    );
+    await $allOperations({ model: 'Invoice', operation: 'create', args: {}, query });
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(prismaMock.invoice.findUnique).not.toHaveBeenCalled();
+    expect(prismaMock.auditLog.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('redactSnapshot', () => {
+  it('drops secret fields from stored snapshots', () => {
+    expect(redactSnapshot({ id: 'company-1', closingDatePasswordHash: 'hash' })).toEqual({
+      id: 'company-1',
+    });
+    expect(redactSnapshot(null)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { isSafeRegex, matchesPattern, MAX_MATCH_LENGTH } from '../src/modules/banking/bankRule.pattern';
+
+describe('isSafeRegex', () => {
+  it.each([
+    'AMAZON.*',
+    'AMAZON.*MKTP.*',
+    '^ACH\\s+\\d+',
+    '^POS\\s*\\d{4}\\s+.*',
+    '(ACH|WIRE) \\d{4}',
+    '(ACH|WIRE)?\\s*\\d+',
+    '(ACH\\s+\\d+|WIRE\\s+\\d+)',
+    '\\d+-\\d+',
+    '\\d+\\.\\d{2}',
+    '\\s+\\S+',
+    '[a-z]+[0-9]+',
+    '[(a+)]+',
+    '((a))+',
+    'colou?r',
+  ])('accepts %s', (pattern) => {
+    expect(isSafeRegex(pattern)).toBe(true);
+  });
+
+  it.each([
+    '.*.*.*.*.*.*.*!',
+    '\\w+\\w+\\w+\\w+!',
+    'a.*b.*c',
+    '[a-z]+[a-z0-9]+!',
+    'a?a?a?a?aaaa',
+    '(a+)+',
+    '(a|ab)*',
+    '(?:x\\d+)+',
+    '(a{2,})*',
+    '(?<n>a+)+',
+    '(\\w+)\\1',
+    '(?<n>a)\\k<n>',
+  ])('rejects %s', (pattern) => {
+    expect(isSafeRegex(pattern)).toBe(false);
+  });
+
+  it('rejects long patterns', () => {
+    expect(isSafeRegex('a'.repeat(101))).toBe(false);
+  });
+});
+
+describe('matchesPattern', () => {
+  it('matches case-insensitively', () => {
+    expect(matchesPattern('^ach\\s+\\d+', 'ACH 12345 PAYROLL')).toBe(true);
+    expect(matchesPattern('^ach\\s+\\d+', 'WIRE 12345')).toBe(false);
+  });
+
+  it('never matches an unsafe pattern', () => {
+    expect(matchesPattern('.*.*x', 'x')).toBe(false);
+  });
+
+  it('only looks at the start of long descriptions', () => {
+    const description = `${'a'.repeat(MAX_MATCH_LENGTH)}TAIL`;
+    expect(matchesPattern('TAIL', description)).toBe(false);
+    expect(matchesPattern('^a+$', description)).toBe(true);
+  });
+
+  it('returns quickly for the slowest patterns it accepts', () => {
+    const started = Date.now();
+    for (const pattern of ['\\w+\\w!', '\\d+-\\d+!', 'AMAZON.*MKTP.*']) {
+      matchesPattern(pattern, 'a1'.repeat(MAX_MATCH_LENGTH));
+    }
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
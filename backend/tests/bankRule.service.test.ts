@@ -0,0 +1,147 @@
+import { BankRule, BankTransactionType } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+
+import { bankRuleService } from '../src/modules/banking/bankRule.service';
+
+const rule = (overrides: Partial<BankRule>): BankRule =>
+  ({
+    id: 'rule-1',
+    companyId: 'company-1',
+    name: 'Rule',
+    priority: 0,
+    isActive: true,
+    bankAccountId: null,
+    descriptionContains: null,
+    descriptionRegex: null,
+    amountMin: null,
+    amountMax: null,
+    transactionType: null,
+    categoryAccountId: 'account-1',
+    memo: null,
+    customerId: null,
+    vendorId: null,
+    autoPost: false,
+    ...overrides,
+  }) as BankRule;
+
+const txn = {
+  bankAccountId: 'bank-1',
+  description: 'AMAZON MKTP US*2K4',
+  amount: -42.5,
+  type: BankTransactionType.DEBIT,
+};
+
+const input = {
+  name: 'Amazon',
+  priority: 0,
+  isActive: true,
+  categoryAccountId: 'account-1',
+  autoPost: false,
+};
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.account.findFirst.mockResolvedValue({ id: 'account-1' });
+});
+
+describe('BankRuleService.findMatchingRule', () => {
+  it('returns the first rule whose conditions all match', () => {
+    const rules = [
+      rule({ id: 'credit', descriptionContains: 'amazon', transactionType: BankTransactionType.CREDIT }),
+      rule({ id: 'amazon', descriptionContains: 'amazon' }),
+      rule({ id: 'any', amountMin: dec(0) }),
+    ];
+
+    expect(bankRuleService.findMatchingRule(rules, txn)?.id).toBe('amazon');
+  });
+
+  it('compares amounts by their absolute value', () => {
+    const within = rule({ amountMin: dec(40), amountMax: dec(50) });
+
+    expect(bankRuleService.findMatchingRule([within], txn)).not.toBeNull();
+    expect(bankRuleService.findMatchingRule([rule({ amountMax: dec(40) })], txn)).toBeNull();
+  });
+
+  it('limits rules to their bank account', () => {
+    expect(bankRuleService.findMatchingRule([rule({ bankAccountId: 'bank-2' })], txn)).toBeNull();
+  });
+
+  it('matches description patterns case-insensitively', () => {
+    const pattern = rule({ descriptionRegex: '^amazon\\s+mktp' });
+
+    expect(bankRuleService.findMatchingRule([pattern], txn)).not.toBeNull();
+  });
+
+  it('never matches a saved pattern that is unsafe', () => {
+    expect(bankRuleService.findMatchingRule([rule({ descriptionRegex: '(A+)+' })], txn)).toBeNull();
+  });
+});
+
+describe('BankRuleService.createRule', () => {
+  it('requires at least one condition', async () => {
+    await expect(bankRuleService.createRule('company-1', input)).rejects.toThrow(
+      'Bank rule must have at least one condition'
+    );
+  });
+
+  it('rejects a minimum above the maximum', async () => {
+    await expect(
+      bankRuleService.createRule('company-1', { ...input, amountMin: 10, amountMax: 5 })
+    ).rejects.toThrow('Minimum amount cannot exceed maximum amount');
+  });
+
+  it('rejects invalid and unsafe patterns', async () => {
+    await expect(
+      bankRuleService.createRule('company-1', { ...input, descriptionRegex: '(' })
+    ).rejects.toThrow('Description pattern is not a valid regular expression');
+    await expect(
+      bankRuleService.createRule('company-1', { ...input, descriptionRegex: '.*.*.*!' })
+    ).rejects.toThrow('Description pattern must be at most');
+  });
+
+  it('rejects assigning both a customer and a vendor', async () => {
+    await expect(
+      bankRuleService.createRule('company-1', {
+        ...input,
+        descriptionContains: 'amazon',
+        customerId: 'customer-1',
+        vendorId: 'vendor-1',
+      })
+    ).rejects.toThrow('Bank rule can assign a customer or a vendor, not both');
+  });
+
+  it('requires the category account to belong to the company', async () => {
+    prismaMock.account.findFirst.mockResolvedValue(null);
+
+    await expect(
+      bankRuleService.createRule('company-1', { ...input, descriptionContains: 'amazon' })
+    ).rejects.toThrow('Category account not found');
+  });
+
+  it('rejects duplicate names', async () => {
+    prismaMock.bankRule.findUnique.mockResolvedValue({ id: 'rule-2' });
+
+    await expect(
+      bankRuleService.createRule('company-1', { ...input, descriptionContains: 'amazon' })
+    ).rejects.toThrow('A bank rule with this name already exists');
+  });
+
+  it('saves a valid rule for the company', async () => {
+    prismaMock.bankRule.create.mockResolvedValue(
+      rule({ descriptionRegex: '^AMAZON.*', amountMin: dec(1) })
+    );
+
+    const created = await bankRuleService.createRule('company-1', {
+      ...input,
+      descriptionRegex: '^AMAZON.*',
+      amountMin: 1,
+    });
+
+    expect(prismaMock.bankRule.create).toHaveBeenCalledWith({
+      data: { ...input, descriptionRegex: '^AMAZON.*', amountMin: 1, companyId: 'company-1' },
+    });
+    expect(created.amountMin).toBe(1);
+  });
+});
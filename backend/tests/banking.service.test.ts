@@ -0,0 +1,201 @@
+import { BankTransactionStatus, BankTransactionType } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), assertSourceNotCleared: jest.fn() },
+}));
+
+import { bankingService } from '../src/modules/banking/banking.service';
+import { journalService } from '../src/modules/journal/journal.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const transaction = {
+  id: 'txn-1',
+  transactionDate: new Date('2024-03-10'),
+  description: 'OFFICE DEPOT #1042',
+  amount: dec(100),
+  type: BankTransactionType.DEBIT,
+  status: BankTransactionStatus.PENDING,
+  categoryAccountId: null,
+  appliedRuleId: null,
+  bankAccount: { companyId: 'company-1', accountId: 'bank-gl', currency: 'USD' },
+};
+
+const postedLines = () => createFromTransaction.mock.calls[0][2].lines;
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.bankTransaction.findFirst.mockResolvedValue(transaction);
+  prismaMock.bankTransaction.update.mockImplementation(({ data }) =>
+    Promise.resolve({ ...transaction, ...data })
+  );
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+  prismaMock.account.count.mockImplementation(({ where }) => Promise.resolve(where.id.in.length));
+  prismaMock.customer.count.mockResolvedValue(0);
+  prismaMock.vendor.count.mockResolvedValue(0);
+  createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+});
+
+describe('BankingService.categorizeTransaction splits', () => {
+  it('posts the bank side in full and one line per split', async () => {
+    const updated = await bankingService.categorizeTransaction('company-1', 'user-1', 'txn-1', {
+      splits: [
+        { accountId: 'supplies', amount: 60 },
+        { accountId: 'postage', amount: 40, memo: 'Stamps' },
+      ],
+    });
+
+    expect(postedLines()).toEqual([
+      { accountId: 'bank-gl', debit: 0, credit: 100, memo: 'OFFICE DEPOT #1042' },
+      expect.objectContaining({
+        accountId: 'supplies',
+        debit: 60,
+        credit: 0,
+        memo: 'OFFICE DEPOT #1042',
+      }),
+      expect.objectContaining({ accountId: 'postage', debit: 40, credit: 0, memo: 'Stamps' }),
+    ]);
+    expect(updated).toMatchObject({
+      categoryAccountId: null,
+      matchedJournalEntryId: 'entry-1',
+      status: BankTransactionStatus.CATEGORIZED,
+      amount: 100,
+    });
+  });
+
+  it('posts negative splits on the opposite side', async () => {
+    await bankingService.categorizeTransaction('company-1', 'user-1', 'txn-1', {
+      splits: [
+        { accountId: 'supplies', amount: 120 },
+        { accountId: 'rebates', amount: -20 },
+      ],
+    });
+
+    expect(postedLines()[2]).toMatchObject({ accountId: 'rebates', debit: 0, credit: 20 });
+  });
+
+  it('keeps the category and contact when there is a single split', async () => {
+    prismaMock.customer.count.mockResolvedValue(1);
+
+    const updated = await bankingService.categorizeTransaction('company-1', 'user-1', 'txn-1', {
+      splits: [{ accountId: 'supplies', amount: 100, customerId: 'customer-1' }],
+    });
+
+    expect(updated).toMatchObject({ categoryAccountId: 'supplies', customerId: 'customer-1' });
+  });
+
+  it('rejects splits that do not add up to the transaction', async () => {
+    await expect(
+      bankingService.categorizeTransaction('company-1', 'user-1', 'txn-1', {
+        splits: [
+          { accountId: 'supplies', amount: 60 },
+          { accountId: 'postage', amount: 30 },
+        ],
+      })
+    ).rejects.toThrow('Splits total 90.00 but the transaction is 100.00');
+    expect(createFromTransaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a category account together with splits', async () => {
+    await expect(
+      bankingService.categorizeTransaction('company-1', 'user-1', 'txn-1', {
+        categoryAccountId: 'supplies',
+        splits: [{ accountId: 'supplies', amount: 100 }],
+      })
+    ).rejects.toThrow('Provide either a category account or splits, not both');
+  });
+
+  it('rejects split accounts from another company', async () => {
+    prismaMock.account.count.mockResolvedValue(1);
+
+    await expect(
+      bankingService.categorizeTransaction('company-1', 'user-1', 'txn-1', {
+        splits: [
+          { accountId: 'supplies', amount: 60 },
+          { accountId: 'other-company', amount: 40 },
+        ],
+      })
+    ).rejects.toThrow('Category account not found');
+  });
+});
+
+describe('BankingService.uncategorizeTransaction', () => {
+  const categorized = { ...transaction, status: BankTransactionStatus.CATEGORIZED };
+
+  it('voids the categorization entry and returns the transaction to pending', async () => {
+    prismaMock.bankTransaction.findFirst.mockResolvedValue(categorized);
+
+    const updated = await bankingService.uncategorizeTransaction('company-1', 'txn-1');
+
+    expect(journalService.assertSourceNotCleared).toHaveBeenCalledWith(
+      'company-1',
+      'BANK_IMPORT',
+      'txn-1'
+    );
+    expect(prismaMock.journalEntry.updateMany).toHaveBeenCalledWith({
+      where: { companyId: 'company-1', source: 'BANK_IMPORT', sourceId: 'txn-1', isPosted: true },
+      data: { isPosted: false },
+    });
+    expect(updated).toMatchObject({
+      categoryAccountId: null,
+      matchedJournalEntryId: null,
+      appliedRuleId: null,
+      status: BankTransactionStatus.PENDING,
+    });
+  });
+
+  it('refuses while the entry is cleared in a reconciliation', async () => {
+    prismaMock.bankTransaction.findFirst.mockResolvedValue(categorized);
+    jest
+      .mocked(journalService.assertSourceNotCleared)
+      .mockRejectedValue(new Error('Transaction is cleared in a bank reconciliation'));
+
+    await expect(bankingService.uncategorizeTransaction('company-1', 'txn-1')).rejects.toThrow(
+      'Transaction is cleared in a bank reconciliation'
+    );
+    expect(prismaMock.journalEntry.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects reconciled and uncategorized transactions', async () => {
+    prismaMock.bankTransaction.findFirst.mockResolvedValueOnce({
+      ...transaction,
+      status: BankTransactionStatus.RECONCILED,
+    });
+    await expect(bankingService.uncategorizeTransaction('company-1', 'txn-1')).rejects.toThrow(
+      'Cannot modify reconciled transaction'
+    );
+
+    await expect(bankingService.uncategorizeTransaction('company-1', 'txn-1')).rejects.toThrow(
+      'Transaction is not categorized'
+    );
+  });
+});
+
+describe('BankingService.unmatchTransaction', () => {
+  it('unlinks the matched entries and leaves them posted', async () => {
+    prismaMock.bankTransaction.findFirst.mockResolvedValue({
+      ...transaction,
+      status: BankTransactionStatus.MATCHED,
+    });
+
+    const updated = await bankingService.unmatchTransaction('company-1', 'txn-1');
+
+    expect(updated).toMatchObject({
+      matchedJournalEntryId: null,
+      status: BankTransactionStatus.PENDING,
+    });
+    expect(prismaMock.bankTransactionMatch.deleteMany).toHaveBeenCalledWith({
+      where: { bankTransactionId: 'txn-1' },
+    });
+    expect(prismaMock.journalEntry.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects transactions that are not matched', async () => {
+    await expect(bankingService.unmatchTransaction('company-1', 'txn-1')).rejects.toThrow(
+      'Transaction is not matched'
+    );
+  });
+});
@@ -0,0 +1,333 @@
+import { AccountSubType, CreditMemoStatus, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), assertSourceNotCleared: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+jest.mock('../src/modules/invoices/invoice.service', () => ({
+  invoiceService: { calculateLineTotals: jest.fn(), applyPayment: jest.fn() },
+}));
+jest.mock('../src/modules/inventory/inventory.service', () => ({
+  inventoryService: { costReturnLines: jest.fn(), recordReturn: jest.fn(), reverseSource: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+
+import { creditMemoService } from '../src/modules/credits/creditMemo.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+import { invoiceService } from '../src/modules/invoices/invoice.service';
+import { inventoryService } from '../src/modules/inventory/inventory.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+const applyPayment = jest.mocked(invoiceService.applyPayment);
+
+const creditMemo = {
+  id: 'credit-1',
+  companyId: 'company-1',
+  customerId: 'customer-1',
+  invoiceId: 'invoice-1',
+  paymentId: null,
+  creditMemoNumber: 'CM-1008',
+  status: CreditMemoStatus.OPEN,
+  date: new Date('2024-03-01'),
+  currency: 'USD',
+  exchangeRate: dec(1),
+  taxTotal: dec(7.2),
+  total: dec(97.2),
+  amountApplied: dec(0),
+  amountRefunded: dec(0),
+  amountRemaining: dec(97.2),
+};
+
+const openInvoice = (id: string, amountDue: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  invoiceNumber: id.toUpperCase(),
+  currency: 'USD',
+  exchangeRate: dec(1),
+  amountDue: dec(amountDue),
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD', settings: {} });
+  prismaMock.creditMemo.findFirst.mockResolvedValue(creditMemo);
+  prismaMock.creditMemo.findUnique.mockResolvedValue(creditMemo);
+  prismaMock.creditMemoAllocation.create.mockImplementation(({ data }) =>
+    Promise.resolve({ id: `allocation-${data.invoiceId}`, ...data })
+  );
+  prismaMock.account.findFirst.mockResolvedValue({ id: 'fx-gl' });
+  jest.mocked(accountService.getSystemAccount).mockImplementation((_, subType) =>
+    Promise.resolve({ id: subType === AccountSubType.ACCOUNTS_RECEIVABLE ? 'ar' : 'sales-tax' } as any)
+  );
+  createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+  jest.mocked(inventoryService.costReturnLines).mockResolvedValue([]);
+});
+
+describe('CreditMemoService.createCreditMemo', () => {
+  const input = {
+    customerId: 'customer-1',
+    invoiceId: 'invoice-1',
+    date: '2024-03-01T00:00:00.000Z',
+    amountsAreTaxInclusive: false,
+    lines: [{ description: 'Returned widget', quantity: 1, unitPrice: 100, accountId: 'sales' }],
+  } as any;
+
+  beforeEach(() => {
+    prismaMock.customer.findFirst.mockResolvedValue({ id: 'customer-1', currency: 'EUR', taxExempt: false });
+    prismaMock.invoice.findFirst.mockResolvedValue({ id: 'invoice-1', lines: [{ productId: 'product-1' }] });
+    prismaMock.creditMemo.findFirst.mockResolvedValue({ creditMemoNumber: 'CM-1007' });
+    prismaMock.creditMemo.findUnique.mockResolvedValue(null);
+    prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.1) });
+    prismaMock.creditMemo.create.mockResolvedValue({ ...creditMemo, status: CreditMemoStatus.DRAFT });
+    jest.mocked(invoiceService.calculateLineTotals).mockResolvedValue({
+      lines: [{ description: 'Returned widget', amount: 100 }],
+      subtotal: 100,
+      taxTotal: 8,
+      discountTotal: 0,
+      total: 108,
+    } as any);
+  });
+
+  it('creates a draft in the customer currency', async () => {
+    await creditMemoService.createCreditMemo('company-1', 'user-1', input);
+
+    expect(invoiceService.calculateLineTotals).toHaveBeenCalledWith('company-1', input.lines, {
+      taxExempt: false,
+      taxInclusive: false,
+      keepProductIds: ['product-1'],
+    });
+    expect(prismaMock.creditMemo.create.mock.calls[0][0].data).toMatchObject({
+      creditMemoNumber: 'CM-1008',
+      status: CreditMemoStatus.DRAFT,
+      currency: 'EUR',
+      exchangeRate: 1.1,
+      total: 108,
+      amountRemaining: 108,
+      lines: { create: [{ description: 'Returned widget', amount: 100, sortOrder: 0 }] },
+    });
+  });
+
+  it('only credits a sent invoice of the same customer', async () => {
+    prismaMock.invoice.findFirst.mockResolvedValue(null);
+
+    await expect(creditMemoService.createCreditMemo('company-1', 'user-1', input)).rejects.toThrow(
+      'Credited invoice must be a sent invoice for the same customer'
+    );
+  });
+});
+
+describe('CreditMemoService.issueCreditMemo', () => {
+  beforeEach(() => {
+    prismaMock.creditMemo.findFirst.mockResolvedValue({
+      ...creditMemo,
+      status: CreditMemoStatus.DRAFT,
+      customer: { name: 'Globex' },
+      lines: [{ accountId: 'sales', description: 'Returned widget', amount: dec(100), discountAmount: dec(10) }],
+    });
+    prismaMock.creditMemo.update.mockResolvedValue(creditMemo);
+  });
+
+  it('posts the invoice entry in reverse and restocks returns', async () => {
+    jest.mocked(inventoryService.costReturnLines).mockResolvedValue([
+      { totalCost: 40, assetAccountId: 'inventory', cogsAccountId: 'cogs', memo: 'Return of widget' },
+    ] as any);
+
+    await creditMemoService.issueCreditMemo('company-1', 'user-1', 'credit-1');
+
+    const [, , entry] = createFromTransaction.mock.calls[0];
+    expect(entry).toMatchObject({ source: JournalSource.CREDIT_MEMO, sourceId: 'credit-1', reference: 'CM-1008' });
+    expect(entry.lines).toEqual([
+      expect.objectContaining({ accountId: 'sales', debit: 90, credit: 0 }),
+      expect.objectContaining({ accountId: 'sales-tax', debit: 7.2, credit: 0 }),
+      expect.objectContaining({ accountId: 'ar', debit: 0, credit: 97.2, customerId: 'customer-1' }),
+      expect.objectContaining({ accountId: 'inventory', debit: 40, credit: 0 }),
+      expect.objectContaining({ accountId: 'cogs', debit: 0, credit: 40 }),
+    ]);
+    expect(inventoryService.recordReturn).toHaveBeenCalledWith(
+      'company-1',
+      expect.objectContaining({ sourceId: 'credit-1', journalEntryId: 'entry-1' }),
+      expect.any(Array)
+    );
+    expect(prismaMock.creditMemo.update.mock.calls[0][0].data).toMatchObject({
+      status: CreditMemoStatus.OPEN,
+      amountRemaining: creditMemo.total,
+    });
+  });
+
+  it('issues a credit memo only once', async () => {
+    prismaMock.creditMemo.findFirst.mockResolvedValue(creditMemo);
+
+    await expect(creditMemoService.issueCreditMemo('company-1', 'user-1', 'credit-1')).rejects.toThrow(
+      'Credit memo has already been issued'
+    );
+  });
+});
+
+describe('CreditMemoService.voidCreditMemo', () => {
+  it('unposts the entry and takes restocked items back out', async () => {
+    await creditMemoService.voidCreditMemo('company-1', 'credit-1');
+
+    expect(prismaMock.journalEntry.updateMany).toHaveBeenCalledWith({
+      where: { companyId: 'company-1', source: JournalSource.CREDIT_MEMO, sourceId: 'credit-1' },
+      data: { isPosted: false },
+    });
+    expect(inventoryService.reverseSource).toHaveBeenCalledWith('company-1', JournalSource.CREDIT_MEMO, 'credit-1');
+    expect(prismaMock.creditMemo.update.mock.calls[0][0].data).toEqual({
+      status: CreditMemoStatus.VOID,
+      amountRemaining: 0,
+    });
+  });
+
+  it('refuses applied credit and overpayment credit', async () => {
+    prismaMock.creditMemo.findFirst.mockResolvedValueOnce({ ...creditMemo, amountApplied: dec(10) });
+    await expect(creditMemoService.voidCreditMemo('company-1', 'credit-1')).rejects.toThrow(
+      'Cannot void a credit memo that has been applied or refunded. Remove those first.'
+    );
+
+    prismaMock.creditMemo.findFirst.mockResolvedValueOnce({ ...creditMemo, paymentId: 'payment-1' });
+    await expect(creditMemoService.voidCreditMemo('company-1', 'credit-1')).rejects.toThrow(
+      'Overpayment credit is removed by deleting its payment'
+    );
+  });
+});
+
+describe('CreditMemoService.applyCreditMemo', () => {
+  const apply = (allocations: { invoiceId: string; amount: number }[], date = '2024-03-10T00:00:00.000Z') =>
+    creditMemoService.applyCreditMemo('company-1', 'user-1', 'credit-1', { date, allocations });
+
+  it('applies credit to several invoices and closes the memo', async () => {
+    prismaMock.invoice.findFirst
+      .mockResolvedValueOnce(openInvoice('invoice-1', 60))
+      .mockResolvedValueOnce(openInvoice('invoice-2', 50));
+
+    await apply([
+      { invoiceId: 'invoice-1', amount: 60 },
+      { invoiceId: 'invoice-2', amount: 37.2 },
+    ]);
+
+    expect(prismaMock.creditMemoAllocation.create).toHaveBeenCalledTimes(2);
+    // Same rate on both sides, so AR nets to nothing
+    expect(createFromTransaction).not.toHaveBeenCalled();
+    expect(applyPayment).toHaveBeenCalledWith('invoice-1', 60);
+    expect(applyPayment).toHaveBeenCalledWith('invoice-2', 37.2);
+    expect(prismaMock.creditMemo.update.mock.calls[0][0].data).toEqual({
+      amountApplied: 97.2,
+      amountRefunded: 0,
+      amountRemaining: 0,
+      status: CreditMemoStatus.CLOSED,
+    });
+  });
+
+  it('posts the exchange difference between the credit and invoice rates', async () => {
+    const eurCredit = { ...creditMemo, currency: 'EUR', exchangeRate: dec(1.1), amountRemaining: dec(100) };
+    prismaMock.creditMemo.findFirst.mockResolvedValue(eurCredit);
+    prismaMock.creditMemo.findUnique.mockResolvedValue(eurCredit);
+    prismaMock.invoice.findFirst.mockResolvedValue(
+      openInvoice('invoice-1', 100, { currency: 'EUR', exchangeRate: dec(1.05) })
+    );
+
+    await apply([{ invoiceId: 'invoice-1', amount: 100 }]);
+
+    const [, , entry] = createFromTransaction.mock.calls[0];
+    expect(entry.sourceId).toBe('allocation-invoice-1');
+    expect(entry.lines).toEqual([
+      expect.objectContaining({ accountId: 'ar', debit: 110, credit: 0, foreignDebit: 100 }),
+      expect.objectContaining({ accountId: 'ar', debit: 0, credit: 105, foreignCredit: 100 }),
+      expect.objectContaining({ accountId: 'fx-gl', debit: 0, credit: 5 }),
+    ]);
+  });
+
+  it('validates the allocations', async () => {
+    prismaMock.invoice.findFirst.mockResolvedValue(openInvoice('invoice-1', 50));
+
+    await expect(apply([{ invoiceId: 'invoice-1', amount: 60 }])).rejects.toThrow(
+      'Allocation amount (60) exceeds invoice balance (50)'
+    );
+
+    prismaMock.invoice.findFirst.mockResolvedValue(openInvoice('invoice-1', 200));
+    await expect(apply([{ invoiceId: 'invoice-1', amount: 150 }])).rejects.toThrow(
+      'Total allocations (150) exceed remaining credit (97.2)'
+    );
+    await expect(apply([{ invoiceId: 'invoice-1', amount: 10 }], '2024-02-28T00:00:00.000Z')).rejects.toThrow(
+      'Credit cannot be applied before the credit memo date'
+    );
+    expect(applyPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe('CreditMemoService.unapplyCreditMemo', () => {
+  it('reopens the invoice and restores the credit', async () => {
+    prismaMock.creditMemoAllocation.findFirst.mockResolvedValue({
+      id: 'allocation-1',
+      invoiceId: 'invoice-1',
+      date: new Date('2024-03-10'),
+      amount: dec(60),
+    });
+    prismaMock.creditMemo.findUnique.mockResolvedValue({
+      ...creditMemo,
+      status: CreditMemoStatus.CLOSED,
+      amountApplied: dec(97.2),
+      amountRemaining: dec(0),
+    });
+
+    await creditMemoService.unapplyCreditMemo('company-1', 'credit-1', 'allocation-1');
+
+    expect(applyPayment).toHaveBeenCalledWith('invoice-1', -60);
+    expect(prismaMock.journalEntry.updateMany.mock.calls[0][0].where.sourceId).toBe('allocation-1');
+    expect(prismaMock.creditMemoAllocation.delete).toHaveBeenCalledWith({ where: { id: 'allocation-1' } });
+    expect(prismaMock.creditMemo.update.mock.calls[0][0].data).toEqual({
+      amountApplied: 37.2,
+      amountRefunded: 0,
+      amountRemaining: 60,
+      status: CreditMemoStatus.OPEN,
+    });
+  });
+});
+
+describe('CreditMemoService overpayment credit', () => {
+  it('holds an overpayment as open credit without posting', async () => {
+    prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD', settings: { creditMemoPrefix: 'CR-' } });
+    prismaMock.creditMemo.findFirst.mockResolvedValue(null);
+
+    await creditMemoService.createFromOverpayment(
+      'company-1',
+      {
+        id: 'payment-1',
+        customerId: 'customer-1',
+        paymentNumber: 'PAY-1001',
+        date: new Date('2024-03-15'),
+        currency: 'EUR',
+        exchangeRate: dec(1.1),
+      } as any,
+      200
+    );
+
+    expect(prismaMock.creditMemo.create.mock.calls[0][0].data).toMatchObject({
+      paymentId: 'payment-1',
+      creditMemoNumber: 'CR-1001',
+      currency: 'EUR',
+      total: 200,
+      amountRemaining: 200,
+      status: CreditMemoStatus.OPEN,
+      memo: 'Overpayment on PAY-1001',
+    });
+    expect(createFromTransaction).not.toHaveBeenCalled();
+  });
+
+  it('keeps the payment while its credit is in use', async () => {
+    prismaMock.creditMemo.findUnique.mockResolvedValue({ ...creditMemo, amountRefunded: dec(20) });
+
+    await expect(creditMemoService.deleteOverpaymentCredit('payment-1')).rejects.toThrow(
+      'Credit CM-1008 from this payment has been applied or refunded. Remove those first.'
+    );
+    expect(prismaMock.creditMemo.delete).not.toHaveBeenCalled();
+  });
+});
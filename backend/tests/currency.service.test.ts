@@ -0,0 +1,248 @@
+import { AccountSubType, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), getJournalEntry: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+
+import { currencyService } from '../src/modules/currency/currency.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const amounts = (lines: { accountId: string; debit?: number; credit?: number }[]) =>
+  lines.map((l) => [l.accountId, l.debit, l.credit]);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+  prismaMock.account.findFirst.mockResolvedValue({ id: 'fx-gl' });
+});
+
+describe('CurrencyService.toBaseLines', () => {
+  it('converts at the document rate, keeping the foreign amounts and a balanced entry', () => {
+    const lines = currencyService.toBaseLines(
+      [
+        { accountId: 'ar', debit: 33.33, credit: 0 },
+        { accountId: 'ar', debit: 33.33, credit: 0 },
+        { accountId: 'ar', debit: 33.34, credit: 0 },
+        { accountId: 'sales', debit: 0, credit: 100 },
+      ],
+      'EUR',
+      1.1111,
+      'USD'
+    );
+
+    expect(amounts(lines)).toEqual([
+      ['ar', 37.03, 0],
+      ['ar', 37.03, 0],
+      ['ar', 37.04, 0],
+      ['sales', 0, 111.1],
+    ]);
+    expect(lines[3]).toMatchObject({ currency: 'EUR', exchangeRate: 1.1111, foreignCredit: 100 });
+  });
+
+  it('leaves base currency lines alone', () => {
+    const lines = [{ accountId: 'ar', debit: 10, credit: 0 }];
+
+    expect(currencyService.toBaseLines(lines, 'USD', 1, 'USD')).toBe(lines);
+  });
+});
+
+describe('CurrencyService.addFxGainLoss', () => {
+  it('credits a gain and debits a loss', async () => {
+    const gain = await currencyService.addFxGainLoss(
+      'company-1',
+      [
+        { accountId: 'bank', debit: 1100, credit: 0 },
+        { accountId: 'ar', debit: 0, credit: 1050 },
+      ],
+      'FX'
+    );
+    const loss = await currencyService.addFxGainLoss(
+      'company-1',
+      [
+        { accountId: 'bank', debit: 1000, credit: 0 },
+        { accountId: 'ar', debit: 0, credit: 1050 },
+      ],
+      'FX'
+    );
+
+    expect(gain[2]).toEqual({ accountId: 'fx-gl', debit: 0, credit: 50, memo: 'FX' });
+    expect(loss[2]).toEqual({ accountId: 'fx-gl', debit: 50, credit: 0, memo: 'FX' });
+  });
+
+  it('creates the exchange gain/loss account for older companies', async () => {
+    prismaMock.account.findFirst.mockResolvedValue(null);
+    prismaMock.account.create.mockResolvedValue({ id: 'new-fx-gl' });
+
+    const lines = await currencyService.addFxGainLoss(
+      'company-1',
+      [{ accountId: 'bank', debit: 1, credit: 0 }],
+      'FX'
+    );
+
+    expect(prismaMock.account.create.mock.calls[0][0].data).toMatchObject({
+      code: '4930',
+      name: 'Foreign Exchange Gain/Loss',
+      isSystemAccount: true,
+    });
+    expect(lines[1].accountId).toBe('new-fx-gl');
+  });
+});
+
+describe('CurrencyService.getRate', () => {
+  it('uses the latest rate on or before the date', async () => {
+    prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.08) });
+
+    await expect(
+      currencyService.getRate('company-1', 'EUR', '2024-03-31T15:00:00.000Z')
+    ).resolves.toBe(1.08);
+    expect(prismaMock.exchangeRate.findFirst).toHaveBeenCalledWith({
+      where: { companyId: 'company-1', currency: 'EUR', date: { lte: new Date('2024-03-31') } },
+      orderBy: { date: 'desc' },
+    });
+    await expect(currencyService.getRate('company-1', 'USD', '2024-03-31')).resolves.toBe(1);
+  });
+
+  it('fails when no rate has been entered yet', async () => {
+    prismaMock.exchangeRate.findFirst.mockResolvedValue(null);
+
+    await expect(currencyService.getRate('company-1', 'GBP', '2024-03-31')).rejects.toThrow(
+      'No GBP exchange rate on or before 2024-03-31'
+    );
+  });
+});
+
+describe('CurrencyService.importRates', () => {
+  it('saves the readable rows and reports the rest', async () => {
+    const result = await currencyService.importRates(
+      'company-1',
+      [
+        'Currency,Date,Rate',
+        'eur,2024-03-31,1.10',
+        'USD,2024-03-31,1',
+        'GBP,not a date,1.27',
+        'JPY,2024-03-31,-1',
+        'EURO,2024-03-31,1',
+      ].join('\n')
+    );
+
+    expect(result).toEqual({
+      imported: 1,
+      errors: [
+        { row: 3, message: 'USD is the base currency' },
+        { row: 4, message: 'Invalid date' },
+        { row: 5, message: 'Rate must be a positive number' },
+        { row: 6, message: 'Invalid currency code' },
+      ],
+    });
+    expect(prismaMock.exchangeRate.upsert.mock.calls[0][0].create).toEqual({
+      companyId: 'company-1',
+      currency: 'EUR',
+      date: new Date('2024-03-31'),
+      rate: 1.1,
+    });
+  });
+});
+
+describe('CurrencyService.revalue', () => {
+  beforeEach(() => {
+    prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.1) });
+    jest
+      .mocked(accountService.getSystemAccount)
+      .mockImplementation((_, subType) =>
+        Promise.resolve({ id: subType === AccountSubType.ACCOUNTS_RECEIVABLE ? 'ar' : 'ap' } as any)
+      );
+    prismaMock.invoice.findMany.mockResolvedValue([]);
+    prismaMock.creditMemo.findMany.mockResolvedValue([]);
+    prismaMock.bill.findMany.mockResolvedValue([]);
+    prismaMock.bankAccount.findMany.mockResolvedValue([]);
+    createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+  });
+
+  it('posts unrealized gains and losses on open foreign balances, reversing the next day', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([
+      {
+        invoiceNumber: 'INV-1',
+        customerId: 'customer-1',
+        currency: 'EUR',
+        total: dec(1000),
+        exchangeRate: dec(1.05),
+        paymentAllocations: [
+          { amount: dec(400), payment: { date: new Date('2024-03-15') } },
+          { amount: dec(100), payment: { date: new Date('2024-04-05') } },
+        ],
+        creditAllocations: [],
+      },
+    ]);
+    prismaMock.creditMemo.findMany.mockResolvedValue([
+      {
+        creditMemoNumber: 'CM-1',
+        customerId: 'customer-1',
+        currency: 'EUR',
+        total: dec(200),
+        exchangeRate: dec(1),
+        allocations: [],
+        refunds: [{ amount: dec(50) }],
+      },
+    ]);
+    prismaMock.bill.findMany.mockResolvedValue([
+      {
+        billNumber: 'BILL-1',
+        vendorId: 'vendor-1',
+        currency: 'EUR',
+        total: dec(500),
+        exchangeRate: dec(1.12),
+        paymentAllocations: [],
+      },
+    ]);
+    prismaMock.bankAccount.findMany.mockResolvedValue([
+      { accountId: 'eur-bank', currency: 'EUR', bankName: 'Euro account' },
+    ]);
+    prismaMock.journalLine.aggregate.mockResolvedValue({
+      _sum: { debit: dec(1080), credit: dec(210), foreignDebit: dec(1000), foreignCredit: dec(200) },
+    });
+
+    await currencyService.revalue('company-1', 'user-1', { date: '2024-03-31T00:00:00.000Z' });
+
+    const { date, source, lines, autoReverseDate } = createFromTransaction.mock.calls[0][2];
+    expect({ date, source, autoReverseDate }).toEqual({
+      date: new Date('2024-03-31'),
+      source: JournalSource.FX_REVALUATION,
+      autoReverseDate: new Date('2024-04-01'),
+    });
+    expect(amounts(lines)).toEqual([
+      ['ar', 30, 0],
+      ['ar', 0, 15],
+      ['ap', 10, 0],
+      ['eur-bank', 10, 0],
+      ['fx-gl', 0, 35],
+    ]);
+    expect(lines[0]).toMatchObject({
+      customerId: 'customer-1',
+      memo: 'Unrealized FX revaluation 2024-03-31 - Invoice INV-1',
+    });
+  });
+
+  it('revalues a date only once', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue({ entryNumber: 42 });
+
+    await expect(
+      currencyService.revalue('company-1', 'user-1', { date: '2024-03-31T00:00:00.000Z' })
+    ).rejects.toThrow('Balances were already revalued on 2024-03-31 (Entry #42)');
+  });
+
+  it('refuses when there is nothing to revalue', async () => {
+    await expect(
+      currencyService.revalue('company-1', 'user-1', { date: '2024-03-31T00:00:00.000Z' })
+    ).rejects.toThrow('No foreign currency balances to revalue on 2024-03-31');
+    expect(createFromTransaction).not.toHaveBeenCalled();
+  });
+});
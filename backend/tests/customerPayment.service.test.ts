@@ -0,0 +1,120 @@
+import { AccountSubType, PaymentMethod } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+jest.mock('../src/modules/invoices/invoice.service', () => ({
+  invoiceService: { applyPayment: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+jest.mock('../src/modules/credits/creditMemo.service', () => ({
+  creditMemoService: { createFromOverpayment: jest.fn() },
+}));
+
+import { customerPaymentService } from '../src/modules/payments/customerPayment.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+import { invoiceService } from '../src/modules/invoices/invoice.service';
+import { creditMemoService } from '../src/modules/credits/creditMemo.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const input = {
+  customerId: 'customer-1',
+  date: '2024-03-15T00:00:00.000Z',
+  amount: 1000,
+  method: PaymentMethod.WIRE,
+  bankAccountId: 'eur-bank',
+  allocations: [{ invoiceId: 'invoice-1', amount: 1000 }],
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD', settings: {} });
+  prismaMock.customer.findFirst.mockResolvedValue({ id: 'customer-1', name: 'Acme GmbH', currency: 'EUR' });
+  prismaMock.invoice.findFirst.mockResolvedValue({
+    id: 'invoice-1',
+    invoiceNumber: 'INV-1',
+    currency: 'EUR',
+    amountDue: dec(1000),
+    exchangeRate: dec(1.05),
+  });
+  prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.1) });
+  prismaMock.bankAccount.findUnique.mockResolvedValue({ accountId: 'eur-bank-gl', currency: 'EUR' });
+  prismaMock.account.findFirst.mockResolvedValue({ id: 'fx-gl' });
+  prismaMock.customerPayment.create.mockResolvedValue({ id: 'payment-1', amount: dec(1000) });
+  jest.mocked(accountService.getSystemAccount).mockImplementation((_, subType) =>
+    Promise.resolve({ id: subType === AccountSubType.ACCOUNTS_RECEIVABLE ? 'ar' : 'undeposited' } as any)
+  );
+});
+
+describe('CustomerPaymentService.createPayment', () => {
+  it('posts a realized gain when the currency strengthened since the invoice', async () => {
+    await customerPaymentService.createPayment('company-1', 'user-1', input);
+
+    const { lines } = createFromTransaction.mock.calls[0][2];
+    expect(lines).toEqual([
+      expect.objectContaining({ accountId: 'eur-bank-gl', debit: 1100, credit: 0, foreignDebit: 1000 }),
+      expect.objectContaining({ accountId: 'ar', debit: 0, credit: 1050, foreignCredit: 1000 }),
+      { accountId: 'fx-gl', debit: 0, credit: 50, memo: 'Exchange gain/loss on payment' },
+    ]);
+    expect(invoiceService.applyPayment).toHaveBeenCalledWith('invoice-1', 1000);
+  });
+
+  it('posts a realized loss when the currency weakened', async () => {
+    prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.02) });
+
+    await customerPaymentService.createPayment('company-1', 'user-1', input);
+
+    expect(createFromTransaction.mock.calls[0][2].lines[2]).toMatchObject({
+      accountId: 'fx-gl',
+      debit: 30,
+      credit: 0,
+    });
+  });
+
+  it('keeps foreign payments out of Undeposited Funds', async () => {
+    await expect(
+      customerPaymentService.createPayment('company-1', 'user-1', { ...input, bankAccountId: undefined })
+    ).rejects.toThrow('Foreign currency payments must be deposited to a bank account');
+  });
+
+  it('only applies payments to invoices in the customer currency', async () => {
+    prismaMock.invoice.findFirst.mockResolvedValue({ id: 'invoice-1', invoiceNumber: 'INV-1', currency: 'USD' });
+
+    await expect(customerPaymentService.createPayment('company-1', 'user-1', input)).rejects.toThrow(
+      'Invoice INV-1 is not in EUR'
+    );
+  });
+
+  it('keeps the amount beyond the invoice balance as customer credit', async () => {
+    prismaMock.customerPayment.create.mockResolvedValue({ id: 'payment-1', amount: dec(1200) });
+
+    await customerPaymentService.createPayment('company-1', 'user-1', {
+      ...input,
+      amount: 1200,
+      allocations: [{ invoiceId: 'invoice-1', amount: 1200 }],
+    });
+
+    // The credit stays in AR at today's rate
+    expect(createFromTransaction.mock.calls[0][2].lines).toEqual([
+      expect.objectContaining({ accountId: 'eur-bank-gl', debit: 1320, foreignDebit: 1200 }),
+      expect.objectContaining({ accountId: 'ar', credit: 1270, foreignCredit: 1200 }),
+      expect.objectContaining({ accountId: 'fx-gl', credit: 50 }),
+    ]);
+    expect(invoiceService.applyPayment).toHaveBeenCalledWith('invoice-1', 1000);
+    expect(creditMemoService.createFromOverpayment).toHaveBeenCalledWith(
+      'company-1',
+      expect.objectContaining({ id: 'payment-1' }),
+      200
+    );
+  });
+});
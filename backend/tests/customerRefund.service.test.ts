@@ -0,0 +1,148 @@
+import { AccountSubType, CreditMemoStatus, JournalSource, PaymentMethod } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), assertSourceNotCleared: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+jest.mock('../src/modules/credits/creditMemo.service', () => ({
+  creditMemoService: { applyRefund: jest.fn() },
+}));
+
+import { customerRefundService } from '../src/modules/credits/customerRefund.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+import { creditMemoService } from '../src/modules/credits/creditMemo.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const creditMemo = {
+  id: 'credit-1',
+  customerId: 'customer-1',
+  creditMemoNumber: 'CM-1008',
+  status: CreditMemoStatus.OPEN,
+  date: new Date('2024-03-01'),
+  currency: 'USD',
+  exchangeRate: dec(1),
+  amountRemaining: dec(100),
+  customer: { name: 'Globex' },
+};
+
+const input = {
+  creditMemoId: 'credit-1',
+  date: '2024-03-20T00:00:00.000Z',
+  amount: 60,
+  method: PaymentMethod.CHECK,
+  bankAccountId: 'bank-1',
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD', settings: {} });
+  prismaMock.creditMemo.findFirst.mockResolvedValue(creditMemo);
+  prismaMock.bankAccount.findFirst.mockResolvedValue({ id: 'bank-1', accountId: 'bank-gl', currency: 'USD' });
+  prismaMock.customerRefund.findFirst.mockResolvedValue(null);
+  prismaMock.customerRefund.create.mockImplementation(({ data }) =>
+    Promise.resolve({ id: 'refund-1', ...data, amount: dec(data.amount), exchangeRate: dec(data.exchangeRate) })
+  );
+  prismaMock.account.findFirst.mockResolvedValue({ id: 'fx-gl' });
+  jest.mocked(accountService.getSystemAccount).mockResolvedValue({ id: 'ar' } as any);
+});
+
+describe('CustomerRefundService.createRefund', () => {
+  it('pays the credit out of the bank and restores AR', async () => {
+    const refund = await customerRefundService.createRefund('company-1', 'user-1', input);
+
+    expect(refund).toMatchObject({ refundNumber: 'RFD-1001', amount: 60, exchangeRate: 1 });
+    const [, , entry] = createFromTransaction.mock.calls[0];
+    expect(entry).toMatchObject({ source: JournalSource.CUSTOMER_REFUND, sourceId: 'refund-1' });
+    expect(entry.lines).toEqual([
+      { accountId: 'ar', debit: 60, credit: 0, customerId: 'customer-1', memo: 'Refund of credit memo CM-1008' },
+      { accountId: 'bank-gl', debit: 0, credit: 60, memo: 'Refund to Globex' },
+    ]);
+    expect(accountService.getSystemAccount).toHaveBeenCalledWith('company-1', AccountSubType.ACCOUNTS_RECEIVABLE);
+    expect(creditMemoService.applyRefund).toHaveBeenCalledWith('credit-1', 60);
+  });
+
+  it('posts the exchange difference on a foreign refund', async () => {
+    prismaMock.creditMemo.findFirst.mockResolvedValue({ ...creditMemo, currency: 'EUR', exchangeRate: dec(1.1) });
+    prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.2) });
+    prismaMock.bankAccount.findFirst.mockResolvedValue({ id: 'bank-1', accountId: 'eur-bank-gl', currency: 'EUR' });
+
+    await customerRefundService.createRefund('company-1', 'user-1', input);
+
+    expect(createFromTransaction.mock.calls[0][2].lines).toEqual([
+      expect.objectContaining({ accountId: 'ar', debit: 66, exchangeRate: 1.1, foreignDebit: 60 }),
+      expect.objectContaining({ accountId: 'eur-bank-gl', credit: 72, exchangeRate: 1.2, foreignCredit: 60 }),
+      { accountId: 'fx-gl', debit: 6, credit: 0, memo: 'Exchange gain/loss on refund' },
+    ]);
+  });
+
+  it('pays a foreign refund from a base currency account', async () => {
+    prismaMock.creditMemo.findFirst.mockResolvedValue({ ...creditMemo, currency: 'EUR', exchangeRate: dec(1.1) });
+    prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: dec(1.1) });
+
+    await customerRefundService.createRefund('company-1', 'user-1', input);
+
+    expect(createFromTransaction.mock.calls[0][2].lines[1]).toEqual({
+      accountId: 'bank-gl',
+      debit: 0,
+      credit: 66,
+      memo: 'Refund to Globex',
+    });
+  });
+
+  it('validates the credit and bank account', async () => {
+    await expect(
+      customerRefundService.createRefund('company-1', 'user-1', { ...input, amount: 150 })
+    ).rejects.toThrow('Refund amount (150) exceeds remaining credit (100)');
+
+    await expect(
+      customerRefundService.createRefund('company-1', 'user-1', { ...input, date: '2024-02-28T00:00:00.000Z' })
+    ).rejects.toThrow('Refund cannot be dated before the credit memo');
+
+    prismaMock.bankAccount.findFirst.mockResolvedValue({ id: 'bank-1', accountId: 'gbp-bank-gl', currency: 'GBP' });
+    await expect(customerRefundService.createRefund('company-1', 'user-1', input)).rejects.toThrow(
+      'Bank account is in GBP but the refund is in USD'
+    );
+
+    prismaMock.creditMemo.findFirst.mockResolvedValue({ ...creditMemo, status: CreditMemoStatus.CLOSED });
+    await expect(customerRefundService.createRefund('company-1', 'user-1', input)).rejects.toThrow(
+      'Only open credit memos can be refunded'
+    );
+
+    expect(createFromTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('CustomerRefundService.deleteRefund', () => {
+  it('unposts the refund and restores the credit', async () => {
+    prismaMock.customerRefund.findFirst.mockResolvedValue({
+      id: 'refund-1',
+      creditMemoId: 'credit-1',
+      date: new Date('2024-03-20'),
+      amount: dec(60),
+    });
+
+    await customerRefundService.deleteRefund('company-1', 'refund-1');
+
+    expect(journalService.assertSourceNotCleared).toHaveBeenCalledWith(
+      'company-1',
+      JournalSource.CUSTOMER_REFUND,
+      'refund-1'
+    );
+    expect(prismaMock.journalEntry.updateMany).toHaveBeenCalledWith({
+      where: { companyId: 'company-1', source: JournalSource.CUSTOMER_REFUND, sourceId: 'refund-1' },
+      data: { isPosted: false },
+    });
+    expect(prismaMock.customerRefund.delete).toHaveBeenCalledWith({ where: { id: 'refund-1' } });
+    expect(creditMemoService.applyRefund).toHaveBeenCalledWith('credit-1', -60);
+  });
+});
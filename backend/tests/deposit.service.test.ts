@@ -0,0 +1,187 @@
+import { BankTransactionStatus, BankTransactionType, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), assertSourceNotCleared: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+
+import { depositService } from '../src/modules/banking/deposit.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const payment = (id: string, amount: number, extra: object = {}) => ({
+  id,
+  paymentNumber: id.toUpperCase(),
+  customerId: 'customer-1',
+  customer: { name: 'Acme' },
+  amount: dec(amount),
+  bankAccountId: null,
+  depositId: null,
+  ...extra,
+});
+
+const deposit = {
+  id: 'deposit-1',
+  total: dec(0),
+  payments: [],
+  otherLines: [],
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.bankAccount.findFirst.mockResolvedValue({
+    id: 'bank-1',
+    accountId: 'bank-gl',
+    bankName: 'Checking',
+    currency: 'USD',
+  });
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+  prismaMock.customerPayment.findMany.mockResolvedValue([]);
+  prismaMock.account.count.mockResolvedValue(0);
+  prismaMock.customer.count.mockResolvedValue(0);
+  prismaMock.bankDeposit.create.mockResolvedValue({ id: 'deposit-1' });
+  prismaMock.bankDeposit.findFirst.mockResolvedValue(deposit);
+  prismaMock.bankTransaction.findMany.mockResolvedValue([]);
+  jest.mocked(accountService.getSystemAccount).mockResolvedValue({ id: 'undeposited-gl' } as any);
+  createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+});
+
+describe('DepositService.createDeposit', () => {
+  it('moves the payments out of Undeposited Funds and stamps them deposited', async () => {
+    prismaMock.customerPayment.findMany.mockResolvedValue([payment('pay-1', 300), payment('pay-2', 200)]);
+    prismaMock.account.count.mockResolvedValue(1);
+
+    await depositService.createDeposit('company-1', 'user-1', {
+      bankAccountId: 'bank-1',
+      date: '2024-03-10T00:00:00.000Z',
+      paymentIds: ['pay-1', 'pay-2'],
+      otherLines: [{ accountId: 'fees-gl', amount: -15, memo: 'Bank fee' }],
+    });
+
+    const { lines, source, sourceId } = createFromTransaction.mock.calls[0][2];
+    expect({ source, sourceId }).toEqual({ source: JournalSource.DEPOSIT, sourceId: 'deposit-1' });
+    expect(lines.map((l) => [l.accountId, l.debit, l.credit])).toEqual([
+      ['bank-gl', 485, 0],
+      ['undeposited-gl', 0, 300],
+      ['undeposited-gl', 0, 200],
+      ['fees-gl', 15, 0],
+    ]);
+    expect(prismaMock.customerPayment.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['pay-1', 'pay-2'] } },
+      data: { depositId: 'deposit-1', depositedAt: new Date('2024-03-10T00:00:00.000Z') },
+    });
+  });
+
+  it('matches the single pending statement line for the total', async () => {
+    prismaMock.customerPayment.findMany.mockResolvedValue([payment('pay-1', 300)]);
+    prismaMock.bankTransaction.findMany.mockResolvedValue([
+      { id: 'txn-1', type: BankTransactionType.CREDIT, amount: dec(300) },
+    ]);
+
+    const result = await depositService.createDeposit('company-1', 'user-1', {
+      bankAccountId: 'bank-1',
+      date: '2024-03-10T00:00:00.000Z',
+      paymentIds: ['pay-1'],
+      otherLines: [],
+    });
+
+    expect(result.matchedTransactionId).toBe('txn-1');
+    expect(prismaMock.bankTransaction.update).toHaveBeenCalledWith({
+      where: { id: 'txn-1' },
+      data: { matchedJournalEntryId: 'entry-1', status: BankTransactionStatus.MATCHED },
+    });
+  });
+
+  it('leaves the deposit unmatched when several statement lines fit', async () => {
+    prismaMock.customerPayment.findMany.mockResolvedValue([payment('pay-1', 300)]);
+    prismaMock.bankTransaction.findMany.mockResolvedValue([{ id: 'txn-1' }, { id: 'txn-2' }]);
+
+    const result = await depositService.createDeposit('company-1', 'user-1', {
+      bankAccountId: 'bank-1',
+      date: '2024-03-10T00:00:00.000Z',
+      paymentIds: ['pay-1'],
+      otherLines: [],
+    });
+
+    expect(result.matchedTransactionId).toBeNull();
+    expect(prismaMock.bankTransactionMatch.create).not.toHaveBeenCalled();
+  });
+
+  it('only deposits payments still held in Undeposited Funds', async () => {
+    prismaMock.customerPayment.findMany.mockResolvedValue([
+      payment('pay-1', 300, { depositId: 'deposit-0' }),
+    ]);
+
+    await expect(
+      depositService.createDeposit('company-1', 'user-1', {
+        bankAccountId: 'bank-1',
+        date: '2024-03-10T00:00:00.000Z',
+        paymentIds: ['pay-1'],
+        otherLines: [],
+      })
+    ).rejects.toThrow('Only payments held in Undeposited Funds can be deposited');
+  });
+
+  it('only deposits into base-currency bank accounts', async () => {
+    prismaMock.bankAccount.findFirst.mockResolvedValue({ id: 'bank-1', currency: 'EUR' });
+
+    await expect(
+      depositService.createDeposit('company-1', 'user-1', {
+        bankAccountId: 'bank-1',
+        date: '2024-03-10T00:00:00.000Z',
+        paymentIds: ['pay-1'],
+        otherLines: [],
+      })
+    ).rejects.toThrow('Deposits can only be made into base-currency bank accounts');
+  });
+
+  it('rejects deposits that do not add up to more than zero', async () => {
+    prismaMock.account.count.mockResolvedValue(1);
+
+    await expect(
+      depositService.createDeposit('company-1', 'user-1', {
+        bankAccountId: 'bank-1',
+        date: '2024-03-10T00:00:00.000Z',
+        paymentIds: [],
+        otherLines: [{ accountId: 'fees-gl', amount: -15 }],
+      })
+    ).rejects.toThrow('Deposit total must be greater than zero');
+  });
+});
+
+describe('DepositService.deleteDeposit', () => {
+  it('returns the payments to Undeposited Funds and voids the entry', async () => {
+    prismaMock.bankDeposit.findFirst.mockResolvedValue({
+      id: 'deposit-1',
+      journalEntryId: 'entry-1',
+      date: new Date('2024-03-10'),
+    });
+
+    await depositService.deleteDeposit('company-1', 'deposit-1');
+
+    expect(journalService.assertSourceNotCleared).toHaveBeenCalledWith(
+      'company-1',
+      JournalSource.DEPOSIT,
+      'deposit-1'
+    );
+    expect(prismaMock.journalEntry.update).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+      data: { isPosted: false },
+    });
+    expect(prismaMock.customerPayment.updateMany).toHaveBeenCalledWith({
+      where: { depositId: 'deposit-1' },
+      data: { depositId: null, depositedAt: null },
+    });
+    expect(prismaMock.bankDeposit.delete).toHaveBeenCalledWith({ where: { id: 'deposit-1' } });
+  });
+});
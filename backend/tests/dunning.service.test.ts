@@ -0,0 +1,177 @@
+import { InvoiceStatus, Prisma, UserRole } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/invoices/invoice.service', () => ({
+  invoiceService: { updateOverdueStatuses: jest.fn(), addLateFee: jest.fn() },
+}));
+jest.mock('../src/modules/email/email.service', () => ({
+  emailService: { emailInvoiceReminder: jest.fn() },
+}));
+
+import { dunningService } from '../src/modules/dunning/dunning.service';
+import { invoiceService } from '../src/modules/invoices/invoice.service';
+import { emailService } from '../src/modules/email/email.service';
+
+const addLateFee = jest.mocked(invoiceService.addLateFee);
+const emailInvoiceReminder = jest.mocked(emailService.emailInvoiceReminder);
+
+const asOf = new Date('2024-04-15');
+
+const settings = {
+  dunningRules: [
+    { daysFromDue: 30, subject: 'Final notice for {{invoiceNumber}}' },
+    { daysFromDue: -3 },
+    { daysFromDue: 7, applyLateFee: true },
+  ],
+  lateFeePolicy: {
+    type: 'PERCENT',
+    amount: 0.015,
+    minimumBalance: 100,
+    accountId: '7d5e7b4c-1f0a-4c59-9a55-0a4b0f1d2e3c',
+  },
+};
+
+const invoice = (dueDate: string, overrides: Record<string, unknown> = {}) => ({
+  id: `invoice-${dueDate}`,
+  companyId: 'company-1',
+  currency: 'USD',
+  amountDue: dec(1000),
+  dueDate: new Date(dueDate),
+  customer: { email: 'ap@globex.test' },
+  reminders: [],
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  jest.mocked(invoiceService.updateOverdueStatuses).mockResolvedValue(2);
+  prismaMock.company.findMany.mockResolvedValue([{ id: 'company-1', settings }]);
+  prismaMock.companyUser.findFirst.mockResolvedValue({ userId: 'owner-1', role: UserRole.OWNER });
+  prismaMock.invoice.findMany.mockResolvedValue([]);
+  prismaMock.invoiceReminder.create.mockResolvedValue({ id: 'reminder-1' });
+  prismaMock.invoiceReminder.update.mockImplementation(({ data }) => Promise.resolve({ id: 'reminder-1', ...data }));
+  emailInvoiceReminder.mockResolvedValue({ id: 'delivery-1' } as any);
+});
+
+describe('DunningService.runDue', () => {
+  it('charges the late fee and sends the overdue reminder', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([invoice('2024-04-05')]);
+
+    const summary = await dunningService.runDue('company-1', asOf);
+
+    expect(summary).toEqual({ overdue: 2, reminded: 1, lateFees: 1, failed: 0 });
+    expect(invoiceService.updateOverdueStatuses).toHaveBeenCalledWith('company-1', asOf);
+    // The earliest rule is three days before the due date
+    expect(prismaMock.invoice.findMany.mock.calls[0][0].where).toMatchObject({
+      status: { in: [InvoiceStatus.SENT, InvoiceStatus.PARTIAL, InvoiceStatus.OVERDUE] },
+      dueDate: { lte: new Date('2024-04-18') },
+    });
+    expect(prismaMock.invoiceReminder.create).toHaveBeenCalledWith({
+      data: { companyId: 'company-1', invoiceId: 'invoice-2024-04-05', daysFromDue: 7 },
+    });
+    expect(addLateFee).toHaveBeenCalledWith('company-1', 'owner-1', 'invoice-2024-04-05', {
+      date: asOf,
+      amount: 15,
+      accountId: settings.lateFeePolicy.accountId,
+      description: 'Late fee (10 days overdue)',
+    });
+
+    const [, , , template, values] = emailInvoiceReminder.mock.calls[0];
+    expect(template.subject).toBe('Overdue: invoice {{invoiceNumber}} was due {{dueDate}}');
+    expect(values).toEqual({ daysOverdue: '10', daysUntilDue: '0', lateFee: '$15.00' });
+    expect(prismaMock.invoiceReminder.update).toHaveBeenCalledWith({
+      where: { id: 'reminder-1' },
+      data: { deliveryId: 'delivery-1', lateFee: 15 },
+    });
+  });
+
+  it('sends the upcoming reminder before the due date without a fee', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([invoice('2024-04-17')]);
+
+    await dunningService.runDue('company-1', asOf);
+
+    expect(addLateFee).not.toHaveBeenCalled();
+    const [, , , template, values] = emailInvoiceReminder.mock.calls[0];
+    expect(template.subject).toBe('Reminder: invoice {{invoiceNumber}} is due {{dueDate}}');
+    expect(values).toEqual({ daysOverdue: '0', daysUntilDue: '2', lateFee: '' });
+  });
+
+  it('uses the rule subject and skips the fee below the minimum balance', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([
+      invoice('2024-03-14', { amountDue: dec(80), reminders: [{ daysFromDue: 7 }] }),
+    ]);
+
+    await dunningService.runDue('company-1', asOf);
+
+    expect(prismaMock.invoiceReminder.create.mock.calls[0][0].data.daysFromDue).toBe(30);
+    expect(emailInvoiceReminder.mock.calls[0][3].subject).toBe('Final notice for {{invoiceNumber}}');
+    expect(addLateFee).not.toHaveBeenCalled();
+  });
+
+  it('never repeats a rule, steps back or catches up past a week', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([
+      invoice('2024-04-05', { reminders: [{ daysFromDue: 7 }] }),
+      invoice('2024-04-01', { reminders: [{ daysFromDue: 30 }] }),
+      // 45 days overdue: the 30-day rule is more than a week stale
+      invoice('2024-03-01'),
+    ]);
+
+    const summary = await dunningService.runDue('company-1', asOf);
+
+    expect(summary.reminded).toBe(0);
+    expect(prismaMock.invoiceReminder.create).not.toHaveBeenCalled();
+  });
+
+  it('logs the reminder without an email when the customer has none', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([invoice('2024-04-17', { customer: { email: null } })]);
+
+    const summary = await dunningService.runDue('company-1', asOf);
+
+    expect(summary.reminded).toBe(1);
+    expect(emailInvoiceReminder).not.toHaveBeenCalled();
+    expect(prismaMock.invoiceReminder.update.mock.calls[0][0].data).toEqual({ deliveryId: null, lateFee: null });
+  });
+
+  it('leaves a rule another run already claimed', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([invoice('2024-04-05')]);
+    prismaMock.invoiceReminder.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: '5.22.0',
+      })
+    );
+
+    const summary = await dunningService.runDue('company-1', asOf);
+
+    expect(summary).toEqual({ overdue: 2, reminded: 0, lateFees: 0, failed: 0 });
+    expect(addLateFee).not.toHaveBeenCalled();
+  });
+
+  it('releases the rule when the late fee fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    prismaMock.invoice.findMany.mockResolvedValue([invoice('2024-04-05')]);
+    addLateFee.mockRejectedValue(new Error('Period is closed'));
+
+    const summary = await dunningService.runDue('company-1', asOf);
+
+    expect(summary.failed).toBe(1);
+    expect(prismaMock.invoiceReminder.delete).toHaveBeenCalledWith({ where: { id: 'reminder-1' } });
+    expect(emailInvoiceReminder).not.toHaveBeenCalled();
+  });
+
+  it('skips companies without rules or an owner', async () => {
+    prismaMock.company.findMany.mockResolvedValue([
+      { id: 'company-1', settings: {} },
+      { id: 'company-2', settings },
+    ]);
+    prismaMock.companyUser.findFirst.mockResolvedValue(null);
+
+    const summary = await dunningService.runDue(undefined, asOf);
+
+    expect(summary.reminded).toBe(0);
+    expect(prismaMock.companyUser.findFirst).toHaveBeenCalledTimes(1);
+    expect(prismaMock.invoice.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import nodemailer from 'nodemailer';
+import { EmailDeliveryStatus, EmailDocumentType, InvoiceStatus } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/config/mailer', () => ({ getMailer: jest.fn() }));
+jest.mock('../src/modules/invoices/invoice.service', () => ({
+  invoiceService: { getInvoicePdf: jest.fn() },
+}));
+jest.mock('../src/modules/statements/statement.service', () => ({
+  statementService: { resolvePeriod: jest.fn(), getStatements: jest.fn(), getStatementPdf: jest.fn() },
+}));
+
+import { emailService, renderTemplate } from '../src/modules/email/email.service';
+import { getMailer } from '../src/config/mailer';
+import { invoiceService } from '../src/modules/invoices/invoice.service';
+import { statementService } from '../src/modules/statements/statement.service';
+
+// Builds the message as SMTP would, without a server
+const mailer = nodemailer.createTransport({ jsonTransport: true });
+
+const invoice = {
+  id: 'invoice-1',
+  invoiceNumber: 'INV-1001',
+  status: InvoiceStatus.SENT,
+  date: new Date('2024-03-01'),
+  dueDate: new Date('2024-03-31'),
+  currency: 'USD',
+  total: dec(324.75),
+  amountDue: dec(224.75),
+  company: { name: 'Acme Books', settings: {} },
+  customer: { name: 'Globex', email: 'ap@globex.test' },
+};
+
+const delivery = {
+  id: 'delivery-1',
+  companyId: 'company-1',
+  documentType: EmailDocumentType.INVOICE,
+  documentId: 'invoice-1',
+  documentOptions: {},
+  status: EmailDeliveryStatus.FAILED,
+  to: 'ap@globex.test',
+  cc: [],
+  subject: 'Invoice INV-1001 from Acme Books',
+  body: 'Please pay',
+  company: { name: 'Acme Books', email: 'billing@acme.test' },
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  jest.mocked(getMailer).mockReturnValue(mailer);
+  prismaMock.invoice.findFirst.mockResolvedValue(invoice);
+  prismaMock.emailDelivery.create.mockImplementation(({ data }) =>
+    Promise.resolve({ id: 'delivery-2', status: EmailDeliveryStatus.QUEUED, ...data })
+  );
+  prismaMock.emailDelivery.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.emailDelivery.findUniqueOrThrow.mockResolvedValue(delivery);
+  prismaMock.emailDelivery.findMany.mockResolvedValue([{ id: 'delivery-1' }]);
+  jest
+    .mocked(invoiceService.getInvoicePdf)
+    .mockResolvedValue({ filename: 'INV-1001.pdf', pdf: Buffer.from('%PDF-') } as any);
+});
+
+describe('renderTemplate', () => {
+  it('fills known placeholders and leaves unknown ones', () => {
+    expect(renderTemplate('Hi {{ name }}, see {{invoiceNumber}} {{other}}', { name: 'Globex', invoiceNumber: 'INV-1' })).toBe(
+      'Hi Globex, see INV-1 {{other}}'
+    );
+  });
+});
+
+describe('EmailService.emailInvoice', () => {
+  it('queues the default template without waiting for SMTP', async () => {
+    const sendMail = jest.spyOn(mailer, 'sendMail');
+
+    const queued = await emailService.emailInvoice('company-1', 'user-1', 'invoice-1', {
+      cc: ['owner@globex.test'],
+    });
+
+    expect(queued).toMatchObject({
+      status: EmailDeliveryStatus.QUEUED,
+      documentType: EmailDocumentType.INVOICE,
+      to: 'ap@globex.test',
+      cc: ['owner@globex.test'],
+      subject: 'Invoice INV-1001 from Acme Books',
+    });
+    expect(queued.body).toContain('invoice INV-1001 for $324.75, due Mar 31, 2024');
+    expect(sendMail).not.toHaveBeenCalled();
+
+    // Delivery runs once the request has returned
+    await new Promise((resolve) => setImmediate(resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(prismaMock.emailDelivery.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'delivery-2', status: EmailDeliveryStatus.QUEUED } })
+    );
+    sendMail.mockRestore();
+  });
+
+  it('uses the company template and the recipient entered', async () => {
+    prismaMock.invoice.findFirst.mockResolvedValue({
+      ...invoice,
+      company: {
+        name: 'Acme Books',
+        settings: { emailTemplates: { invoice: { subject: '{{companyName}}: {{amountDue}} due', body: 'Body' } } },
+      },
+    });
+
+    const queued = await emailService.emailInvoice('company-1', 'user-1', 'invoice-1', {
+      to: 'finance@globex.test',
+      cc: [],
+    });
+
+    expect(queued).toMatchObject({ to: 'finance@globex.test', subject: 'Acme Books: $224.75 due' });
+  });
+
+  it('refuses drafts and customers without an address', async () => {
+    prismaMock.invoice.findFirst.mockResolvedValueOnce({ ...invoice, status: InvoiceStatus.DRAFT });
+    await expect(
+      emailService.emailInvoice('company-1', 'user-1', 'invoice-1', { cc: [] })
+    ).rejects.toThrow('Send the invoice before emailing it');
+
+    prismaMock.invoice.findFirst.mockResolvedValueOnce({ ...invoice, customer: { name: 'Globex', email: null } });
+    await expect(
+      emailService.emailInvoice('company-1', 'user-1', 'invoice-1', { cc: [] })
+    ).rejects.toThrow('Customer has no email address; enter a recipient');
+  });
+});
+
+describe('EmailService.processQueued', () => {
+  it('sends with the PDF attached and records the message ID', async () => {
+    const sendMail = jest.spyOn(mailer, 'sendMail');
+
+    await emailService.processQueued();
+
+    const [message] = sendMail.mock.calls[0] as any[];
+    expect(message).toMatchObject({
+      from: { name: 'Acme Books', address: 'billing@acme.test' },
+      to: 'ap@globex.test',
+      attachments: [{ filename: 'INV-1001.pdf', contentType: 'application/pdf' }],
+    });
+    expect(prismaMock.emailDelivery.update.mock.calls[0][0].data).toMatchObject({
+      status: EmailDeliveryStatus.SENT,
+      messageId: expect.any(String),
+      error: null,
+    });
+    sendMail.mockRestore();
+  });
+
+  it('records why a delivery failed', async () => {
+    jest.mocked(getMailer).mockReturnValue(null);
+
+    await emailService.processQueued();
+
+    expect(prismaMock.emailDelivery.update.mock.calls[0][0].data).toEqual({
+      status: EmailDeliveryStatus.FAILED,
+      error: 'Email is not configured (SMTP_HOST is not set)',
+    });
+  });
+
+  it('skips deliveries another sender already claimed', async () => {
+    prismaMock.emailDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    await emailService.processQueued();
+
+    expect(prismaMock.emailDelivery.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it('requeues deliveries stuck sending', async () => {
+    await emailService.processQueued();
+
+    expect(prismaMock.emailDelivery.updateMany.mock.calls[0][0]).toMatchObject({
+      where: { status: EmailDeliveryStatus.SENDING },
+      data: { status: EmailDeliveryStatus.QUEUED },
+    });
+  });
+});
+
+describe('EmailService.resend', () => {
+  it('queues a copy of a finished delivery', async () => {
+    prismaMock.emailDelivery.findFirst.mockResolvedValue(delivery);
+
+    const queued = await emailService.resend('company-1', 'user-2', 'delivery-1');
+
+    expect(queued).toMatchObject({
+      id: 'delivery-2',
+      to: 'ap@globex.test',
+      subject: 'Invoice INV-1001 from Acme Books',
+      createdById: 'user-2',
+    });
+  });
+
+  it('waits for a delivery in progress', async () => {
+    prismaMock.emailDelivery.findFirst.mockResolvedValue({ ...delivery, status: EmailDeliveryStatus.SENDING });
+
+    await expect(emailService.resend('company-1', 'user-2', 'delivery-1')).rejects.toThrow(
+      'Email is still being delivered'
+    );
+  });
+});
+
+describe('EmailService.emailStatements', () => {
+  it('skips customers without an email address', async () => {
+    jest.mocked(statementService.resolvePeriod).mockReturnValue({
+      type: 'OPEN_ITEM',
+      startDate: new Date('2024-03-01'),
+      endDate: new Date('2024-03-31'),
+    } as any);
+    jest.mocked(statementService.getStatements).mockResolvedValue([
+      { customer: { id: 'customer-1', name: 'Globex', email: 'ap@globex.test' }, balance: 224.75, currency: 'USD' },
+      { customer: { id: 'customer-2', name: 'Initech', email: null }, balance: 50, currency: 'USD' },
+    ] as any);
+    prismaMock.company.findUniqueOrThrow.mockResolvedValue({ name: 'Acme Books', settings: {} });
+
+    const result = await emailService.emailStatements('company-1', 'user-1', {
+      type: 'OPEN_ITEM',
+      filter: 'WITH_BALANCE',
+    });
+
+    expect(result).toEqual({ queued: 1, skipped: [{ customerId: 'customer-2', name: 'Initech' }] });
+    expect(prismaMock.emailDelivery.create.mock.calls[0][0].data).toMatchObject({
+      documentType: EmailDocumentType.STATEMENT,
+      documentId: 'customer-1',
+      documentOptions: { type: 'OPEN_ITEM', endDate: '2024-03-31T00:00:00.000Z' },
+    });
+    expect(prismaMock.emailDelivery.create.mock.calls[0][0].data.body).toContain('The balance due is $224.75.');
+  });
+});
@@ -0,0 +1,30 @@
+import { calculateLineTax, round } from '../src/utils/helpers';
+
+describe('calculateLineTax', () => {
+  it('adds tax on top of exclusive prices', () => {
+    expect(calculateLineTax(100, 10, 0.08, false)).toEqual({
+      amount: 100,
+      discountAmount: 10,
+      taxAmount: 7.2,
+    });
+  });
+
+  it('backs tax out of inclusive prices', () => {
+    expect(calculateLineTax(108, 0, 0.08, true)).toEqual({ amount: 100, discountAmount: 0, taxAmount: 8 });
+  });
+
+  it.each([
+    [108, 0, 0.08],
+    [100, 0, 0.0825],
+    [99.99, 12.34, 0.0825],
+    [19.99, 5, 0.2],
+    [0.01, 0, 0.07],
+    [1234.56, 100, 0.15],
+    [50, 50, 0.1],
+    [75.5, 3.33, 0],
+  ])('keeps net - discount + tax equal to the gross for %p less %p at %p', (gross, discount, rate) => {
+    const line = calculateLineTax(gross, discount, rate, true);
+
+    expect(round(line.amount - line.discountAmount + line.taxAmount)).toBe(round(gross - discount));
+  });
+});
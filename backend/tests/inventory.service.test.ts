@@ -0,0 +1,186 @@
+import { InventoryTransactionType, JournalSource, ProductType } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+
+import { inventoryService } from '../src/modules/inventory/inventory.service';
+import { journalService } from '../src/modules/journal/journal.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+let widget: Record<string, any>;
+
+const ref = { date: new Date('2024-03-10'), source: JournalSource.BILL, sourceId: 'bill-1' };
+
+const line = (quantity: number, extra: object = {}) => ({
+  productId: 'widget',
+  quantity: dec(quantity),
+  description: 'Widget',
+  ...extra,
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  widget = {
+    id: 'widget',
+    name: 'Widget',
+    type: ProductType.INVENTORY,
+    assetAccountId: 'inventory-gl',
+    expenseAccountId: 'cogs-gl',
+    quantityOnHand: dec(10),
+    averageCost: dec(4),
+  };
+  // Stock levels persist across calls so a test can follow several movements
+  prismaMock.product.findUnique.mockImplementation(() => Promise.resolve(widget));
+  prismaMock.product.findFirst.mockImplementation(() => Promise.resolve(widget));
+  prismaMock.product.findMany.mockImplementation(() => Promise.resolve([widget]));
+  prismaMock.product.update.mockImplementation(({ data }) => {
+    widget = { ...widget, quantityOnHand: dec(data.quantityOnHand), averageCost: dec(data.averageCost) };
+    return Promise.resolve(widget);
+  });
+});
+
+describe('InventoryService weighted-average cost', () => {
+  it('blends purchases into the average cost, capitalizing tax', async () => {
+    await inventoryService.recordPurchase('company-1', ref, [
+      { ...line(10), amount: dec(55), taxAmount: dec(5) },
+    ]);
+
+    expect(widget.quantityOnHand.toNumber()).toBe(20);
+    expect(widget.averageCost.toNumber()).toBe(5);
+    expect(prismaMock.inventoryTransaction.create.mock.calls[0][0].data).toMatchObject({
+      type: InventoryTransactionType.PURCHASE,
+      quantity: 10,
+      unitCost: 6,
+      totalCost: 60,
+    });
+  });
+
+  it('relieves sold stock at average cost without changing it', async () => {
+    const costed = await inventoryService.costSaleLines('company-1', [line(3)]);
+
+    expect(costed).toEqual([
+      {
+        productId: 'widget',
+        quantity: 3,
+        unitCost: 4,
+        totalCost: 12,
+        assetAccountId: 'inventory-gl',
+        cogsAccountId: 'cogs-gl',
+        memo: 'Widget',
+      },
+    ]);
+
+    await inventoryService.recordSale('company-1', { ...ref, source: JournalSource.INVOICE }, costed);
+
+    expect(widget.quantityOnHand.toNumber()).toBe(7);
+    expect(widget.averageCost.toNumber()).toBe(4);
+  });
+
+  it('keeps the last cost when stock runs out', async () => {
+    await inventoryService.recordSale('company-1', ref, [
+      { productId: 'widget', quantity: 12, unitCost: 4, totalCost: 48 } as any,
+    ]);
+
+    expect(widget.quantityOnHand.toNumber()).toBe(-2);
+    expect(widget.averageCost.toNumber()).toBe(4);
+  });
+
+  it('needs the asset and COGS accounts to cost a sale', async () => {
+    widget.expenseAccountId = null;
+
+    await expect(inventoryService.costSaleLines('company-1', [line(1)])).rejects.toThrow(
+      'Product "Widget" needs an inventory asset account and a cost of goods sold account'
+    );
+  });
+
+  it('costs returns at the price they were sold at on the credited invoice', async () => {
+    prismaMock.inventoryTransaction.findMany.mockResolvedValue([
+      { productId: 'widget', unitCost: dec(3.5) },
+    ]);
+
+    const costed = await inventoryService.costReturnLines('company-1', [line(2)], 'invoice-1');
+
+    expect(costed[0]).toMatchObject({ unitCost: 3.5, totalCost: 7 });
+  });
+
+  it('undoes the movements of a source document', async () => {
+    prismaMock.inventoryTransaction.findMany.mockResolvedValue([
+      { productId: 'widget', quantity: dec(10), unitCost: dec(6), totalCost: dec(60) },
+    ]);
+    widget.quantityOnHand = dec(20);
+    widget.averageCost = dec(5);
+
+    await inventoryService.reverseSource('company-1', JournalSource.BILL, 'bill-1');
+
+    expect(widget.quantityOnHand.toNumber()).toBe(10);
+    expect(widget.averageCost.toNumber()).toBe(4);
+    expect(prismaMock.inventoryTransaction.deleteMany).toHaveBeenCalledWith({
+      where: { companyId: 'company-1', source: JournalSource.BILL, sourceId: 'bill-1' },
+    });
+  });
+});
+
+describe('InventoryService.createAdjustment', () => {
+  beforeEach(() => {
+    prismaMock.account.findFirst.mockResolvedValue({ id: 'shrinkage-gl' });
+    prismaMock.inventoryTransaction.findFirst.mockResolvedValue({
+      id: 'adjustment-1',
+      quantity: dec(-2),
+      unitCost: dec(4),
+      totalCost: dec(-8),
+      product: { ...widget },
+    });
+    createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+  });
+
+  it('writes off shrinkage at average cost', async () => {
+    await inventoryService.createAdjustment('company-1', 'user-1', {
+      productId: 'widget',
+      accountId: 'shrinkage-gl',
+      date: '2024-03-10T00:00:00.000Z',
+      quantity: -2,
+    });
+
+    const { lines, source } = createFromTransaction.mock.calls[0][2];
+    expect(source).toBe(JournalSource.ADJUSTMENT);
+    expect(lines.map((l) => [l.accountId, l.debit, l.credit])).toEqual([
+      ['inventory-gl', 0, 8],
+      ['shrinkage-gl', 8, 0],
+    ]);
+    expect(widget.quantityOnHand.toNumber()).toBe(8);
+  });
+
+  it('only adjusts inventory products', async () => {
+    widget.type = ProductType.SERVICE;
+
+    await expect(
+      inventoryService.createAdjustment('company-1', 'user-1', {
+        productId: 'widget',
+        accountId: 'shrinkage-gl',
+        date: '2024-03-10T00:00:00.000Z',
+        quantity: 1,
+      })
+    ).rejects.toThrow('Only inventory products can be adjusted');
+  });
+});
+
+describe('InventoryService.deleteAdjustment', () => {
+  it('leaves movements from documents to the documents', async () => {
+    prismaMock.inventoryTransaction.findFirst.mockResolvedValue({
+      id: 'sale-1',
+      type: InventoryTransactionType.SALE,
+    });
+
+    await expect(inventoryService.deleteAdjustment('company-1', 'sale-1')).rejects.toThrow(
+      'Only adjustments can be deleted; void the source document instead'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  DEFAULT_INVOICE_TEMPLATE,
+  InvoicePdfData,
+  decodeLogo,
+  formatAddress,
+  formatMoney,
+  formatPdfDate,
+  renderInvoicePdf,
+} from '../src/modules/invoices/invoice.pdf';
+
+// A 1x1 PNG
+const LOGO =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const line = {
+  description: 'Consulting',
+  quantity: 2,
+  unitPrice: 150,
+  discountAmount: 0,
+  amount: 300,
+  taxAmount: 24.75,
+  taxName: 'Metro',
+  taxRate: 0.0825,
+};
+
+const data: InvoicePdfData = {
+  company: {
+    name: 'Acme Books',
+    legalName: 'Acme Books LLC',
+    taxId: '12-3456789',
+    address: { line1: '1 Main St', city: 'Austin', state: 'TX', postalCode: '78701' },
+    phone: null,
+    email: 'billing@acme.test',
+    website: null,
+    logo: LOGO,
+  },
+  customer: {
+    name: 'Globex',
+    email: 'ap@globex.test',
+    billingAddress: { line1: '9 Elm St', city: 'Dallas', state: 'TX', postalCode: '75201' },
+    shippingAddress: null,
+  },
+  invoice: {
+    invoiceNumber: 'INV-1001',
+    status: 'PARTIAL',
+    date: new Date('2024-03-01'),
+    dueDate: new Date('2024-03-31'),
+    terms: 30,
+    currency: 'USD',
+    memo: null,
+    notes: 'Thank you for your business',
+    subtotal: 300,
+    discountTotal: 0,
+    taxTotal: 24.75,
+    total: 324.75,
+    amountPaid: 100,
+    amountDue: 224.75,
+  },
+  lines: [line],
+  payments: [{ paymentNumber: 'PMT-1001', date: new Date('2024-03-10'), amount: 100 }],
+};
+
+const pageCount = (pdf: Buffer) =>
+  Number(pdf.toString('latin1').match(/\/Type \/Pages\s*\/Count (\d+)/)![1]);
+
+describe('renderInvoicePdf', () => {
+  it('renders a one-page PDF with the logo', async () => {
+    const pdf = await renderInvoicePdf(data, {
+      ...DEFAULT_INVOICE_TEMPLATE,
+      footerText: 'Pay within 30 days',
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pageCount(pdf)).toBe(1);
+    expect(pdf.toString('latin1')).toContain('/Subtype /Image');
+  });
+
+  it('leaves the logo out when the template hides it', async () => {
+    const pdf = await renderInvoicePdf(data, { ...DEFAULT_INVOICE_TEMPLATE, logoPosition: 'none' });
+
+    expect(pdf.toString('latin1')).not.toContain('/Subtype /Image');
+  });
+
+  it('continues long invoices on further pages', async () => {
+    const lines = Array.from({ length: 80 }, (_, index) => ({
+      ...line,
+      description: `Item ${index + 1}`,
+    }));
+
+    const pdf = await renderInvoicePdf({ ...data, lines }, DEFAULT_INVOICE_TEMPLATE);
+
+    expect(pageCount(pdf)).toBeGreaterThan(1);
+  });
+});
+
+describe('invoice PDF formatting', () => {
+  it('formats addresses without empty parts', () => {
+    expect(formatAddress(data.company.address)).toEqual(['1 Main St', 'Austin, TX 78701']);
+    expect(formatAddress({ line1: '9 Elm St', country: 'US' })).toEqual(['9 Elm St', 'US']);
+    expect(formatAddress(null)).toEqual([]);
+  });
+
+  it('formats money in the invoice currency and dates in UTC', () => {
+    expect(formatMoney(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatMoney(1234.5, 'EUR')).toBe('€1,234.50');
+    expect(formatPdfDate(new Date('2024-03-01T00:00:00.000Z'))).toBe('Mar 1, 2024');
+  });
+
+  it('only reads PNG and JPEG data URI logos', () => {
+    expect(decodeLogo(LOGO)?.subarray(1, 4).toString()).toBe('PNG');
+    expect(decodeLogo('https://example.com/logo.png')).toBeNull();
+    expect(decodeLogo(null)).toBeNull();
+  });
+});
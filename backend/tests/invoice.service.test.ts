@@ -0,0 +1,95 @@
+import { AccountSubType, InvoiceStatus, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+
+import { invoiceService } from '../src/modules/invoices/invoice.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const fee = {
+  date: new Date('2024-04-15'),
+  amount: 15,
+  accountId: 'late-fees',
+  description: 'Late fee (10 days overdue)',
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+  prismaMock.invoice.findFirst.mockResolvedValue({
+    id: 'invoice-1',
+    invoiceNumber: 'INV-1001',
+    customerId: 'customer-1',
+    status: InvoiceStatus.OVERDUE,
+    currency: 'EUR',
+    exchangeRate: dec(1.1),
+    lines: [{ sortOrder: 0 }, { sortOrder: 2 }],
+  });
+  prismaMock.invoice.update.mockResolvedValue({ id: 'invoice-1', total: dec(1015), amountDue: dec(1015) });
+  jest.mocked(accountService.getSystemAccount).mockResolvedValue({ id: 'ar' } as any);
+});
+
+describe('InvoiceService.updateOverdueStatuses', () => {
+  it('marks unpaid sent invoices past due', async () => {
+    prismaMock.invoice.updateMany.mockResolvedValue({ count: 3 });
+    const asOf = new Date('2024-04-15');
+
+    await expect(invoiceService.updateOverdueStatuses('company-1', asOf)).resolves.toBe(3);
+    expect(prismaMock.invoice.updateMany).toHaveBeenCalledWith({
+      where: {
+        companyId: 'company-1',
+        status: { in: [InvoiceStatus.SENT, InvoiceStatus.PARTIAL] },
+        dueDate: { lt: asOf },
+        amountDue: { gt: 0 },
+      },
+      data: { status: InvoiceStatus.OVERDUE },
+    });
+  });
+});
+
+describe('InvoiceService.addLateFee', () => {
+  it('posts the fee to AR at the invoice rate and adds a line', async () => {
+    await invoiceService.addLateFee('company-1', 'user-1', 'invoice-1', fee);
+
+    expect(accountService.getSystemAccount).toHaveBeenCalledWith('company-1', AccountSubType.ACCOUNTS_RECEIVABLE);
+    const [, , entry] = createFromTransaction.mock.calls[0];
+    expect(entry).toMatchObject({
+      memo: 'Late fee on invoice INV-1001',
+      source: JournalSource.INVOICE,
+      sourceId: 'invoice-1',
+    });
+    expect(entry.lines).toEqual([
+      expect.objectContaining({ accountId: 'ar', debit: 16.5, credit: 0, customerId: 'customer-1' }),
+      expect.objectContaining({ accountId: 'late-fees', debit: 0, credit: 16.5 }),
+    ]);
+    expect(prismaMock.invoiceLine.create.mock.calls[0][0].data).toMatchObject({
+      description: 'Late fee (10 days overdue)',
+      amount: 15,
+      sortOrder: 3,
+    });
+    expect(prismaMock.invoice.update.mock.calls[0][0].data).toEqual({
+      subtotal: { increment: 15 },
+      total: { increment: 15 },
+      amountDue: { increment: 15 },
+    });
+  });
+
+  it('refuses drafts', async () => {
+    prismaMock.invoice.findFirst.mockResolvedValue({ id: 'invoice-1', status: InvoiceStatus.DRAFT, lines: [] });
+
+    await expect(invoiceService.addLateFee('company-1', 'user-1', 'invoice-1', fee)).rejects.toThrow(
+      'Late fees can only be added to sent invoices'
+    );
+    expect(createFromTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,300 @@
+import {
+  BankTransactionStatus,
+  JournalApprovalAction,
+  JournalApprovalStatus,
+  JournalSource,
+  UserRole,
+} from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+
+import { journalService } from '../src/modules/journal/journal.service';
+
+beforeEach(() => {
+  resetPrismaMock();
+});
+
+describe('JournalService.assertSourceNotCleared', () => {
+  const journalEntry = {
+    companyId: 'company-1',
+    source: JournalSource.TRANSFER,
+    sourceId: 'transfer-1',
+    isPosted: true,
+  };
+
+  it('passes when nothing from the source is cleared', async () => {
+    prismaMock.journalLine.count.mockResolvedValue(0);
+    prismaMock.bankTransaction.count.mockResolvedValue(0);
+
+    await expect(
+      journalService.assertSourceNotCleared('company-1', JournalSource.TRANSFER, 'transfer-1')
+    ).resolves.toBeUndefined();
+    expect(prismaMock.journalLine.count).toHaveBeenCalledWith({
+      where: { isCleared: true, journalEntry },
+    });
+    expect(prismaMock.bankTransaction.count).toHaveBeenCalledWith({
+      where: { status: BankTransactionStatus.RECONCILED, matches: { some: { journalEntry } } },
+    });
+  });
+
+  it('rejects sources with cleared lines', async () => {
+    prismaMock.journalLine.count.mockResolvedValue(1);
+    prismaMock.bankTransaction.count.mockResolvedValue(0);
+
+    await expect(
+      journalService.assertSourceNotCleared('company-1', JournalSource.TRANSFER, 'transfer-1')
+    ).rejects.toThrow('Transaction is cleared in a bank reconciliation');
+  });
+
+  it('rejects sources matched to a reconciled bank transaction', async () => {
+    prismaMock.journalLine.count.mockResolvedValue(0);
+    prismaMock.bankTransaction.count.mockResolvedValue(1);
+
+    await expect(
+      journalService.assertSourceNotCleared('company-1', JournalSource.TRANSFER, 'transfer-1')
+    ).rejects.toThrow('Transaction is cleared in a bank reconciliation');
+  });
+});
+
+describe('JournalService approval workflow', () => {
+  const input = {
+    date: '2024-03-10T00:00:00.000Z',
+    isAdjusting: false,
+    autoReverse: false,
+    lines: [
+      { accountId: 'rent', debit: 1500, credit: 0 },
+      { accountId: 'bank', debit: 0, credit: 1500 },
+    ],
+  };
+
+  const entry = (approvalStatus: JournalApprovalStatus, extra: object = {}) => ({
+    id: 'entry-1',
+    companyId: 'company-1',
+    source: JournalSource.MANUAL,
+    createdById: 'member-1',
+    isPosted: false,
+    approvalStatus,
+    lines: [],
+    ...extra,
+  });
+
+  beforeEach(() => {
+    prismaMock.account.findMany.mockResolvedValue([
+      { id: 'rent', isActive: true },
+      { id: 'bank', isActive: true },
+    ]);
+    prismaMock.company.findUnique.mockResolvedValue({ settings: { journalApprovalThreshold: 1000 } });
+    prismaMock.journalEntry.create.mockImplementation(({ data }) => Promise.resolve({ ...data, lines: [] }));
+  });
+
+  it('holds member entries above the threshold as drafts', async () => {
+    await journalService.createJournalEntry('company-1', 'member-1', UserRole.MEMBER, input);
+
+    expect(prismaMock.journalEntry.create.mock.calls[0][0].data).toMatchObject({
+      isPosted: false,
+      approvalStatus: JournalApprovalStatus.DRAFT,
+    });
+  });
+
+  it('posts entries at or below the threshold, and any entry by an admin', async () => {
+    const small = {
+      ...input,
+      lines: [
+        { accountId: 'rent', debit: 1000, credit: 0 },
+        { accountId: 'bank', debit: 0, credit: 1000 },
+      ],
+    };
+
+    await journalService.createJournalEntry('company-1', 'member-1', UserRole.MEMBER, small);
+    await journalService.createJournalEntry('company-1', 'admin-1', UserRole.ADMIN, input);
+
+    for (const [{ data }] of prismaMock.journalEntry.create.mock.calls) {
+      expect(data).toMatchObject({ isPosted: true, approvalStatus: JournalApprovalStatus.NOT_REQUIRED });
+    }
+  });
+
+  it('submits a draft with a comment', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.DRAFT));
+
+    await journalService.submitForApproval('company-1', 'member-1', 'entry-1', 'Quarterly rent');
+
+    expect(prismaMock.journalEntry.update).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+      data: { approvalStatus: JournalApprovalStatus.PENDING },
+    });
+    expect(prismaMock.journalEntryComment.create).toHaveBeenCalledWith({
+      data: {
+        journalEntryId: 'entry-1',
+        userId: 'member-1',
+        action: JournalApprovalAction.SUBMIT,
+        comment: 'Quarterly rent',
+      },
+    });
+  });
+
+  it('only submits drafts and rejected entries', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.PENDING));
+
+    await expect(journalService.submitForApproval('company-1', 'member-1', 'entry-1')).rejects.toThrow(
+      'Only draft or rejected entries can be submitted for approval'
+    );
+  });
+
+  it('posts an entry when someone else approves it', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.PENDING));
+
+    await journalService.approveJournalEntry('company-1', 'admin-1', 'entry-1');
+
+    expect(prismaMock.journalEntry.update.mock.calls[0][0].data).toMatchObject({
+      isPosted: true,
+      approvalStatus: JournalApprovalStatus.APPROVED,
+      approvedById: 'admin-1',
+    });
+  });
+
+  it('does not let authors approve their own entries', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.PENDING));
+
+    await expect(
+      journalService.approveJournalEntry('company-1', 'member-1', 'entry-1')
+    ).rejects.toThrow('Entries must be approved by someone other than their author');
+    expect(prismaMock.journalEntry.update).not.toHaveBeenCalled();
+  });
+
+  it('returns rejected entries to draft when they are edited', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.PENDING));
+
+    await journalService.rejectJournalEntry('company-1', 'admin-1', 'entry-1', 'Wrong account');
+
+    expect(prismaMock.journalEntry.update).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+      data: { approvalStatus: JournalApprovalStatus.REJECTED },
+    });
+
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.REJECTED));
+    prismaMock.journalLine.count.mockResolvedValue(0);
+    prismaMock.journalEntry.update.mockResolvedValue(entry(JournalApprovalStatus.DRAFT));
+
+    await journalService.updateJournalEntry('company-1', 'entry-1', UserRole.MEMBER, { memo: 'Fixed' });
+
+    expect(prismaMock.journalEntry.update.mock.calls[1][0].data).toMatchObject({
+      approvalStatus: JournalApprovalStatus.DRAFT,
+      memo: 'Fixed',
+    });
+  });
+
+  it('does not edit entries awaiting approval', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.PENDING));
+
+    await expect(
+      journalService.updateJournalEntry('company-1', 'entry-1', UserRole.ADMIN, { memo: 'Changed' })
+    ).rejects.toThrow('Entry is awaiting approval and cannot be edited');
+  });
+
+  it('discards drafts instead of voiding them', async () => {
+    prismaMock.journalEntry.findFirst.mockResolvedValue(entry(JournalApprovalStatus.DRAFT));
+
+    await journalService.voidJournalEntry('company-1', 'entry-1');
+
+    expect(prismaMock.journalEntry.delete).toHaveBeenCalledWith({ where: { id: 'entry-1' } });
+    expect(prismaMock.journalEntry.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('JournalService auto-reversal', () => {
+  const input = {
+    date: '2024-01-31T00:00:00.000Z',
+    isAdjusting: true,
+    autoReverse: true,
+    lines: [
+      { accountId: 'utilities', debit: 300, credit: 0 },
+      { accountId: 'accrued', debit: 0, credit: 300 },
+    ],
+  };
+
+  const accrual = {
+    id: 'entry-1',
+    companyId: 'company-1',
+    entryNumber: 7,
+    createdById: 'user-1',
+    isPosted: true,
+    autoReverseDate: new Date('2024-02-01'),
+    lastReversalError: null,
+    lines: [
+      { accountId: 'utilities', debit: dec(300), credit: dec(0), currency: null },
+      { accountId: 'accrued', debit: dec(0), credit: dec(300), currency: null },
+    ],
+  };
+
+  beforeEach(() => {
+    prismaMock.account.findMany.mockResolvedValue([
+      { id: 'utilities', isActive: true },
+      { id: 'accrued', isActive: true },
+    ]);
+    prismaMock.journalEntry.create.mockImplementation(({ data }) => Promise.resolve({ ...data, lines: [] }));
+  });
+
+  it('reverses on the first day of the next month by default', async () => {
+    await journalService.createJournalEntry('company-1', 'user-1', UserRole.ADMIN, input);
+
+    expect(prismaMock.journalEntry.create.mock.calls[0][0].data.autoReverseDate).toEqual(
+      new Date('2024-02-01')
+    );
+  });
+
+  it('needs the reversal date to be after the entry', async () => {
+    await expect(
+      journalService.createJournalEntry('company-1', 'user-1', UserRole.ADMIN, {
+        ...input,
+        autoReverseDate: '2024-01-31T00:00:00.000Z',
+      })
+    ).rejects.toThrow('Reversal date must be after the entry date');
+  });
+
+  it('reverses due entries on their reversal date, linked to the original', async () => {
+    prismaMock.journalEntry.findMany.mockResolvedValue([accrual]);
+    prismaMock.journalEntry.findFirst
+      .mockResolvedValueOnce(accrual)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ entryNumber: 9 });
+
+    const summary = await journalService.runDueReversals(undefined, new Date('2024-02-01'));
+
+    expect(summary).toEqual({ reversed: 1, failed: 0 });
+    expect(prismaMock.journalEntry.findMany.mock.calls[0][0].where).toEqual({
+      isPosted: true,
+      autoReverseDate: { lte: new Date('2024-02-01') },
+      reversingEntries: { none: {} },
+    });
+
+    const { data } = prismaMock.journalEntry.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      entryNumber: 10,
+      date: new Date('2024-02-01'),
+      isReversing: true,
+      reversedEntryId: 'entry-1',
+      createdById: 'user-1',
+    });
+    expect(data.lines.create.map((l: any) => [l.accountId, l.debit, l.credit])).toEqual([
+      ['utilities', 0, 300],
+      ['accrued', 300, 0],
+    ]);
+  });
+
+  it('records why a reversal failed so it is retried on the next run', async () => {
+    prismaMock.journalEntry.findMany.mockResolvedValue([accrual]);
+    prismaMock.journalEntry.findFirst
+      .mockResolvedValueOnce(accrual)
+      .mockResolvedValueOnce({ entryNumber: 8 });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const summary = await journalService.runDueReversals(undefined, new Date('2024-02-01'));
+
+    expect(summary).toEqual({ reversed: 0, failed: 1 });
+    expect(prismaMock.journalEntry.update.mock.calls[0][0]).toMatchObject({
+      where: { id: 'entry-1' },
+      data: { lastReversalError: 'Entry #7 was already reversed by Entry #8' },
+    });
+  });
+});
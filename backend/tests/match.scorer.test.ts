@@ -0,0 +1,98 @@
+import {
+  findGroupMatches,
+  MatchCandidate,
+  scoreCandidate,
+} from '../src/modules/banking/match.scorer';
+
+const date = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const target = {
+  transactionDate: date('2024-03-10'),
+  description: 'CHECK 1042 ACME SUPPLY',
+  amount: 250,
+  checkNumber: '001042',
+};
+
+const candidate = (overrides: Partial<MatchCandidate>): MatchCandidate => ({
+  journalEntryId: 'entry-1',
+  entryNumber: 1,
+  type: 'BILL_PAYMENT',
+  sourceId: 'payment-1',
+  date: date('2024-03-10'),
+  amount: 250,
+  payee: null,
+  reference: null,
+  checkNumber: null,
+  memo: null,
+  ...overrides,
+});
+
+describe('scoreCandidate', () => {
+  it('gives a full score when amount, date, check number and payee all agree', () => {
+    const scored = scoreCandidate(target, candidate({ checkNumber: '1042', payee: 'Acme Supply' }));
+
+    expect(scored.score).toBe(100);
+    expect(scored.reasons).toEqual([
+      'Exact amount',
+      'Same date',
+      'Check number matches',
+      'Reference found in description',
+    ]);
+  });
+
+  it('gives partial credit for close amounts and nearby dates', () => {
+    const scored = scoreCandidate(target, candidate({ amount: 245, date: date('2024-03-13') }));
+
+    expect(scored.score).toBe(43);
+    expect(scored.reasons).toEqual(['Amount within 5%', '3 day(s) apart']);
+  });
+
+  it('scores nothing for unrelated entries outside the window', () => {
+    const scored = scoreCandidate(target, candidate({ amount: 900, date: date('2024-05-01') }));
+
+    expect(scored.score).toBe(0);
+    expect(scored.reasons).toEqual([]);
+  });
+
+  it('ignores references too short to be meaningful', () => {
+    const scored = scoreCandidate(target, candidate({ reference: 'AC' }));
+
+    expect(scored.reasons).not.toContain('Reference found in description');
+  });
+});
+
+describe('findGroupMatches', () => {
+  const scored = (id: string, amount: number, day: string) =>
+    scoreCandidate(target, candidate({ journalEntryId: id, amount, date: date(day) }));
+
+  it('finds entries that add up to the bank amount', () => {
+    const groups = findGroupMatches(target, [
+      scored('a', 100, '2024-03-09'),
+      scored('b', 150, '2024-03-08'),
+      scored('c', 75, '2024-03-10'),
+      scored('d', 300, '2024-03-10'),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].candidates.map((c) => c.journalEntryId).sort()).toEqual(['a', 'b']);
+    expect(groups[0].total).toBe(250);
+  });
+
+  it('ranks sets with closer dates first', () => {
+    const groups = findGroupMatches(target, [
+      scored('near-1', 125, '2024-03-10'),
+      scored('near-2', 125, '2024-03-10'),
+      scored('far', 200, '2024-02-20'),
+      scored('far-rest', 50, '2024-02-20'),
+    ]);
+
+    expect(groups.map((g) => g.candidates.map((c) => c.journalEntryId))).toEqual([
+      ['near-1', 'near-2'],
+      ['far', 'far-rest'],
+    ]);
+  });
+
+  it('does not suggest a single entry as a group', () => {
+    expect(findGroupMatches(target, [scored('a', 250, '2024-03-10')])).toEqual([]);
+  });
+});
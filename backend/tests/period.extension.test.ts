@@ -0,0 +1,103 @@
+import bcrypt from 'bcryptjs';
+import { UserRole } from '@prisma/client';
+import { prismaMock, resetPrismaMock } from './prismaMock';
+import { assertPeriodOpen, closingDateExtension } from '../src/modules/periods/period.extension';
+import { runWithAuditContext } from '../src/modules/audit/audit.extension';
+
+const passwordHash = bcrypt.hashSync('year-end-2023', 4);
+
+// The extension applied to the mock client, exposing its journal entry hooks
+const client = new Proxy({} as Record<string, any>, {
+  get: (_, key: string) => (key === '$extends' ? (extension: unknown) => extension : prismaMock[key]),
+});
+const hooks = (closingDateExtension as any)(client).query.journalEntry;
+
+const call = (operation: string, args: object) => {
+  const query = jest.fn().mockResolvedValue({});
+  return hooks[operation]({ args, query }).then(() => query);
+};
+
+const asUser = <T>(role: UserRole, password: string | undefined, fn: () => Promise<T>) => {
+  prismaMock.companyUser.findUnique.mockResolvedValue({ role });
+  return runWithAuditContext({ userId: 'user-1', closingDatePassword: password }, fn);
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({
+    closingDate: new Date('2023-12-31T00:00:00.000Z'),
+    closingDatePasswordHash: passwordHash,
+  });
+});
+
+describe('assertPeriodOpen', () => {
+  it('refuses dates on or before the closing date', async () => {
+    await expect(assertPeriodOpen('company-1', ['2023-12-31T00:00:00.000Z'])).rejects.toThrow(
+      'The books are closed through 2023-12-31'
+    );
+    await expect(assertPeriodOpen('company-1', [new Date('2024-01-01')])).resolves.toBeUndefined();
+  });
+
+  it('allows everything when no closing date is set', async () => {
+    prismaMock.company.findUnique.mockResolvedValue({ closingDate: null, closingDatePasswordHash: null });
+
+    await expect(assertPeriodOpen('company-1', [new Date('2020-01-01')])).resolves.toBeUndefined();
+  });
+
+  it('lets owners and admins override with the closing date password', async () => {
+    const dates = [new Date('2023-06-30')];
+
+    await expect(
+      asUser(UserRole.ADMIN, 'year-end-2023', () => assertPeriodOpen('company-1', dates))
+    ).resolves.toBeUndefined();
+    await expect(
+      asUser(UserRole.ADMIN, 'wrong-password', () => assertPeriodOpen('company-1', dates))
+    ).rejects.toThrow('The books are closed through 2023-12-31');
+    await expect(
+      asUser(UserRole.MEMBER, 'year-end-2023', () => assertPeriodOpen('company-1', dates))
+    ).rejects.toThrow('The books are closed through 2023-12-31');
+  });
+});
+
+describe('closingDateExtension', () => {
+  it('checks posted entries when they are created, but not drafts', async () => {
+    const data = { companyId: 'company-1', date: new Date('2023-11-15') };
+
+    await expect(call('create', { data })).rejects.toThrow('The books are closed through 2023-12-31');
+    await expect(call('create', { data: { ...data, isPosted: false } })).resolves.toBeDefined();
+  });
+
+  it('checks an entry at both its old and new date', async () => {
+    prismaMock.journalEntry.findMany.mockResolvedValue([
+      { companyId: 'company-1', date: new Date('2024-02-01'), isPosted: true },
+    ]);
+
+    await expect(
+      call('update', { where: { id: 'entry-1' }, data: { date: new Date('2023-12-15') } })
+    ).rejects.toThrow('The books are closed through 2023-12-31');
+    await expect(
+      call('update', { where: { id: 'entry-1' }, data: { date: new Date('2024-01-15') } })
+    ).resolves.toBeDefined();
+  });
+
+  it('refuses voiding or deleting an entry in a closed period', async () => {
+    prismaMock.journalEntry.findMany.mockResolvedValue([
+      { companyId: 'company-1', date: new Date('2023-11-15'), isPosted: true },
+    ]);
+
+    await expect(
+      call('updateMany', { where: { sourceId: 'invoice-1' }, data: { isPosted: false } })
+    ).rejects.toThrow('The books are closed through 2023-12-31');
+    await expect(call('delete', { where: { id: 'entry-1' } })).rejects.toThrow(
+      'The books are closed through 2023-12-31'
+    );
+  });
+
+  it('ignores changes that do not touch the ledger', async () => {
+    const query = await call('update', { where: { id: 'entry-1' }, data: { memo: 'Typo fixed' } });
+
+    expect(query).toHaveBeenCalled();
+    expect(prismaMock.journalEntry.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import bcrypt from 'bcryptjs';
+import { AccountSubType, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), getJournalEntry: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+
+import { periodService } from '../src/modules/periods/period.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const total = (accountId: string, debit: number, credit: number) => ({
+  accountId,
+  _sum: { debit: dec(debit), credit: dec(credit) },
+});
+
+const closeYear = (fiscalYearEnd: string, lockPeriod = false) =>
+  periodService.closeYear('company-1', 'user-1', { fiscalYearEnd, lockPeriod });
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.company.findUnique.mockResolvedValue({ fiscalYearStart: 1, closingDate: null });
+  jest.mocked(accountService.getSystemAccount).mockResolvedValue({ id: 'retained-earnings' } as any);
+  createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+});
+
+describe('PeriodService.closeYear', () => {
+  it('zeroes revenue and expenses into Retained Earnings on the last day of the year', async () => {
+    prismaMock.journalLine.groupBy.mockResolvedValue([
+      total('sales', 0, 1000),
+      total('rent', 600, 0),
+      total('fees', 50, 50),
+    ]);
+
+    await closeYear('2024-12-31T00:00:00.000Z');
+
+    expect(prismaMock.journalLine.groupBy.mock.calls[0][0].where.journalEntry).toEqual({
+      isPosted: true,
+      date: { gte: new Date('2024-01-01'), lte: new Date('2024-12-31') },
+    });
+    expect(accountService.getSystemAccount).toHaveBeenCalledWith(
+      'company-1',
+      AccountSubType.RETAINED_EARNINGS
+    );
+
+    const { date, source, lines } = createFromTransaction.mock.calls[0][2];
+    expect({ date, source }).toEqual({ date: new Date('2024-12-31'), source: JournalSource.CLOSING });
+    expect(lines.map((l) => [l.accountId, l.debit, l.credit])).toEqual([
+      ['sales', 1000, 0],
+      ['rent', 0, 600],
+      ['retained-earnings', 0, 400],
+    ]);
+    expect(prismaMock.company.update).not.toHaveBeenCalled();
+  });
+
+  it('debits Retained Earnings for a loss', async () => {
+    prismaMock.journalLine.groupBy.mockResolvedValue([total('sales', 0, 200), total('rent', 600, 0)]);
+
+    await closeYear('2024-12-31T00:00:00.000Z');
+
+    expect(createFromTransaction.mock.calls[0][2].lines.at(-1)).toMatchObject({
+      accountId: 'retained-earnings',
+      debit: 400,
+      credit: 0,
+    });
+  });
+
+  it('follows the company fiscal year', async () => {
+    prismaMock.company.findUnique.mockResolvedValue({ fiscalYearStart: 7, closingDate: null });
+
+    await expect(closeYear('2024-12-31T00:00:00.000Z')).rejects.toThrow(
+      "Date is not the last day of the company's fiscal year"
+    );
+
+    prismaMock.journalLine.groupBy.mockResolvedValue([total('sales', 0, 100)]);
+    await closeYear('2024-06-30T00:00:00.000Z');
+
+    expect(prismaMock.journalLine.groupBy.mock.calls[0][0].where.journalEntry.date).toEqual({
+      gte: new Date('2023-07-01'),
+      lte: new Date('2024-06-30'),
+    });
+  });
+
+  it('refuses a year with nothing left to close', async () => {
+    prismaMock.journalLine.groupBy.mockResolvedValue([total('sales', 100, 100)]);
+
+    await expect(closeYear('2024-12-31T00:00:00.000Z')).rejects.toThrow(
+      'Nothing left to close for the year ending 2024-12-31'
+    );
+    expect(createFromTransaction).not.toHaveBeenCalled();
+  });
+
+  it('moves the closing date forward to the year end when locking', async () => {
+    prismaMock.journalLine.groupBy.mockResolvedValue([total('sales', 0, 100)]);
+
+    await closeYear('2024-12-31T00:00:00.000Z', true);
+
+    expect(prismaMock.company.update).toHaveBeenCalledWith({
+      where: { id: 'company-1' },
+      data: { closingDate: new Date('2024-12-31') },
+    });
+
+    prismaMock.company.update.mockClear();
+    prismaMock.company.findUnique.mockResolvedValue({
+      fiscalYearStart: 1,
+      closingDate: new Date('2025-03-31'),
+    });
+    await closeYear('2024-12-31T00:00:00.000Z', true);
+
+    expect(prismaMock.company.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PeriodService.updateClosingDate', () => {
+  it('stores only a hash of the override password', async () => {
+    prismaMock.company.findUnique.mockResolvedValue({
+      closingDate: new Date('2023-12-31'),
+      closingDatePasswordHash: 'hash',
+    });
+
+    const result = await periodService.updateClosingDate('company-1', {
+      closingDate: '2023-12-31T00:00:00.000Z',
+      password: 'year-end-2023',
+    });
+
+    const { data } = prismaMock.company.update.mock.calls[0][0];
+    expect(await bcrypt.compare('year-end-2023', data.closingDatePasswordHash)).toBe(true);
+    expect(result).toEqual({ closingDate: new Date('2023-12-31'), hasPassword: true });
+  });
+
+  it('keeps the password when only the date changes', async () => {
+    prismaMock.company.findUnique.mockResolvedValue({ closingDate: null, closingDatePasswordHash: null });
+
+    await periodService.updateClosingDate('company-1', { closingDate: null });
+
+    expect(prismaMock.company.update).toHaveBeenCalledWith({
+      where: { id: 'company-1' },
+      data: { closingDate: null },
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { Prisma } from '@prisma/client';
+
+type ModelMock = Record<string, jest.Mock>;
+
+const models = new Map<string, ModelMock>();
+
+/**
+ * Stand-in for the Prisma client: every prisma.<model>.<method> is a jest.fn created
+ * on first use, resolving to undefined until a test gives it a value
+ */
+export const prismaMock = new Proxy({} as Record<string, ModelMock>, {
+  get: (_, model: string) => {
+    if (!models.has(model)) {
+      models.set(
+        model,
+        new Proxy({} as ModelMock, {
+          get: (methods, method: string) => (methods[method] ??= jest.fn()),
+        })
+      );
+    }
+    return models.get(model);
+  },
+});
+
+export function resetPrismaMock() {
+  models.clear();
+}
+
+export const dec = (value: number) => new Prisma.Decimal(value);
@@ -0,0 +1,139 @@
+import { ProductType } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+
+import { productService } from '../src/modules/products/product.service';
+
+const stocked = {
+  id: 'product-1',
+  sku: 'WIDGET',
+  name: 'Widget',
+  type: ProductType.INVENTORY,
+  assetAccountId: 'inventory-gl',
+  expenseAccountId: 'cogs-gl',
+  quantityOnHand: dec(5),
+};
+
+const csv = (...rows: string[]) => rows.join('\n');
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.account.findMany.mockResolvedValue([
+    { id: 'inventory-gl', code: '1300' },
+    { id: 'cogs-gl', code: '5000' },
+  ]);
+  prismaMock.taxRate.findMany.mockResolvedValue([]);
+  prismaMock.product.findMany.mockResolvedValue([{ id: 'product-1', sku: 'WIDGET' }]);
+  prismaMock.product.findFirst.mockResolvedValue(stocked);
+  prismaMock.product.create.mockImplementation(({ data }) => Promise.resolve({ id: `new-${data.sku}` }));
+  prismaMock.product.update.mockImplementation(({ data }) =>
+    Promise.resolve({ ...stocked, ...data, salePrice: null, purchasePrice: null, averageCost: dec(0) })
+  );
+  prismaMock.account.count.mockImplementation(({ where }) => Promise.resolve(where.id.in.length));
+});
+
+describe('ProductService.importProducts', () => {
+  it('creates new SKUs and updates existing ones', async () => {
+    const result = await productService.importProducts('company-1', {
+      data: csv('SKU,Name,Type,Price', 'WIDGET,Widget v2,inventory,12', 'GADGET,Gadget,service,$5.00'),
+      updateExisting: true,
+    });
+
+    expect(result).toEqual({ created: 1, updated: 1, skipped: 0, errors: [] });
+    expect(prismaMock.product.create.mock.calls[0][0].data).toMatchObject({
+      sku: 'GADGET',
+      type: ProductType.SERVICE,
+      salePrice: 5,
+    });
+    expect(prismaMock.product.update.mock.calls[0][0].data).toMatchObject({
+      name: 'Widget v2',
+      salePrice: 12,
+    });
+  });
+
+  it('skips existing SKUs when not updating them', async () => {
+    const result = await productService.importProducts('company-1', {
+      data: csv('SKU,Name', 'WIDGET,Widget v2'),
+      updateExisting: false,
+    });
+
+    expect(result).toEqual({ created: 0, updated: 0, skipped: 1, errors: [] });
+    expect(prismaMock.product.update).not.toHaveBeenCalled();
+  });
+
+  it('reports rows that an edit would reject', async () => {
+    const result = await productService.importProducts('company-1', {
+      data: csv(
+        'SKU,Name,Type,Asset Account,Expense Account',
+        'WIDGET,Widget,service,,',
+        'BOLT,Bolt,inventory,1300,',
+        'NUT,Nut,inventory,1300,9999',
+        'SCREW,Screw,gizmo,,'
+      ),
+      updateExisting: true,
+    });
+
+    expect(result.created + result.updated).toBe(0);
+    expect(result.errors).toEqual([
+      { row: 2, message: 'Adjust stock to zero before changing the type of an inventory product' },
+      {
+        row: 3,
+        message: 'Inventory products need an inventory asset account and a cost of goods sold account',
+      },
+      { row: 4, message: 'Account "9999" not found' },
+      { row: 5, message: 'Unknown product type "gizmo"' },
+    ]);
+  });
+
+  it('needs a name column', async () => {
+    await expect(
+      productService.importProducts('company-1', { data: csv('SKU,Price', 'A,1'), updateExisting: true })
+    ).rejects.toThrow('CSV file must have a header row with a "name" column');
+  });
+});
+
+describe('ProductService.updateProduct', () => {
+  it('keeps a stocked inventory product an inventory product', async () => {
+    await expect(
+      productService.updateProduct('company-1', 'product-1', { type: ProductType.NON_INVENTORY })
+    ).rejects.toThrow('Adjust stock to zero before changing the type of an inventory product');
+  });
+
+  it('keeps the inventory accounts on an inventory product', async () => {
+    await expect(
+      productService.updateProduct('company-1', 'product-1', { expenseAccountId: null })
+    ).rejects.toThrow('Inventory products need an inventory asset account and a cost of goods sold account');
+  });
+});
+
+describe('ProductService.deactivateProduct', () => {
+  it('returns the deactivated product', async () => {
+    const product = await productService.deactivateProduct('company-1', 'product-1');
+
+    expect(product).toMatchObject({ id: 'product-1', isActive: false, quantityOnHand: 5 });
+  });
+});
+
+describe('ProductService.assertLineProducts', () => {
+  it('rejects inactive products unless the document already uses them', async () => {
+    prismaMock.product.findMany.mockResolvedValue([{ id: 'product-1', name: 'Widget', isActive: false }]);
+    const lines = [{ productId: 'product-1' }, { productId: null }];
+
+    await expect(productService.assertLineProducts('company-1', lines)).rejects.toThrow(
+      'Product "Widget" is inactive'
+    );
+    await expect(
+      productService.assertLineProducts('company-1', lines, ['product-1'])
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects products from another company', async () => {
+    prismaMock.product.findMany.mockResolvedValue([]);
+
+    await expect(
+      productService.assertLineProducts('company-1', [{ productId: 'product-2' }])
+    ).rejects.toThrow('Product not found');
+  });
+});
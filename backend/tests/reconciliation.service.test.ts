@@ -0,0 +1,360 @@
+import { AccountType, BankTransactionStatus, ReconciliationStatus } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+
+import { reconciliationService } from '../src/modules/banking/reconciliation.service';
+
+const reconciliation = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rec-1',
+  bankAccountId: 'bank-1',
+  statementDate: new Date('2024-03-31'),
+  statementBalance: dec(1150),
+  openingBalance: dec(1000),
+  reconciledBalance: dec(0),
+  status: ReconciliationStatus.IN_PROGRESS,
+  completedAt: null,
+  completedById: null,
+  bankAccount: { id: 'bank-1', accountId: 'bank-gl', account: { type: AccountType.ASSET } },
+  ...overrides,
+});
+
+const line = (id: string, debit: number, credit: number, reconciliationId: string | null = null) => ({
+  id,
+  journalEntryId: `entry-${id}`,
+  debit: dec(debit),
+  credit: dec(credit),
+  memo: null,
+  reconciliationId,
+  isCleared: reconciliationId !== null,
+  clearedAt: null,
+  journalEntry: {
+    id: `entry-${id}`,
+    entryNumber: 1,
+    date: new Date('2024-03-15'),
+    memo: `Entry ${id}`,
+    reference: null,
+    source: 'MANUAL',
+  },
+});
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.bankAccount.findFirst.mockResolvedValue({
+    id: 'bank-1',
+    bankName: 'First Bank',
+    accountNumber: '123456789',
+    accountId: 'bank-gl',
+  });
+  prismaMock.bankReconciliation.findFirst.mockResolvedValue(reconciliation());
+  prismaMock.bankReconciliation.update.mockImplementation(({ where, data }) =>
+    Promise.resolve(
+      reconciliation({ ...data, id: where.id, reconciledBalance: dec(data.reconciledBalance) })
+    )
+  );
+});
+
+describe('ReconciliationService.getReconciliations', () => {
+  it('lists the account history with amounts as numbers', async () => {
+    prismaMock.bankReconciliation.findMany.mockResolvedValue([
+      reconciliation({ status: ReconciliationStatus.COMPLETED, reconciledBalance: dec(1150) }),
+    ]);
+
+    const [history] = await reconciliationService.getReconciliations('company-1', 'bank-1');
+
+    expect(history).toMatchObject({
+      statementBalance: 1150,
+      openingBalance: 1000,
+      reconciledBalance: 1150,
+    });
+  });
+
+  it('rejects bank accounts of other companies', async () => {
+    prismaMock.bankAccount.findFirst.mockResolvedValue(null);
+
+    await expect(reconciliationService.getReconciliations('company-2', 'bank-1')).rejects.toThrow(
+      'Bank account not found'
+    );
+  });
+});
+
+describe('ReconciliationService.getReconciliation', () => {
+  it('resumes an in-progress reconciliation with its saved cleared lines', async () => {
+    prismaMock.journalLine.findMany.mockResolvedValue([
+      line('deposit', 200, 0, 'rec-1'),
+      line('check', 0, 50, 'rec-1'),
+      line('open', 0, 30),
+    ]);
+
+    const result = await reconciliationService.getReconciliation('company-1', 'rec-1');
+
+    expect(result).toMatchObject({
+      clearedDeposits: 200,
+      clearedWithdrawals: 50,
+      clearedCount: 2,
+      clearedBalance: 1150,
+      difference: 0,
+    });
+    expect(result.items.map((i) => [i.id, i.type, i.amount, i.isCleared])).toEqual([
+      ['deposit', 'DEPOSIT', 200, true],
+      ['check', 'WITHDRAWAL', 50, true],
+      ['open', 'WITHDRAWAL', 30, false],
+    ]);
+  });
+});
+
+describe('ReconciliationService.cancelReconciliation', () => {
+  it('releases the cleared lines and deletes the reconciliation', async () => {
+    await reconciliationService.cancelReconciliation('company-1', 'rec-1');
+
+    expect(prismaMock.journalLine.updateMany).toHaveBeenCalledWith({
+      where: { reconciliationId: 'rec-1' },
+      data: { reconciliationId: null, isCleared: false, clearedAt: null },
+    });
+    expect(prismaMock.bankReconciliation.delete).toHaveBeenCalledWith({ where: { id: 'rec-1' } });
+  });
+
+  it('only cancels reconciliations in progress', async () => {
+    prismaMock.bankReconciliation.findFirst.mockResolvedValue(
+      reconciliation({ status: ReconciliationStatus.COMPLETED })
+    );
+
+    await expect(reconciliationService.cancelReconciliation('company-1', 'rec-1')).rejects.toThrow(
+      'Only an in-progress reconciliation can be cancelled'
+    );
+  });
+});
+
+describe('ReconciliationService.undoLastReconciliation', () => {
+  const completed = (id: string, statementBalance: number, openingBalance: number) =>
+    reconciliation({
+      id,
+      status: ReconciliationStatus.COMPLETED,
+      statementBalance: dec(statementBalance),
+      openingBalance: dec(openingBalance),
+      completedAt: new Date('2024-04-02'),
+    });
+
+  beforeEach(() => {
+    prismaMock.bankTransaction.findMany.mockResolvedValue([
+      { id: 'matched', matchedJournalEntryId: null, _count: { matches: 1 } },
+      { id: 'categorized', matchedJournalEntryId: 'entry-1', _count: { matches: 0 } },
+      { id: 'pending', matchedJournalEntryId: null, _count: { matches: 0 } },
+    ]);
+  });
+
+  it('reopens the latest reconciliation and returns its transactions to their earlier state', async () => {
+    prismaMock.bankReconciliation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(completed('rec-2', 1300, 1150))
+      .mockResolvedValueOnce(completed('rec-1', 1150, 1000));
+
+    const reopened = await reconciliationService.undoLastReconciliation('company-1', 'bank-1');
+
+    expect(reopened.status).toBe(ReconciliationStatus.IN_PROGRESS);
+    expect(prismaMock.bankTransaction.update.mock.calls.map(([args]) => args.data.status)).toEqual([
+      BankTransactionStatus.MATCHED,
+      BankTransactionStatus.CATEGORIZED,
+      BankTransactionStatus.PENDING,
+    ]);
+    expect(prismaMock.bankAccount.update).toHaveBeenCalledWith({
+      where: { id: 'bank-1' },
+      data: { currentBalance: dec(1150), lastReconciled: new Date('2024-04-02') },
+    });
+  });
+
+  it('restores the starting balance when undoing the only reconciliation', async () => {
+    prismaMock.bankReconciliation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(completed('rec-1', 1150, 1000))
+      .mockResolvedValueOnce(null);
+
+    await reconciliationService.undoLastReconciliation('company-1', 'bank-1');
+
+    expect(prismaMock.bankAccount.update).toHaveBeenCalledWith({
+      where: { id: 'bank-1' },
+      data: { currentBalance: dec(1000), lastReconciled: null },
+    });
+  });
+
+  it('refuses while another reconciliation is in progress', async () => {
+    await expect(
+      reconciliationService.undoLastReconciliation('company-1', 'bank-1')
+    ).rejects.toThrow('Cancel or complete the reconciliation in progress first');
+  });
+});
+
+describe('ReconciliationService.getReconciliationReport', () => {
+  it('splits cleared and uncleared items and works out the register balance', async () => {
+    prismaMock.bankReconciliation.findFirst.mockResolvedValue(
+      reconciliation({ status: ReconciliationStatus.COMPLETED })
+    );
+    prismaMock.journalLine.findMany
+      .mockResolvedValueOnce([line('deposit', 200, 0, 'rec-1'), line('check', 0, 50, 'rec-1')])
+      .mockResolvedValueOnce([line('late-deposit', 75, 0), line('open-check', 0, 30)]);
+
+    const report = await reconciliationService.getReconciliationReport('company-1', 'rec-1');
+
+    expect(report.bankAccount.accountNumber).toBe('*****6789');
+    expect(report.cleared.deposits.total).toBe(200);
+    expect(report.cleared.withdrawals.total).toBe(50);
+    expect(report.uncleared.deposits.total).toBe(75);
+    expect(report.uncleared.withdrawals.total).toBe(30);
+    expect(report.clearedBalance).toBe(1150);
+    expect(report.registerBalance).toBe(1195);
+  });
+});
+
+describe('ReconciliationService.startReconciliation', () => {
+  const input = { statementDate: '2024-03-31T00:00:00.000Z', statementBalance: 1150 };
+
+  beforeEach(() => {
+    prismaMock.bankReconciliation.findFirst.mockResolvedValue(null);
+    prismaMock.bankReconciliation.create.mockImplementation(({ data }) =>
+      Promise.resolve(
+        reconciliation({
+          ...data,
+          statementBalance: dec(data.statementBalance),
+          openingBalance: dec(data.openingBalance),
+        })
+      )
+    );
+    prismaMock.journalLine.aggregate.mockResolvedValue({
+      _sum: { debit: dec(500), credit: dec(200) },
+    });
+  });
+
+  it('opens from the GL opening balance plus lines cleared so far', async () => {
+    prismaMock.bankAccount.findFirst.mockResolvedValue({
+      id: 'bank-1',
+      accountId: 'bank-gl',
+      account: { type: AccountType.ASSET, openingBalance: dec(700) },
+    });
+
+    const started = await reconciliationService.startReconciliation('company-1', 'bank-1', input);
+
+    expect(started).toMatchObject({ openingBalance: 1000, clearedBalance: 1000, difference: -150 });
+  });
+
+  it('opens credit card accounts on the credit side', async () => {
+    prismaMock.bankAccount.findFirst.mockResolvedValue({
+      id: 'bank-1',
+      accountId: 'card-gl',
+      account: { type: AccountType.LIABILITY, openingBalance: dec(700) },
+    });
+
+    const started = await reconciliationService.startReconciliation('company-1', 'bank-1', input);
+
+    expect(started.openingBalance).toBe(400);
+  });
+
+  it('rejects statement dates on or before the last reconciliation', async () => {
+    prismaMock.bankAccount.findFirst.mockResolvedValue({
+      id: 'bank-1',
+      account: { type: AccountType.ASSET, openingBalance: dec(0) },
+    });
+    prismaMock.bankReconciliation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ statementDate: new Date('2024-03-31') });
+
+    await expect(
+      reconciliationService.startReconciliation('company-1', 'bank-1', input)
+    ).rejects.toThrow('Statement date must be after the last reconciled statement');
+  });
+});
+
+describe('ReconciliationService.saveClearedItems', () => {
+  it('rejects lines that are not open on this bank account', async () => {
+    prismaMock.journalLine.count.mockResolvedValue(1);
+
+    await expect(
+      reconciliationService.saveClearedItems('company-1', 'rec-1', ['deposit', 'elsewhere'])
+    ).rejects.toThrow('Some lines cannot be cleared in this reconciliation');
+    expect(prismaMock.journalLine.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('replaces the cleared selection and returns the running totals', async () => {
+    prismaMock.journalLine.count.mockResolvedValue(2);
+    prismaMock.journalLine.findMany.mockResolvedValue([
+      line('deposit', 200, 0, 'rec-1'),
+      line('check', 0, 100, 'rec-1'),
+    ]);
+
+    const result = await reconciliationService.saveClearedItems('company-1', 'rec-1', [
+      'deposit',
+      'check',
+      'check',
+    ]);
+
+    expect(prismaMock.journalLine.updateMany).toHaveBeenCalledWith({
+      where: { reconciliationId: 'rec-1', id: { notIn: ['deposit', 'check'] } },
+      data: { reconciliationId: null, isCleared: false, clearedAt: null },
+    });
+    expect(result).toMatchObject({ clearedBalance: 1100, difference: -50 });
+  });
+});
+
+describe('ReconciliationService.completeReconciliation', () => {
+  it('refuses while the cleared balance differs from the statement', async () => {
+    prismaMock.journalLine.findMany.mockResolvedValue([line('deposit', 100, 0, 'rec-1')]);
+
+    await expect(
+      reconciliationService.completeReconciliation('company-1', 'user-1', 'rec-1')
+    ).rejects.toThrow('Difference of -50.00 - reconciliation not balanced');
+  });
+
+  it('reconciles the bank transactions behind the cleared entries', async () => {
+    prismaMock.journalLine.findMany.mockResolvedValue([
+      line('deposit', 200, 0, 'rec-1'),
+      line('check', 0, 50, 'rec-1'),
+    ]);
+
+    const completed = await reconciliationService.completeReconciliation(
+      'company-1',
+      'user-1',
+      'rec-1'
+    );
+
+    expect(prismaMock.bankTransaction.updateMany).toHaveBeenCalledWith({
+      where: {
+        bankAccountId: 'bank-1',
+        status: { not: BankTransactionStatus.EXCLUDED },
+        OR: [
+          { matchedJournalEntryId: { in: ['entry-deposit', 'entry-check'] } },
+          { matches: { some: { journalEntryId: { in: ['entry-deposit', 'entry-check'] } } } },
+        ],
+      },
+      data: { status: BankTransactionStatus.RECONCILED, reconciliationId: 'rec-1' },
+    });
+    expect(completed).toMatchObject({
+      status: ReconciliationStatus.COMPLETED,
+      reconciledBalance: 1150,
+    });
+    expect(prismaMock.bankAccount.update).toHaveBeenCalledWith({
+      where: { id: 'bank-1' },
+      data: { currentBalance: dec(1150), lastReconciled: expect.any(Date) },
+    });
+  });
+
+  it('balances credit card statements where charges are credits', async () => {
+    prismaMock.bankReconciliation.findFirst.mockResolvedValue(
+      reconciliation({
+        statementBalance: dec(650),
+        openingBalance: dec(500),
+        bankAccount: { id: 'bank-1', accountId: 'card-gl', account: { type: AccountType.LIABILITY } },
+      })
+    );
+    prismaMock.journalLine.findMany.mockResolvedValue([
+      line('charge', 0, 400, 'rec-1'),
+      line('payment', 250, 0, 'rec-1'),
+    ]);
+
+    const completed = await reconciliationService.completeReconciliation(
+      'company-1',
+      'user-1',
+      'rec-1'
+    );
+
+    expect(completed.reconciledBalance).toBe(650);
+  });
+});
@@ -0,0 +1,226 @@
+import {
+  Prisma,
+  RecurringDocumentType,
+  RecurringFrequency,
+  RecurringRunStatus,
+  UserRole,
+} from '@prisma/client';
+import { prismaMock, resetPrismaMock } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createJournalEntry: jest.fn() },
+}));
+jest.mock('../src/modules/invoices/invoice.service', () => ({
+  invoiceService: { createInvoice: jest.fn(), sendInvoice: jest.fn() },
+}));
+jest.mock('../src/modules/bills/bill.service', () => ({
+  billService: { createBill: jest.fn() },
+}));
+
+import { recurringService } from '../src/modules/recurring/recurring.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { invoiceService } from '../src/modules/invoices/invoice.service';
+
+const createJournalEntry = jest.mocked(journalService.createJournalEntry);
+
+const RENT = '00000000-0000-4000-8000-000000000001';
+const BANK = '00000000-0000-4000-8000-000000000002';
+
+const payload = {
+  lines: [
+    { accountId: RENT, debit: 2000, credit: 0 },
+    { accountId: BANK, debit: 0, credit: 2000 },
+  ],
+};
+
+let template: Record<string, any>;
+
+const schedule = {
+  name: 'Rent',
+  frequency: RecurringFrequency.MONTHLY,
+  interval: 1,
+  startDate: '2024-01-31T00:00:00.000Z',
+  autoPost: true,
+};
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: '5.22.0',
+  });
+
+const formatted = (date: Date) => date.toISOString().slice(0, 10);
+
+const nextRunDates = () =>
+  prismaMock.recurringTemplate.update.mock.calls.map(([{ data }]) => formatted(data.nextRunDate));
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  template = {
+    id: 'template-1',
+    companyId: 'company-1',
+    createdById: 'user-1',
+    documentType: RecurringDocumentType.JOURNAL_ENTRY,
+    payload,
+    frequency: RecurringFrequency.MONTHLY,
+    interval: 1,
+    dayOfMonth: null,
+    startDate: new Date('2024-01-31'),
+    endDate: null,
+    maxOccurrences: null,
+    occurrencesCreated: 0,
+    nextRunDate: new Date('2024-01-31'),
+    autoPost: true,
+  };
+  // The schedule moves on as occurrences are created
+  prismaMock.recurringTemplate.findMany.mockImplementation(() => Promise.resolve([template]));
+  prismaMock.recurringTemplate.findUnique.mockImplementation(() => Promise.resolve(template));
+  prismaMock.recurringTemplate.update.mockImplementation(({ data }) => {
+    template = { ...template, ...data };
+    return Promise.resolve(template);
+  });
+  prismaMock.recurringTemplateRun.create.mockImplementation(({ data }) =>
+    Promise.resolve({ id: `run-${formatted(data.occurrenceDate)}`, documentId: null, ...data })
+  );
+  prismaMock.companyUser.findUnique.mockResolvedValue({ role: UserRole.ADMIN, acceptedAt: new Date() });
+  createJournalEntry.mockResolvedValue({ id: 'entry-1' } as any);
+});
+
+describe('RecurringService.createTemplate', () => {
+  it('starts on the first occurrence of the schedule', async () => {
+    prismaMock.recurringTemplate.create.mockResolvedValue({ id: 'template-1' });
+    prismaMock.recurringTemplate.findFirst.mockResolvedValue(template);
+
+    await recurringService.createTemplate('company-1', 'user-1', {
+      ...schedule,
+      startDate: '2024-01-20T00:00:00.000Z',
+      dayOfMonth: 15,
+      documentType: RecurringDocumentType.JOURNAL_ENTRY,
+      payload,
+    });
+
+    expect(prismaMock.recurringTemplate.create.mock.calls[0][0].data.nextRunDate).toEqual(
+      new Date('2024-02-15')
+    );
+  });
+
+  it('checks the payload against the document type', async () => {
+    await expect(
+      recurringService.createTemplate('company-1', 'user-1', {
+        ...schedule,
+        documentType: RecurringDocumentType.JOURNAL_ENTRY,
+        payload: { lines: [] },
+      })
+    ).rejects.toThrow('At least 2 lines required');
+  });
+
+  it('only takes a day of month for monthly and yearly schedules', async () => {
+    await expect(
+      recurringService.createTemplate('company-1', 'user-1', {
+        ...schedule,
+        frequency: RecurringFrequency.WEEKLY,
+        dayOfMonth: 1,
+        documentType: RecurringDocumentType.JOURNAL_ENTRY,
+        payload,
+      })
+    ).rejects.toThrow('Day of month only applies to monthly and yearly schedules');
+  });
+});
+
+describe('RecurringService.runDueTemplates', () => {
+  it('catches up on missed occurrences, keeping to the end of short months', async () => {
+    const summary = await recurringService.runDueTemplates(undefined, new Date('2024-03-31'));
+
+    expect(summary).toEqual({ created: 3, failed: 0 });
+    expect(createJournalEntry.mock.calls.map(([, , , input]) => input.date)).toEqual([
+      '2024-01-31T00:00:00.000Z',
+      '2024-02-29T00:00:00.000Z',
+      '2024-03-31T00:00:00.000Z',
+    ]);
+    expect(createJournalEntry).toHaveBeenCalledWith(
+      'company-1',
+      'user-1',
+      UserRole.ADMIN,
+      expect.objectContaining({ lines: expect.any(Array) }),
+      false,
+      'run-2024-01-31'
+    );
+    expect(nextRunDates()).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('stops after the last occurrence', async () => {
+    template.maxOccurrences = 2;
+
+    await recurringService.runDueTemplates(undefined, new Date('2024-12-31'));
+
+    expect(createJournalEntry).toHaveBeenCalledTimes(2);
+    expect(template.nextRunDate).toBeNull();
+  });
+
+  it('sends invoices it auto-posts', async () => {
+    template.documentType = RecurringDocumentType.INVOICE;
+    template.payload = {
+      customerId: '00000000-0000-4000-8000-000000000003',
+      lines: [{ description: 'Retainer', quantity: 1, unitPrice: 500, accountId: RENT }],
+    };
+    jest.mocked(invoiceService.createInvoice).mockResolvedValue({ id: 'invoice-1' } as any);
+
+    await recurringService.runDueTemplates(undefined, new Date('2024-01-31'));
+
+    expect(invoiceService.sendInvoice).toHaveBeenCalledWith('company-1', 'user-1', 'invoice-1');
+  });
+
+  it('skips an occurrence another runner is creating', async () => {
+    prismaMock.recurringTemplateRun.create.mockRejectedValue(uniqueViolation());
+    prismaMock.recurringTemplateRun.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.recurringTemplateRun.findUnique.mockResolvedValue({ status: RecurringRunStatus.PENDING });
+
+    const summary = await recurringService.runDueTemplates(undefined, new Date('2024-01-31'));
+
+    expect(summary).toEqual({ created: 0, failed: 0 });
+    expect(createJournalEntry).not.toHaveBeenCalled();
+    expect(prismaMock.recurringTemplate.update).not.toHaveBeenCalled();
+  });
+
+  it('finishes a retry with the document an earlier attempt created', async () => {
+    prismaMock.recurringTemplateRun.create.mockRejectedValue(uniqueViolation());
+    prismaMock.recurringTemplateRun.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.recurringTemplateRun.findUnique.mockResolvedValue({ id: 'run-1', documentId: null });
+    prismaMock.journalEntry.findFirst.mockResolvedValue({ id: 'entry-0' });
+
+    await recurringService.runDueTemplates(undefined, new Date('2024-01-31'));
+
+    expect(createJournalEntry).not.toHaveBeenCalled();
+    expect(prismaMock.recurringTemplateRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: { documentId: 'entry-0' },
+    });
+    expect(template.occurrencesCreated).toBe(1);
+  });
+
+  it('records failures on the run without moving the schedule on', async () => {
+    createJournalEntry.mockRejectedValue(new Error('Account 6100 is inactive'));
+
+    const summary = await recurringService.runDueTemplates(undefined, new Date('2024-03-31'));
+
+    expect(summary).toEqual({ created: 0, failed: 1 });
+    expect(prismaMock.recurringTemplateRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-2024-01-31' },
+      data: { status: RecurringRunStatus.FAILED, error: 'Account 6100 is inactive' },
+    });
+    expect(template.nextRunDate).toEqual(new Date('2024-01-31'));
+  });
+
+  it('fails when the owner can no longer create documents', async () => {
+    prismaMock.companyUser.findUnique.mockResolvedValue({ role: UserRole.READONLY, acceptedAt: new Date() });
+
+    const summary = await recurringService.runDueTemplates(undefined, new Date('2024-01-31'));
+
+    expect(summary.failed).toBe(1);
+    expect(prismaMock.recurringTemplateRun.update.mock.calls[0][0].data.error).toBe(
+      "The template's owner can no longer create documents in this company"
+    );
+  });
+});
@@ -0,0 +1,240 @@
+import { BankTransactionType, CsvSignConvention } from '@prisma/client';
+import {
+  DEFAULT_CSV_MAPPING,
+  decodeStatementData,
+  parseCSV,
+  parseDateWithFormat,
+  parseDelimited,
+  parseOFX,
+  parseOfxDate,
+} from '../src/modules/banking/statement.parser';
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000248
+<ACCTID>000123456
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240101
+<DTEND>20240131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240105120000[-5:EST]
+<TRNAMT>-42.50
+<FITID>T1
+<NAME>COFFEE & CO
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240110
+<TRNAMT>1000,00
+<FITID>T2
+<CHECKNUM>1001
+<NAME>PAYROLL
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>957.50
+<DTASOF>20240131
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const date = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe('decodeStatementData', () => {
+  it('returns raw statement content unchanged', () => {
+    expect(decodeStatementData('  Date,Description,Amount\n')).toBe('Date,Description,Amount');
+  });
+
+  it('decodes base64 payloads', () => {
+    const csv = 'Date,Description,Amount\n2024-01-05,Coffee,-4.50';
+    expect(decodeStatementData(Buffer.from(csv).toString('base64'))).toBe(csv);
+  });
+});
+
+describe('parseOFX', () => {
+  it('parses an SGML statement', async () => {
+    const [statement] = await parseOFX(SGML_OFX);
+
+    expect(statement.accountId).toBe('000123456');
+    expect(statement.currency).toBe('USD');
+    expect(statement.startDate).toEqual(date('2024-01-01'));
+    expect(statement.endDate).toEqual(date('2024-01-31'));
+    expect(statement.ledgerBalance).toBe(957.5);
+    expect(statement.transactions).toEqual([
+      {
+        transactionDate: date('2024-01-05'),
+        postDate: date('2024-01-05'),
+        description: 'COFFEE & CO - Card purchase',
+        amount: 42.5,
+        type: BankTransactionType.DEBIT,
+        fitId: 'T1',
+        checkNumber: undefined,
+      },
+      {
+        transactionDate: date('2024-01-10'),
+        postDate: date('2024-01-10'),
+        description: 'PAYROLL',
+        amount: 1000,
+        type: BankTransactionType.CREDIT,
+        fitId: 'T2',
+        checkNumber: '1001',
+      },
+    ]);
+  });
+
+  it('rejects files without OFX data', async () => {
+    await expect(parseOFX('Date,Description,Amount')).rejects.toThrow('File does not contain OFX data');
+  });
+
+  it('rejects files without a statement', async () => {
+    await expect(parseOFX('<OFX><SIGNONMSGSRSV1></SIGNONMSGSRSV1></OFX>')).rejects.toThrow(
+      'OFX file does not contain a bank or credit card statement'
+    );
+  });
+});
+
+describe('parseOfxDate', () => {
+  it('keeps only the calendar date', () => {
+    expect(parseOfxDate('20240229235959.000[-8:PST]')).toEqual(date('2024-02-29'));
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    expect(parseOfxDate(undefined)).toBeUndefined();
+    expect(parseOfxDate('2024-01-05')).toBeUndefined();
+  });
+});
+
+describe('parseDelimited', () => {
+  it('handles quoted fields, escaped quotes and embedded newlines', () => {
+    const input = '\uFEFFa,"b, c","say ""hi"""\r\n1,"two\nlines",3';
+    expect(parseDelimited(input)).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'two\nlines', '3'],
+    ]);
+  });
+
+  it('supports other delimiters', () => {
+    expect(parseDelimited('a;b\n1;2\n', ';')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseDateWithFormat', () => {
+  it('accepts ISO and US dates without a format', () => {
+    expect(parseDateWithFormat('2024-03-07')).toEqual(date('2024-03-07'));
+    expect(parseDateWithFormat('3/7/2024')).toEqual(date('2024-03-07'));
+  });
+
+  it('applies format tokens', () => {
+    expect(parseDateWithFormat('07/03/2024', 'DD/MM/YYYY')).toEqual(date('2024-03-07'));
+    expect(parseDateWithFormat('7 Mar 24', 'D MMM YY')).toEqual(date('2024-03-07'));
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseDateWithFormat('02/30/2024', 'MM/DD/YYYY')).toBeUndefined();
+  });
+});
+
+describe('parseCSV', () => {
+  it('parses the default layout and signs amounts', () => {
+    const { transactions, errors } = parseCSV(
+      'Date,Description,Amount\n2024-01-05,Coffee Shop,-4.50\n2024-01-06,Deposit,"1,200.00"',
+      DEFAULT_CSV_MAPPING
+    );
+
+    expect(errors).toEqual([]);
+    expect(transactions).toMatchObject([
+      { row: 2, description: 'Coffee Shop', amount: 4.5, type: BankTransactionType.DEBIT },
+      { row: 3, description: 'Deposit', amount: 1200, type: BankTransactionType.CREDIT },
+    ]);
+  });
+
+  it('flips the sign for debit-positive files', () => {
+    const { transactions } = parseCSV('Date,Description,Amount\n2024-01-05,Card,25.00', {
+      ...DEFAULT_CSV_MAPPING,
+      signConvention: CsvSignConvention.DEBIT_POSITIVE,
+    });
+
+    expect(transactions[0]).toMatchObject({ amount: 25, type: BankTransactionType.DEBIT });
+  });
+
+  it('nets separate debit and credit columns by header name', () => {
+    const { transactions } = parseCSV('When,What,Out,In\n2024-01-05,Fee,3.00,\n2024-01-06,Refund,,(2.00)', {
+      ...DEFAULT_CSV_MAPPING,
+      dateColumn: 'When',
+      descriptionColumn: 'What',
+      amountColumn: null,
+      debitColumn: 'Out',
+      creditColumn: 'In',
+    });
+
+    expect(transactions).toMatchObject([
+      { amount: 3, type: BankTransactionType.DEBIT },
+      { amount: 2, type: BankTransactionType.CREDIT },
+    ]);
+  });
+
+  it('gives repeated rows distinct stable IDs', () => {
+    const csv = 'Date,Description,Amount\n2024-01-05,Coffee,-4.50\n2024-01-05,Coffee,-4.50';
+    const first = parseCSV(csv, DEFAULT_CSV_MAPPING).transactions;
+    const second = parseCSV(csv, DEFAULT_CSV_MAPPING).transactions;
+
+    expect(first[0].fitId).toMatch(/^CSV-[0-9a-f]{24}$/);
+    expect(first[0].fitId).not.toBe(first[1].fitId);
+    expect(second.map((txn) => txn.fitId)).toEqual(first.map((txn) => txn.fitId));
+  });
+
+  it('records the legacy ID from the values as written in the file', () => {
+    const { transactions } = parseCSV('Date,Description,Amount\n1/5/2024,Corner Cafe,25.00', {
+      ...DEFAULT_CSV_MAPPING,
+      signConvention: CsvSignConvention.DEBIT_POSITIVE,
+    });
+
+    expect(transactions[0].legacyFitId).toBe('1/5/2024-CornerCafe-25');
+  });
+
+  it('uses the reference column as the ID when mapped', () => {
+    const { transactions } = parseCSV('Date,Description,Amount,Ref\n2024-01-05,Coffee,-4.50,ABC123', {
+      ...DEFAULT_CSV_MAPPING,
+      referenceColumn: 'Ref',
+    });
+
+    expect(transactions[0].fitId).toBe('ABC123');
+  });
+
+  it('reports invalid rows and skips blank ones', () => {
+    const { transactions, errors } = parseCSV(
+      'Date,Description,Amount\nyesterday,Coffee,-4.50\n,,\n2024-01-05,Coffee,abc\n2024-01-05,,1.00',
+      DEFAULT_CSV_MAPPING
+    );
+
+    expect(transactions).toEqual([]);
+    expect(errors).toEqual([
+      { row: 2, message: 'Invalid date "yesterday"' },
+      { row: 4, message: 'Missing or invalid amount' },
+      { row: 5, message: 'Missing description' },
+    ]);
+  });
+
+  it('rejects mappings that reference missing columns', () => {
+    expect(() =>
+      parseCSV('Date,Description,Amount\n', { ...DEFAULT_CSV_MAPPING, referenceColumn: 'Ref' })
+    ).toThrow('Reference column "Ref" not found in file');
+  });
+});
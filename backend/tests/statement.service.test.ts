@@ -0,0 +1,224 @@
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+
+import { statementService } from '../src/modules/statements/statement.service';
+
+const customer = {
+  id: 'customer-1',
+  name: 'Globex Ltd',
+  email: 'ap@globex.test',
+  currency: 'USD',
+  billingAddress: null,
+};
+
+const payment = (date: string) => ({ payment: { date: new Date(date) } });
+
+// INV-1 is 51 days overdue with a payment after the statement date; INV-3 was paid in full
+const invoices = [
+  {
+    id: 'invoice-3',
+    invoiceNumber: 'INV-3',
+    date: new Date('2023-11-01'),
+    dueDate: new Date('2023-12-01'),
+    total: dec(100),
+    paymentAllocations: [{ amount: dec(100), ...payment('2024-03-10') }],
+    creditAllocations: [],
+  },
+  {
+    id: 'invoice-1',
+    invoiceNumber: 'INV-1',
+    date: new Date('2024-01-10'),
+    dueDate: new Date('2024-02-09'),
+    total: dec(500),
+    paymentAllocations: [
+      { amount: dec(200), ...payment('2024-02-20') },
+      { amount: dec(100), ...payment('2024-04-05') },
+    ],
+    creditAllocations: [],
+  },
+  {
+    id: 'invoice-2',
+    invoiceNumber: 'INV-2',
+    date: new Date('2024-03-05'),
+    dueDate: new Date('2024-04-04'),
+    total: dec(400),
+    paymentAllocations: [],
+    creditAllocations: [{ amount: dec(50) }, { amount: dec(30) }],
+  },
+];
+
+// CM-2 holds the overpayment on PAY-2 and is fully applied
+const creditMemos = [
+  {
+    id: 'credit-2',
+    creditMemoNumber: 'CM-2',
+    paymentId: 'payment-2',
+    date: new Date('2024-03-10'),
+    total: dec(30),
+    allocations: [{ amount: dec(30) }],
+    refunds: [],
+  },
+  {
+    id: 'credit-1',
+    creditMemoNumber: 'CM-1',
+    paymentId: null,
+    date: new Date('2024-03-15'),
+    total: dec(80),
+    allocations: [{ amount: dec(50) }],
+    refunds: [{ amount: dec(10) }],
+  },
+];
+
+const query = {
+  type: 'OPEN_ITEM' as const,
+  startDate: '2024-03-01T00:00:00.000Z',
+  endDate: '2024-03-31T00:00:00.000Z',
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.customer.findFirst.mockResolvedValue(customer);
+  prismaMock.invoice.findMany.mockResolvedValue(invoices);
+  prismaMock.creditMemo.findMany.mockResolvedValue(creditMemos);
+  prismaMock.customerPayment.findMany.mockResolvedValue([
+    { paymentNumber: 'PAY-1', date: new Date('2024-02-20'), amount: dec(200) },
+    { paymentNumber: 'PAY-2', date: new Date('2024-03-10'), amount: dec(130) },
+  ]);
+  prismaMock.customerRefund.findMany.mockResolvedValue([
+    { refundNumber: 'REF-1', date: new Date('2024-03-15'), amount: dec(10) },
+  ]);
+});
+
+describe('StatementService.resolvePeriod', () => {
+  it('defaults the start to the first of the month', () => {
+    expect(statementService.resolvePeriod({ type: 'OPEN_ITEM', endDate: '2024-03-18T15:30:00.000Z' })).toEqual({
+      type: 'OPEN_ITEM',
+      startDate: new Date('2024-03-01'),
+      endDate: new Date('2024-03-18'),
+    });
+  });
+
+  it('rejects a start after the end', () => {
+    expect(() =>
+      statementService.resolvePeriod({ ...query, startDate: '2024-04-01T00:00:00.000Z' })
+    ).toThrow('Statement start date must be on or before the end date');
+  });
+});
+
+describe('StatementService.getStatement', () => {
+  it('lists items open at the end date and ages them', async () => {
+    const statement = await statementService.getStatement('company-1', 'customer-1', query);
+
+    expect(statement.openItems).toEqual([
+      expect.objectContaining({ invoiceNumber: 'INV-1', amountDue: 300, daysOverdue: 51 }),
+      expect.objectContaining({ invoiceNumber: 'INV-2', amountDue: 320, daysOverdue: 0 }),
+    ]);
+    expect(statement.credits).toEqual([
+      expect.objectContaining({ creditMemoNumber: 'CM-1', total: 80, amountRemaining: 20 }),
+    ]);
+    expect(statement.aging).toEqual([
+      { period: 'Current', amount: 300 },
+      { period: '1-30 days', amount: 0 },
+      { period: '31-60 days', amount: 300 },
+      { period: '61-90 days', amount: 0 },
+      { period: 'Over 90 days', amount: 0 },
+    ]);
+    expect(statement).toMatchObject({ balance: 600, openingBalance: null, transactions: [] });
+    expect(prismaMock.customerPayment.findMany).not.toHaveBeenCalled();
+  });
+
+  it('carries the balance forward through the period activity', async () => {
+    const statement = await statementService.getStatement('company-1', 'customer-1', {
+      ...query,
+      type: 'BALANCE_FORWARD',
+    });
+
+    expect(statement.openingBalance).toBe(400);
+    // The refund sorts ahead of the credit memo issued the same day
+    expect(
+      statement.transactions.map(({ type, number, amount, balance }) => ({ type, number, amount, balance }))
+    ).toEqual([
+      { type: 'INVOICE', number: 'INV-2', amount: 400, balance: 800 },
+      { type: 'PAYMENT', number: 'PAY-2', amount: -130, balance: 670 },
+      { type: 'REFUND', number: 'REF-1', amount: 10, balance: 680 },
+      { type: 'CREDIT', number: 'CM-1', amount: -80, balance: 600 },
+    ]);
+    expect(statement.balance).toBe(600);
+  });
+
+  it('throws for a customer of another company', async () => {
+    prismaMock.customer.findFirst.mockResolvedValue(null);
+
+    await expect(statementService.getStatement('company-1', 'customer-9', query)).rejects.toThrow(
+      'Customer not found'
+    );
+  });
+});
+
+describe('StatementService.getStatements', () => {
+  const current = { ...invoices[2], id: 'invoice-4', creditAllocations: [] };
+
+  beforeEach(() => {
+    prismaMock.customer.findMany.mockResolvedValue([
+      customer,
+      { ...customer, id: 'customer-2', name: 'Initech' },
+      { ...customer, id: 'customer-3', name: 'Umbrella' },
+    ]);
+    prismaMock.invoice.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(
+        { 'customer-1': invoices, 'customer-2': [current], 'customer-3': [invoices[0]] }[
+          where.customerId as string
+        ]
+      )
+    );
+    prismaMock.creditMemo.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(where.customerId === 'customer-1' ? creditMemos : [])
+    );
+  });
+
+  it('includes customers with a balance', async () => {
+    const statements = await statementService.getStatements('company-1', { ...query, filter: 'WITH_BALANCE' });
+
+    expect(statements.map((s) => s.customer.name)).toEqual(['Globex Ltd', 'Initech']);
+  });
+
+  it('includes only customers with overdue invoices', async () => {
+    const statements = await statementService.getStatements('company-1', { ...query, filter: 'OVERDUE' });
+
+    expect(statements.map((s) => s.customer.name)).toEqual(['Globex Ltd']);
+  });
+
+  it('includes chosen customers even when they owe nothing', async () => {
+    const statements = await statementService.getStatements(
+      'company-1',
+      { ...query, filter: 'WITH_BALANCE' },
+      ['customer-1', 'customer-2', 'customer-3']
+    );
+
+    expect(statements).toHaveLength(3);
+    expect(prismaMock.customer.findMany.mock.calls[0][0].where.id).toEqual({
+      in: ['customer-1', 'customer-2', 'customer-3'],
+    });
+  });
+});
+
+describe('StatementService PDFs', () => {
+  it('renders a customer statement', async () => {
+    prismaMock.company.findUniqueOrThrow.mockResolvedValue({ name: 'Acme Books', address: null, logo: null });
+
+    const { filename, pdf } = await statementService.getStatementPdf('company-1', 'customer-1', query);
+
+    expect(filename).toBe('Statement-Globex_Ltd-2024-03-31.pdf');
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('refuses an empty batch', async () => {
+    prismaMock.customer.findMany.mockResolvedValue([]);
+
+    await expect(
+      statementService.getStatementsPdf('company-1', { ...query, filter: 'OVERDUE' })
+    ).rejects.toThrow('No customers match the statement filter');
+  });
+});
@@ -0,0 +1,209 @@
+import { AccountType, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), assertSourceNotCleared: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+jest.mock('../src/modules/accounts/account.service', () => ({
+  accountService: { getSystemAccount: jest.fn() },
+}));
+
+import { taxService } from '../src/modules/tax/tax.service';
+import { journalService } from '../src/modules/journal/journal.service';
+import { accountService } from '../src/modules/accounts/account.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const single = (id: string, name: string, rate: number, extra: object = {}) => ({
+  id,
+  name,
+  rate: dec(rate),
+  isCombined: false,
+  isActive: true,
+  components: [],
+  ...extra,
+});
+
+const state = single('state', 'State', 0.05);
+const county = single('county', 'County', 0.01);
+const metro = {
+  ...single('metro', 'Metro', 0.06),
+  isCombined: true,
+  components: [
+    { componentRate: state, isCompound: false },
+    { componentRate: county, isCompound: false },
+  ],
+};
+
+const line = (amount: number, taxAmount: number, taxRateId: string | null) => ({
+  amount: dec(amount),
+  discountAmount: dec(0),
+  taxAmount: dec(taxAmount),
+  taxRateId,
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  jest.mocked(accountService.getSystemAccount).mockResolvedValue({ id: 'tax-payable' } as any);
+  prismaMock.taxRate.findFirst.mockResolvedValue(metro);
+});
+
+describe('TaxService.createTaxRate', () => {
+  it('charges compound components on the tax of earlier components', async () => {
+    prismaMock.taxRate.findMany.mockResolvedValue([state, county, single('city', 'City', 0.02)]);
+    prismaMock.taxRate.create.mockResolvedValue({ id: 'metro' });
+
+    await taxService.createTaxRate('company-1', {
+      name: 'Metro',
+      components: [
+        { taxRateId: 'state', isCompound: false },
+        { taxRateId: 'county', isCompound: false },
+        { taxRateId: 'city', isCompound: true },
+      ],
+    });
+
+    const { data } = prismaMock.taxRate.create.mock.calls[0][0];
+    expect(data).toMatchObject({ isCombined: true, rate: 0.0812 });
+    expect(data.components.create.map((c: any) => c.componentRateId)).toEqual(['state', 'county', 'city']);
+  });
+
+  it('builds combined rates only from distinct, active single rates', async () => {
+    const create = (components: string[]) =>
+      taxService.createTaxRate('company-1', {
+        name: 'Metro',
+        components: components.map((taxRateId) => ({ taxRateId, isCompound: false })),
+      });
+
+    await expect(create(['state'])).rejects.toThrow('A combined rate needs at least two components');
+    await expect(create(['state', 'state'])).rejects.toThrow('Each component can only be used once');
+
+    prismaMock.taxRate.findMany.mockResolvedValue([state, metro]);
+    await expect(create(['state', 'metro'])).rejects.toThrow('Components must be single rates');
+
+    prismaMock.taxRate.findMany.mockResolvedValue([state, { ...county, isActive: false }]);
+    await expect(create(['state', 'county'])).rejects.toThrow('Components must be active');
+  });
+
+  it('rejects duplicate names', async () => {
+    prismaMock.taxRate.findUnique.mockResolvedValue(state);
+
+    await expect(taxService.createTaxRate('company-1', { name: 'State', rate: 0.05 })).rejects.toThrow(
+      'Tax rate name already exists'
+    );
+  });
+});
+
+describe('TaxService.updateTaxRate', () => {
+  it('re-prices the combined rates that use a changed single rate', async () => {
+    prismaMock.taxRate.findFirst.mockResolvedValueOnce(state).mockResolvedValue(metro);
+    prismaMock.taxRate.findMany.mockResolvedValue([
+      {
+        ...metro,
+        components: [
+          { componentRate: { ...state, rate: dec(0.06) }, isCompound: false },
+          { componentRate: county, isCompound: false },
+        ],
+      },
+    ]);
+
+    await taxService.updateTaxRate('company-1', 'state', { rate: 0.06 });
+
+    expect(prismaMock.taxRate.update).toHaveBeenLastCalledWith({
+      where: { id: 'metro' },
+      data: { rate: 0.07 },
+    });
+  });
+});
+
+describe('TaxService.getRatesForLines', () => {
+  it('rejects inactive rates', async () => {
+    prismaMock.taxRate.findMany.mockResolvedValue([{ ...state, isActive: false }]);
+
+    await expect(taxService.getRatesForLines('company-1', [{ taxRateId: 'state' }])).rejects.toThrow(
+      'Tax rate "State" is inactive'
+    );
+  });
+});
+
+describe('TaxService.getSalesTaxReport', () => {
+  it('splits sales into taxable, exempt and non-taxable, net of credit memos', async () => {
+    prismaMock.invoice.findMany.mockResolvedValue([
+      {
+        taxExempt: null,
+        customer: { taxExempt: false },
+        lines: [line(100, 6, 'metro'), line(50, 0, null)],
+      },
+      { taxExempt: null, customer: { taxExempt: true }, lines: [line(200, 0, 'metro')] },
+    ]);
+    prismaMock.creditMemo.findMany.mockResolvedValue([
+      { taxExempt: false, customer: { taxExempt: true }, lines: [line(20, 1.2, 'metro')] },
+    ]);
+    prismaMock.taxRate.findMany.mockResolvedValue([state, county, metro]);
+    prismaMock.taxPayment.aggregate.mockResolvedValue({ _sum: { amount: dec(20) } });
+    prismaMock.account.findUnique.mockResolvedValue({ openingBalance: dec(10) });
+    prismaMock.journalLine.aggregate.mockResolvedValue({ _sum: { debit: dec(20), credit: dec(50) } });
+
+    const report = await taxService.getSalesTaxReport(
+      'company-1',
+      new Date('2024-01-01'),
+      new Date('2024-03-31')
+    );
+
+    expect(report).toMatchObject({
+      totalSales: 330,
+      taxableSales: 80,
+      exemptSales: 200,
+      nonTaxableSales: 50,
+      taxCollected: 4.8,
+      paymentsInPeriod: 20,
+      taxPayable: 40,
+    });
+    expect(report.rates).toEqual([
+      { id: 'metro', name: 'Metro', rate: 0.06, taxableSales: 80, taxCollected: 4.8 },
+    ]);
+    expect(report.components).toEqual([
+      { id: 'county', name: 'County', rate: 0.01, taxableSales: 80, taxCollected: 0.8 },
+      { id: 'state', name: 'State', rate: 0.05, taxableSales: 80, taxCollected: 4 },
+    ]);
+  });
+});
+
+describe('TaxService.createTaxPayment', () => {
+  it('clears Sales Tax Payable from the paying account', async () => {
+    prismaMock.account.findFirst.mockResolvedValue({ id: 'bank-gl', type: AccountType.ASSET });
+    prismaMock.taxPayment.create.mockResolvedValue({ id: 'payment-1' });
+    prismaMock.taxPayment.update.mockResolvedValue({ id: 'payment-1', amount: dec(150) });
+    createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+
+    const payment = await taxService.createTaxPayment('company-1', 'user-1', {
+      date: '2024-04-15T00:00:00.000Z',
+      amount: 150,
+      paymentAccountId: 'bank-gl',
+    });
+
+    const { lines, source } = createFromTransaction.mock.calls[0][2];
+    expect(source).toBe(JournalSource.TAX_PAYMENT);
+    expect(lines.map((l) => [l.accountId, l.debit, l.credit])).toEqual([
+      ['tax-payable', 150, 0],
+      ['bank-gl', 0, 150],
+    ]);
+    expect(payment.amount).toBe(150);
+  });
+
+  it('does not pay tax from the tax account itself', async () => {
+    prismaMock.account.findFirst.mockResolvedValue({ id: 'tax-payable', type: AccountType.LIABILITY });
+
+    await expect(
+      taxService.createTaxPayment('company-1', 'user-1', {
+        date: '2024-04-15T00:00:00.000Z',
+        amount: 150,
+        paymentAccountId: 'tax-payable',
+      })
+    ).rejects.toThrow('Tax must be paid from a bank, cash or credit card account');
+  });
+});
@@ -0,0 +1,175 @@
+import { BankTransactionStatus, BankTransactionType, JournalSource } from '@prisma/client';
+import { prismaMock, resetPrismaMock, dec } from './prismaMock';
+
+jest.mock('../src/config/database', () => ({ prisma: require('./prismaMock').prismaMock }));
+jest.mock('../src/modules/journal/journal.service', () => ({
+  journalService: { createFromTransaction: jest.fn(), assertSourceNotCleared: jest.fn() },
+}));
+jest.mock('../src/modules/periods/period.service', () => ({
+  periodService: { assertOpen: jest.fn() },
+}));
+
+import { transferService } from '../src/modules/banking/transfer.service';
+import { journalService } from '../src/modules/journal/journal.service';
+
+const createFromTransaction = jest.mocked(journalService.createFromTransaction);
+
+const accounts: Record<string, object> = {
+  checking: { id: 'checking', accountId: 'checking-gl', bankName: 'Checking', currency: 'USD' },
+  savings: { id: 'savings', accountId: 'savings-gl', bankName: 'Savings', currency: 'USD' },
+  euro: { id: 'euro', accountId: 'euro-gl', bankName: 'Euro', currency: 'EUR' },
+};
+
+const statementLine = (id: string, bankAccountId: string, type: BankTransactionType, day: string) => ({
+  id,
+  bankAccountId,
+  type,
+  amount: dec(500),
+  status: BankTransactionStatus.PENDING,
+  transactionDate: new Date(`${day}T00:00:00.000Z`),
+});
+
+const input = {
+  fromBankAccountId: 'checking',
+  toBankAccountId: 'savings',
+  date: '2024-03-10T00:00:00.000Z',
+  amount: 500,
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  resetPrismaMock();
+  prismaMock.bankAccount.findFirst.mockImplementation(({ where }) =>
+    Promise.resolve(accounts[where.id] ?? null)
+  );
+  prismaMock.company.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+  prismaMock.bankTransfer.create.mockResolvedValue({ id: 'transfer-1' });
+  prismaMock.bankTransfer.findFirst.mockResolvedValue({ id: 'transfer-1', amount: dec(500) });
+  prismaMock.bankTransaction.findMany.mockResolvedValue([]);
+  createFromTransaction.mockResolvedValue({ id: 'entry-1' } as any);
+});
+
+describe('TransferService.createTransfer', () => {
+  it('moves the amount between the two GL accounts', async () => {
+    const transfer = await transferService.createTransfer('company-1', 'user-1', input);
+
+    expect(createFromTransaction).toHaveBeenCalledWith('company-1', 'user-1', {
+      date: new Date(input.date),
+      memo: 'Transfer from Checking to Savings',
+      reference: undefined,
+      source: JournalSource.TRANSFER,
+      sourceId: 'transfer-1',
+      lines: [
+        { accountId: 'savings-gl', debit: 500, credit: 0, memo: 'Transfer from Checking to Savings' },
+        { accountId: 'checking-gl', debit: 0, credit: 500, memo: 'Transfer from Checking to Savings' },
+      ],
+    });
+    expect(prismaMock.bankTransfer.update).toHaveBeenCalledWith({
+      where: { id: 'transfer-1' },
+      data: { journalEntryId: 'entry-1' },
+    });
+    expect(transfer).toMatchObject({ amount: 500, matchedTransactionIds: [] });
+  });
+
+  it('matches the closest pending statement line on each side', async () => {
+    prismaMock.bankTransaction.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(
+        where.bankAccountId === 'checking'
+          ? [
+              statementLine('out-far', 'checking', BankTransactionType.DEBIT, '2024-03-07'),
+              statementLine('out-near', 'checking', BankTransactionType.DEBIT, '2024-03-11'),
+            ]
+          : [statementLine('in', 'savings', BankTransactionType.CREDIT, '2024-03-12')]
+      )
+    );
+
+    const transfer = await transferService.createTransfer('company-1', 'user-1', input);
+
+    expect(transfer.matchedTransactionIds).toEqual(['out-near', 'in']);
+    expect(prismaMock.bankTransaction.update).toHaveBeenCalledWith({
+      where: { id: 'out-near' },
+      data: { matchedJournalEntryId: 'entry-1', status: BankTransactionStatus.MATCHED },
+    });
+    expect(prismaMock.bankTransactionMatch.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a chosen statement line going the wrong way', async () => {
+    prismaMock.bankTransaction.findFirst.mockResolvedValue(
+      statementLine('in', 'checking', BankTransactionType.CREDIT, '2024-03-10')
+    );
+
+    await expect(
+      transferService.createTransfer('company-1', 'user-1', { ...input, fromTransactionId: 'in' })
+    ).rejects.toThrow('Transaction does not match the transfer amount and direction');
+    expect(prismaMock.bankTransfer.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects transfers to the same account or across currencies', async () => {
+    await expect(
+      transferService.createTransfer('company-1', 'user-1', { ...input, toBankAccountId: 'checking' })
+    ).rejects.toThrow('Cannot transfer to the same bank account');
+
+    await expect(
+      transferService.createTransfer('company-1', 'user-1', { ...input, toBankAccountId: 'euro' })
+    ).rejects.toThrow('Cannot transfer between accounts in different currencies');
+  });
+});
+
+describe('TransferService.deleteTransfer', () => {
+  it('unmatches the statement lines and voids the entry', async () => {
+    prismaMock.bankTransfer.findFirst.mockResolvedValue({
+      id: 'transfer-1',
+      journalEntryId: 'entry-1',
+      date: new Date('2024-03-10'),
+    });
+
+    await transferService.deleteTransfer('company-1', 'transfer-1');
+
+    expect(journalService.assertSourceNotCleared).toHaveBeenCalledWith(
+      'company-1',
+      JournalSource.TRANSFER,
+      'transfer-1'
+    );
+    expect(prismaMock.bankTransaction.updateMany).toHaveBeenCalledWith({
+      where: { matches: { some: { journalEntryId: 'entry-1' } } },
+      data: { matchedJournalEntryId: null, status: BankTransactionStatus.PENDING },
+    });
+    expect(prismaMock.journalEntry.update).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+      data: { isPosted: false },
+    });
+    expect(prismaMock.bankTransfer.delete).toHaveBeenCalledWith({ where: { id: 'transfer-1' } });
+  });
+
+  it('keeps transfers that are cleared in a reconciliation', async () => {
+    prismaMock.bankTransfer.findFirst.mockResolvedValue({ id: 'transfer-1', journalEntryId: 'entry-1' });
+    jest
+      .mocked(journalService.assertSourceNotCleared)
+      .mockRejectedValue(new Error('Transaction is cleared in a bank reconciliation'));
+
+    await expect(transferService.deleteTransfer('company-1', 'transfer-1')).rejects.toThrow(
+      'Transaction is cleared in a bank reconciliation'
+    );
+    expect(prismaMock.bankTransfer.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('TransferService.detectTransferPairs', () => {
+  it('pairs each imported line with the closest opposite line on another account', async () => {
+    const imported = [
+      statementLine('out-1', 'checking', BankTransactionType.DEBIT, '2024-03-10'),
+      statementLine('out-2', 'checking', BankTransactionType.DEBIT, '2024-03-10'),
+    ];
+    prismaMock.bankTransaction.findMany.mockResolvedValue([
+      statementLine('in-far', 'savings', BankTransactionType.CREDIT, '2024-03-13'),
+      statementLine('in-near', 'savings', BankTransactionType.CREDIT, '2024-03-11'),
+    ]);
+
+    const pairs = await transferService.detectTransferPairs('company-1', imported as any);
+
+    expect(pairs.map((p) => [p.transactionId, p.pairedTransactionId])).toEqual([
+      ['out-1', 'in-near'],
+      ['out-2', 'in-far'],
+    ]);
+  });
+});
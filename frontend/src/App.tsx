@@ -11,11 +11,18 @@ import { CustomersPage } from '@/features/customers/CustomersPage';
 import { CustomerDetailPage } from '@/features/customers/CustomerDetailPage';
 import { InvoicesPage } from '@/features/invoices/InvoicesPage';
 import { InvoiceFormPage } from '@/features/invoices/InvoiceFormPage';
+import { CreditMemosPage } from '@/features/credits/CreditMemosPage';
+import { CreditMemoFormPage } from '@/features/credits/CreditMemoFormPage';
 import { VendorsPage } from '@/features/vendors/VendorsPage';
+import { ProductsPage } from '@/features/products/ProductsPage';
+import { TaxRatesPage } from '@/features/tax/TaxRatesPage';
 import { BillsPage } from '@/features/bills/BillsPage';
 import { BillFormPage } from '@/features/bills/BillFormPage';
 import { BankingPage } from '@/features/banking/BankingPage';
 import { ReportsPage } from '@/features/reports/ReportsPage';
+import { RecurringTemplatesPage } from '@/features/recurring/RecurringTemplatesPage';
+import { StatementsPage } from '@/features/statements/StatementsPage';
+import { SettingsPage } from '@/features/settings/SettingsPage';
 import { CompanySetupPage } from '@/features/companies/CompanySetupPage';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -66,12 +73,20 @@ function App() {
         <Route path="/invoices" element={<InvoicesPage />} />
         <Route path="/invoices/new" element={<InvoiceFormPage />} />
         <Route path="/invoices/:id/edit" element={<InvoiceFormPage />} />
+        <Route path="/credit-memos" element={<CreditMemosPage />} />
+        <Route path="/credit-memos/new" element={<CreditMemoFormPage />} />
+        <Route path="/credit-memos/:id/edit" element={<CreditMemoFormPage />} />
+        <Route path="/statements" element={<StatementsPage />} />
         <Route path="/vendors" element={<VendorsPage />} />
+        <Route path="/products" element={<ProductsPage />} />
+        <Route path="/tax-rates" element={<TaxRatesPage />} />
         <Route path="/bills" element={<BillsPage />} />
         <Route path="/bills/new" element={<BillFormPage />} />
         <Route path="/bills/:id/edit" element={<BillFormPage />} />
         <Route path="/banking" element={<BankingPage />} />
+        <Route path="/recurring" element={<RecurringTemplatesPage />} />
         <Route path="/reports" element={<ReportsPage />} />
+        <Route path="/settings" element={<SettingsPage />} />
       </Route>
 
       {/* Catch all */}
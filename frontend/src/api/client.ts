@@ -3,6 +3,8 @@ import { useAuthStore } from '@/features/auth/store';
 
 const API_URL = '/api';
 
+export const CLOSING_DATE_PASSWORD_KEY = 'closingDatePassword';
+
 export const apiClient = axios.create({
   baseURL: API_URL,
   headers: {
@@ -22,6 +24,12 @@ apiClient.interceptors.request.use((config: InternalAxiosRequestConfig) => {
     config.headers['X-Company-Id'] = currentCompanyId;
   }
 
+  // Set from Settings so admins can change entries dated in a closed period
+  const closingDatePassword = sessionStorage.getItem(CLOSING_DATE_PASSWORD_KEY);
+  if (closingDatePassword) {
+    config.headers['X-Closing-Date-Password'] = closingDatePassword;
+  }
+
   return config;
 });
 
@@ -76,6 +84,10 @@ export interface ApiResponse<T> {
   };
 }
 
+// Message the API sent with an error response, or the fallback when there is none
+export const errorMessage = (err: any, fallback: string): string =>
+  err?.response?.data?.error?.message || fallback;
+
 export async function apiGet<T>(url: string, params?: Record<string, any>): Promise<ApiResponse<T>> {
   const response = await apiClient.get<ApiResponse<T>>(url, { params });
   return response.data;
@@ -100,3 +112,16 @@ export async function apiDelete<T>(url: string): Promise<ApiResponse<T>> {
   const response = await apiClient.delete<ApiResponse<T>>(url);
   return response.data;
 }
+
+// Fetch a file through the authenticated client and save it under the server's filename
+export async function apiDownload(url: string, params?: Record<string, any>): Promise<void> {
+  const response = await apiClient.get<Blob>(url, { params, responseType: 'blob' });
+  const disposition = response.headers['content-disposition'] as string | undefined;
+  const filename = disposition?.match(/filename="([^"]+)"/)?.[1] ?? 'download';
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(response.data);
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
@@ -0,0 +1,127 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { apiGet } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { cn } from '@/lib/utils';
+
+interface AuditLog {
+  id: string;
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'VOID';
+  previousData: Record<string, unknown> | null;
+  newData: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string };
+}
+
+const actionColors: Record<AuditLog['action'], string> = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+  VOID: 'bg-gray-100 text-gray-800',
+};
+
+// Bookkeeping columns that change on every write
+const ignoredFields = new Set(['updatedAt', 'createdAt']);
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+function changedFields(log: AuditLog) {
+  const before = log.previousData || {};
+  const after = log.newData || {};
+
+  return Object.keys({ ...before, ...after })
+    .filter((key) => !ignoredFields.has(key))
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({
+      field: key,
+      // Related rows (lines, allocations) are summarized rather than listed
+      summary: Array.isArray(after[key]) || Array.isArray(before[key]),
+      from: before[key],
+      to: after[key],
+    }));
+}
+
+export function RecordHistory({ entityType, entityId }: { entityType: string; entityId: string }) {
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['auditLogs', entityType, entityId],
+    queryFn: () => apiGet<AuditLog[]>('/audit-logs', { entityType, entityId, limit: 100 }),
+    enabled: isAdmin,
+  });
+
+  const logs = data?.data || [];
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Only owners and admins can view history
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading history...</div>;
+  }
+
+  if (logs.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No changes recorded
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        {logs.map((log) => (
+          <div key={log.id} className="border-b p-4 space-y-2">
+            <div className="flex items-center gap-3">
+              <span className={cn('px-2 py-1 rounded text-xs', actionColors[log.action])}>
+                {log.action}
+              </span>
+              <span className="font-medium">{log.user.name}</span>
+              <span className="text-sm text-muted-foreground">
+                {new Date(log.createdAt).toLocaleString()}
+                {log.ipAddress && ` from ${log.ipAddress}`}
+              </span>
+            </div>
+            {log.action === 'UPDATE' && (
+              <table className="w-full text-sm">
+                <tbody>
+                  {changedFields(log).map((change) => (
+                    <tr key={change.field}>
+                      <td className="py-1 pr-4 w-48 text-muted-foreground">{change.field}</td>
+                      {change.summary ? (
+                        <td className="py-1" colSpan={2}>changed</td>
+                      ) : (
+                        <>
+                          <td className="py-1 pr-4 font-mono line-through text-red-600">
+                            {formatValue(change.from)}
+                          </td>
+                          <td className="py-1 font-mono text-green-700">{formatValue(change.to)}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
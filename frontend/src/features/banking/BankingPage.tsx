@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { apiGet, apiPost } from '@/api/client';
+import { CurrencySelect } from '@/features/currency/CurrencySelect';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 
 interface BankAccount {
@@ -13,6 +14,7 @@ interface BankAccount {
   bankName: string;
   accountNumber: string;
   accountType: string;
+  currency: string;
   currentBalance: number;
   lastReconciled: string | null;
   account: {
@@ -71,6 +73,7 @@ export function BankingPage() {
   const bankAccounts = accountsData?.data || [];
   const transactions = (transactionsData?.data as any)?.transactions || [];
   const glAccounts = glAccountsData?.data || [];
+  const selectedCurrency = bankAccounts.find((a: BankAccount) => a.id === selectedAccount)?.currency;
 
   // Auto-select first account
   if (bankAccounts.length > 0 && !selectedAccount) {
@@ -117,7 +120,7 @@ export function BankingPage() {
                 <h3 className="font-semibold">{account.bankName}</h3>
                 <p className="text-sm text-muted-foreground">{account.account.name}</p>
                 <p className="text-sm text-muted-foreground">****{account.accountNumber}</p>
-                <p className="text-2xl font-bold mt-2">{formatCurrency(account.currentBalance)}</p>
+                <p className="text-2xl font-bold mt-2">{formatCurrency(account.currentBalance, account.currency)}</p>
                 {account.lastReconciled && (
                   <p className="text-xs text-muted-foreground mt-1">
                     Last reconciled: {formatDate(account.lastReconciled)}
@@ -194,7 +197,7 @@ export function BankingPage() {
                         'py-3 px-4 text-right font-mono',
                         txn.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'
                       )}>
-                        {txn.type === 'CREDIT' ? '+' : '-'}{formatCurrency(txn.amount)}
+                        {txn.type === 'CREDIT' ? '+' : '-'}{formatCurrency(txn.amount, selectedCurrency)}
                       </td>
                       <td className="py-3 px-4 text-center">
                         <span className={cn('px-2 py-1 rounded text-xs', statusColors[txn.status])}>
@@ -240,10 +243,11 @@ function AddBankAccountForm({
     accountNumber: '',
     routingNumber: '',
     accountType: 'CHECKING',
+    currency: '',
   });
 
   const createAccount = useMutation({
-    mutationFn: (data: typeof form) => apiPost('/bank-accounts', data),
+    mutationFn: (data: typeof form) => apiPost('/bank-accounts', { ...data, currency: data.currency || undefined }),
     onSuccess,
   });
 
@@ -309,6 +313,14 @@ function AddBankAccountForm({
           <option value="MONEY_MARKET">Money Market</option>
         </select>
       </div>
+      <div className="space-y-2">
+        <Label>Currency</Label>
+        <CurrencySelect
+          value={form.currency}
+          onChange={(currency) => setForm({ ...form, currency })}
+          defaultLabel="Base currency"
+        />
+      </div>
       <div className="flex items-end gap-2">
         <Button type="submit" disabled={createAccount.isPending}>
           {createAccount.isPending ? 'Creating...' : 'Create'}
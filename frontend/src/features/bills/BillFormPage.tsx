@@ -7,29 +7,44 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { apiGet, apiPost, apiPut } from '@/api/client';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, cn } from '@/lib/utils';
+import { RecordHistory } from '@/features/audit/RecordHistory';
+import { MakeRecurringCard } from '@/features/recurring/MakeRecurringCard';
 
 interface BillLine {
   id?: string;
+  productId: string;
   description: string;
   quantity: number;
   unitPrice: number;
   accountId: string;
+  taxRateId: string | null;
+  taxRate: number;
 }
 
+const emptyLine: BillLine = {
+  productId: '',
+  description: '',
+  quantity: 1,
+  unitPrice: 0,
+  accountId: '',
+  taxRateId: null,
+  taxRate: 0,
+};
+
 export function BillFormPage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const isEdit = !!id;
+  const [tab, setTab] = useState<'details' | 'history'>('details');
 
   const [vendorId, setVendorId] = useState('');
   const [vendorRef, setVendorRef] = useState('');
   const [billDate, setBillDate] = useState(new Date().toISOString().split('T')[0]);
   const [terms, setTerms] = useState(30);
   const [memo, setMemo] = useState('');
-  const [lines, setLines] = useState<BillLine[]>([
-    { description: '', quantity: 1, unitPrice: 0, accountId: '' },
-  ]);
+  const [amountsAreTaxInclusive, setAmountsAreTaxInclusive] = useState(false);
+  const [lines, setLines] = useState<BillLine[]>([emptyLine]);
 
   const { data: vendorsData } = useQuery({
     queryKey: ['vendors'],
@@ -41,6 +56,11 @@ export function BillFormPage() {
     queryFn: () => apiGet<any>('/accounts', { type: 'EXPENSE', flat: true }),
   });
 
+  const { data: productsData } = useQuery({
+    queryKey: ['products', 'active'],
+    queryFn: () => apiGet<any>('/products', { isActive: true, limit: 100 }),
+  });
+
   const { data: billData } = useQuery({
     queryKey: ['bill', id],
     queryFn: () => apiGet<any>(`/bills/${id}`),
@@ -55,26 +75,41 @@ export function BillFormPage() {
       setBillDate(bill.date.split('T')[0]);
       setTerms(bill.terms);
       setMemo(bill.memo || '');
+      setAmountsAreTaxInclusive(bill.amountsAreTaxInclusive);
       setLines(bill.lines.map((line: any) => ({
         id: line.id,
+        productId: line.productId || '',
         description: line.description,
         quantity: line.quantity,
         unitPrice: line.unitPrice,
         accountId: line.accountId,
+        taxRateId: line.taxRateId,
+        taxRate: line.taxRate || 0,
       })));
     }
   }, [billData]);
 
   const vendors = (vendorsData?.data as any)?.vendors || vendorsData?.data || [];
+  // Amounts are in the vendor's currency
+  const currency = vendors.find((v: any) => v.id === vendorId)?.currency;
   const accounts = accountsData?.data || [];
+  const products = (productsData?.data as any)?.products || productsData?.data || [];
 
   const createBill = useMutation({
     mutationFn: (data: any) => isEdit ? apiPut(`/bills/${id}`, data) : apiPost('/bills', data),
     onSuccess: () => navigate('/bills'),
   });
 
+  // Drafts, e.g. from a recurring schedule, post to the ledger once received
+  const receiveBill = useMutation({
+    mutationFn: () => apiPost(`/bills/${id}/receive`),
+    onSuccess: () => navigate('/bills'),
+  });
+
+  const isDraft = billData?.data?.status === 'DRAFT';
+
   const addLine = () => {
-    setLines([...lines, { description: '', quantity: 1, unitPrice: 0, accountId: '' }]);
+    setLines([...lines, emptyLine]);
   };
 
   const removeLine = (index: number) => {
@@ -89,7 +124,49 @@ export function BillFormPage() {
     setLines(newLines);
   };
 
-  const total = lines.reduce((sum, line) => sum + (line.quantity * line.unitPrice), 0);
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p: any) => p.id === productId);
+    const newLines = [...lines];
+    newLines[index] = product
+      ? {
+          ...newLines[index],
+          productId,
+          description: product.description || product.name,
+          unitPrice: product.purchasePrice ?? newLines[index].unitPrice,
+          accountId: product.expenseAccount?.id || newLines[index].accountId,
+          taxRateId: product.taxable ? product.taxRate?.id ?? null : null,
+          taxRate: product.taxable ? product.taxRate?.rate ?? 0 : 0,
+        }
+      : { ...newLines[index], productId: '' };
+    setLines(newLines);
+  };
+
+  const subtotal = lines.reduce((sum, line) => sum + (line.quantity * line.unitPrice), 0);
+  // Inclusive prices already contain the tax, so it is backed out rather than added
+  const taxTotal = lines.reduce((sum, line) => {
+    const amount = line.quantity * line.unitPrice;
+    return sum + (amountsAreTaxInclusive
+      ? (amount * line.taxRate) / (1 + line.taxRate)
+      : amount * line.taxRate);
+  }, 0);
+  const total = subtotal + (amountsAreTaxInclusive ? 0 : taxTotal);
+
+  // Everything but the dates, which recurring occurrences fill in themselves
+  const buildPayload = () => ({
+    vendorId,
+    vendorRef: vendorRef || undefined,
+    terms,
+    memo,
+    amountsAreTaxInclusive,
+    lines: lines.filter(l => l.description && l.accountId).map(line => ({
+      productId: line.productId || null,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      accountId: line.accountId,
+      taxRateId: line.taxRateId,
+    })),
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -98,18 +175,9 @@ export function BillFormPage() {
     dueDate.setDate(dueDate.getDate() + terms);
 
     createBill.mutate({
-      vendorId,
-      vendorRef: vendorRef || undefined,
+      ...buildPayload(),
       date: new Date(billDate).toISOString(),
       dueDate: dueDate.toISOString(),
-      terms,
-      memo,
-      lines: lines.filter(l => l.description && l.accountId).map(line => ({
-        description: line.description,
-        quantity: line.quantity,
-        unitPrice: line.unitPrice,
-        accountId: line.accountId,
-      })),
     });
   };
 
@@ -122,7 +190,27 @@ export function BillFormPage() {
         <h1 className="text-3xl font-bold">{isEdit ? 'Edit Bill' : 'Enter Bill'}</h1>
       </div>
 
-      <form onSubmit={handleSubmit}>
+      {isEdit && (
+        <div className="flex gap-6 border-b">
+          {(['details', 'history'] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cn(
+                'pb-2 text-sm font-medium capitalize',
+                tab === t ? 'border-b-2 border-primary' : 'text-muted-foreground'
+              )}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tab === 'history' && <RecordHistory entityType="Bill" entityId={id!} />}
+
+      <form onSubmit={handleSubmit} className={cn(tab === 'history' && 'hidden')}>
         <div className="grid grid-cols-3 gap-6">
           {/* Main Form */}
           <div className="col-span-2 space-y-6">
@@ -183,6 +271,15 @@ export function BillFormPage() {
                     />
                   </div>
                 </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={amountsAreTaxInclusive}
+                    onChange={(e) => setAmountsAreTaxInclusive(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  Prices include tax
+                </label>
               </CardContent>
             </Card>
 
@@ -199,6 +296,7 @@ export function BillFormPage() {
                 <table className="w-full">
                   <thead className="border-b">
                     <tr>
+                      <th className="text-left py-2 text-sm font-medium w-36">Product</th>
                       <th className="text-left py-2 text-sm font-medium w-40">Account</th>
                       <th className="text-left py-2 text-sm font-medium">Description</th>
                       <th className="text-right py-2 text-sm font-medium w-20">Qty</th>
@@ -210,6 +308,20 @@ export function BillFormPage() {
                   <tbody>
                     {lines.map((line, index) => (
                       <tr key={index} className="border-b">
+                        <td className="py-2 pr-2">
+                          <select
+                            value={line.productId}
+                            onChange={(e) => selectProduct(index, e.target.value)}
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-2 py-2 text-sm"
+                          >
+                            <option value="">Product...</option>
+                            {products.map((product: any) => (
+                              <option key={product.id} value={product.id}>
+                                {product.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="py-2 pr-2">
                           <select
                             value={line.accountId}
@@ -249,7 +361,7 @@ export function BillFormPage() {
                           />
                         </td>
                         <td className="py-2 pr-2 text-right font-mono">
-                          {formatCurrency(line.quantity * line.unitPrice)}
+                          {formatCurrency(line.quantity * line.unitPrice, currency)}
                         </td>
                         <td className="py-2">
                           <Button
@@ -276,16 +388,46 @@ export function BillFormPage() {
               <CardHeader>
                 <CardTitle>Summary</CardTitle>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-3">
+                {taxTotal > 0 && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span className="font-mono">{formatCurrency(subtotal, currency)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        {amountsAreTaxInclusive ? 'Includes tax' : 'Tax'}
+                      </span>
+                      <span className="font-mono">{formatCurrency(taxTotal, currency)}</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between font-bold text-lg">
                   <span>Total</span>
-                  <span className="font-mono">{formatCurrency(total)}</span>
+                  <span className="font-mono">{formatCurrency(total, currency)}</span>
                 </div>
               </CardContent>
             </Card>
 
+            <MakeRecurringCard
+              documentType="BILL"
+              defaultName={`${vendors.find((v: any) => v.id === vendorId)?.name || 'Recurring'} bill`}
+              getPayload={buildPayload}
+            />
+
             <div className="flex flex-col gap-2">
-              <Button type="submit" disabled={createBill.isPending} className="w-full">
+              {isDraft && (
+                <Button
+                  type="button"
+                  disabled={receiveBill.isPending}
+                  onClick={() => receiveBill.mutate()}
+                  className="w-full"
+                >
+                  {receiveBill.isPending ? 'Receiving...' : 'Receive Bill'}
+                </Button>
+              )}
+              <Button type="submit" disabled={createBill.isPending} variant={isDraft ? 'outline' : 'default'} className="w-full">
                 {createBill.isPending ? 'Saving...' : (isEdit ? 'Update Bill' : 'Save Bill')}
               </Button>
               <Button type="button" variant="outline" onClick={() => navigate('/bills')}>
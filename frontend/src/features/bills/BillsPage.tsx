@@ -14,6 +14,7 @@ interface Bill {
   vendorRef: string | null;
   date: string;
   dueDate: string;
+  currency: string;
   total: number;
   amountDue: number;
   status: string;
@@ -139,10 +140,10 @@ export function BillsPage() {
                       </span>
                     </td>
                     <td className="py-3 px-4 text-right font-mono">
-                      {formatCurrency(bill.total)}
+                      {formatCurrency(bill.total, bill.currency)}
                     </td>
                     <td className="py-3 px-4 text-right font-mono">
-                      {formatCurrency(bill.amountDue)}
+                      {formatCurrency(bill.amountDue, bill.currency)}
                     </td>
                     <td className="py-3 px-4 text-center">
                       <span className={cn('px-2 py-1 rounded text-xs', statusColors[bill.status])}>
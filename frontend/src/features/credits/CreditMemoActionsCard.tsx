@@ -0,0 +1,355 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, apiDelete, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface CreditMemo {
+  id: string;
+  customerId: string;
+  status: 'DRAFT' | 'OPEN' | 'CLOSED' | 'VOID';
+  currency: string;
+  total: number;
+  amountApplied: number;
+  amountRefunded: number;
+  amountRemaining: number;
+  paymentId: string | null;
+  allocations: {
+    id: string;
+    date: string;
+    amount: number;
+    invoice: { id: string; invoiceNumber: string };
+  }[];
+  refunds: {
+    id: string;
+    refundNumber: string;
+    date: string;
+    amount: number;
+    bankAccount: { bankName: string };
+  }[];
+}
+
+interface OpenInvoice {
+  id: string;
+  invoiceNumber: string;
+  dueDate: string;
+  amountDue: number;
+  status: string;
+}
+
+const OPEN_STATUSES = ['SENT', 'PARTIAL', 'OVERDUE'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Issue, apply, refund and void an existing credit memo
+export function CreditMemoActionsCard({ creditMemo }: { creditMemo: CreditMemo }) {
+  const { companies, currentCompanyId } = useAuthStore();
+  const canWrite = companies.find((c) => c.id === currentCompanyId)?.role !== 'READONLY';
+
+  const [applyDate, setApplyDate] = useState(today);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [refund, setRefund] = useState({ date: today(), amount: '', bankAccountId: '', method: 'CHECK' });
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+  const { id, currency } = creditMemo;
+  const isOpen = creditMemo.status === 'OPEN';
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const { data: invoicesData } = useQuery({
+    queryKey: ['invoices', 'customer', creditMemo.customerId],
+    queryFn: () => apiGet<OpenInvoice[]>('/invoices', { customerId: creditMemo.customerId, limit: 100 }),
+    enabled: isOpen,
+  });
+
+  const { data: bankAccountsData } = useQuery({
+    queryKey: ['bankAccounts'],
+    queryFn: () => apiGet<any[]>('/bank-accounts'),
+    enabled: isOpen,
+  });
+
+  const openInvoices = (invoicesData?.data || []).filter((invoice) => OPEN_STATUSES.includes(invoice.status));
+  const bankAccounts = bankAccountsData?.data || [];
+
+  const onChanged = (text: string) => {
+    queryClient.invalidateQueries({ queryKey: ['creditMemo', id] });
+    queryClient.invalidateQueries({ queryKey: ['creditMemos'] });
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    setMessage({ text });
+  };
+
+  const issue = useMutation({
+    mutationFn: () => apiPost(`/credit-memos/${id}/issue`),
+    onSuccess: () => onChanged('Credit memo issued'),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to issue credit memo'), error: true }),
+  });
+
+  const voidCredit = useMutation({
+    mutationFn: () => apiPost(`/credit-memos/${id}/void`),
+    onSuccess: () => onChanged('Credit memo voided'),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to void credit memo'), error: true }),
+  });
+
+  const apply = useMutation({
+    mutationFn: () =>
+      apiPost(`/credit-memos/${id}/apply`, {
+        date: new Date(applyDate).toISOString(),
+        allocations: Object.entries(amounts)
+          .map(([invoiceId, amount]) => ({ invoiceId, amount: parseFloat(amount) || 0 }))
+          .filter((alloc) => alloc.amount > 0),
+      }),
+    onSuccess: () => {
+      setAmounts({});
+      onChanged('Credit applied');
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to apply credit'), error: true }),
+  });
+
+  const unapply = useMutation({
+    mutationFn: (allocationId: string) => apiDelete(`/credit-memos/${id}/allocations/${allocationId}`),
+    onSuccess: () => onChanged('Application removed'),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to remove application'), error: true }),
+  });
+
+  const createRefund = useMutation({
+    mutationFn: () =>
+      apiPost('/customer-refunds', {
+        creditMemoId: id,
+        date: new Date(refund.date).toISOString(),
+        amount: parseFloat(refund.amount) || 0,
+        bankAccountId: refund.bankAccountId,
+        method: refund.method,
+      }),
+    onSuccess: () => {
+      setRefund({ ...refund, amount: '' });
+      onChanged('Refund recorded');
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to record refund'), error: true }),
+  });
+
+  const deleteRefund = useMutation({
+    mutationFn: (refundId: string) => apiDelete(`/customer-refunds/${refundId}`),
+    onSuccess: () => onChanged('Refund deleted'),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to delete refund'), error: true }),
+  });
+
+  const applyTotal = Object.values(amounts).reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0);
+  const canVoid =
+    !creditMemo.paymentId &&
+    creditMemo.status !== 'VOID' &&
+    creditMemo.allocations.length === 0 &&
+    creditMemo.refunds.length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Credit</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {message && (
+          <p className={message.error ? 'text-destructive' : 'text-green-800'}>{message.text}</p>
+        )}
+
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Status</span>
+            <span>{creditMemo.status}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Applied</span>
+            <span className="font-mono">{money(creditMemo.amountApplied)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Refunded</span>
+            <span className="font-mono">{money(creditMemo.amountRefunded)}</span>
+          </div>
+          <div className="flex justify-between font-medium">
+            <span>Remaining</span>
+            <span className="font-mono">{money(creditMemo.amountRemaining)}</span>
+          </div>
+        </div>
+
+        {creditMemo.allocations.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-medium">Applied to</p>
+            {creditMemo.allocations.map((alloc) => (
+              <div key={alloc.id} className="flex items-center justify-between gap-2">
+                <Link to={`/invoices/${alloc.invoice.id}/edit`} className="hover:text-primary">
+                  {alloc.invoice.invoiceNumber}
+                </Link>
+                <span className="text-muted-foreground">{formatDate(alloc.date)}</span>
+                <span className="font-mono ml-auto">{money(alloc.amount)}</span>
+                {canWrite && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Remove application"
+                    onClick={() => unapply.mutate(alloc.id)}
+                    disabled={unapply.isPending}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {creditMemo.refunds.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-medium">Refunds</p>
+            {creditMemo.refunds.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-2">
+                <span>{item.refundNumber}</span>
+                <span className="text-muted-foreground">
+                  {formatDate(item.date)} from {item.bankAccount.bankName}
+                </span>
+                <span className="font-mono ml-auto">{money(item.amount)}</span>
+                {canWrite && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Delete refund"
+                    onClick={() => confirm('Delete this refund?') && deleteRefund.mutate(item.id)}
+                    disabled={deleteRefund.isPending}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canWrite && creditMemo.status === 'DRAFT' && (
+          <Button type="button" className="w-full" onClick={() => issue.mutate()} disabled={issue.isPending}>
+            Issue Credit Memo
+          </Button>
+        )}
+
+        {canWrite && isOpen && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="font-medium">Apply to invoices</p>
+            {openInvoices.length === 0 ? (
+              <p className="text-muted-foreground">No open invoices for this customer</p>
+            ) : (
+              <>
+                {openInvoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center gap-2">
+                    <span className="flex-1">
+                      {invoice.invoiceNumber}
+                      <span className="block text-xs text-muted-foreground">
+                        {money(invoice.amountDue)} due {formatDate(invoice.dueDate)}
+                      </span>
+                    </span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={amounts[invoice.id] ?? ''}
+                      onChange={(e) => setAmounts({ ...amounts, [invoice.id]: e.target.value })}
+                      className="w-28 text-right"
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label>Date</Label>
+                  <Input type="date" value={applyDate} onChange={(e) => setApplyDate(e.target.value)} />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => apply.mutate()}
+                  disabled={applyTotal <= 0 || apply.isPending}
+                >
+                  Apply {money(applyTotal)}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {canWrite && isOpen && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="font-medium">Refund to customer</p>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Amount</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder={String(creditMemo.amountRemaining)}
+                  value={refund.amount}
+                  onChange={(e) => setRefund({ ...refund, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={refund.date}
+                  onChange={(e) => setRefund({ ...refund, date: e.target.value })}
+                />
+              </div>
+            </div>
+            <select
+              value={refund.bankAccountId}
+              onChange={(e) => setRefund({ ...refund, bankAccountId: e.target.value })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Pay from bank account...</option>
+              {bankAccounts.map((account: any) => (
+                <option key={account.id} value={account.id}>
+                  {account.bankName} ({account.currency})
+                </option>
+              ))}
+            </select>
+            <select
+              value={refund.method}
+              onChange={(e) => setRefund({ ...refund, method: e.target.value })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="CHECK">Check</option>
+              <option value="ACH">ACH</option>
+              <option value="WIRE">Wire</option>
+              <option value="CARD">Card</option>
+              <option value="CASH">Cash</option>
+              <option value="OTHER">Other</option>
+            </select>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => createRefund.mutate()}
+              disabled={!refund.bankAccountId || !(parseFloat(refund.amount) > 0) || createRefund.isPending}
+            >
+              Record Refund
+            </Button>
+          </div>
+        )}
+
+        {canWrite && canVoid && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full text-destructive"
+            onClick={() => confirm('Void this credit memo?') && voidCredit.mutate()}
+            disabled={voidCredit.isPending}
+          >
+            Void Credit Memo
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,454 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Plus, Trash2, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, apiPut } from '@/api/client';
+import { formatCurrency, cn } from '@/lib/utils';
+import { RecordHistory } from '@/features/audit/RecordHistory';
+import { CreditMemoActionsCard } from './CreditMemoActionsCard';
+
+interface CreditMemoLine {
+  id?: string;
+  productId: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  accountId: string;
+  discountPercent: number;
+  taxRateId: string | null;
+  taxRate: number;
+}
+
+const emptyLine: CreditMemoLine = {
+  productId: '',
+  description: '',
+  quantity: 1,
+  unitPrice: 0,
+  accountId: '',
+  discountPercent: 0,
+  taxRateId: null,
+  taxRate: 0,
+};
+
+export function CreditMemoFormPage() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const isEdit = !!id;
+  const [tab, setTab] = useState<'details' | 'history'>('details');
+
+  const [customerId, setCustomerId] = useState(searchParams.get('customerId') || '');
+  const [invoiceId, setInvoiceId] = useState(searchParams.get('invoiceId') || '');
+  const [creditDate, setCreditDate] = useState(new Date().toISOString().split('T')[0]);
+  const [memo, setMemo] = useState('');
+  const [amountsAreTaxInclusive, setAmountsAreTaxInclusive] = useState(false);
+  const [lines, setLines] = useState<CreditMemoLine[]>([emptyLine]);
+
+  const { data: customersData } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => apiGet<any>('/customers', { limit: 100 }),
+  });
+
+  const { data: accountsData } = useQuery({
+    queryKey: ['accounts', 'revenue'],
+    queryFn: () => apiGet<any>('/accounts', { type: 'REVENUE', flat: true }),
+  });
+
+  const { data: productsData } = useQuery({
+    queryKey: ['products', 'active'],
+    queryFn: () => apiGet<any>('/products', { isActive: true, limit: 100 }),
+  });
+
+  const { data: invoicesData } = useQuery({
+    queryKey: ['invoices', 'customer', customerId],
+    queryFn: () => apiGet<any[]>('/invoices', { customerId, limit: 100 }),
+    enabled: !!customerId,
+  });
+
+  const { data: creditMemoData } = useQuery({
+    queryKey: ['creditMemo', id],
+    queryFn: () => apiGet<any>(`/credit-memos/${id}`),
+    enabled: isEdit,
+  });
+
+  useEffect(() => {
+    if (creditMemoData?.data) {
+      const creditMemo = creditMemoData.data;
+      setCustomerId(creditMemo.customerId);
+      setInvoiceId(creditMemo.invoiceId || '');
+      setCreditDate(creditMemo.date.split('T')[0]);
+      setMemo(creditMemo.memo || '');
+      setAmountsAreTaxInclusive(creditMemo.amountsAreTaxInclusive);
+      setLines(creditMemo.lines.map((line: any) => ({
+        id: line.id,
+        productId: line.productId || '',
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        accountId: line.accountId,
+        discountPercent: line.discountPercent || 0,
+        taxRateId: line.taxRateId,
+        taxRate: line.taxRate || 0,
+      })));
+    }
+  }, [creditMemoData]);
+
+  const customers = (customersData?.data as any)?.customers || customersData?.data || [];
+  // Amounts are in the customer's currency
+  const currency = customers.find((c: any) => c.id === customerId)?.currency;
+  const accounts = accountsData?.data || [];
+  const products = (productsData?.data as any)?.products || productsData?.data || [];
+  const invoices = (invoicesData?.data || []).filter(
+    (invoice: any) => invoice.status !== 'DRAFT' && invoice.status !== 'VOID'
+  );
+  const creditMemo = creditMemoData?.data;
+  // Issued credit memos are read-only; changes go through a new credit memo
+  const isDraft = !isEdit || creditMemo?.status === 'DRAFT';
+
+  const saveCreditMemo = useMutation({
+    mutationFn: (data: any) =>
+      isEdit ? apiPut(`/credit-memos/${id}`, data) : apiPost('/credit-memos', data),
+    onSuccess: () => navigate('/credit-memos'),
+  });
+
+  const addLine = () => {
+    setLines([...lines, emptyLine]);
+  };
+
+  const removeLine = (index: number) => {
+    if (lines.length > 1) {
+      setLines(lines.filter((_, i) => i !== index));
+    }
+  };
+
+  const updateLine = (index: number, field: keyof CreditMemoLine, value: any) => {
+    const newLines = [...lines];
+    newLines[index] = { ...newLines[index], [field]: value };
+    setLines(newLines);
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p: any) => p.id === productId);
+    const newLines = [...lines];
+    newLines[index] = product
+      ? {
+          ...newLines[index],
+          productId,
+          description: product.description || product.name,
+          unitPrice: product.salePrice ?? newLines[index].unitPrice,
+          accountId: product.incomeAccount?.id || newLines[index].accountId,
+          taxRateId: product.taxable ? product.taxRate?.id ?? null : null,
+          taxRate: product.taxable ? product.taxRate?.rate ?? 0 : 0,
+        }
+      : { ...newLines[index], productId: '' };
+    setLines(newLines);
+  };
+
+  const calculateLineTotal = (line: CreditMemoLine) => {
+    const subtotal = line.quantity * line.unitPrice;
+    const discount = subtotal * (line.discountPercent / 100);
+    return subtotal - discount;
+  };
+
+  const subtotal = lines.reduce((sum, line) => sum + (line.quantity * line.unitPrice), 0);
+  const discountTotal = lines.reduce((sum, line) => {
+    return sum + (line.quantity * line.unitPrice * (line.discountPercent / 100));
+  }, 0);
+  // Inclusive prices already contain the tax, so it is backed out rather than added
+  const taxTotal = lines.reduce((sum, line) => {
+    const amount = calculateLineTotal(line);
+    return sum + (amountsAreTaxInclusive
+      ? (amount * line.taxRate) / (1 + line.taxRate)
+      : amount * line.taxRate);
+  }, 0);
+  const total = subtotal - discountTotal + (amountsAreTaxInclusive ? 0 : taxTotal);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    saveCreditMemo.mutate({
+      customerId,
+      invoiceId: invoiceId || (isEdit ? null : undefined),
+      date: new Date(creditDate).toISOString(),
+      memo,
+      amountsAreTaxInclusive,
+      lines: lines.filter(l => l.description && l.accountId).map(line => ({
+        productId: line.productId || null,
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        accountId: line.accountId,
+        discountPercent: line.discountPercent,
+        taxRateId: line.taxRateId,
+      })),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/credit-memos')}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <h1 className="text-3xl font-bold">
+          {isEdit ? `Credit Memo ${creditMemo?.creditMemoNumber ?? ''}` : 'New Credit Memo'}
+        </h1>
+      </div>
+
+      {isEdit && (
+        <div className="flex gap-6 border-b">
+          {(['details', 'history'] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cn(
+                'pb-2 text-sm font-medium capitalize',
+                tab === t ? 'border-b-2 border-primary' : 'text-muted-foreground'
+              )}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tab === 'history' && <RecordHistory entityType="CreditMemo" entityId={id!} />}
+
+      <form onSubmit={handleSubmit} className={cn(tab === 'history' && 'hidden')}>
+        <div className="grid grid-cols-3 gap-6">
+          {/* Main Form */}
+          <div className="col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Credit Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {creditMemo?.payment && (
+                  <p className="text-sm text-muted-foreground">
+                    Credit kept from overpayment {creditMemo.payment.paymentNumber}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Customer *</Label>
+                    <select
+                      value={customerId}
+                      onChange={(e) => {
+                        setCustomerId(e.target.value);
+                        setInvoiceId('');
+                      }}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      required
+                    >
+                      <option value="">Select customer...</option>
+                      {customers.map((customer: any) => (
+                        <option key={customer.id} value={customer.id}>
+                          {customer.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Credit Date</Label>
+                    <Input
+                      type="date"
+                      value={creditDate}
+                      onChange={(e) => setCreditDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Credited Invoice</Label>
+                    <select
+                      value={invoiceId}
+                      onChange={(e) => setInvoiceId(e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="">None</option>
+                      {invoices.map((invoice: any) => (
+                        <option key={invoice.id} value={invoice.id}>
+                          {invoice.invoiceNumber}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Memo</Label>
+                    <Input
+                      value={memo}
+                      onChange={(e) => setMemo(e.target.value)}
+                      placeholder="Internal notes..."
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={amountsAreTaxInclusive}
+                    onChange={(e) => setAmountsAreTaxInclusive(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  Prices include tax
+                </label>
+              </CardContent>
+            </Card>
+
+            {/* Line Items */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Line Items</CardTitle>
+                <Button type="button" variant="outline" size="sm" onClick={addLine}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Line
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full">
+                  <thead className="border-b">
+                    <tr>
+                      <th className="text-left py-2 text-sm font-medium w-36">Product</th>
+                      <th className="text-left py-2 text-sm font-medium">Description</th>
+                      <th className="text-left py-2 text-sm font-medium w-32">Account</th>
+                      <th className="text-right py-2 text-sm font-medium w-20">Qty</th>
+                      <th className="text-right py-2 text-sm font-medium w-28">Price</th>
+                      <th className="text-right py-2 text-sm font-medium w-24">Amount</th>
+                      <th className="w-10"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map((line, index) => (
+                      <tr key={index} className="border-b">
+                        <td className="py-2 pr-2">
+                          <select
+                            value={line.productId}
+                            onChange={(e) => selectProduct(index, e.target.value)}
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-2 py-2 text-sm"
+                          >
+                            <option value="">Product...</option>
+                            {products.map((product: any) => (
+                              <option key={product.id} value={product.id}>
+                                {product.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 pr-2">
+                          <Input
+                            value={line.description}
+                            onChange={(e) => updateLine(index, 'description', e.target.value)}
+                            placeholder="Description"
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <select
+                            value={line.accountId}
+                            onChange={(e) => updateLine(index, 'accountId', e.target.value)}
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-2 py-2 text-sm"
+                          >
+                            <option value="">Account...</option>
+                            {accounts.map((account: any) => (
+                              <option key={account.id} value={account.id}>
+                                {account.code} - {account.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 pr-2">
+                          <Input
+                            type="number"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, 'quantity', parseFloat(e.target.value) || 0)}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.unitPrice}
+                            onChange={(e) => updateLine(index, 'unitPrice', parseFloat(e.target.value) || 0)}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="py-2 pr-2 text-right font-mono">
+                          {formatCurrency(calculateLineTotal(line), currency)}
+                        </td>
+                        <td className="py-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeLine(index)}
+                            disabled={lines.length === 1}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Summary Sidebar */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span className="font-mono">{formatCurrency(subtotal, currency)}</span>
+                </div>
+                {discountTotal > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount</span>
+                    <span className="font-mono">-{formatCurrency(discountTotal, currency)}</span>
+                  </div>
+                )}
+                {taxTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {amountsAreTaxInclusive ? 'Includes tax' : 'Tax'}
+                    </span>
+                    <span className="font-mono">{formatCurrency(taxTotal, currency)}</span>
+                  </div>
+                )}
+                <div className="border-t pt-3 flex justify-between font-bold text-lg">
+                  <span>Total</span>
+                  <span className="font-mono">{formatCurrency(total, currency)}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {creditMemo && <CreditMemoActionsCard creditMemo={creditMemo} />}
+
+            {isDraft && (
+              <div className="flex flex-col gap-2">
+                <Button type="submit" disabled={saveCreditMemo.isPending} className="w-full">
+                  {saveCreditMemo.isPending
+                    ? 'Saving...'
+                    : isEdit
+                      ? 'Update Credit Memo'
+                      : 'Create Credit Memo'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => navigate('/credit-memos')}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
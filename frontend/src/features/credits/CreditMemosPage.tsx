@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { apiGet } from '@/api/client';
+import { formatCurrency, formatDate, cn } from '@/lib/utils';
+
+interface CreditMemo {
+  id: string;
+  creditMemoNumber: string;
+  date: string;
+  currency: string;
+  total: number;
+  amountRemaining: number;
+  status: string;
+  customer: {
+    id: string;
+    name: string;
+  };
+  payment: { id: string; paymentNumber: string } | null;
+}
+
+const statusColors: Record<string, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  OPEN: 'bg-blue-100 text-blue-800',
+  CLOSED: 'bg-green-100 text-green-800',
+  VOID: 'bg-gray-100 text-gray-500',
+};
+
+export function CreditMemosPage() {
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['creditMemos', search, statusFilter],
+    queryFn: () => apiGet<CreditMemo[]>('/credit-memos', {
+      search,
+      status: statusFilter || undefined,
+      limit: 100,
+    }),
+  });
+
+  const creditMemos = data?.data || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Credit Memos</h1>
+          <p className="text-muted-foreground">Customer credits, their applications and refunds</p>
+        </div>
+        <Link to="/credit-memos/new">
+          <Button>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Credit Memo
+          </Button>
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search credit memos..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          <option value="">All Status</option>
+          <option value="DRAFT">Draft</option>
+          <option value="OPEN">Open</option>
+          <option value="CLOSED">Closed</option>
+          <option value="VOID">Void</option>
+        </select>
+      </div>
+
+      {/* Credit Memo List */}
+      {isLoading ? (
+        <div className="text-center py-8">Loading credit memos...</div>
+      ) : creditMemos.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No credit memos found</p>
+            <Link to="/credit-memos/new">
+              <Button className="mt-4">Create Your First Credit Memo</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium">Credit #</th>
+                  <th className="text-left py-3 px-4 font-medium">Customer</th>
+                  <th className="text-left py-3 px-4 font-medium">Date</th>
+                  <th className="text-left py-3 px-4 font-medium">Source</th>
+                  <th className="text-right py-3 px-4 font-medium">Total</th>
+                  <th className="text-right py-3 px-4 font-medium">Remaining</th>
+                  <th className="text-center py-3 px-4 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {creditMemos.map((creditMemo) => (
+                  <tr key={creditMemo.id} className="border-b hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <Link
+                        to={`/credit-memos/${creditMemo.id}/edit`}
+                        className="font-medium hover:text-primary"
+                      >
+                        {creditMemo.creditMemoNumber}
+                      </Link>
+                    </td>
+                    <td className="py-3 px-4">
+                      <Link
+                        to={`/customers/${creditMemo.customer.id}`}
+                        className="hover:text-primary"
+                      >
+                        {creditMemo.customer.name}
+                      </Link>
+                    </td>
+                    <td className="py-3 px-4">{formatDate(creditMemo.date)}</td>
+                    <td className="py-3 px-4 text-muted-foreground">
+                      {creditMemo.payment ? `Overpayment ${creditMemo.payment.paymentNumber}` : 'Credit memo'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {formatCurrency(creditMemo.total, creditMemo.currency)}
+                    </td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {formatCurrency(creditMemo.amountRemaining, creditMemo.currency)}
+                    </td>
+                    <td className="py-3 px-4 text-center">
+                      <span className={cn('px-2 py-1 rounded text-xs', statusColors[creditMemo.status])}>
+                        {creditMemo.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+export const CURRENCIES = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'MXN', name: 'Mexican Peso' },
+];
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  // Label for the empty option; omit to require a currency
+  defaultLabel?: string;
+  disabled?: boolean;
+  id?: string;
+}
+
+export function CurrencySelect({ value, onChange, defaultLabel, disabled, id }: CurrencySelectProps) {
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+    >
+      {defaultLabel !== undefined && <option value="">{defaultLabel}</option>}
+      {CURRENCIES.map((currency) => (
+        <option key={currency.code} value={currency.code}>
+          {currency.code} - {currency.name}
+        </option>
+      ))}
+    </select>
+  );
+}
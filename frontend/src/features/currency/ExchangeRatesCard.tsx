@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, apiPut, apiDelete, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { formatDate } from '@/lib/utils';
+import { CurrencySelect } from './CurrencySelect';
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+interface ImportResult {
+  imported: number;
+  errors: { row: number; message: string }[];
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function ExchangeRatesCard() {
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+  const canWrite = role !== 'READONLY';
+
+  const [newRate, setNewRate] = useState<{ currency: string; date: string; rate: string } | null>(null);
+  const [revaluationDate, setRevaluationDate] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: companyData } = useQuery({
+    queryKey: ['company', currentCompanyId],
+    queryFn: () => apiGet<{ baseCurrency: string }>(`/companies/${currentCompanyId}`),
+  });
+
+  const baseCurrency = companyData?.data?.baseCurrency ?? 'USD';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['exchangeRates'],
+    queryFn: () => apiGet<ExchangeRate[]>('/currency/exchange-rates'),
+  });
+
+  const rates = data?.data || [];
+
+  const saveRate = useMutation({
+    mutationFn: (values: NonNullable<typeof newRate>) =>
+      apiPut('/currency/exchange-rates', {
+        currency: values.currency,
+        date: new Date(values.date).toISOString(),
+        rate: parseFloat(values.rate),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] });
+      setNewRate(null);
+      setMessage({ text: 'Exchange rate saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save exchange rate'), error: true }),
+  });
+
+  const importRates = useMutation({
+    mutationFn: (csv: string) => apiPost<ImportResult>('/currency/exchange-rates/import', { data: csv }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] });
+      const result = response.data;
+      const firstError = result?.errors[0];
+      setMessage({
+        text:
+          `Imported ${result?.imported ?? 0} rate(s)` +
+          (firstError
+            ? `; ${result!.errors.length} row(s) skipped (row ${firstError.row}: ${firstError.message})`
+            : ''),
+        error: !!firstError,
+      });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to import exchange rates'), error: true }),
+  });
+
+  const deleteRate = useMutation({
+    mutationFn: (id: string) => apiDelete(`/currency/exchange-rates/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['exchangeRates'] }),
+  });
+
+  const revalue = useMutation({
+    mutationFn: (date: string) =>
+      apiPost('/currency/revaluations', { date: new Date(date).toISOString() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report'] });
+      setRevaluationDate('');
+      setMessage({ text: 'Foreign currency balances revalued; the entry reverses the next day' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to revalue balances'), error: true }),
+  });
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importRates.mutate(await file.text());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {baseCurrency} per unit of each foreign currency. Documents use the latest rate on or
+          before their date. CSV imports need currency, date and rate columns.
+        </p>
+
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+
+        {canWrite && !newRate && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setMessage(null);
+                setNewRate({ currency: baseCurrency === 'EUR' ? 'USD' : 'EUR', date: today(), rate: '' });
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rate
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Upload className="w-4 h-4 mr-2" />
+                {importRates.isPending ? 'Importing...' : 'Import CSV'}
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportFile} />
+              </label>
+            </Button>
+          </div>
+        )}
+
+        {newRate && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveRate.mutate(newRate);
+            }}
+            className="flex items-end gap-2"
+          >
+            <div className="space-y-2 w-56">
+              <Label>Currency</Label>
+              <CurrencySelect
+                value={newRate.currency}
+                onChange={(currency) => setNewRate({ ...newRate, currency })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={newRate.date}
+                onChange={(e) => setNewRate({ ...newRate, date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2 w-36">
+              <Label>Rate</Label>
+              <Input
+                type="number"
+                step="0.00000001"
+                min="0"
+                value={newRate.rate}
+                onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={saveRate.isPending}>
+              Save
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setNewRate(null)}>
+              Cancel
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-4 text-sm">Loading exchange rates...</div>
+        ) : rates.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">No exchange rates entered</div>
+        ) : (
+          <div className="max-h-72 overflow-y-auto border rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left py-2 px-4 font-medium">Date</th>
+                  <th className="text-left py-2 px-4 font-medium">Currency</th>
+                  <th className="text-right py-2 px-4 font-medium">Rate</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((rate) => (
+                  <tr key={rate.id} className="border-b">
+                    <td className="py-2 px-4">{formatDate(rate.date)}</td>
+                    <td className="py-2 px-4">{rate.currency}</td>
+                    <td className="py-2 px-4 text-right font-mono">{rate.rate}</td>
+                    <td className="py-1 px-2">
+                      {canWrite && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          onClick={() => deleteRate.mutate(rate.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {isAdmin && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              revalue.mutate(revaluationDate);
+            }}
+            className="border-t pt-4 space-y-2"
+          >
+            <Label>Period-End Revaluation</Label>
+            <p className="text-sm text-muted-foreground">
+              Restates open foreign receivables, payables and bank balances at the rate on the
+              chosen date. The adjustment reverses automatically the next day.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                className="w-48"
+                value={revaluationDate}
+                onChange={(e) => setRevaluationDate(e.target.value)}
+                required
+              />
+              <Button type="submit" variant="outline" disabled={revalue.isPending}>
+                Revalue
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { ArrowLeft, Mail, Phone, FileText } from 'lucide-react';
@@ -5,9 +6,12 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { apiGet } from '@/api/client';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
+import { RecordHistory } from '@/features/audit/RecordHistory';
+import { CustomerStatementCard } from '@/features/statements/CustomerStatementCard';
 
 export function CustomerDetailPage() {
   const { id } = useParams<{ id: string }>();
+  const [tab, setTab] = useState<'overview' | 'history'>('overview');
 
   const { data: customerData, isLoading } = useQuery({
     queryKey: ['customer', id],
@@ -50,7 +54,25 @@ export function CustomerDetailPage() {
         </Link>
       </div>
 
-      <div className="grid grid-cols-3 gap-6">
+      <div className="flex gap-6 border-b">
+        {(['overview', 'history'] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => setTab(t)}
+            className={cn(
+              'pb-2 text-sm font-medium capitalize',
+              tab === t ? 'border-b-2 border-primary' : 'text-muted-foreground'
+            )}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'history' && <RecordHistory entityType="Customer" entityId={customer.id} />}
+
+      <div className={cn('grid grid-cols-3 gap-6', tab === 'history' && 'hidden')}>
         {/* Customer Info */}
         <Card>
           <CardHeader>
@@ -116,8 +138,14 @@ export function CustomerDetailPage() {
         </Card>
       </div>
 
+      <CustomerStatementCard
+        customerId={customer.id}
+        hasEmail={!!customer.email}
+        className={cn(tab === 'history' && 'hidden')}
+      />
+
       {/* Invoices */}
-      <Card>
+      <Card className={cn(tab === 'history' && 'hidden')}>
         <CardHeader>
           <CardTitle>Recent Invoices</CardTitle>
         </CardHeader>
@@ -165,7 +193,7 @@ export function CustomerDetailPage() {
       </Card>
 
       {/* Payments */}
-      <Card>
+      <Card className={cn(tab === 'history' && 'hidden')}>
         <CardHeader>
           <CardTitle>Recent Payments</CardTitle>
         </CardHeader>
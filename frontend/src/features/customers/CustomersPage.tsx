@@ -7,6 +7,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { apiGet, apiPost } from '@/api/client';
+import { CurrencySelect } from '@/features/currency/CurrencySelect';
 import { formatCurrency, cn } from '@/lib/utils';
 
 interface Customer {
@@ -15,6 +16,7 @@ interface Customer {
   name: string;
   email: string | null;
   phone: string | null;
+  currency: string;
   balance: number;
   isActive: boolean;
 }
@@ -27,6 +29,7 @@ export function CustomersPage() {
     email: '',
     phone: '',
     paymentTerms: 30,
+    currency: '',
   });
 
   const queryClient = useQueryClient();
@@ -37,11 +40,11 @@ export function CustomersPage() {
   });
 
   const createCustomer = useMutation({
-    mutationFn: (customer: typeof newCustomer) => apiPost('/customers', customer),
+    mutationFn: (customer: typeof newCustomer) => apiPost('/customers', { ...customer, currency: customer.currency || undefined }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['customers'] });
       setShowAddForm(false);
-      setNewCustomer({ name: '', email: '', phone: '', paymentTerms: 30 });
+      setNewCustomer({ name: '', email: '', phone: '', paymentTerms: 30, currency: '' });
     },
   });
 
@@ -82,7 +85,7 @@ export function CustomersPage() {
                 e.preventDefault();
                 createCustomer.mutate(newCustomer);
               }}
-              className="grid grid-cols-4 gap-4"
+              className="grid grid-cols-5 gap-4"
             >
               <div className="space-y-2">
                 <Label>Name *</Label>
@@ -110,6 +113,14 @@ export function CustomersPage() {
                   placeholder="(555) 123-4567"
                 />
               </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <CurrencySelect
+                  value={newCustomer.currency}
+                  onChange={(currency) => setNewCustomer({ ...newCustomer, currency })}
+                  defaultLabel="Base currency"
+                />
+              </div>
               <div className="flex items-end gap-2">
                 <Button type="submit" disabled={createCustomer.isPending}>
                   {createCustomer.isPending ? 'Creating...' : 'Create'}
@@ -166,7 +177,7 @@ export function CustomersPage() {
                     </td>
                     <td className="py-3 px-4 text-right font-mono">
                       <span className={cn(customer.balance > 0 && 'text-green-600')}>
-                        {formatCurrency(customer.balance)}
+                        {formatCurrency(customer.balance, customer.currency)}
                       </span>
                     </td>
                     <td className="py-3 px-4 text-center">
@@ -0,0 +1,338 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPatch, apiPost, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+
+interface DunningRule {
+  daysFromDue: number;
+  subject?: string;
+  body?: string;
+  applyLateFee: boolean;
+}
+
+interface LateFeePolicy {
+  type: 'FIXED' | 'PERCENT';
+  amount: number;
+  minimumBalance: number;
+  accountId: string;
+}
+
+interface CompanyWithDunning {
+  settings: { dunningRules?: DunningRule[]; lateFeePolicy?: LateFeePolicy | null };
+}
+
+interface DunningSummary {
+  overdue: number;
+  reminded: number;
+  lateFees: number;
+  failed: number;
+}
+
+// Form state keeps numbers as strings while they are being typed
+interface RuleForm {
+  daysFromDue: string;
+  subject: string;
+  body: string;
+  applyLateFee: boolean;
+}
+
+const toForm = (rule: DunningRule): RuleForm => ({
+  daysFromDue: String(rule.daysFromDue),
+  subject: rule.subject ?? '',
+  body: rule.body ?? '',
+  applyLateFee: rule.applyLateFee,
+});
+
+const describeRule = (days: number) =>
+  days < 0
+    ? `${-days} day(s) before due`
+    : days === 0
+      ? 'On the due date'
+      : `${days} day(s) overdue`;
+
+export function DunningCard() {
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+
+  const [rules, setRules] = useState<RuleForm[]>([]);
+  const [lateFee, setLateFee] = useState({
+    enabled: false,
+    type: 'FIXED' as LateFeePolicy['type'],
+    amount: '',
+    minimumBalance: '0',
+    accountId: '',
+  });
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['company', currentCompanyId],
+    queryFn: () => apiGet<CompanyWithDunning>(`/companies/${currentCompanyId}`),
+  });
+
+  const { data: accountsData } = useQuery({
+    queryKey: ['accounts', 'revenue'],
+    queryFn: () => apiGet<any>('/accounts', { type: 'REVENUE', flat: true }),
+    enabled: isAdmin,
+  });
+
+  const settings = data?.data?.settings;
+  const accounts = accountsData?.data || [];
+
+  useEffect(() => {
+    if (!settings) return;
+    setRules((settings.dunningRules ?? []).map(toForm));
+    const policy = settings.lateFeePolicy;
+    setLateFee({
+      enabled: !!policy,
+      type: policy?.type ?? 'FIXED',
+      // Percentages are stored as fractions
+      amount: policy ? String(policy.type === 'PERCENT' ? policy.amount * 100 : policy.amount) : '',
+      minimumBalance: String(policy?.minimumBalance ?? 0),
+      accountId: policy?.accountId ?? '',
+    });
+  }, [settings]);
+
+  const save = useMutation({
+    mutationFn: () =>
+      apiPatch(`/companies/${currentCompanyId}/settings`, {
+        dunningRules: rules
+          .map((rule) => ({
+            daysFromDue: parseInt(rule.daysFromDue),
+            subject: rule.subject || undefined,
+            body: rule.body || undefined,
+            applyLateFee: rule.applyLateFee,
+          }))
+          .sort((a, b) => a.daysFromDue - b.daysFromDue),
+        lateFeePolicy: lateFee.enabled
+          ? {
+              type: lateFee.type,
+              amount:
+                lateFee.type === 'PERCENT'
+                  ? parseFloat(lateFee.amount) / 100
+                  : parseFloat(lateFee.amount),
+              minimumBalance: parseFloat(lateFee.minimumBalance) || 0,
+              accountId: lateFee.accountId,
+            }
+          : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company', currentCompanyId] });
+      setMessage({ text: 'Reminder settings saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save reminder settings'), error: true }),
+  });
+
+  const runNow = useMutation({
+    mutationFn: () => apiPost<DunningSummary>('/dunning/run'),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      const summary = response.data;
+      setMessage({
+        text:
+          `${summary?.overdue ?? 0} invoice(s) marked overdue, ${summary?.reminded ?? 0} reminder(s) sent, ` +
+          `${summary?.lateFees ?? 0} late fee(s) charged` +
+          (summary?.failed ? `, ${summary.failed} failed` : ''),
+        error: !!summary?.failed,
+      });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to run reminders'), error: true }),
+  });
+
+  const updateRule = (index: number, values: Partial<RuleForm>) =>
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...values } : rule)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment Reminders</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Unpaid invoices are marked overdue daily, and each rule emails a reminder once per
+          invoice. Use a negative number of days to remind before the due date. Besides the invoice
+          placeholders, messages can use {'{{daysOverdue}}'}, {'{{daysUntilDue}}'} and {'{{lateFee}}'}.
+        </p>
+
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            save.mutate();
+          }}
+          className="space-y-4"
+        >
+          {rules.map((rule, index) => (
+            <div key={index} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-end gap-2">
+                <div className="space-y-1 w-32">
+                  <Label>Days from due</Label>
+                  <Input
+                    type="number"
+                    min="-90"
+                    max="365"
+                    value={rule.daysFromDue}
+                    onChange={(e) => updateRule(index, { daysFromDue: e.target.value })}
+                    required
+                    disabled={!isAdmin}
+                  />
+                </div>
+                <span className="text-sm text-muted-foreground pb-2">
+                  {rule.daysFromDue !== '' && describeRule(parseInt(rule.daysFromDue))}
+                </span>
+                <label className="flex items-center gap-2 text-sm pb-2 ml-auto">
+                  <input
+                    type="checkbox"
+                    checked={rule.applyLateFee}
+                    onChange={(e) => updateRule(index, { applyLateFee: e.target.checked })}
+                    disabled={!isAdmin || parseInt(rule.daysFromDue) <= 0}
+                    className="w-4 h-4"
+                  />
+                  Charge late fee
+                </label>
+                {isAdmin && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Remove"
+                    onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <Input
+                value={rule.subject}
+                onChange={(e) => updateRule(index, { subject: e.target.value })}
+                placeholder="Subject (standard reminder if blank)"
+                maxLength={200}
+                disabled={!isAdmin}
+              />
+              <textarea
+                value={rule.body}
+                onChange={(e) => updateRule(index, { body: e.target.value })}
+                placeholder="Message (standard reminder if blank)"
+                rows={3}
+                maxLength={10000}
+                disabled={!isAdmin}
+                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          ))}
+
+          {isAdmin && rules.length < 10 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setRules([...rules, { daysFromDue: '', subject: '', body: '', applyLateFee: false }])
+              }
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+          )}
+
+          <div className="border-t pt-4 space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={lateFee.enabled}
+                onChange={(e) => setLateFee({ ...lateFee, enabled: e.target.checked })}
+                disabled={!isAdmin}
+                className="w-4 h-4"
+              />
+              Late fee policy
+            </label>
+            {lateFee.enabled && (
+              <div className="grid grid-cols-4 gap-2">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <select
+                    value={lateFee.type}
+                    onChange={(e) => setLateFee({ ...lateFee, type: e.target.value as LateFeePolicy['type'] })}
+                    disabled={!isAdmin}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="FIXED">Fixed amount</option>
+                    <option value="PERCENT">% of balance</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label>{lateFee.type === 'PERCENT' ? 'Percent' : 'Amount'}</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={lateFee.amount}
+                    onChange={(e) => setLateFee({ ...lateFee, amount: e.target.value })}
+                    required
+                    disabled={!isAdmin}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Minimum balance</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={lateFee.minimumBalance}
+                    onChange={(e) => setLateFee({ ...lateFee, minimumBalance: e.target.value })}
+                    disabled={!isAdmin}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Income account</Label>
+                  <select
+                    value={lateFee.accountId}
+                    onChange={(e) => setLateFee({ ...lateFee, accountId: e.target.value })}
+                    required
+                    disabled={!isAdmin}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">Select account</option>
+                    {accounts.map((account: any) => (
+                      <option key={account.id} value={account.id}>
+                        {account.code} - {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {isAdmin && (
+            <div className="flex gap-2">
+              <Button type="submit" disabled={save.isPending}>
+                Save Reminders
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => runNow.mutate()}
+                disabled={runNow.isPending}
+              >
+                {runNow.isPending ? 'Running...' : 'Run Now'}
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { apiGet } from '@/api/client';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface InvoiceReminder {
+  id: string;
+  daysFromDue: number;
+  lateFee: number | null;
+  createdAt: string;
+  invoice: { currency: string };
+  delivery: { to: string; status: string; error: string | null } | null;
+}
+
+// Dunning reminders logged against one invoice; hidden until the first goes out
+export function InvoiceRemindersCard({ invoiceId }: { invoiceId: string }) {
+  const { data } = useQuery({
+    queryKey: ['invoiceReminders', invoiceId],
+    queryFn: () => apiGet<InvoiceReminder[]>('/dunning/reminders', { invoiceId }),
+  });
+
+  const reminders = data?.data || [];
+
+  if (reminders.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reminders</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {reminders.map((reminder) => (
+          <div key={reminder.id} className="text-sm">
+            <div className="flex justify-between">
+              <span>
+                {reminder.daysFromDue < 0
+                  ? `${-reminder.daysFromDue} days before due`
+                  : `${reminder.daysFromDue} days overdue`}
+              </span>
+              <span className="text-muted-foreground">{formatDate(reminder.createdAt)}</span>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {reminder.delivery
+                ? `Emailed to ${reminder.delivery.to} (${reminder.delivery.status.toLowerCase()})`
+                : 'Not emailed: customer has no email address'}
+              {reminder.lateFee !== null &&
+                `; late fee ${formatCurrency(reminder.lateFee, reminder.invoice.currency)}`}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
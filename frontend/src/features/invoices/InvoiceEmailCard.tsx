@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Mail, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { formatDate, cn } from '@/lib/utils';
+
+interface EmailDelivery {
+  id: string;
+  to: string;
+  cc: string[];
+  subject: string;
+  status: 'QUEUED' | 'SENDING' | 'SENT' | 'FAILED';
+  error: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface InvoiceEmailCardProps {
+  invoiceId: string;
+  status: string;
+  customerEmail?: string | null;
+}
+
+const statusStyles: Record<EmailDelivery['status'], string> = {
+  QUEUED: 'bg-gray-100 text-gray-800',
+  SENDING: 'bg-blue-100 text-blue-800',
+  SENT: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+const emptyMessage = () => ({ emailCustomer: true, to: '', cc: '', subject: '', body: '' });
+
+export function InvoiceEmailCard({ invoiceId, status, customerEmail }: InvoiceEmailCardProps) {
+  const { companies, currentCompanyId } = useAuthStore();
+  const canWrite = companies.find((c) => c.id === currentCompanyId)?.role !== 'READONLY';
+
+  const [email, setEmail] = useState(emptyMessage);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+  const isDraft = status === 'DRAFT';
+
+  const { data } = useQuery({
+    queryKey: ['emailDeliveries', invoiceId],
+    queryFn: () =>
+      apiGet<EmailDelivery[]>('/email-deliveries', { documentType: 'INVOICE', documentId: invoiceId }),
+    // Poll while a delivery is still in flight
+    refetchInterval: (query) =>
+      query.state.data?.data?.some((d) => d.status === 'QUEUED' || d.status === 'SENDING')
+        ? 2000
+        : false,
+  });
+
+  const deliveries = data?.data || [];
+
+  // Blank fields fall back to the customer's email and the company's email template
+  const buildEmail = () => ({
+    to: email.to || undefined,
+    cc: email.cc
+      .split(',')
+      .map((address) => address.trim())
+      .filter(Boolean),
+    subject: email.subject || undefined,
+    body: email.body || undefined,
+  });
+
+  const onQueued = (text: string) => {
+    queryClient.invalidateQueries({ queryKey: ['emailDeliveries', invoiceId] });
+    queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+    setEmail(emptyMessage());
+    setMessage({ text });
+  };
+
+  const sendInvoice = useMutation({
+    mutationFn: () =>
+      apiPost(`/invoices/${invoiceId}/send`, { email: email.emailCustomer, ...buildEmail() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      onQueued(email.emailCustomer ? 'Invoice sent; email queued' : 'Invoice sent');
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to send invoice'), error: true }),
+  });
+
+  const emailInvoice = useMutation({
+    mutationFn: () => apiPost(`/invoices/${invoiceId}/email`, buildEmail()),
+    onSuccess: () => onQueued('Email queued'),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to email invoice'), error: true }),
+  });
+
+  const resend = useMutation({
+    mutationFn: (deliveryId: string) => apiPost(`/email-deliveries/${deliveryId}/resend`),
+    onSuccess: () => onQueued('Email queued'),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to resend email'), error: true }),
+  });
+
+  const showFields = !isDraft || email.emailCustomer;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isDraft ? 'Send Invoice' : 'Email'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+
+        {canWrite && status !== 'VOID' && (
+          <>
+            {isDraft && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={email.emailCustomer}
+                  onChange={(e) => setEmail({ ...email, emailCustomer: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Email to customer with PDF
+              </label>
+            )}
+
+            {showFields && (
+              <>
+                <div className="space-y-1">
+                  <Label>To</Label>
+                  <Input
+                    type="email"
+                    value={email.to}
+                    onChange={(e) => setEmail({ ...email, to: e.target.value })}
+                    placeholder={customerEmail || 'customer@example.com'}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>CC</Label>
+                  <Input
+                    value={email.cc}
+                    onChange={(e) => setEmail({ ...email, cc: e.target.value })}
+                    placeholder="Comma-separated"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Subject</Label>
+                  <Input
+                    value={email.subject}
+                    onChange={(e) => setEmail({ ...email, subject: e.target.value })}
+                    placeholder="From the company template"
+                    maxLength={200}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Message</Label>
+                  <textarea
+                    value={email.body}
+                    onChange={(e) => setEmail({ ...email, body: e.target.value })}
+                    placeholder="From the company template"
+                    rows={4}
+                    className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  />
+                </div>
+              </>
+            )}
+
+            {isDraft ? (
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => sendInvoice.mutate()}
+                disabled={sendInvoice.isPending}
+              >
+                <Mail className="w-4 h-4 mr-2" />
+                {sendInvoice.isPending ? 'Sending...' : 'Send Invoice'}
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => emailInvoice.mutate()}
+                disabled={emailInvoice.isPending}
+              >
+                <Mail className="w-4 h-4 mr-2" />
+                Email Invoice
+              </Button>
+            )}
+          </>
+        )}
+
+        {deliveries.length > 0 && (
+          <div className="border-t pt-3 space-y-2">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={cn('px-2 py-0.5 rounded text-xs', statusStyles[delivery.status])}>
+                    {delivery.status}
+                  </span>
+                  <span className="truncate" title={[delivery.to, ...delivery.cc].join(', ')}>
+                    {delivery.to}
+                  </span>
+                  {canWrite && (delivery.status === 'SENT' || delivery.status === 'FAILED') && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="ml-auto"
+                      title="Resend"
+                      onClick={() => resend.mutate(delivery.id)}
+                      disabled={resend.isPending}
+                    >
+                      <RotateCw className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDate(delivery.sentAt ?? delivery.createdAt)}
+                </div>
+                {delivery.error && <div className="text-xs text-destructive">{delivery.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
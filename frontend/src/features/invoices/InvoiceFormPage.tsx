@@ -7,30 +7,49 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { apiGet, apiPost, apiPut } from '@/api/client';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, cn } from '@/lib/utils';
+import { RecordHistory } from '@/features/audit/RecordHistory';
+import { MakeRecurringCard } from '@/features/recurring/MakeRecurringCard';
+import { InvoicePdfButton } from './InvoicePdfButton';
+import { InvoiceEmailCard } from './InvoiceEmailCard';
+import { InvoiceRemindersCard } from '@/features/dunning/InvoiceRemindersCard';
 
 interface InvoiceLine {
   id?: string;
+  productId: string;
   description: string;
   quantity: number;
   unitPrice: number;
   accountId: string;
   discountPercent: number;
+  taxRateId: string | null;
+  taxRate: number;
 }
 
+const emptyLine: InvoiceLine = {
+  productId: '',
+  description: '',
+  quantity: 1,
+  unitPrice: 0,
+  accountId: '',
+  discountPercent: 0,
+  taxRateId: null,
+  taxRate: 0,
+};
+
 export function InvoiceFormPage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const [searchParams] = useSearchParams();
   const isEdit = !!id;
+  const [tab, setTab] = useState<'details' | 'history'>('details');
 
   const [customerId, setCustomerId] = useState(searchParams.get('customerId') || '');
   const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
   const [terms, setTerms] = useState(30);
   const [memo, setMemo] = useState('');
-  const [lines, setLines] = useState<InvoiceLine[]>([
-    { description: '', quantity: 1, unitPrice: 0, accountId: '', discountPercent: 0 },
-  ]);
+  const [amountsAreTaxInclusive, setAmountsAreTaxInclusive] = useState(false);
+  const [lines, setLines] = useState<InvoiceLine[]>([emptyLine]);
 
   const { data: customersData } = useQuery({
     queryKey: ['customers'],
@@ -42,6 +61,11 @@ export function InvoiceFormPage() {
     queryFn: () => apiGet<any>('/accounts', { type: 'REVENUE', flat: true }),
   });
 
+  const { data: productsData } = useQuery({
+    queryKey: ['products', 'active'],
+    queryFn: () => apiGet<any>('/products', { isActive: true, limit: 100 }),
+  });
+
   const { data: invoiceData } = useQuery({
     queryKey: ['invoice', id],
     queryFn: () => apiGet<any>(`/invoices/${id}`),
@@ -55,19 +79,26 @@ export function InvoiceFormPage() {
       setInvoiceDate(invoice.date.split('T')[0]);
       setTerms(invoice.terms);
       setMemo(invoice.memo || '');
+      setAmountsAreTaxInclusive(invoice.amountsAreTaxInclusive);
       setLines(invoice.lines.map((line: any) => ({
         id: line.id,
+        productId: line.productId || '',
         description: line.description,
         quantity: line.quantity,
         unitPrice: line.unitPrice,
         accountId: line.accountId,
         discountPercent: line.discountPercent || 0,
+        taxRateId: line.taxRateId,
+        taxRate: line.taxRate || 0,
       })));
     }
   }, [invoiceData]);
 
   const customers = (customersData?.data as any)?.customers || customersData?.data || [];
+  // Amounts are in the customer's currency
+  const currency = customers.find((c: any) => c.id === customerId)?.currency;
   const accounts = accountsData?.data || [];
+  const products = (productsData?.data as any)?.products || productsData?.data || [];
 
   const createInvoice = useMutation({
     mutationFn: (data: any) => isEdit ? apiPut(`/invoices/${id}`, data) : apiPost('/invoices', data),
@@ -75,7 +106,7 @@ export function InvoiceFormPage() {
   });
 
   const addLine = () => {
-    setLines([...lines, { description: '', quantity: 1, unitPrice: 0, accountId: '', discountPercent: 0 }]);
+    setLines([...lines, emptyLine]);
   };
 
   const removeLine = (index: number) => {
@@ -90,6 +121,23 @@ export function InvoiceFormPage() {
     setLines(newLines);
   };
 
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p: any) => p.id === productId);
+    const newLines = [...lines];
+    newLines[index] = product
+      ? {
+          ...newLines[index],
+          productId,
+          description: product.description || product.name,
+          unitPrice: product.salePrice ?? newLines[index].unitPrice,
+          accountId: product.incomeAccount?.id || newLines[index].accountId,
+          taxRateId: product.taxable ? product.taxRate?.id ?? null : null,
+          taxRate: product.taxable ? product.taxRate?.rate ?? 0 : 0,
+        }
+      : { ...newLines[index], productId: '' };
+    setLines(newLines);
+  };
+
   const calculateLineTotal = (line: InvoiceLine) => {
     const subtotal = line.quantity * line.unitPrice;
     const discount = subtotal * (line.discountPercent / 100);
@@ -100,7 +148,31 @@ export function InvoiceFormPage() {
   const discountTotal = lines.reduce((sum, line) => {
     return sum + (line.quantity * line.unitPrice * (line.discountPercent / 100));
   }, 0);
-  const total = subtotal - discountTotal;
+  // Inclusive prices already contain the tax, so it is backed out rather than added
+  const taxTotal = lines.reduce((sum, line) => {
+    const amount = calculateLineTotal(line);
+    return sum + (amountsAreTaxInclusive
+      ? (amount * line.taxRate) / (1 + line.taxRate)
+      : amount * line.taxRate);
+  }, 0);
+  const total = subtotal - discountTotal + (amountsAreTaxInclusive ? 0 : taxTotal);
+
+  // Everything but the dates, which recurring occurrences fill in themselves
+  const buildPayload = () => ({
+    customerId,
+    terms,
+    memo,
+    amountsAreTaxInclusive,
+    lines: lines.filter(l => l.description && l.accountId).map(line => ({
+      productId: line.productId || null,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      accountId: line.accountId,
+      discountPercent: line.discountPercent,
+      taxRateId: line.taxRateId,
+    })),
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -109,18 +181,9 @@ export function InvoiceFormPage() {
     dueDate.setDate(dueDate.getDate() + terms);
 
     createInvoice.mutate({
-      customerId,
+      ...buildPayload(),
       date: new Date(invoiceDate).toISOString(),
       dueDate: dueDate.toISOString(),
-      terms,
-      memo,
-      lines: lines.filter(l => l.description && l.accountId).map(line => ({
-        description: line.description,
-        quantity: line.quantity,
-        unitPrice: line.unitPrice,
-        accountId: line.accountId,
-        discountPercent: line.discountPercent,
-      })),
     });
   };
 
@@ -131,9 +194,45 @@ export function InvoiceFormPage() {
           <ArrowLeft className="w-4 h-4" />
         </Button>
         <h1 className="text-3xl font-bold">{isEdit ? 'Edit Invoice' : 'New Invoice'}</h1>
+        {isEdit && (
+          <div className="ml-auto flex gap-2">
+            {invoiceData?.data && !['DRAFT', 'VOID'].includes(invoiceData.data.status) && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  navigate(`/credit-memos/new?customerId=${invoiceData.data.customerId}&invoiceId=${id}`)
+                }
+              >
+                Credit Memo
+              </Button>
+            )}
+            <InvoicePdfButton invoiceId={id!} />
+          </div>
+        )}
       </div>
 
-      <form onSubmit={handleSubmit}>
+      {isEdit && (
+        <div className="flex gap-6 border-b">
+          {(['details', 'history'] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cn(
+                'pb-2 text-sm font-medium capitalize',
+                tab === t ? 'border-b-2 border-primary' : 'text-muted-foreground'
+              )}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tab === 'history' && <RecordHistory entityType="Invoice" entityId={id!} />}
+
+      <form onSubmit={handleSubmit} className={cn(tab === 'history' && 'hidden')}>
         <div className="grid grid-cols-3 gap-6">
           {/* Main Form */}
           <div className="col-span-2 space-y-6">
@@ -186,6 +285,15 @@ export function InvoiceFormPage() {
                     />
                   </div>
                 </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={amountsAreTaxInclusive}
+                    onChange={(e) => setAmountsAreTaxInclusive(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  Prices include tax
+                </label>
               </CardContent>
             </Card>
 
@@ -202,6 +310,7 @@ export function InvoiceFormPage() {
                 <table className="w-full">
                   <thead className="border-b">
                     <tr>
+                      <th className="text-left py-2 text-sm font-medium w-36">Product</th>
                       <th className="text-left py-2 text-sm font-medium">Description</th>
                       <th className="text-left py-2 text-sm font-medium w-32">Account</th>
                       <th className="text-right py-2 text-sm font-medium w-20">Qty</th>
@@ -213,6 +322,20 @@ export function InvoiceFormPage() {
                   <tbody>
                     {lines.map((line, index) => (
                       <tr key={index} className="border-b">
+                        <td className="py-2 pr-2">
+                          <select
+                            value={line.productId}
+                            onChange={(e) => selectProduct(index, e.target.value)}
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-2 py-2 text-sm"
+                          >
+                            <option value="">Product...</option>
+                            {products.map((product: any) => (
+                              <option key={product.id} value={product.id}>
+                                {product.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="py-2 pr-2">
                           <Input
                             value={line.description}
@@ -252,7 +375,7 @@ export function InvoiceFormPage() {
                           />
                         </td>
                         <td className="py-2 pr-2 text-right font-mono">
-                          {formatCurrency(calculateLineTotal(line))}
+                          {formatCurrency(calculateLineTotal(line), currency)}
                         </td>
                         <td className="py-2">
                           <Button
@@ -282,21 +405,45 @@ export function InvoiceFormPage() {
               <CardContent className="space-y-3">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span className="font-mono">{formatCurrency(subtotal)}</span>
+                  <span className="font-mono">{formatCurrency(subtotal, currency)}</span>
                 </div>
                 {discountTotal > 0 && (
                   <div className="flex justify-between text-green-600">
                     <span>Discount</span>
-                    <span className="font-mono">-{formatCurrency(discountTotal)}</span>
+                    <span className="font-mono">-{formatCurrency(discountTotal, currency)}</span>
+                  </div>
+                )}
+                {taxTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {amountsAreTaxInclusive ? 'Includes tax' : 'Tax'}
+                    </span>
+                    <span className="font-mono">{formatCurrency(taxTotal, currency)}</span>
                   </div>
                 )}
                 <div className="border-t pt-3 flex justify-between font-bold text-lg">
                   <span>Total</span>
-                  <span className="font-mono">{formatCurrency(total)}</span>
+                  <span className="font-mono">{formatCurrency(total, currency)}</span>
                 </div>
               </CardContent>
             </Card>
 
+            {isEdit && invoiceData?.data && (
+              <InvoiceEmailCard
+                invoiceId={id!}
+                status={invoiceData.data.status}
+                customerEmail={invoiceData.data.customer?.email}
+              />
+            )}
+
+            {isEdit && <InvoiceRemindersCard invoiceId={id!} />}
+
+            <MakeRecurringCard
+              documentType="INVOICE"
+              defaultName={`${customers.find((v: any) => v.id === customerId)?.name || 'Recurring'} invoice`}
+              getPayload={buildPayload}
+            />
+
             <div className="flex flex-col gap-2">
               <Button type="submit" disabled={createInvoice.isPending} className="w-full">
                 {createInvoice.isPending ? 'Saving...' : (isEdit ? 'Update Invoice' : 'Create Invoice')}
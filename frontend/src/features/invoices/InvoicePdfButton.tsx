@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { apiGet, apiDownload } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import type { InvoiceTemplate } from '@/features/settings/InvoiceTemplatesCard';
+
+interface CompanySettings {
+  settings: { invoiceTemplates?: InvoiceTemplate[]; defaultInvoiceTemplate?: string | null };
+}
+
+export function InvoicePdfButton({ invoiceId }: { invoiceId: string }) {
+  const { currentCompanyId } = useAuthStore();
+  const [template, setTemplate] = useState('');
+  const [downloading, setDownloading] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ['company', currentCompanyId],
+    queryFn: () => apiGet<CompanySettings>(`/companies/${currentCompanyId}`),
+  });
+
+  const templates = data?.data?.settings.invoiceTemplates ?? [];
+
+  const download = async () => {
+    setDownloading(true);
+    try {
+      await apiDownload(`/invoices/${invoiceId}/pdf`, { template: template || undefined });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {templates.length > 1 && (
+        <select
+          value={template}
+          onChange={(e) => setTemplate(e.target.value)}
+          className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          <option value="">Default template</option>
+          {templates.map((t) => (
+            <option key={t.name} value={t.name}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <Button type="button" variant="outline" onClick={download} disabled={downloading}>
+        <FileDown className="w-4 h-4 mr-2" />
+        {downloading ? 'Preparing...' : 'Download PDF'}
+      </Button>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ interface Invoice {
   invoiceNumber: string;
   date: string;
   dueDate: string;
+  currency: string;
   total: number;
   amountDue: number;
   status: string;
@@ -141,10 +142,10 @@ export function InvoicesPage() {
                       </span>
                     </td>
                     <td className="py-3 px-4 text-right font-mono">
-                      {formatCurrency(invoice.total)}
+                      {formatCurrency(invoice.total, invoice.currency)}
                     </td>
                     <td className="py-3 px-4 text-right font-mono">
-                      {formatCurrency(invoice.amountDue)}
+                      {formatCurrency(invoice.amountDue, invoice.currency)}
                     </td>
                     <td className="py-3 px-4 text-center">
                       <span className={cn('px-2 py-1 rounded text-xs', statusColors[invoice.status])}>
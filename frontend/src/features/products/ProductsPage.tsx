@@ -0,0 +1,550 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Search, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, apiDelete } from '@/api/client';
+import { formatCurrency, cn } from '@/lib/utils';
+
+interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  type: 'INVENTORY' | 'NON_INVENTORY' | 'SERVICE';
+  salePrice: number | null;
+  purchasePrice: number | null;
+  incomeAccount: { id: string; code: string; name: string } | null;
+  expenseAccount: { id: string; code: string; name: string } | null;
+  taxable: boolean;
+  quantityOnHand: number;
+  averageCost: number;
+  isActive: boolean;
+}
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+}
+
+const typeLabels: Record<Product['type'], string> = {
+  INVENTORY: 'Inventory',
+  NON_INVENTORY: 'Non-inventory',
+  SERVICE: 'Service',
+};
+
+const emptyProduct = {
+  name: '',
+  sku: '',
+  type: 'SERVICE' as Product['type'],
+  salePrice: '',
+  purchasePrice: '',
+  incomeAccountId: '',
+  expenseAccountId: '',
+  assetAccountId: '',
+  taxable: true,
+  taxRateId: '',
+};
+
+const emptyAdjustment = {
+  quantity: '',
+  unitCost: '',
+  accountId: '',
+  memo: '',
+};
+
+export function ProductsPage() {
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newProduct, setNewProduct] = useState(emptyProduct);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [adjusting, setAdjusting] = useState<Product | null>(null);
+  const [adjustment, setAdjustment] = useState(emptyAdjustment);
+
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['products', search, showInactive],
+    queryFn: () =>
+      apiGet<{ products: Product[] }>('/products', {
+        search,
+        limit: 100,
+        ...(!showInactive && { isActive: true }),
+      }),
+  });
+
+  const { data: revenueAccountsData } = useQuery({
+    queryKey: ['accounts', 'revenue'],
+    queryFn: () => apiGet<any>('/accounts', { type: 'REVENUE', flat: true }),
+  });
+
+  const { data: expenseAccountsData } = useQuery({
+    queryKey: ['accounts', 'expense'],
+    queryFn: () => apiGet<any>('/accounts', { type: 'EXPENSE', flat: true }),
+  });
+
+  const { data: assetAccountsData } = useQuery({
+    queryKey: ['accounts', 'asset'],
+    queryFn: () => apiGet<any>('/accounts', { type: 'ASSET', flat: true }),
+  });
+
+  const { data: taxRatesData } = useQuery({
+    queryKey: ['taxRates', 'active'],
+    queryFn: () => apiGet<any[]>('/tax/rates', { isActive: true }),
+  });
+
+  const createProduct = useMutation({
+    mutationFn: (product: typeof newProduct) =>
+      apiPost('/products', {
+        name: product.name,
+        sku: product.sku || undefined,
+        type: product.type,
+        salePrice: product.salePrice === '' ? null : parseFloat(product.salePrice),
+        purchasePrice: product.purchasePrice === '' ? null : parseFloat(product.purchasePrice),
+        incomeAccountId: product.incomeAccountId || null,
+        expenseAccountId: product.expenseAccountId || null,
+        assetAccountId: product.type === 'INVENTORY' ? product.assetAccountId || null : null,
+        taxable: product.taxable,
+        taxRateId: product.taxable ? product.taxRateId || null : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      setShowAddForm(false);
+      setNewProduct(emptyProduct);
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: (product: Product) =>
+      product.isActive
+        ? apiDelete(`/products/${product.id}`)
+        : apiPost(`/products/${product.id}/activate`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['products'] }),
+  });
+
+  const adjustStock = useMutation({
+    mutationFn: ({ product, values }: { product: Product; values: typeof adjustment }) =>
+      apiPost('/inventory/adjustments', {
+        productId: product.id,
+        date: new Date().toISOString(),
+        quantity: parseFloat(values.quantity),
+        unitCost: values.unitCost === '' ? undefined : parseFloat(values.unitCost),
+        accountId: values.accountId,
+        memo: values.memo || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      setAdjusting(null);
+      setAdjustment(emptyAdjustment);
+    },
+  });
+
+  const importProducts = useMutation({
+    mutationFn: (data: string) => apiPost<ImportResult>('/products/import', { data }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      setImportResult(response.data ?? null);
+    },
+  });
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importProducts.mutate(await file.text());
+  };
+
+  const products = (data?.data as any)?.products || data?.data || [];
+  const revenueAccounts = revenueAccountsData?.data || [];
+  const expenseAccounts = expenseAccountsData?.data || [];
+  const assetAccounts = assetAccountsData?.data || [];
+  const taxRates = taxRatesData?.data || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Products & Services</h1>
+          <p className="text-muted-foreground">Items you buy and sell</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <label className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              {importProducts.isPending ? 'Importing...' : 'Import CSV'}
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportFile} />
+            </label>
+          </Button>
+          <Button onClick={() => setShowAddForm(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Product
+          </Button>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name or SKU..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Show inactive
+        </label>
+      </div>
+
+      {/* Import Result */}
+      {importResult && (
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <div className="flex justify-between items-center">
+              <p className="text-sm">
+                Imported {importResult.created} new, updated {importResult.updated}
+                {importResult.skipped > 0 && `, skipped ${importResult.skipped}`}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setImportResult(null)}>
+                Dismiss
+              </Button>
+            </div>
+            {importResult.errors.map((error) => (
+              <p key={error.row} className="text-sm text-red-600">
+                Row {error.row}: {error.message}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add Form */}
+      {showAddForm && (
+        <Card>
+          <CardContent className="pt-6">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createProduct.mutate(newProduct);
+              }}
+              className="grid grid-cols-4 gap-4"
+            >
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  value={newProduct.name}
+                  onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
+                  placeholder="Product or service name"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>SKU</Label>
+                <Input
+                  value={newProduct.sku}
+                  onChange={(e) => setNewProduct({ ...newProduct, sku: e.target.value })}
+                  placeholder="Generated if blank"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <select
+                  value={newProduct.type}
+                  onChange={(e) => setNewProduct({ ...newProduct, type: e.target.value as Product['type'] })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  {Object.entries(typeLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>Taxable</Label>
+                <div className="flex items-center h-10">
+                  <input
+                    type="checkbox"
+                    checked={newProduct.taxable}
+                    onChange={(e) => setNewProduct({ ...newProduct, taxable: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Sale Price</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={newProduct.salePrice}
+                  onChange={(e) => setNewProduct({ ...newProduct, salePrice: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Income Account</Label>
+                <select
+                  value={newProduct.incomeAccountId}
+                  onChange={(e) => setNewProduct({ ...newProduct, incomeAccountId: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">None</option>
+                  {revenueAccounts.map((account: any) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>Purchase Price</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={newProduct.purchasePrice}
+                  onChange={(e) => setNewProduct({ ...newProduct, purchasePrice: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{newProduct.type === 'INVENTORY' ? 'COGS Account *' : 'Expense Account'}</Label>
+                <select
+                  value={newProduct.expenseAccountId}
+                  onChange={(e) => setNewProduct({ ...newProduct, expenseAccountId: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  required={newProduct.type === 'INVENTORY'}
+                >
+                  <option value="">None</option>
+                  {expenseAccounts.map((account: any) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {newProduct.taxable && (
+                <div className="space-y-2">
+                  <Label>Default Tax Rate</Label>
+                  <select
+                    value={newProduct.taxRateId}
+                    onChange={(e) => setNewProduct({ ...newProduct, taxRateId: e.target.value })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">None</option>
+                    {taxRates.map((rate: any) => (
+                      <option key={rate.id} value={rate.id}>
+                        {rate.name} ({(rate.rate * 100).toFixed(2)}%)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {newProduct.type === 'INVENTORY' && (
+                <div className="space-y-2">
+                  <Label>Inventory Asset Account *</Label>
+                  <select
+                    value={newProduct.assetAccountId}
+                    onChange={(e) => setNewProduct({ ...newProduct, assetAccountId: e.target.value })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    required
+                  >
+                    <option value="">Select account...</option>
+                    {assetAccounts.map((account: any) => (
+                      <option key={account.id} value={account.id}>
+                        {account.code} - {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="col-span-4 flex gap-2">
+                <Button type="submit" disabled={createProduct.isPending}>
+                  {createProduct.isPending ? 'Creating...' : 'Create'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowAddForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stock Adjustment */}
+      {adjusting && (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="font-medium mb-4">
+              Adjust stock for {adjusting.name} (on hand: {adjusting.quantityOnHand}, average cost{' '}
+              {formatCurrency(adjusting.averageCost)})
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                adjustStock.mutate({ product: adjusting, values: adjustment });
+              }}
+              className="grid grid-cols-5 gap-4"
+            >
+              <div className="space-y-2">
+                <Label>Quantity Change *</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={adjustment.quantity}
+                  onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })}
+                  placeholder="e.g. -2"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Unit Cost</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={adjustment.unitCost}
+                  onChange={(e) => setAdjustment({ ...adjustment, unitCost: e.target.value })}
+                  placeholder="Average cost"
+                  disabled={parseFloat(adjustment.quantity) < 0}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Offset Account *</Label>
+                <select
+                  value={adjustment.accountId}
+                  onChange={(e) => setAdjustment({ ...adjustment, accountId: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  required
+                >
+                  <option value="">Select account...</option>
+                  {expenseAccounts.map((account: any) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>Memo</Label>
+                <Input
+                  value={adjustment.memo}
+                  onChange={(e) => setAdjustment({ ...adjustment, memo: e.target.value })}
+                  placeholder="Stock count, damage..."
+                />
+              </div>
+              <div className="flex items-end gap-2">
+                <Button type="submit" disabled={adjustStock.isPending}>
+                  {adjustStock.isPending ? 'Saving...' : 'Adjust'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setAdjusting(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Product List */}
+      {isLoading ? (
+        <div className="text-center py-8">Loading products...</div>
+      ) : products.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No products found</p>
+            <Button className="mt-4" onClick={() => setShowAddForm(true)}>
+              Add Your First Product
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium">Product</th>
+                  <th className="text-left py-3 px-4 font-medium">Type</th>
+                  <th className="text-right py-3 px-4 font-medium">Sale Price</th>
+                  <th className="text-right py-3 px-4 font-medium">Cost</th>
+                  <th className="text-right py-3 px-4 font-medium">On Hand</th>
+                  <th className="text-center py-3 px-4 font-medium">Taxable</th>
+                  <th className="text-center py-3 px-4 font-medium">Status</th>
+                  <th className="w-44"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((product: Product) => (
+                  <tr key={product.id} className="border-b hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <span className="font-medium">{product.name}</span>
+                      <p className="text-sm text-muted-foreground">{product.sku}</p>
+                    </td>
+                    <td className="py-3 px-4 text-sm">{typeLabels[product.type]}</td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {product.salePrice !== null ? formatCurrency(product.salePrice) : '-'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {product.purchasePrice !== null ? formatCurrency(product.purchasePrice) : '-'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {product.type === 'INVENTORY' ? (
+                        <span className={cn(product.quantityOnHand < 0 && 'text-red-600')}>
+                          {product.quantityOnHand}
+                        </span>
+                      ) : '-'}
+                    </td>
+                    <td className="py-3 px-4 text-center text-sm">{product.taxable ? 'Yes' : 'No'}</td>
+                    <td className="py-3 px-4 text-center">
+                      <span className={cn(
+                        'px-2 py-1 rounded text-xs',
+                        product.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      )}>
+                        {product.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-right whitespace-nowrap">
+                      {product.type === 'INVENTORY' && product.isActive && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setAdjusting(product);
+                            setAdjustment(emptyAdjustment);
+                          }}
+                        >
+                          Adjust
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleActive.mutate(product)}
+                        disabled={toggleActive.isPending}
+                      >
+                        {product.isActive ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
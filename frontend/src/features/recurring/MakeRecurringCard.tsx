@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiPost, errorMessage } from '@/api/client';
+import type { RecurringDocumentType } from './RecurringTemplatesPage';
+
+interface MakeRecurringCardProps {
+  documentType: RecurringDocumentType;
+  defaultName: string;
+  // The document as it would be saved, without its date, due date and number
+  getPayload: () => Record<string, unknown>;
+}
+
+const autoPostLabels: Record<RecurringDocumentType, string> = {
+  JOURNAL_ENTRY: 'Post entries automatically',
+  INVOICE: 'Send invoices automatically',
+  BILL: 'Receive bills automatically',
+};
+
+const emptySchedule = () => ({
+  name: '',
+  frequency: 'MONTHLY',
+  interval: 1,
+  dayOfMonth: '',
+  startDate: new Date().toISOString().split('T')[0],
+  end: 'never' as 'never' | 'date' | 'count',
+  endDate: '',
+  maxOccurrences: '',
+  autoPost: false,
+});
+
+export function MakeRecurringCard({ documentType, defaultName, getPayload }: MakeRecurringCardProps) {
+  const [schedule, setSchedule] = useState<ReturnType<typeof emptySchedule> | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const createTemplate = useMutation({
+    mutationFn: (values: ReturnType<typeof emptySchedule>) =>
+      apiPost('/recurring-templates', {
+        name: values.name,
+        documentType,
+        payload: getPayload(),
+        frequency: values.frequency,
+        interval: values.interval,
+        dayOfMonth: values.dayOfMonth ? parseInt(values.dayOfMonth) : null,
+        startDate: new Date(values.startDate).toISOString(),
+        endDate: values.end === 'date' && values.endDate ? new Date(values.endDate).toISOString() : null,
+        maxOccurrences:
+          values.end === 'count' && values.maxOccurrences ? parseInt(values.maxOccurrences) : null,
+        autoPost: values.autoPost,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurringTemplates'] });
+      setSchedule(null);
+      setMessage({ text: 'Recurring schedule saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save recurring schedule'), error: true }),
+  });
+
+  const hasDayOfMonth = schedule?.frequency === 'MONTHLY' || schedule?.frequency === 'YEARLY';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recurring</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+
+        {!schedule ? (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => {
+              setMessage(null);
+              setSchedule({ ...emptySchedule(), name: defaultName });
+            }}
+          >
+            <Repeat className="w-4 h-4 mr-2" />
+            Make Recurring
+          </Button>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input
+                value={schedule.name}
+                onChange={(e) => setSchedule({ ...schedule, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Every</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={schedule.interval}
+                  onChange={(e) => setSchedule({ ...schedule, interval: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <select
+                  value={schedule.frequency}
+                  onChange={(e) => setSchedule({ ...schedule, frequency: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="DAILY">Days</option>
+                  <option value="WEEKLY">Weeks</option>
+                  <option value="MONTHLY">Months</option>
+                  <option value="YEARLY">Years</option>
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Start Date</Label>
+                <Input
+                  type="date"
+                  value={schedule.startDate}
+                  onChange={(e) => setSchedule({ ...schedule, startDate: e.target.value })}
+                />
+              </div>
+              {hasDayOfMonth && (
+                <div className="space-y-2">
+                  <Label>Day of Month</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={schedule.dayOfMonth}
+                    onChange={(e) => setSchedule({ ...schedule, dayOfMonth: e.target.value })}
+                    placeholder="Start day"
+                  />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <select
+                value={schedule.end}
+                onChange={(e) =>
+                  setSchedule({ ...schedule, end: e.target.value as typeof schedule.end })
+                }
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="never">Never</option>
+                <option value="date">On date</option>
+                <option value="count">After a number of times</option>
+              </select>
+              {schedule.end === 'date' && (
+                <Input
+                  type="date"
+                  value={schedule.endDate}
+                  onChange={(e) => setSchedule({ ...schedule, endDate: e.target.value })}
+                />
+              )}
+              {schedule.end === 'count' && (
+                <Input
+                  type="number"
+                  min="1"
+                  value={schedule.maxOccurrences}
+                  onChange={(e) => setSchedule({ ...schedule, maxOccurrences: e.target.value })}
+                />
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={schedule.autoPost}
+                onChange={(e) => setSchedule({ ...schedule, autoPost: e.target.checked })}
+                className="w-4 h-4"
+              />
+              {autoPostLabels[documentType]}
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {schedule.autoPost
+                ? 'Each occurrence is posted to the ledger when it is created.'
+                : 'Each occurrence is created as a draft for review.'}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                disabled={!schedule.name || createTemplate.isPending}
+                onClick={() => createTemplate.mutate(schedule)}
+              >
+                Save Schedule
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSchedule(null)}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,316 @@
+import { Fragment, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { apiGet, apiPost, apiDelete, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { formatDate, cn } from '@/lib/utils';
+
+export type RecurringDocumentType = 'JOURNAL_ENTRY' | 'INVOICE' | 'BILL';
+
+interface RecurringTemplate {
+  id: string;
+  name: string;
+  documentType: RecurringDocumentType;
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+  occurrencesCreated: number;
+  nextRunDate: string | null;
+  autoPost: boolean;
+  isActive: boolean;
+  createdBy: { id: string; name: string };
+}
+
+interface RecurringTemplateRun {
+  id: string;
+  occurrenceDate: string;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  documentId: string | null;
+  error: string | null;
+}
+
+const documentTypeLabels: Record<RecurringDocumentType, string> = {
+  JOURNAL_ENTRY: 'Journal Entry',
+  INVOICE: 'Invoice',
+  BILL: 'Bill',
+};
+
+const frequencyUnits: Record<RecurringTemplate['frequency'], string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const runStatusColors: Record<RecurringTemplateRun['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+const documentLinks: Partial<Record<RecurringDocumentType, (id: string) => string>> = {
+  INVOICE: (id) => `/invoices/${id}/edit`,
+  BILL: (id) => `/bills/${id}/edit`,
+};
+
+function describeSchedule(template: RecurringTemplate) {
+  const unit = frequencyUnits[template.frequency];
+  const every = template.interval === 1 ? `Every ${unit}` : `Every ${template.interval} ${unit}s`;
+  return template.dayOfMonth ? `${every} on day ${template.dayOfMonth}` : every;
+}
+
+function TemplateHistory({ templateId }: { templateId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['recurringTemplate', templateId],
+    queryFn: () =>
+      apiGet<RecurringTemplate & { runs: RecurringTemplateRun[] }>(
+        `/recurring-templates/${templateId}`
+      ),
+  });
+
+  const template = data?.data;
+
+  if (isLoading) {
+    return <div className="text-center py-4 text-sm">Loading history...</div>;
+  }
+
+  if (!template || template.runs.length === 0) {
+    return <div className="text-center py-4 text-sm text-muted-foreground">Nothing created yet</div>;
+  }
+
+  const link = documentLinks[template.documentType];
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="border-b">
+        <tr>
+          <th className="text-left py-2 px-4 font-medium">Occurrence</th>
+          <th className="text-left py-2 px-4 font-medium">Status</th>
+          <th className="text-left py-2 px-4 font-medium">Document</th>
+        </tr>
+      </thead>
+      <tbody>
+        {template.runs.map((run) => (
+          <tr key={run.id} className="border-b">
+            <td className="py-2 px-4">{formatDate(run.occurrenceDate)}</td>
+            <td className="py-2 px-4">
+              <span className={cn('px-2 py-1 rounded text-xs', runStatusColors[run.status])}>
+                {run.status}
+              </span>
+            </td>
+            <td className="py-2 px-4">
+              {run.error ? (
+                <span className="text-destructive">{run.error}</span>
+              ) : run.documentId && link ? (
+                <Link to={link(run.documentId)} className="hover:text-primary">
+                  View {documentTypeLabels[template.documentType].toLowerCase()}
+                </Link>
+              ) : (
+                run.documentId || '-'
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function RecurringTemplatesPage() {
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+  const canWrite = role !== 'READONLY';
+
+  const [typeFilter, setTypeFilter] = useState<string>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['recurringTemplates', typeFilter],
+    queryFn: () =>
+      apiGet<RecurringTemplate[]>('/recurring-templates', {
+        documentType: typeFilter || undefined,
+      }),
+  });
+
+  const templates = data?.data || [];
+
+  const runDue = useMutation({
+    mutationFn: () => apiPost<{ created: number; failed: number }>('/recurring-templates/run'),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['recurringTemplates'] });
+      queryClient.invalidateQueries({ queryKey: ['recurringTemplate'] });
+      const summary = response.data;
+      setMessage({
+        text: `Created ${summary?.created ?? 0} document(s)` +
+          (summary?.failed ? `, ${summary.failed} template(s) failed` : ''),
+        error: !!summary?.failed,
+      });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to run recurring templates'), error: true }),
+  });
+
+  const deactivate = useMutation({
+    mutationFn: (id: string) => apiDelete(`/recurring-templates/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['recurringTemplates'] }),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Recurring Transactions</h1>
+          <p className="text-muted-foreground">
+            Journal entries, invoices and bills created on a schedule
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => runDue.mutate()} disabled={runDue.isPending}>
+            <Play className="w-4 h-4 mr-2" />
+            Run Due Now
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={
+            message.error
+              ? 'p-3 text-sm text-destructive bg-destructive/10 rounded-md'
+              : 'p-3 text-sm text-green-800 bg-green-100 rounded-md'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      <select
+        value={typeFilter}
+        onChange={(e) => setTypeFilter(e.target.value)}
+        className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+      >
+        <option value="">All Types</option>
+        {Object.entries(documentTypeLabels).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading recurring transactions...</div>
+      ) : templates.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              No recurring transactions. Use "Make Recurring" on an invoice or bill to add one.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium">Name</th>
+                  <th className="text-left py-3 px-4 font-medium">Type</th>
+                  <th className="text-left py-3 px-4 font-medium">Schedule</th>
+                  <th className="text-left py-3 px-4 font-medium">Next Run</th>
+                  <th className="text-right py-3 px-4 font-medium">Created</th>
+                  <th className="text-center py-3 px-4 font-medium">Mode</th>
+                  <th className="text-center py-3 px-4 font-medium">Status</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((template) => (
+                  <Fragment key={template.id}>
+                    <tr className="border-b hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setExpandedId(expandedId === template.id ? null : template.id)
+                          }
+                          className="font-medium hover:text-primary"
+                        >
+                          {template.name}
+                        </button>
+                      </td>
+                      <td className="py-3 px-4">{documentTypeLabels[template.documentType]}</td>
+                      <td className="py-3 px-4">{describeSchedule(template)}</td>
+                      <td className="py-3 px-4">
+                        {template.isActive && template.nextRunDate
+                          ? formatDate(template.nextRunDate)
+                          : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        {template.occurrencesCreated}
+                        {template.maxOccurrences ? ` / ${template.maxOccurrences}` : ''}
+                      </td>
+                      <td className="py-3 px-4 text-center text-sm">
+                        {template.autoPost ? 'Post' : 'Draft'}
+                      </td>
+                      <td className="py-3 px-4 text-center">
+                        <span
+                          className={cn(
+                            'px-2 py-1 rounded text-xs',
+                            template.isActive && template.nextRunDate
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-500'
+                          )}
+                        >
+                          {!template.isActive
+                            ? 'INACTIVE'
+                            : template.nextRunDate
+                              ? 'ACTIVE'
+                              : 'FINISHED'}
+                        </span>
+                      </td>
+                      <td className="py-3 px-2">
+                        {canWrite && template.isActive && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Deactivate"
+                            onClick={() => {
+                              if (confirm(`Stop creating "${template.name}"?`)) {
+                                deactivate.mutate(template.id);
+                              }
+                            }}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === template.id && (
+                      <tr className="border-b bg-gray-50/50">
+                        <td colSpan={8} className="py-2">
+                          <TemplateHistory templateId={template.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,21 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { FileText, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { apiGet } from '@/api/client';
+import { apiGet, apiPost } from '@/api/client';
 import { formatCurrency, cn } from '@/lib/utils';
 
-type ReportType = 'profit-loss' | 'balance-sheet' | 'trial-balance' | 'ar-aging' | 'ap-aging';
+type ReportType =
+  | 'profit-loss'
+  | 'balance-sheet'
+  | 'trial-balance'
+  | 'ar-aging'
+  | 'ap-aging'
+  | 'inventory-valuation'
+  | 'sales-tax';
 
 const reports = [
   { id: 'profit-loss', name: 'Profit & Loss', description: 'Revenue and expenses for a period' },
@@ -16,6 +23,8 @@ const reports = [
   { id: 'trial-balance', name: 'Trial Balance', description: 'All account balances' },
   { id: 'ar-aging', name: 'AR Aging', description: 'Outstanding customer invoices' },
   { id: 'ap-aging', name: 'AP Aging', description: 'Outstanding vendor bills' },
+  { id: 'inventory-valuation', name: 'Inventory Valuation', description: 'Stock on hand at average cost' },
+  { id: 'sales-tax', name: 'Sales Tax', description: 'Taxable sales and tax collected by rate' },
 ];
 
 export function ReportsPage() {
@@ -64,7 +73,7 @@ export function ReportsPage() {
               <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>{reports.find((r) => r.id === selectedReport)?.name}</CardTitle>
                 <div className="flex items-center gap-4">
-                  {['profit-loss', 'trial-balance'].includes(selectedReport) ? (
+                  {['profit-loss', 'trial-balance', 'sales-tax'].includes(selectedReport) ? (
                     <>
                       <div className="flex items-center gap-2">
                         <Label className="text-sm">From</Label>
@@ -118,6 +127,12 @@ export function ReportsPage() {
                 {selectedReport === 'ap-aging' && (
                   <APAgingReport asOfDate={asOfDate} />
                 )}
+                {selectedReport === 'inventory-valuation' && (
+                  <InventoryValuationReport asOfDate={asOfDate} />
+                )}
+                {selectedReport === 'sales-tax' && (
+                  <SalesTaxReport startDate={dateRange.startDate} endDate={dateRange.endDate} />
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -464,3 +479,250 @@ function APAgingReport({ asOfDate }: { asOfDate: string }) {
     </div>
   );
 }
+
+function InventoryValuationReport({ asOfDate }: { asOfDate: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['report', 'inventory-valuation', asOfDate],
+    queryFn: () => apiGet<any>('/reports/inventory-valuation', {
+      asOfDate: new Date(asOfDate).toISOString(),
+    }),
+  });
+
+  if (isLoading) return <div className="text-center py-8">Loading...</div>;
+
+  const report = data?.data;
+  if (!report) return <div className="text-center py-8">No data</div>;
+
+  return (
+    <div className="space-y-6">
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b">
+          <tr>
+            <th className="text-left py-2 px-4 font-medium">Product</th>
+            <th className="text-right py-2 px-4 font-medium">On Hand</th>
+            <th className="text-right py-2 px-4 font-medium">Avg Cost</th>
+            <th className="text-right py-2 px-4 font-medium">Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.products.map((product: any) => (
+            <tr key={product.id} className="border-b">
+              <td className="py-2 px-4">
+                <span className="font-medium">{product.name}</span>
+                <span className="text-sm text-muted-foreground ml-2">{product.sku}</span>
+              </td>
+              <td className="py-2 px-4 text-right font-mono">{product.quantity}</td>
+              <td className="py-2 px-4 text-right font-mono">{formatCurrency(product.averageCost)}</td>
+              <td className="py-2 px-4 text-right font-mono">{formatCurrency(product.value)}</td>
+            </tr>
+          ))}
+          <tr className="font-bold bg-gray-100">
+            <td className="py-2 px-4" colSpan={3}>Total</td>
+            <td className="py-2 px-4 text-right font-mono">{formatCurrency(report.totalValue)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Ledger vs GL */}
+      {report.accounts.length > 0 && (
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left py-2 px-4 font-medium">Asset Account</th>
+              <th className="text-right py-2 px-4 font-medium">Inventory Value</th>
+              <th className="text-right py-2 px-4 font-medium">GL Balance</th>
+              <th className="text-right py-2 px-4 font-medium">Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.accounts.map((account: any) => (
+              <tr key={account.id} className="border-b">
+                <td className="py-2 px-4">{account.code} - {account.name}</td>
+                <td className="py-2 px-4 text-right font-mono">{formatCurrency(account.inventoryValue)}</td>
+                <td className="py-2 px-4 text-right font-mono">{formatCurrency(account.glBalance)}</td>
+                <td className={cn(
+                  'py-2 px-4 text-right font-mono',
+                  Math.abs(account.difference) >= 0.01 && 'text-red-600'
+                )}>
+                  {formatCurrency(account.difference)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function SalesTaxReport({ startDate, endDate }: { startDate: string; endDate: string }) {
+  const [payment, setPayment] = useState<{ amount: string; paymentAccountId: string } | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['report', 'sales-tax', startDate, endDate],
+    queryFn: () => apiGet<any>('/tax/report', {
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+    }),
+  });
+
+  const { data: bankAccountsData } = useQuery({
+    queryKey: ['bankAccounts'],
+    queryFn: () => apiGet<any[]>('/bank-accounts'),
+    enabled: !!payment,
+  });
+
+  const recordPayment = useMutation({
+    mutationFn: (values: { amount: string; paymentAccountId: string }) =>
+      apiPost('/tax/payments', {
+        date: new Date().toISOString(),
+        amount: parseFloat(values.amount),
+        paymentAccountId: values.paymentAccountId,
+        periodStart: new Date(startDate).toISOString(),
+        periodEnd: new Date(endDate).toISOString(),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report'] });
+      setPayment(null);
+    },
+  });
+
+  if (isLoading) return <div className="text-center py-8">Loading...</div>;
+
+  const report = data?.data;
+  if (!report) return <div className="text-center py-8">No data</div>;
+
+  const bankAccounts = bankAccountsData?.data || [];
+
+  return (
+    <div className="space-y-6">
+      <table className="w-full">
+        <tbody>
+          <tr className="border-b">
+            <td className="py-2">Total Sales</td>
+            <td className="py-2 text-right font-mono">{formatCurrency(report.totalSales)}</td>
+          </tr>
+          <tr className="border-b">
+            <td className="py-2 pl-4">Taxable Sales</td>
+            <td className="py-2 text-right font-mono">{formatCurrency(report.taxableSales)}</td>
+          </tr>
+          <tr className="border-b">
+            <td className="py-2 pl-4">Exempt Sales</td>
+            <td className="py-2 text-right font-mono">{formatCurrency(report.exemptSales)}</td>
+          </tr>
+          <tr className="border-b">
+            <td className="py-2 pl-4">Non-taxable Sales</td>
+            <td className="py-2 text-right font-mono">{formatCurrency(report.nonTaxableSales)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b">
+          <tr>
+            <th className="text-left py-2 px-4 font-medium">Tax Rate</th>
+            <th className="text-right py-2 px-4 font-medium">Rate</th>
+            <th className="text-right py-2 px-4 font-medium">Taxable Sales</th>
+            <th className="text-right py-2 px-4 font-medium">Tax Collected</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.rates.map((rate: any) => (
+            <tr key={rate.id} className="border-b">
+              <td className="py-2 px-4">{rate.name}</td>
+              <td className="py-2 px-4 text-right font-mono">{(rate.rate * 100).toFixed(4)}%</td>
+              <td className="py-2 px-4 text-right font-mono">{formatCurrency(rate.taxableSales)}</td>
+              <td className="py-2 px-4 text-right font-mono">{formatCurrency(rate.taxCollected)}</td>
+            </tr>
+          ))}
+          <tr className="font-bold bg-gray-100">
+            <td className="py-2 px-4" colSpan={3}>Total Tax Collected</td>
+            <td className="py-2 px-4 text-right font-mono">{formatCurrency(report.taxCollected)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Amounts owed to each jurisdiction */}
+      {report.components.length > 0 && (
+        <section>
+          <h3 className="font-semibold mb-2">By Jurisdiction</h3>
+          <table className="w-full">
+            <tbody>
+              {report.components.map((component: any) => (
+                <tr key={component.id} className="border-b">
+                  <td className="py-2">{component.name}</td>
+                  <td className="py-2 text-right font-mono">{formatCurrency(component.taxCollected)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <div className="p-4 rounded-lg bg-gray-100 space-y-2">
+        <div className="flex justify-between">
+          <span>Payments in period</span>
+          <span className="font-mono">{formatCurrency(report.paymentsInPeriod)}</span>
+        </div>
+        <div className="flex justify-between font-bold text-lg">
+          <span>Sales Tax Payable</span>
+          <span className="font-mono">{formatCurrency(report.taxPayable)}</span>
+        </div>
+        {!payment && report.taxPayable > 0 && (
+          <Button
+            size="sm"
+            onClick={() => setPayment({ amount: report.taxPayable.toFixed(2), paymentAccountId: '' })}
+          >
+            Record Tax Payment
+          </Button>
+        )}
+      </div>
+
+      {payment && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            recordPayment.mutate(payment);
+          }}
+          className="flex items-end gap-4"
+        >
+          <div className="space-y-2">
+            <Label>Amount</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={payment.amount}
+              onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+              className="w-36"
+              required
+            />
+          </div>
+          <div className="space-y-2 flex-1">
+            <Label>Paid From</Label>
+            <select
+              value={payment.paymentAccountId}
+              onChange={(e) => setPayment({ ...payment, paymentAccountId: e.target.value })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              required
+            >
+              <option value="">Select account...</option>
+              {bankAccounts.map((account: any) => (
+                <option key={account.id} value={account.account.id}>
+                  {account.account.code} - {account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" disabled={recordPayment.isPending}>
+            {recordPayment.isPending ? 'Saving...' : 'Record'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setPayment(null)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
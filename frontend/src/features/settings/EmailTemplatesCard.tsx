@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPatch, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+
+interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+interface CompanyWithEmailTemplates {
+  settings: { emailTemplates?: { invoice?: EmailTemplate; statement?: EmailTemplate } };
+}
+
+type TemplateKind = 'invoice' | 'statement';
+
+const TEMPLATE_INFO: Record<
+  TemplateKind,
+  { title: string; description: string; subject: string; placeholders: string[] }
+> = {
+  invoice: {
+    title: 'Invoice Email',
+    description: 'Subject and message for invoices emailed to customers.',
+    subject: 'Invoice {{invoiceNumber}} from {{companyName}}',
+    placeholders: ['companyName', 'customerName', 'invoiceNumber', 'date', 'dueDate', 'total', 'amountDue'],
+  },
+  statement: {
+    title: 'Statement Email',
+    description: 'Subject and message for customer statements.',
+    subject: 'Statement from {{companyName}}',
+    placeholders: ['companyName', 'customerName', 'startDate', 'endDate', 'balance'],
+  },
+};
+
+export function EmailTemplatesCard({ kind }: { kind: TemplateKind }) {
+  const info = TEMPLATE_INFO[kind];
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+
+  const [template, setTemplate] = useState<EmailTemplate>({ subject: '', body: '' });
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['company', currentCompanyId],
+    queryFn: () => apiGet<CompanyWithEmailTemplates>(`/companies/${currentCompanyId}`),
+  });
+
+  const saved = data?.data?.settings.emailTemplates;
+
+  useEffect(() => {
+    setTemplate(saved?.[kind] ?? { subject: '', body: '' });
+  }, [saved, kind]);
+
+  const saveTemplates = useMutation({
+    // Clearing both fields goes back to the built-in wording
+    mutationFn: (value: EmailTemplate | undefined) =>
+      apiPatch(`/companies/${currentCompanyId}/settings`, {
+        emailTemplates: { ...saved, [kind]: value },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company', currentCompanyId] });
+      setMessage({ text: 'Email template saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save email template'), error: true }),
+  });
+
+  const isBlank = !template.subject && !template.body;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{info.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {info.description} Leave both blank to use the standard wording. Available
+          placeholders: {info.placeholders.map((name) => `{{${name}}}`).join(', ')}
+        </p>
+
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveTemplates.mutate(isBlank ? undefined : template);
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label>Subject</Label>
+            <Input
+              value={template.subject}
+              onChange={(e) => setTemplate({ ...template, subject: e.target.value })}
+              placeholder={info.subject}
+              maxLength={200}
+              required={!isBlank}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Message</Label>
+            <textarea
+              value={template.body}
+              onChange={(e) => setTemplate({ ...template, body: e.target.value })}
+              rows={6}
+              maxLength={10000}
+              required={!isBlank}
+              disabled={!isAdmin}
+              className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          {isAdmin && (
+            <Button type="submit" disabled={saveTemplates.isPending}>
+              Save Email Template
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,389 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPatch, apiPut, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+
+export interface InvoiceTemplate {
+  name: string;
+  logoPosition: 'left' | 'center' | 'right' | 'none';
+  primaryColor: string;
+  accentColor: string;
+  footerText?: string;
+  customFields: { label: string; value: string }[];
+  showCompanyTaxId: boolean;
+  showShippingAddress: boolean;
+  showTaxBreakdown: boolean;
+  showPayments: boolean;
+}
+
+interface CompanyWithTemplates {
+  logo: string | null;
+  settings: { invoiceTemplates?: InvoiceTemplate[]; defaultInvoiceTemplate?: string | null };
+}
+
+const emptyTemplate = (): InvoiceTemplate => ({
+  name: '',
+  logoPosition: 'left',
+  primaryColor: '#1f2937',
+  accentColor: '#2563eb',
+  footerText: '',
+  customFields: [],
+  showCompanyTaxId: true,
+  showShippingAddress: true,
+  showTaxBreakdown: true,
+  showPayments: true,
+});
+
+const toggles: { key: keyof InvoiceTemplate & `show${string}`; label: string }[] = [
+  { key: 'showCompanyTaxId', label: 'Company tax ID' },
+  { key: 'showShippingAddress', label: 'Shipping address' },
+  { key: 'showTaxBreakdown', label: 'Tax by rate' },
+  { key: 'showPayments', label: 'Payments applied' },
+];
+
+export function InvoiceTemplatesCard() {
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+
+  // Index of the template being edited; -1 for a new one
+  const [editing, setEditing] = useState<{ index: number; template: InvoiceTemplate } | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['company', currentCompanyId],
+    queryFn: () => apiGet<CompanyWithTemplates>(`/companies/${currentCompanyId}`),
+  });
+
+  const company = data?.data;
+  const templates = company?.settings.invoiceTemplates ?? [];
+  const defaultName = company?.settings.defaultInvoiceTemplate ?? templates[0]?.name ?? null;
+
+  const saveTemplates = useMutation({
+    mutationFn: (values: { invoiceTemplates: InvoiceTemplate[]; defaultInvoiceTemplate: string | null }) =>
+      apiPatch(`/companies/${currentCompanyId}/settings`, values),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company', currentCompanyId] });
+      setEditing(null);
+      setMessage({ text: 'Invoice templates saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save invoice templates'), error: true }),
+  });
+
+  const updateLogo = useMutation({
+    mutationFn: (logo: string | null) => apiPut(`/companies/${currentCompanyId}`, { logo }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company', currentCompanyId] });
+      setMessage({ text: 'Logo saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save logo'), error: true }),
+  });
+
+  const handleLogoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => updateLogo.mutate(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const save = (next: InvoiceTemplate[], nextDefault: string | null) =>
+    saveTemplates.mutate({
+      invoiceTemplates: next,
+      defaultInvoiceTemplate: next.some((t) => t.name === nextDefault) ? nextDefault : null,
+    });
+
+  const submitTemplate = () => {
+    if (!editing) return;
+    const template = {
+      ...editing.template,
+      customFields: editing.template.customFields.filter((field) => field.label),
+    };
+    const next =
+      editing.index < 0
+        ? [...templates, template]
+        : templates.map((t, index) => (index === editing.index ? template : t));
+    const previousName = editing.index < 0 ? null : templates[editing.index].name;
+    save(next, defaultName === previousName ? template.name : defaultName);
+  };
+
+  const setField = <K extends keyof InvoiceTemplate>(key: K, value: InvoiceTemplate[K]) =>
+    editing && setEditing({ ...editing, template: { ...editing.template, [key]: value } });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invoice Templates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Layouts used for invoice PDFs. Without a template, invoices print with the standard layout.
+        </p>
+
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="flex items-center gap-4">
+          {company?.logo ? (
+            <img src={company.logo} alt="Company logo" className="h-12 max-w-[150px] object-contain border rounded" />
+          ) : (
+            <span className="text-sm text-muted-foreground">No logo uploaded</span>
+          )}
+          {isAdmin && (
+            <>
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {updateLogo.isPending ? 'Uploading...' : 'Upload Logo'}
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={handleLogoFile}
+                  />
+                </label>
+              </Button>
+              {company?.logo && (
+                <Button variant="ghost" size="sm" onClick={() => updateLogo.mutate(null)}>
+                  Remove
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+
+        {templates.length > 0 && (
+          <table className="w-full text-sm border rounded-md">
+            <tbody>
+              {templates.map((template, index) => (
+                <tr key={template.name} className="border-b">
+                  <td className="py-2 px-4 font-medium">{template.name}</td>
+                  <td className="py-2 px-4">
+                    <span className="inline-flex gap-1 items-center">
+                      <span className="w-4 h-4 rounded" style={{ backgroundColor: template.primaryColor }} />
+                      <span className="w-4 h-4 rounded" style={{ backgroundColor: template.accentColor }} />
+                    </span>
+                  </td>
+                  <td className="py-2 px-4 text-muted-foreground capitalize">
+                    Logo: {template.logoPosition}
+                  </td>
+                  <td className="py-2 px-4">
+                    {template.name === defaultName ? (
+                      <span className="px-2 py-1 rounded text-xs bg-green-100 text-green-800">DEFAULT</span>
+                    ) : (
+                      isAdmin && (
+                        <button
+                          type="button"
+                          className="text-xs hover:text-primary"
+                          onClick={() => save(templates, template.name)}
+                        >
+                          Make default
+                        </button>
+                      )
+                    )}
+                  </td>
+                  <td className="py-1 px-2 text-right whitespace-nowrap">
+                    {isAdmin && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditing({ index, template: { ...emptyTemplate(), ...template } })}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          onClick={() => {
+                            if (confirm(`Delete the "${template.name}" template?`)) {
+                              save(
+                                templates.filter((_, i) => i !== index),
+                                defaultName
+                              );
+                            }
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {isAdmin && !editing && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setMessage(null);
+              setEditing({ index: -1, template: emptyTemplate() });
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Template
+          </Button>
+        )}
+
+        {editing && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitTemplate();
+            }}
+            className="space-y-4 border-t pt-4"
+          >
+            <div className="grid grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  value={editing.template.name}
+                  onChange={(e) => setField('name', e.target.value)}
+                  maxLength={50}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Logo Placement</Label>
+                <select
+                  value={editing.template.logoPosition}
+                  onChange={(e) => setField('logoPosition', e.target.value as InvoiceTemplate['logoPosition'])}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="left">Left</option>
+                  <option value="center">Center</option>
+                  <option value="right">Right</option>
+                  <option value="none">Hidden</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>Heading Color</Label>
+                <Input
+                  type="color"
+                  value={editing.template.primaryColor}
+                  onChange={(e) => setField('primaryColor', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Accent Color</Label>
+                <Input
+                  type="color"
+                  value={editing.template.accentColor}
+                  onChange={(e) => setField('accentColor', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Footer Text</Label>
+              <Input
+                value={editing.template.footerText ?? ''}
+                onChange={(e) => setField('footerText', e.target.value)}
+                placeholder="Payment instructions, thank-you note..."
+                maxLength={1000}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Custom Fields</Label>
+              {editing.template.customFields.map((field, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={field.label}
+                    onChange={(e) =>
+                      setField(
+                        'customFields',
+                        editing.template.customFields.map((f, i) =>
+                          i === index ? { ...f, label: e.target.value } : f
+                        )
+                      )
+                    }
+                    placeholder="Label"
+                    className="w-48"
+                  />
+                  <Input
+                    value={field.value}
+                    onChange={(e) =>
+                      setField(
+                        'customFields',
+                        editing.template.customFields.map((f, i) =>
+                          i === index ? { ...f, value: e.target.value } : f
+                        )
+                      )
+                    }
+                    placeholder="Value"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setField(
+                        'customFields',
+                        editing.template.customFields.filter((_, i) => i !== index)
+                      )
+                    }
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {editing.template.customFields.length < 10 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setField('customFields', [...editing.template.customFields, { label: '', value: '' }])
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Field
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              {toggles.map((toggle) => (
+                <label key={toggle.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={editing.template[toggle.key]}
+                    onChange={(e) => setField(toggle.key, e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  {toggle.label}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saveTemplates.isPending}>
+                Save Template
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
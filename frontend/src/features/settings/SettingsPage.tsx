@@ -0,0 +1,375 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Lock, Unlock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  apiGet,
+  apiPost,
+  apiPut,
+  apiPatch,
+  errorMessage,
+  CLOSING_DATE_PASSWORD_KEY,
+} from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { ExchangeRatesCard } from '@/features/currency/ExchangeRatesCard';
+import { InvoiceTemplatesCard } from './InvoiceTemplatesCard';
+import { EmailTemplatesCard } from './EmailTemplatesCard';
+import { DunningCard } from '@/features/dunning/DunningCard';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface ClosingDateSettings {
+  closingDate: string | null;
+  hasPassword: boolean;
+}
+
+interface CompanySettings {
+  settings: { journalApprovalThreshold?: number | null };
+}
+
+interface ClosingDateForm {
+  date: string;
+  password: string;
+  removePassword: boolean;
+}
+
+export function SettingsPage() {
+  const { companies, currentCompanyId } = useAuthStore();
+  const role = companies.find((c) => c.id === currentCompanyId)?.role;
+  const isAdmin = role === 'OWNER' || role === 'ADMIN';
+
+  const [closing, setClosing] = useState<ClosingDateForm | null>(null);
+  const [override, setOverride] = useState('');
+  const [overrideActive, setOverrideActive] = useState(
+    () => sessionStorage.getItem(CLOSING_DATE_PASSWORD_KEY) !== null
+  );
+  const [yearEnd, setYearEnd] = useState({ date: '', lockPeriod: true });
+  const [threshold, setThreshold] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['closingDate'],
+    queryFn: () => apiGet<ClosingDateSettings>('/periods/closing-date'),
+  });
+
+  const settings = data?.data;
+
+  const { data: companyData } = useQuery({
+    queryKey: ['company', currentCompanyId],
+    queryFn: () => apiGet<CompanySettings>(`/companies/${currentCompanyId}`),
+  });
+
+  const approvalThreshold = companyData?.data?.settings.journalApprovalThreshold ?? null;
+
+  const updateThreshold = useMutation({
+    mutationFn: (value: string) =>
+      apiPatch(`/companies/${currentCompanyId}/settings`, {
+        journalApprovalThreshold: value ? parseFloat(value) : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company', currentCompanyId] });
+      setThreshold(null);
+      setMessage({ text: 'Approval threshold saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save approval threshold'), error: true }),
+  });
+
+  const updateClosingDate = useMutation({
+    mutationFn: (values: ClosingDateForm) =>
+      apiPut('/periods/closing-date', {
+        closingDate: values.date ? new Date(values.date).toISOString() : null,
+        ...(values.removePassword
+          ? { password: null }
+          : values.password
+            ? { password: values.password }
+            : {}),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['closingDate'] });
+      setClosing(null);
+      setMessage({ text: 'Closing date saved' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to save closing date'), error: true }),
+  });
+
+  const closeYear = useMutation({
+    mutationFn: (values: typeof yearEnd) =>
+      apiPost('/periods/year-end-close', {
+        fiscalYearEnd: new Date(values.date).toISOString(),
+        lockPeriod: values.lockPeriod,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['closingDate'] });
+      queryClient.invalidateQueries({ queryKey: ['report'] });
+      setYearEnd({ date: '', lockPeriod: true });
+      setMessage({ text: 'Fiscal year closed; net income moved to Retained Earnings' });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to close the year'), error: true }),
+  });
+
+  const toggleOverride = () => {
+    if (overrideActive) {
+      sessionStorage.removeItem(CLOSING_DATE_PASSWORD_KEY);
+      setOverrideActive(false);
+    } else if (override) {
+      sessionStorage.setItem(CLOSING_DATE_PASSWORD_KEY, override);
+      setOverride('');
+      setOverrideActive(true);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground">Period close, year-end, journal approvals, currencies and invoice templates</p>
+      </div>
+
+      {message && (
+        <div
+          className={
+            message.error
+              ? 'p-3 text-sm text-destructive bg-destructive/10 rounded-md'
+              : 'p-3 text-sm text-green-800 bg-green-100 rounded-md'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Closing Date</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Transactions dated on or before the closing date cannot be created, edited or voided.
+          </p>
+          <div className="flex items-center gap-6 text-sm">
+            <span>
+              Books closed through:{' '}
+              <span className="font-medium">
+                {settings?.closingDate ? formatDate(settings.closingDate, 'long') : 'Not set'}
+              </span>
+            </span>
+            <span className="text-muted-foreground">
+              {settings?.hasPassword ? 'Override password set' : 'No override password'}
+            </span>
+            {isAdmin && !closing && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setClosing({
+                    date: settings?.closingDate?.split('T')[0] || '',
+                    password: '',
+                    removePassword: false,
+                  })
+                }
+              >
+                Change
+              </Button>
+            )}
+          </div>
+
+          {closing && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateClosingDate.mutate(closing);
+              }}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Closing Date</Label>
+                  <Input
+                    type="date"
+                    value={closing.date}
+                    onChange={(e) => setClosing({ ...closing, date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Override Password</Label>
+                  <Input
+                    type="password"
+                    minLength={8}
+                    value={closing.password}
+                    onChange={(e) => setClosing({ ...closing, password: e.target.value })}
+                    placeholder={settings?.hasPassword ? 'Leave blank to keep' : 'Optional'}
+                    disabled={closing.removePassword}
+                  />
+                </div>
+                {settings?.hasPassword && (
+                  <label className="flex items-center gap-2 text-sm pt-8">
+                    <input
+                      type="checkbox"
+                      checked={closing.removePassword}
+                      onChange={(e) => setClosing({ ...closing, removePassword: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    Remove override password
+                  </label>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={updateClosingDate.isPending}>
+                  Save
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setClosing(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {isAdmin && settings?.hasPassword && (
+            <div className="border-t pt-4 space-y-2">
+              <Label>Work in Closed Periods</Label>
+              <p className="text-sm text-muted-foreground">
+                Enter the override password to change closed transactions for the rest of this browser session.
+              </p>
+              <div className="flex gap-2 w-96">
+                {!overrideActive && (
+                  <Input
+                    type="password"
+                    value={override}
+                    onChange={(e) => setOverride(e.target.value)}
+                  />
+                )}
+                <Button variant="outline" onClick={toggleOverride}>
+                  {overrideActive ? (
+                    <>
+                      <Lock className="w-4 h-4 mr-2" />
+                      Lock Closed Periods
+                    </>
+                  ) : (
+                    <>
+                      <Unlock className="w-4 h-4 mr-2" />
+                      Unlock
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Journal Entry Approval</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Manual entries members create above this amount are held as drafts until an owner or
+            admin approves them.
+          </p>
+          {threshold === null ? (
+            <div className="flex items-center gap-6 text-sm">
+              <span>
+                Threshold:{' '}
+                <span className="font-medium">
+                  {approvalThreshold === null ? 'No approval required' : formatCurrency(approvalThreshold)}
+                </span>
+              </span>
+              {isAdmin && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setThreshold(approvalThreshold === null ? '' : String(approvalThreshold))}
+                >
+                  Change
+                </Button>
+              )}
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateThreshold.mutate(threshold);
+              }}
+              className="flex items-end gap-2"
+            >
+              <div className="space-y-2 w-48">
+                <Label>Threshold</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder="Blank for none"
+                />
+              </div>
+              <Button type="submit" disabled={updateThreshold.isPending}>
+                Save
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setThreshold(null)}>
+                Cancel
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <ExchangeRatesCard />
+
+      <InvoiceTemplatesCard />
+
+      <EmailTemplatesCard kind="invoice" />
+      <EmailTemplatesCard kind="statement" />
+
+      <DunningCard />
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Year-End Close</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                closeYear.mutate(yearEnd);
+              }}
+              className="space-y-4"
+            >
+              <p className="text-sm text-muted-foreground">
+                Posts a closing entry on the last day of the fiscal year that zeroes income and
+                expense accounts and moves net income into Retained Earnings.
+              </p>
+              <div className="flex items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Fiscal Year End *</Label>
+                  <Input
+                    type="date"
+                    value={yearEnd.date}
+                    onChange={(e) => setYearEnd({ ...yearEnd, date: e.target.value })}
+                    required
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm pb-3">
+                  <input
+                    type="checkbox"
+                    checked={yearEnd.lockPeriod}
+                    onChange={(e) => setYearEnd({ ...yearEnd, lockPeriod: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  Move the closing date to the year end
+                </label>
+                <Button type="submit" disabled={closeYear.isPending}>
+                  Close Year
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { FileDown, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiPost, apiDownload, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import type { StatementType } from './StatementsPage';
+
+interface CustomerStatementCardProps {
+  customerId: string;
+  hasEmail: boolean;
+  className?: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function CustomerStatementCard({ customerId, hasEmail, className }: CustomerStatementCardProps) {
+  const { companies, currentCompanyId } = useAuthStore();
+  const canWrite = companies.find((c) => c.id === currentCompanyId)?.role !== 'READONLY';
+
+  const [type, setType] = useState<StatementType>('OPEN_ITEM');
+  const [startDate, setStartDate] = useState(() => today().slice(0, 8) + '01');
+  const [endDate, setEndDate] = useState(today);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const params = {
+    type,
+    startDate: new Date(startDate).toISOString(),
+    endDate: new Date(endDate).toISOString(),
+  };
+
+  const email = useMutation({
+    mutationFn: () => apiPost('/statements/email', { ...params, customerIds: [customerId] }),
+    onSuccess: () => setMessage({ text: 'Statement email queued' }),
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to email statement'), error: true }),
+  });
+
+  const download = async () => {
+    try {
+      await apiDownload(`/statements/customers/${customerId}/pdf`, params);
+    } catch {
+      setMessage({ text: 'Failed to generate statement', error: true });
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Statement</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {message && (
+          <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-green-800'}>
+            {message.text}
+          </p>
+        )}
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as StatementType)}
+              className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="OPEN_ITEM">Open item</option>
+              <option value="BALANCE_FORWARD">Balance forward</option>
+            </select>
+          </div>
+          {type === 'BALANCE_FORWARD' && (
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>{type === 'BALANCE_FORWARD' ? 'To' : 'As of'}</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={download}>
+            <FileDown className="w-4 h-4 mr-2" />
+            Download PDF
+          </Button>
+          {canWrite && (
+            <Button
+              variant="outline"
+              onClick={() => email.mutate()}
+              disabled={!hasEmail || email.isPending}
+              title={hasEmail ? undefined : 'Customer has no email address'}
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Email Statement
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { FileDown, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, apiDownload, errorMessage } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
+import { formatCurrency } from '@/lib/utils';
+
+export type StatementType = 'OPEN_ITEM' | 'BALANCE_FORWARD';
+
+interface CustomerStatement {
+  currency: string;
+  customer: { id: string; name: string; email: string | null };
+  openItems: { daysOverdue: number }[];
+  aging: { period: string; amount: number }[];
+  balance: number;
+}
+
+interface EmailResult {
+  queued: number;
+  skipped: { customerId: string; name: string }[];
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+const firstOfMonth = () => today().slice(0, 8) + '01';
+
+export function StatementsPage() {
+  const { companies, currentCompanyId } = useAuthStore();
+  const canWrite = companies.find((c) => c.id === currentCompanyId)?.role !== 'READONLY';
+
+  const [type, setType] = useState<StatementType>('OPEN_ITEM');
+  const [startDate, setStartDate] = useState(firstOfMonth);
+  const [endDate, setEndDate] = useState(today);
+  const [filter, setFilter] = useState<'WITH_BALANCE' | 'OVERDUE'>('WITH_BALANCE');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const params = {
+    type,
+    startDate: new Date(startDate).toISOString(),
+    endDate: new Date(endDate).toISOString(),
+    filter,
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['statements', params],
+    queryFn: () => apiGet<CustomerStatement[]>('/statements', params),
+    enabled: !!startDate && !!endDate,
+  });
+
+  const statements = data?.data || [];
+  const agingPeriods = statements[0]?.aging.map((bucket) => bucket.period) ?? [];
+
+  const emailAll = useMutation({
+    mutationFn: () => apiPost<EmailResult>('/statements/email', params),
+    onSuccess: (response) => {
+      const result = response.data;
+      setMessage({
+        text:
+          `Queued ${result?.queued ?? 0} statement email(s)` +
+          (result?.skipped.length
+            ? `; skipped ${result.skipped.map((c) => c.name).join(', ')} (no email address)`
+            : ''),
+        error: !!result?.skipped.length,
+      });
+    },
+    onError: (err) => setMessage({ text: errorMessage(err, 'Failed to email statements'), error: true }),
+  });
+
+  const download = async (url: string, query: Record<string, string>) => {
+    try {
+      await apiDownload(url, query);
+    } catch {
+      setMessage({ text: 'Failed to generate PDF', error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Customer Statements</h1>
+          <p className="text-muted-foreground">Open-item and balance-forward statements with aging</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => download('/statements/pdf', params)}
+            disabled={statements.length === 0}
+          >
+            <FileDown className="w-4 h-4 mr-2" />
+            Download All
+          </Button>
+          {canWrite && (
+            <Button
+              onClick={() => {
+                if (confirm(`Email statements to ${statements.length} customer(s)?`)) {
+                  setMessage(null);
+                  emailAll.mutate();
+                }
+              }}
+              disabled={statements.length === 0 || emailAll.isPending}
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              {emailAll.isPending ? 'Queueing...' : 'Email All'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={
+            message.error
+              ? 'p-3 text-sm text-destructive bg-destructive/10 rounded-md'
+              : 'p-3 text-sm text-green-800 bg-green-100 rounded-md'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as StatementType)}
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="OPEN_ITEM">Open item</option>
+            <option value="BALANCE_FORWARD">Balance forward</option>
+          </select>
+        </div>
+        {type === 'BALANCE_FORWARD' && (
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label>{type === 'BALANCE_FORWARD' ? 'To' : 'As of'}</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Customers</Label>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as typeof filter)}
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="WITH_BALANCE">All with a balance</option>
+            <option value="OVERDUE">Only overdue</option>
+          </select>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : statements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No customers match</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium">Customer</th>
+                  {agingPeriods.map((period) => (
+                    <th key={period} className="text-right py-3 px-4 font-medium">
+                      {period}
+                    </th>
+                  ))}
+                  <th className="text-right py-3 px-4 font-medium">Balance</th>
+                  <th className="w-12"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {statements.map((statement) => (
+                  <tr key={statement.customer.id} className="border-b hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <Link to={`/customers/${statement.customer.id}`} className="hover:text-primary">
+                        {statement.customer.name}
+                      </Link>
+                      {!statement.customer.email && (
+                        <span className="ml-2 text-xs text-muted-foreground">(no email)</span>
+                      )}
+                    </td>
+                    {statement.aging.map((bucket) => (
+                      <td key={bucket.period} className="py-3 px-4 text-right font-mono">
+                        {bucket.amount ? formatCurrency(bucket.amount, statement.currency) : '-'}
+                      </td>
+                    ))}
+                    <td className="py-3 px-4 text-right font-mono font-medium">
+                      {formatCurrency(statement.balance, statement.currency)}
+                    </td>
+                    <td className="py-1 px-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Download PDF"
+                        onClick={() =>
+                          download(`/statements/customers/${statement.customer.id}/pdf`, {
+                            type: params.type,
+                            startDate: params.startDate,
+                            endDate: params.endDate,
+                          })
+                        }
+                      >
+                        <FileDown className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiGet, apiPost, apiPut, apiDelete } from '@/api/client';
+import { cn } from '@/lib/utils';
+
+interface TaxRate {
+  id: string;
+  name: string;
+  description: string | null;
+  rate: number;
+  isCombined: boolean;
+  isActive: boolean;
+  components: { id: string; name: string; rate: number; isCompound: boolean }[];
+}
+
+interface ComponentSelection {
+  taxRateId: string;
+  isCompound: boolean;
+}
+
+const emptyRate = {
+  name: '',
+  description: '',
+  percent: '',
+  isCombined: false,
+  components: [] as ComponentSelection[],
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(4).replace(/\.?0+$/, '')}%`;
+
+export function TaxRatesPage() {
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newRate, setNewRate] = useState(emptyRate);
+  const [editing, setEditing] = useState<{ id: string; percent: string } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['taxRates'],
+    queryFn: () => apiGet<TaxRate[]>('/tax/rates'),
+  });
+
+  const createRate = useMutation({
+    mutationFn: (rate: typeof newRate) =>
+      apiPost('/tax/rates', {
+        name: rate.name,
+        description: rate.description || undefined,
+        ...(rate.isCombined
+          ? { components: rate.components }
+          : { rate: parseFloat(rate.percent) / 100 }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taxRates'] });
+      setShowAddForm(false);
+      setNewRate(emptyRate);
+    },
+  });
+
+  const updateRate = useMutation({
+    mutationFn: ({ id, ...body }: { id: string; rate?: number; isActive?: boolean }) =>
+      apiPut(`/tax/rates/${id}`, body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taxRates'] });
+      setEditing(null);
+    },
+  });
+
+  const deactivateRate = useMutation({
+    mutationFn: (id: string) => apiDelete(`/tax/rates/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['taxRates'] }),
+  });
+
+  const taxRates = data?.data || [];
+  const singleRates = taxRates.filter((rate) => !rate.isCombined && rate.isActive);
+
+  const toggleComponent = (taxRateId: string, checked: boolean) => {
+    setNewRate({
+      ...newRate,
+      components: checked
+        ? [...newRate.components, { taxRateId, isCompound: false }]
+        : newRate.components.filter((c) => c.taxRateId !== taxRateId),
+    });
+  };
+
+  const setCompound = (taxRateId: string, isCompound: boolean) => {
+    setNewRate({
+      ...newRate,
+      components: newRate.components.map((c) =>
+        c.taxRateId === taxRateId ? { ...c, isCompound } : c
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Tax Rates</h1>
+          <p className="text-muted-foreground">Sales tax rates charged on invoices and bills</p>
+        </div>
+        <Button onClick={() => setShowAddForm(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Tax Rate
+        </Button>
+      </div>
+
+      {/* Add Form */}
+      {showAddForm && (
+        <Card>
+          <CardContent className="pt-6">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createRate.mutate(newRate);
+              }}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Name *</Label>
+                  <Input
+                    value={newRate.name}
+                    onChange={(e) => setNewRate({ ...newRate, name: e.target.value })}
+                    placeholder="e.g. State Sales Tax"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Description</Label>
+                  <Input
+                    value={newRate.description}
+                    onChange={(e) => setNewRate({ ...newRate, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <select
+                    value={newRate.isCombined ? 'combined' : 'single'}
+                    onChange={(e) => setNewRate({ ...newRate, isCombined: e.target.value === 'combined' })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="single">Single rate</option>
+                    <option value="combined">Combined rate</option>
+                  </select>
+                </div>
+              </div>
+
+              {newRate.isCombined ? (
+                <div className="space-y-2">
+                  <Label>Components (in order applied)</Label>
+                  {singleRates.length < 2 && (
+                    <p className="text-sm text-muted-foreground">
+                      Add at least two single rates to combine them
+                    </p>
+                  )}
+                  {singleRates.map((rate) => {
+                    const selected = newRate.components.find((c) => c.taxRateId === rate.id);
+                    return (
+                      <div key={rate.id} className="flex items-center gap-6 text-sm">
+                        <label className="flex items-center gap-2 w-64">
+                          <input
+                            type="checkbox"
+                            checked={!!selected}
+                            onChange={(e) => toggleComponent(rate.id, e.target.checked)}
+                            className="w-4 h-4"
+                          />
+                          {rate.name} ({formatPercent(rate.rate)})
+                        </label>
+                        {selected && (
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={selected.isCompound}
+                              onChange={(e) => setCompound(rate.id, e.target.checked)}
+                              className="w-4 h-4"
+                            />
+                            Compound (tax on tax)
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-2 w-48">
+                  <Label>Rate (%) *</Label>
+                  <Input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    max="100"
+                    value={newRate.percent}
+                    onChange={(e) => setNewRate({ ...newRate, percent: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={createRate.isPending}>
+                  {createRate.isPending ? 'Creating...' : 'Create'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowAddForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tax Rate List */}
+      {isLoading ? (
+        <div className="text-center py-8">Loading tax rates...</div>
+      ) : taxRates.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No tax rates yet</p>
+            <Button className="mt-4" onClick={() => setShowAddForm(true)}>
+              Add Your First Tax Rate
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium">Name</th>
+                  <th className="text-left py-3 px-4 font-medium">Components</th>
+                  <th className="text-right py-3 px-4 font-medium">Rate</th>
+                  <th className="text-center py-3 px-4 font-medium">Status</th>
+                  <th className="w-44"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxRates.map((rate) => (
+                  <tr key={rate.id} className="border-b hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <span className="font-medium">{rate.name}</span>
+                      {rate.description && (
+                        <p className="text-sm text-muted-foreground">{rate.description}</p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {rate.isCombined
+                        ? rate.components
+                            .map((c) => `${c.name}${c.isCompound ? ' (compound)' : ''}`)
+                            .join(' + ')
+                        : '-'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {editing?.id === rate.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            updateRate.mutate({ id: rate.id, rate: parseFloat(editing.percent) / 100 });
+                          }}
+                          className="flex justify-end gap-2"
+                        >
+                          <Input
+                            type="number"
+                            step="0.0001"
+                            min="0"
+                            max="100"
+                            value={editing.percent}
+                            onChange={(e) => setEditing({ ...editing, percent: e.target.value })}
+                            className="w-28"
+                            required
+                          />
+                          <Button type="submit" size="sm" disabled={updateRate.isPending}>
+                            Save
+                          </Button>
+                        </form>
+                      ) : (
+                        formatPercent(rate.rate)
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-center">
+                      <span className={cn(
+                        'px-2 py-1 rounded text-xs',
+                        rate.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      )}>
+                        {rate.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-right whitespace-nowrap">
+                      {!rate.isCombined && rate.isActive && editing?.id !== rate.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditing({ id: rate.id, percent: String(rate.rate * 100) })}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          rate.isActive
+                            ? deactivateRate.mutate(rate.id)
+                            : updateRate.mutate({ id: rate.id, isActive: true })
+                        }
+                        disabled={deactivateRate.isPending || updateRate.isPending}
+                      >
+                        {rate.isActive ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { apiGet, apiPost } from '@/api/client';
+import { CurrencySelect } from '@/features/currency/CurrencySelect';
 import { formatCurrency, cn } from '@/lib/utils';
 
 interface Vendor {
@@ -14,6 +15,7 @@ interface Vendor {
   name: string;
   email: string | null;
   phone: string | null;
+  currency: string;
   balance: number;
   is1099Eligible: boolean;
   isActive: boolean;
@@ -27,6 +29,7 @@ export function VendorsPage() {
     email: '',
     phone: '',
     is1099Eligible: false,
+    currency: '',
   });
 
   const queryClient = useQueryClient();
@@ -37,11 +40,11 @@ export function VendorsPage() {
   });
 
   const createVendor = useMutation({
-    mutationFn: (vendor: typeof newVendor) => apiPost('/vendors', vendor),
+    mutationFn: (vendor: typeof newVendor) => apiPost('/vendors', { ...vendor, currency: vendor.currency || undefined }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['vendors'] });
       setShowAddForm(false);
-      setNewVendor({ name: '', email: '', phone: '', is1099Eligible: false });
+      setNewVendor({ name: '', email: '', phone: '', is1099Eligible: false, currency: '' });
     },
   });
 
@@ -82,7 +85,7 @@ export function VendorsPage() {
                 e.preventDefault();
                 createVendor.mutate(newVendor);
               }}
-              className="grid grid-cols-5 gap-4"
+              className="grid grid-cols-6 gap-4"
             >
               <div className="space-y-2">
                 <Label>Name *</Label>
@@ -121,6 +124,14 @@ export function VendorsPage() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <CurrencySelect
+                  value={newVendor.currency}
+                  onChange={(currency) => setNewVendor({ ...newVendor, currency })}
+                  defaultLabel="Base currency"
+                />
+              </div>
               <div className="flex items-end gap-2">
                 <Button type="submit" disabled={createVendor.isPending}>
                   {createVendor.isPending ? 'Creating...' : 'Create'}
@@ -180,7 +191,7 @@ export function VendorsPage() {
                     </td>
                     <td className="py-3 px-4 text-right font-mono">
                       <span className={cn(vendor.balance > 0 && 'text-red-600')}>
-                        {formatCurrency(vendor.balance)}
+                        {formatCurrency(vendor.balance, vendor.currency)}
                       </span>
                     </td>
                     <td className="py-3 px-4 text-center">
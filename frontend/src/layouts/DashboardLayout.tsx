@@ -5,11 +5,16 @@ import {
   BookOpen,
   Users,
   Truck,
+  Package,
+  Percent,
   FileText,
+  FileMinus,
+  ScrollText,
   Receipt,
   Building2,
   BarChart3,
   Settings,
+  Repeat,
   LogOut,
   Menu,
   ChevronDown,
@@ -24,9 +29,14 @@ const navigation = [
   { name: 'Chart of Accounts', href: '/accounts', icon: BookOpen },
   { name: 'Customers', href: '/customers', icon: Users },
   { name: 'Invoices', href: '/invoices', icon: FileText },
+  { name: 'Credit Memos', href: '/credit-memos', icon: FileMinus },
+  { name: 'Statements', href: '/statements', icon: ScrollText },
   { name: 'Vendors', href: '/vendors', icon: Truck },
   { name: 'Bills', href: '/bills', icon: Receipt },
+  { name: 'Products', href: '/products', icon: Package },
+  { name: 'Tax Rates', href: '/tax-rates', icon: Percent },
   { name: 'Banking', href: '/banking', icon: Building2 },
+  { name: 'Recurring', href: '/recurring', icon: Repeat },
   { name: 'Reports', href: '/reports', icon: BarChart3 },
 ];
 